@@ -17,6 +17,10 @@ import { CaptureMetricsModule } from './capture-metrics/capture-metrics.module';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { NotificationModule } from './notifications/notification.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { EventsModule } from './common/events/events.module';
+import { RedisModule } from './common/redis/redis.module';
+import { CaptureJobsModule } from './jobs/capture-jobs.module';
 import { AbortInterceptor } from './interceptors/abort.interceptor';
 
 @Module({
@@ -46,10 +50,14 @@ import { AbortInterceptor } from './interceptors/abort.interceptor';
       },
       inject: [ConfigService],
     }),
+    EventsModule,
+    RedisModule,
     CaptureMetricsModule,
     AuthModule,
     UsersModule,
     NotificationModule,
+    SchedulerModule,
+    CaptureJobsModule,
   ],
   providers: [
     {
@@ -3,7 +3,7 @@ import { CaptureMetricsController } from '../../capture-metrics.controller';
 import { BrowserPoolService } from '../../services/browser-pool.service';
 import { CaptureOrchestratorService } from '../../services/capture-orchestrator.service';
 import { JwtAuthGuard } from '~/auth/guards/jwt.guard';
-import { Observable } from 'rxjs';
+import { Observable, of } from 'rxjs';
 import {
   SaveTestRequest,
   AuthenticatedUser,
@@ -17,8 +17,11 @@ describe('CaptureMetricsController', () => {
   beforeEach(async () => {
     const mockCaptureOrchestratorService = {
       startCapture: jest.fn(),
+      toClientEvent: jest.fn(),
       startBatchCapture: jest.fn(),
       saveTestResultFromTemp: jest.fn(),
+      cancelCapture: jest.fn(),
+      cancelBatch: jest.fn(),
     };
 
     const mockBrowserPoolService = {
@@ -54,26 +57,32 @@ describe('CaptureMetricsController', () => {
   });
 
   describe('captureMetrics', () => {
-    it('should call captureOrchestrator.startCapture without user', () => {
+    it('should stream client events of captureOrchestrator.startCapture without user', () => {
       const query = {
         url: 'https://example.com',
         deviceType: 'desktop' as const,
         testType: 'performance' as const,
       };
+      const stored = { data: { status: 'COMPLETE', results: { har: {} } } };
+      const client = { data: { status: 'COMPLETE', results: {} } };
 
-      const mockObservable = new Observable();
-      captureOrchestratorService.startCapture.mockReturnValue(
-        mockObservable as any,
-      );
+      captureOrchestratorService.startCapture.mockReturnValue(of(stored));
+      captureOrchestratorService.toClientEvent.mockReturnValue(client);
 
       const mockRequest = {} as any;
-      const result = controller.captureMetrics(query, mockRequest);
+      const events: unknown[] = [];
+      controller
+        .captureMetrics(query, mockRequest)
+        .subscribe((event) => events.push(event));
 
       expect(captureOrchestratorService.startCapture).toHaveBeenCalledWith(
         query,
         undefined,
       );
-      expect(result).toBe(mockObservable);
+      expect(captureOrchestratorService.toClientEvent).toHaveBeenCalledWith(
+        stored,
+      );
+      expect(events).toEqual([client]);
     });
   });
 
@@ -120,6 +129,50 @@ describe('CaptureMetricsController', () => {
     });
   });
 
+  describe('cancelCapture', () => {
+    it('should cancel the running capture by testId', () => {
+      const response = {
+        message: 'Capture cancelled successfully',
+        testId: 'test-123',
+      };
+      captureOrchestratorService.cancelCapture.mockReturnValue(response);
+
+      const user: AuthenticatedUser = {
+        id: 'user-123',
+        email: 'test@example.com',
+      };
+      const result = controller.cancelCapture('test-123', user);
+
+      expect(captureOrchestratorService.cancelCapture).toHaveBeenCalledWith(
+        'test-123',
+        user.id,
+      );
+      expect(result).toEqual(response);
+    });
+  });
+
+  describe('cancelBatch', () => {
+    it('should cancel the running batch by batchId', () => {
+      const response = {
+        message: 'Batch cancelled successfully',
+        batchId: 'batch-123',
+      };
+      captureOrchestratorService.cancelBatch.mockReturnValue(response);
+
+      const user: AuthenticatedUser = {
+        id: 'user-123',
+        email: 'test@example.com',
+      };
+      const result = controller.cancelBatch('batch-123', user);
+
+      expect(captureOrchestratorService.cancelBatch).toHaveBeenCalledWith(
+        'batch-123',
+        user.id,
+      );
+      expect(result).toEqual(response);
+    });
+  });
+
   describe('captureBatchMetrics', () => {
     it('should call captureOrchestrator.startBatchCapture', () => {
       const query = {
@@ -130,7 +183,6 @@ describe('CaptureMetricsController', () => {
         sequential: 'true',
         includeScreenshots: 'true',
         batchName: 'test-batch',
-        batchId: 'batch-123',
       };
 
       const mockObservable = new Observable();
@@ -152,7 +204,6 @@ describe('CaptureMetricsController', () => {
           sequential: true,
           includeScreenshots: true,
           batchName: 'test-batch',
-          batchId: 'batch-123',
         },
         undefined,
       );
@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  AccessibilityService,
+  AccessibilityAuditResult,
+} from '../../services/accessibility.service';
+import { PuppeteerHelpersService } from '../../services/puppeteer-helpers.service';
+
+describe('AccessibilityService', () => {
+  let service: AccessibilityService;
+  let mockPuppeteerHelpers: jest.Mocked<PuppeteerHelpersService>;
+
+  beforeEach(async () => {
+    mockPuppeteerHelpers = {
+      waitForLoadState: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessibilityService,
+        {
+          provide: PuppeteerHelpersService,
+          useValue: mockPuppeteerHelpers,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AccessibilityService>(AccessibilityService);
+  });
+
+  /**
+   * Mock page whose in-page evaluation returns the given failing nodes per rule.
+   * Rules not listed pass; rules listed in `inapplicable` are reported as such.
+   */
+  const createMockPage = (
+    failing: Record<string, { selector: string; html: string }[]> = {},
+    inapplicable: string[] = [],
+  ) =>
+    ({
+      evaluate: jest
+        .fn()
+        .mockImplementation((_fn: Function, ruleIds: string[]) =>
+          Promise.resolve(
+            Object.fromEntries(
+              ruleIds.map((id) => [
+                id,
+                {
+                  applicable: !inapplicable.includes(id),
+                  nodes: failing[id] || [],
+                },
+              ]),
+            ),
+          ),
+        ),
+    }) as any;
+
+  const collectEvents = async (page: any) => {
+    const events: any[] = [];
+    for await (const event of service.runAccessibilityAudit(
+      page,
+      'https://example.com',
+    )) {
+      events.push(event);
+    }
+    return events;
+  };
+
+  it('should stream start, per-principle progress and completion events', async () => {
+    const events = await collectEvents(createMockPage());
+
+    expect(events[0].status).toBe('ACCESSIBILITY_START');
+    const progress = events.filter((e) => e.status === 'ACCESSIBILITY_PROGRESS');
+    expect(progress.map((e) => e.group)).toEqual([
+      'perceivable',
+      'operable',
+      'understandable',
+      'robust',
+    ]);
+    expect(progress[progress.length - 1].rulesRun).toBe(
+      events[0].totalRules,
+    );
+    expect(events[events.length - 1].status).toBe('ACCESSIBILITY_COMPLETE');
+  });
+
+  it('should report a perfect score when every applicable rule passes', async () => {
+    const events = await collectEvents(createMockPage({}, ['video-caption']));
+    const result: AccessibilityAuditResult = events[events.length - 1].data;
+
+    expect(result.score).toBe(100);
+    expect(result.violations).toHaveLength(0);
+    expect(result.inapplicable).toEqual(['video-caption']);
+    expect(result.passes).toContain('image-alt');
+  });
+
+  it('should return WCAG-tagged violations with impact, selector, html and help text', async () => {
+    const page = createMockPage({
+      'image-alt': [
+        { selector: 'main > img:nth-of-type(2)', html: '<img src="hero.png">' },
+      ],
+    });
+
+    const events = await collectEvents(page);
+    const result: AccessibilityAuditResult = events[events.length - 1].data;
+
+    expect(result.violations).toHaveLength(1);
+    expect(result.violations[0]).toEqual(
+      expect.objectContaining({
+        id: 'image-alt',
+        impact: 'critical',
+        help: 'Images must have alternate text',
+        helpUrl: expect.stringContaining('image-alt'),
+        tags: ['wcag2a', 'wcag111'],
+        wcag: ['1.1.1'],
+        nodes: [
+          { selector: 'main > img:nth-of-type(2)', html: '<img src="hero.png">' },
+        ],
+      }),
+    );
+    expect(result.summary).toEqual(
+      expect.objectContaining({ critical: 1, totalViolations: 1, totalNodes: 1 }),
+    );
+    expect(result.score).toBeLessThan(100);
+  });
+
+  it('should weight critical violations more heavily than moderate ones', async () => {
+    const criticalEvents = await collectEvents(
+      createMockPage({ label: [{ selector: 'input', html: '<input>' }] }),
+    );
+    const moderateEvents = await collectEvents(
+      createMockPage({ 'heading-order': [{ selector: 'h4', html: '<h4>' }] }),
+    );
+
+    expect(criticalEvents[criticalEvents.length - 1].data.score).toBeLessThan(
+      moderateEvents[moderateEvents.length - 1].data.score,
+    );
+  });
+
+  it('should yield an error event when evaluation fails', async () => {
+    const page = {
+      evaluate: jest.fn().mockRejectedValue(new Error('Execution context was destroyed')),
+    } as any;
+
+    const events = await collectEvents(page);
+
+    expect(events[events.length - 1]).toEqual({
+      status: 'ACCESSIBILITY_ERROR',
+      error: 'Execution context was destroyed',
+    });
+  });
+});
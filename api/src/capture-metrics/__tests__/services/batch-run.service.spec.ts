@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+import { BatchRunService } from '../../services/batch-run.service';
+import { BatchRun } from '../../schemas/batch-run.schema';
+
+describe('BatchRunService', () => {
+  let service: BatchRunService;
+  let batchRunModel: {
+    findOneAndUpdate: jest.Mock;
+    findOne: jest.Mock;
+    updateOne: jest.Mock;
+  };
+
+  const userId = new Types.ObjectId();
+
+  beforeEach(async () => {
+    batchRunModel = {
+      findOneAndUpdate: jest.fn(),
+      findOne: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BatchRunService,
+        { provide: getModelToken(BatchRun.name), useValue: batchRunModel },
+      ],
+    }).compile();
+
+    service = module.get<BatchRunService>(BatchRunService);
+  });
+
+  describe('startRun', () => {
+    it('should run the stored settings and only the pending URLs, with their positions', async () => {
+      batchRunModel.findOneAndUpdate.mockResolvedValue({
+        userId,
+        batchId: 'batch-1',
+        testType: 'performance',
+        deviceType: 'mobile',
+        networkType: '4g',
+        includeScreenshots: false,
+        sequential: true,
+        encryptedAuth: 'v1:iv:tag:ciphertext',
+        results: [
+          { url: 'https://example.com', label: 'Home', status: 'COMPLETE' },
+          { url: 'https://example.com', label: 'Home', status: 'PENDING' },
+          { url: 'https://example.com/a', label: 'A', status: 'PENDING' },
+        ],
+      });
+
+      const run = await service.startRun('batch-1', userId.toString());
+
+      expect(batchRunModel.findOneAndUpdate.mock.calls[0][0]).toEqual({
+        batchId: 'batch-1',
+        userId,
+        status: 'PENDING',
+      });
+      expect(run).toMatchObject({
+        userId: userId.toString(),
+        encryptedAuth: 'v1:iv:tag:ciphertext',
+        batchData: {
+          urls: [
+            { url: 'https://example.com', label: 'Home' },
+            { url: 'https://example.com/a', label: 'A' },
+          ],
+          deviceType: 'mobile',
+          networkType: '4g',
+          includeScreenshots: false,
+          sequential: true,
+        },
+        positions: [1, 2],
+      });
+    });
+
+    it('should not attach to a batch that is not pending', async () => {
+      batchRunModel.findOneAndUpdate.mockResolvedValue(null);
+
+      expect(await service.startRun('batch-1', userId.toString())).toBeNull();
+    });
+
+    it('should not look up a batch for an invalid owner', async () => {
+      expect(await service.startRun('batch-1', 'anonymous')).toBeNull();
+      expect(batchRunModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('per-URL updates', () => {
+    it('should address the URL by its position so repeated URLs stay apart', async () => {
+      const resultId = new Types.ObjectId().toString();
+
+      await service.markUrlRunning('batch-1', 1, 'batch-1-2');
+      await service.markUrlCompleted('batch-1', 1, 'batch-1-2', resultId);
+      await service.markUrlFailed('batch-1', 2, 'batch-1-3', 'Timed out');
+
+      const [running, completed, failed] = batchRunModel.updateOne.mock.calls;
+      expect(running[0]).toEqual({
+        batchId: 'batch-1',
+        'results.1.status': 'PENDING',
+      });
+      expect(running[1].$set).toMatchObject({
+        'results.1.status': 'RUNNING',
+        'results.1.testId': 'batch-1-2',
+      });
+      expect(completed[1].$set).toMatchObject({
+        'results.1.status': 'COMPLETE',
+        'results.1.resultId': new Types.ObjectId(resultId),
+      });
+      expect(failed[0]).toEqual({
+        batchId: 'batch-1',
+        'results.2.status': { $in: ['PENDING', 'RUNNING'] },
+      });
+      expect(failed[1].$set).toMatchObject({
+        'results.2.status': 'FAILED',
+        'results.2.error': 'Timed out',
+      });
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import puppeteer from 'puppeteer';
+import { BrowserPoolService } from '../../services/browser-pool.service';
+
+jest.mock('puppeteer', () => ({
+  __esModule: true,
+  default: { launch: jest.fn() },
+}));
+
+describe('BrowserPoolService', () => {
+  let pool: BrowserPoolService;
+  let contexts: ReturnType<typeof createContext>[];
+  let browsers: { close: jest.Mock }[];
+
+  const createPage = () => {
+    let closed = false;
+    return {
+      setViewport: jest.fn().mockResolvedValue(undefined),
+      setUserAgent: jest.fn().mockResolvedValue(undefined),
+      setBypassCSP: jest.fn().mockResolvedValue(undefined),
+      createCDPSession: jest.fn().mockResolvedValue({ id: () => 'target' }),
+      isClosed: () => closed,
+      close: jest.fn(async () => {
+        closed = true;
+      }),
+    };
+  };
+
+  const createContext = () => {
+    const context = {
+      closed: false,
+      pages: [] as ReturnType<typeof createPage>[],
+      newPage: jest.fn(async () => {
+        const page = createPage();
+        context.pages.push(page);
+        return page;
+      }),
+      close: jest.fn(async () => {
+        context.closed = true;
+      }),
+    };
+    return context;
+  };
+
+  beforeEach(() => {
+    contexts = [];
+    browsers = [];
+    (puppeteer.launch as jest.Mock).mockImplementation(async () => {
+      const browser = {
+        connected: true,
+        process: () => null,
+        on: jest.fn(),
+        off: jest.fn(),
+        close: jest.fn(async () => {
+          browser.connected = false;
+        }),
+        createBrowserContext: jest.fn(async () => {
+          const context = createContext();
+          contexts.push(context);
+          return context;
+        }),
+      };
+      browsers.push(browser);
+      return browser;
+    });
+    pool = new BrowserPoolService(2);
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('should open every page in its own browser context', async () => {
+    const first = await pool.requirePage();
+    const second = await pool.requirePage();
+
+    expect(contexts).toHaveLength(2);
+    expect(contexts[0].pages).toEqual([first]);
+    expect(contexts[1].pages).toEqual([second]);
+    expect(pool.getPoolStats()).toMatchObject({
+      maxPages: 2,
+      activePages: 2,
+      activeContexts: 2,
+      contextsCreated: 2,
+      contextsDisposed: 0,
+      browserConnected: true,
+    });
+  });
+
+  it('should dispose of the context on release instead of reusing the page', async () => {
+    const first = await pool.requirePage();
+    await pool.releasePage(first);
+
+    expect(contexts[0].closed).toBe(true);
+    expect(first.isClosed()).toBe(true);
+
+    const next = await pool.requirePage();
+    expect(next).not.toBe(first);
+    expect(pool.getPoolStats()).toMatchObject({
+      activePages: 1,
+      activeContexts: 1,
+      contextsCreated: 2,
+      contextsDisposed: 1,
+    });
+  });
+
+  it('should count pages against the limit and wait for a release when full', async () => {
+    const first = await pool.requirePage();
+    await pool.requirePage();
+
+    let third: unknown = null;
+    const waiting = pool.requirePage().then((page) => (third = page));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(third).toBeNull();
+    expect(pool.getPoolStats().waitingRequests).toBe(1);
+
+    await pool.releasePage(first);
+    await waiting;
+
+    expect(third).not.toBeNull();
+    expect(pool.getPoolStats()).toMatchObject({
+      activePages: 2,
+      activeContexts: 2,
+      waitingRequests: 0,
+    });
+  });
+
+  it('should close every context when the pool closes', async () => {
+    await pool.requirePage();
+    await pool.requirePage();
+
+    await pool.close();
+
+    expect(contexts.every((context) => context.closed)).toBe(true);
+    expect(pool.getPoolStats()).toMatchObject({
+      activePages: 0,
+      activeContexts: 0,
+    });
+  });
+
+  describe('recycling', () => {
+    beforeEach(async () => {
+      await pool.close();
+      pool = new BrowserPoolService(2, 0, 60000, undefined, {
+        maxPagesPerBrowser: 2,
+        memoryLimitMb: 0,
+      });
+    });
+
+    it('should relaunch the browser after serving the page quota', async () => {
+      await pool.releasePage(await pool.requirePage());
+      await pool.releasePage(await pool.requirePage());
+      await pool.requirePage();
+
+      expect(browsers).toHaveLength(2);
+      expect(browsers[0].close).toHaveBeenCalled();
+      expect(pool.getPoolStats().recycling).toMatchObject({
+        pagesServed: 1,
+        draining: null,
+        recycleCount: 1,
+        recyclesByReason: { 'page-count': 1, memory: 0 },
+        forcedRecycles: 0,
+        lastRecycle: { reason: 'page-count', pagesServed: 2, forced: false },
+      });
+    });
+
+    it('should hold new pages until in-flight pages are released', async () => {
+      const first = await pool.requirePage();
+      const second = await pool.requirePage();
+      await pool.releasePage(first);
+
+      let third: unknown = null;
+      const waiting = pool.requirePage().then((page) => (third = page));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(third).toBeNull();
+      expect(browsers[0].close).not.toHaveBeenCalled();
+      expect(pool.getPoolStats().recycling.draining).toBe('page-count');
+
+      await pool.releasePage(second);
+      await waiting;
+
+      expect(third).not.toBeNull();
+      expect(browsers[0].close).toHaveBeenCalled();
+      expect(browsers).toHaveLength(2);
+    });
+
+    it('should force the recycle when the drain times out', async () => {
+      jest.useFakeTimers();
+      try {
+        pool = new BrowserPoolService(2, 0, 60000, undefined, {
+          maxPagesPerBrowser: 1,
+          memoryLimitMb: 0,
+          drainTimeoutMs: 1000,
+        });
+        await pool.requirePage();
+
+        const waiting = pool.requirePage();
+        await jest.advanceTimersByTimeAsync(1000);
+        await waiting;
+
+        expect(pool.getPoolStats().recycling).toMatchObject({
+          recycleCount: 1,
+          forcedRecycles: 1,
+          lastRecycle: { forced: true },
+        });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should recycle when the browser uses more memory than allowed', async () => {
+      pool = new BrowserPoolService(2, 0, 60000, undefined, {
+        maxPagesPerBrowser: 0,
+        memoryLimitMb: 512,
+      });
+      const readMemory = jest
+        .spyOn(pool as any, '_readBrowserMemoryMb')
+        .mockResolvedValueOnce(300)
+        .mockResolvedValueOnce(900)
+        .mockResolvedValue(100);
+
+      await pool.releasePage(await pool.requirePage());
+      await pool.releasePage(await pool.requirePage());
+      await pool.requirePage();
+
+      // Memory is read once a browser is running, before every later page
+      expect(readMemory).toHaveBeenCalledTimes(2);
+      expect(browsers).toHaveLength(2);
+      expect(pool.getPoolStats().recycling).toMatchObject({
+        recyclesByReason: { 'page-count': 0, memory: 1 },
+        lastRecycle: { reason: 'memory', memoryMb: 900 },
+      });
+    });
+  });
+});
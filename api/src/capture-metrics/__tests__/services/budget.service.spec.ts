@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BudgetService } from '../../services/budget.service';
+import {
+  NetworkWaterfall,
+  WebMetricsResult,
+} from '../../interfaces/cache.interface';
+
+describe('BudgetService', () => {
+  let service: BudgetService;
+
+  const webMetrics = {
+    performanceScore: 84,
+    performanceMetrics: {
+      firstContentfulPaint: 1200,
+      largestContentfulPaint: 3100,
+      totalBlockingTime: 150,
+      cumulativeLayoutShift: 0.02,
+    },
+    // Resource Timing sees no bytes of cross-origin scripts
+    networkMetrics: {
+      totalRequests: 60,
+      totalBytes: 1024 * 400,
+      resourceBreakdown: {
+        scripts: [{ transferSize: 1024 * 200 }, { transferSize: 0 }],
+      },
+    },
+  } as unknown as WebMetricsResult;
+
+  const networkWaterfall = {
+    entries: [
+      { resourceType: 'Document', transferSize: 1024 * 30 },
+      { resourceType: 'Script', transferSize: 1024 * 200 },
+      { resourceType: 'Script', transferSize: 1024 * 50 }, // Cross-origin
+      { resourceType: 'Image', transferSize: 1024 * 620 },
+    ],
+    summary: { requests: 64, transferBytes: 1024 * 900 },
+  } as unknown as NetworkWaterfall;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [BudgetService],
+    }).compile();
+
+    service = module.get<BudgetService>(BudgetService);
+  });
+
+  it('should return null when no budget is set', () => {
+    expect(service.evaluate(undefined, webMetrics)).toBeNull();
+    expect(service.evaluate({}, webMetrics)).toBeNull();
+  });
+
+  it('should report each assertion and fail the budget when one is exceeded', () => {
+    const result = service.evaluate(
+      {
+        maxLcp: 2500,
+        maxScriptKb: 300,
+        maxRequests: 80,
+        minPerformanceScore: 90,
+      },
+      webMetrics,
+      networkWaterfall,
+    );
+
+    expect(result?.passed).toBe(false);
+    expect(result?.assertions).toEqual([
+      {
+        metric: 'maxLcp',
+        label: 'Largest Contentful Paint',
+        limit: 2500,
+        actual: 3100,
+        unit: 'ms',
+        status: 'fail',
+      },
+      {
+        metric: 'maxScriptKb',
+        label: 'JavaScript transferred',
+        limit: 300,
+        actual: 250,
+        unit: 'KB',
+        status: 'pass',
+      },
+      {
+        metric: 'maxRequests',
+        label: 'Requests',
+        limit: 80,
+        actual: 64,
+        unit: 'count',
+        status: 'pass',
+      },
+      {
+        metric: 'minPerformanceScore',
+        label: 'Performance score',
+        limit: 90,
+        actual: 84,
+        unit: 'score',
+        status: 'fail',
+      },
+    ]);
+  });
+
+  it('should mark unreported metrics as unknown without failing the budget', () => {
+    const result = service.evaluate(
+      { maxLcp: 2500, maxRequests: 80, maxScriptKb: 100 },
+      {
+        performanceMetrics: { largestContentfulPaint: 0 },
+        networkMetrics: { totalRequests: 12 },
+      } as unknown as WebMetricsResult,
+      null, // Network recording failed
+    );
+
+    expect(result?.passed).toBe(true);
+    expect(result?.assertions.map((assertion) => assertion.status)).toEqual([
+      'unknown',
+      'unknown',
+      'unknown',
+    ]);
+    expect(result?.assertions[0].actual).toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpStatus } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { CaptureOrchestratorService } from '../../services/capture-orchestrator.service';
+import { SingleCaptureService } from '../../services/single-capture.service';
+import { BatchCaptureService } from '../../services/batch-capture.service';
+import { PersistenceService } from '../../services/persistence.service';
+
+describe('CaptureOrchestratorService', () => {
+  let service: CaptureOrchestratorService;
+  let singleCaptureService: { executeCapture: jest.Mock };
+  let batchCaptureService: { executeBatchCapture: jest.Mock };
+
+  // Never completes on its own, like a capture still waiting on the page
+  const pendingCapture = () => new Observable(() => undefined);
+
+  beforeEach(async () => {
+    singleCaptureService = {
+      executeCapture: jest.fn().mockReturnValue(pendingCapture()),
+    };
+    batchCaptureService = {
+      executeBatchCapture: jest.fn().mockReturnValue(pendingCapture()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CaptureOrchestratorService,
+        { provide: SingleCaptureService, useValue: singleCaptureService },
+        { provide: BatchCaptureService, useValue: batchCaptureService },
+        { provide: PersistenceService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<CaptureOrchestratorService>(
+      CaptureOrchestratorService,
+    );
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  describe('cancelCapture', () => {
+    it('should abort the running capture and emit a final CANCELLED event', () => {
+      const statuses: string[] = [];
+      let completed = false;
+
+      service
+        .startCapture(
+          { url: 'https://example.com', testId: 'test-1' },
+          undefined,
+          'user-1',
+        )
+        .subscribe({
+          next: (event) => statuses.push(event.data.status),
+          complete: () => (completed = true),
+        });
+
+      const [, signal] = singleCaptureService.executeCapture.mock.calls[0];
+      const result = service.cancelCapture('test-1', 'user-1');
+
+      expect(result).toEqual({
+        message: 'Capture cancelled successfully',
+        testId: 'test-1',
+      });
+      expect(signal.aborted).toBe(true);
+      expect(statuses).toEqual(['OBSERVABLE_CREATED', 'CANCELLED']);
+      expect(completed).toBe(true);
+      expect(() => service.cancelCapture('test-1', 'user-1')).toThrow(
+        expect.objectContaining({ status: HttpStatus.NOT_FOUND }),
+      );
+    });
+
+    it("should not cancel another user's or an anonymous capture", () => {
+      service
+        .startCapture(
+          { url: 'https://example.com', testId: 'test-1' },
+          undefined,
+          'user-1',
+        )
+        .subscribe();
+      service
+        .startCapture({ url: 'https://example.com', testId: 'test-2' })
+        .subscribe();
+
+      expect(() => service.cancelCapture('test-1', 'user-2')).toThrow(
+        expect.objectContaining({ status: HttpStatus.NOT_FOUND }),
+      );
+      expect(() => service.cancelCapture('test-2', 'user-2')).toThrow(
+        expect.objectContaining({ status: HttpStatus.NOT_FOUND }),
+      );
+      for (const [, signal] of singleCaptureService.executeCapture.mock.calls) {
+        expect(signal.aborted).toBe(false);
+      }
+    });
+
+    it('should cancel when the client disconnects', () => {
+      const clientController = new AbortController();
+      const statuses: string[] = [];
+
+      service
+        .startCapture(
+          { url: 'https://example.com', testId: 'test-1' },
+          clientController.signal,
+        )
+        .subscribe((event) => statuses.push(event.data.status));
+
+      clientController.abort();
+
+      const [, signal] = singleCaptureService.executeCapture.mock.calls[0];
+      expect(signal.aborted).toBe(true);
+      expect(statuses).toContain('CANCELLED');
+    });
+
+    it('should throw NOT_FOUND for an unknown testId', () => {
+      expect(() => service.cancelCapture('missing', 'user-1')).toThrow(
+        expect.objectContaining({ status: HttpStatus.NOT_FOUND }),
+      );
+    });
+  });
+
+  describe('cancelBatch', () => {
+    it('should abort the running batch and emit BATCH_CANCELLED', () => {
+      const events: any[] = [];
+
+      service
+        .startBatchCapture(
+          {
+            urls: [{ url: 'https://a.com' }, { url: 'https://b.com' }],
+            batchId: 'batch-1',
+          },
+          undefined,
+          'user-1',
+        )
+        .subscribe((event) => events.push(event.data));
+
+      service.cancelBatch('batch-1', 'user-1');
+
+      const [, , signal] =
+        batchCaptureService.executeBatchCapture.mock.calls[0];
+      expect(signal.aborted).toBe(true);
+      expect(events[events.length - 1]).toMatchObject({
+        status: 'BATCH_CANCELLED',
+        batchId: 'batch-1',
+        message: 'Batch cancelled by request',
+      });
+    });
+
+    it('should only attach a batch with an owner to a stored batch run', () => {
+      const batch = {
+        urls: [{ url: 'https://a.com' }, { url: 'https://b.com' }],
+        batchId: 'batch-1',
+      };
+      service.startBatchCapture(batch).subscribe();
+      service
+        .startBatchCapture(
+          { ...batch, batchId: 'batch-2' },
+          undefined,
+          'user-1',
+        )
+        .subscribe();
+
+      const [anonymous, owned] =
+        batchCaptureService.executeBatchCapture.mock.calls;
+      expect(anonymous[1]).toBe('batch-1');
+      expect(anonymous[3]).toBeUndefined();
+      expect(owned[1]).toBe('batch-2');
+      expect(owned[3]).toBe('user-1');
+
+      // Anonymous batches can only be cancelled by disconnecting
+      expect(() => service.cancelBatch('batch-1', 'user-1')).toThrow(
+        expect.objectContaining({ status: HttpStatus.NOT_FOUND }),
+      );
+    });
+  });
+});
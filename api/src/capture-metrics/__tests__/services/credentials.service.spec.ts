@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CredentialsService } from '../../services/credentials.service';
+import { PuppeteerHelpersService } from '../../services/puppeteer-helpers.service';
+import { AppError } from '~/common/app-error.common';
+import { CaptureAuth } from '~/dto/create-capture-data';
+
+describe('CredentialsService', () => {
+  let service: CredentialsService;
+  let puppeteerHelpers: {
+    setupRequestInterception: jest.Mock;
+    removeRequestInterception: jest.Mock;
+  };
+
+  const auth: CaptureAuth = {
+    headers: { 'X-Api-Key': 'secret-key' },
+    cookies: [{ name: 'session', value: 'abc123' }],
+    basicAuth: { username: 'admin', password: 'hunter2' },
+  };
+
+  const createService = async (key = 'k'.repeat(32)) => {
+    puppeteerHelpers = {
+      setupRequestInterception: jest.fn().mockResolvedValue(undefined),
+      removeRequestInterception: jest.fn().mockResolvedValue(undefined),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CredentialsService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((name: string) =>
+              name === 'CREDENTIALS_ENCRYPTION_KEY' ? key : undefined,
+            ),
+          },
+        },
+        { provide: PuppeteerHelpersService, useValue: puppeteerHelpers },
+      ],
+    }).compile();
+
+    return module.get<CredentialsService>(CredentialsService);
+  };
+
+  beforeEach(async () => {
+    service = await createService();
+  });
+
+  it('should decrypt what it encrypted, without the values in the payload', () => {
+    const payload = service.encrypt(auth);
+
+    expect(payload).toMatch(/^v1:[^:]+:[^:]+:[^:]+$/);
+    expect(payload).not.toMatch(/secret-key|abc123|hunter2/);
+    expect(service.encrypt(auth)).not.toBe(payload); // Fresh IV every time
+    expect(service.decrypt(payload)).toEqual(auth);
+  });
+
+  it('should reject a tampered payload or a different key', async () => {
+    const [version, iv, tag, ciphertext] = service.encrypt(auth).split(':');
+    const flipped = Buffer.from(ciphertext, 'base64');
+    flipped[0] ^= 1;
+
+    expect(() =>
+      service.decrypt([version, iv, tag, flipped.toString('base64')].join(':')),
+    ).toThrow(AppError);
+
+    const otherService = await createService('o'.repeat(32));
+    expect(() => otherService.decrypt(service.encrypt(auth))).toThrow(
+      'Stored credentials could not be decrypted',
+    );
+  });
+
+  it('should refuse to start without an encryption key', async () => {
+    await expect(createService('')).rejects.toThrow(
+      'CREDENTIALS_ENCRYPTION_KEY is not set',
+    );
+  });
+
+  it('should summarise credentials and list the headers that carry them', () => {
+    expect(service.summarize(auth)).toEqual({
+      headers: ['X-Api-Key'],
+      cookies: ['session'],
+      basicAuth: true,
+    });
+    expect(service.getSecretHeaderNames(auth)).toEqual(
+      expect.arrayContaining(['x-api-key', 'cookie', 'authorization']),
+    );
+
+    expect(service.hasCredentials({ headers: {}, cookies: [] })).toBe(false);
+    expect(service.summarize({})).toBeUndefined();
+    expect(service.getSecretHeaderNames(undefined)).toEqual([]);
+  });
+
+  it('should apply credentials to a page and remove them again', async () => {
+    const context = {
+      setCookie: jest.fn().mockResolvedValue(undefined),
+      cookies: jest.fn().mockResolvedValue([
+        { name: 'session', domain: 'app.example.com', path: '/' },
+        { name: 'session', domain: '.other.example', path: '/' },
+        { name: 'theme', domain: 'app.example.com', path: '/' },
+      ]),
+      deleteCookie: jest.fn().mockResolvedValue(undefined),
+    };
+    const page = {
+      authenticate: jest.fn().mockResolvedValue(undefined),
+      browserContext: jest.fn().mockReturnValue(context),
+      isClosed: jest.fn().mockReturnValue(false),
+    } as any;
+
+    await service.applyToPage(page, auth, 'https://app.example.com/account');
+
+    expect(puppeteerHelpers.setupRequestInterception).toHaveBeenCalledWith(
+      page,
+      expect.any(Function),
+    );
+    expect(page.authenticate).toHaveBeenCalledWith(auth.basicAuth);
+    expect(context.setCookie).toHaveBeenCalledWith({
+      name: 'session',
+      value: 'abc123',
+      domain: 'app.example.com',
+      path: '/',
+      secure: true,
+      httpOnly: false,
+    });
+
+    await service.resetPage(page, auth);
+
+    expect(puppeteerHelpers.removeRequestInterception).toHaveBeenCalledWith(
+      page,
+    );
+    expect(page.authenticate).toHaveBeenLastCalledWith(null);
+    // Only the seeded cookie, not same-named or other cookies of the context
+    expect(context.deleteCookie).toHaveBeenCalledWith({
+      name: 'session',
+      domain: 'app.example.com',
+      path: '/',
+    });
+  });
+
+  it('should send the headers only to the tested origin', async () => {
+    const page = { authenticate: jest.fn() } as any;
+    await service.applyToPage(
+      page,
+      { headers: { Authorization: 'Bearer token' } },
+      'https://app.example.com/account',
+    );
+    const [, handler] = puppeteerHelpers.setupRequestInterception.mock.calls[0];
+
+    const resolve = (url: string) => {
+      const route = { continue: jest.fn(), abort: jest.fn() };
+      handler(route, { url: () => url, headers: () => ({ accept: '*/*' }) });
+      return route;
+    };
+
+    expect(
+      resolve('https://app.example.com/api/me').continue,
+    ).toHaveBeenCalledWith({
+      headers: { accept: '*/*', Authorization: 'Bearer token' },
+    });
+    for (const url of [
+      'https://cdn.thirdparty.com/app.js',
+      'http://app.example.com/insecure',
+      'https://app.example.com.evil.test/',
+      'not a url',
+    ]) {
+      expect(resolve(url).continue).toHaveBeenCalledWith();
+    }
+  });
+});
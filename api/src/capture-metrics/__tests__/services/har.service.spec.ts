@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HarService } from '../../services/har.service';
+import { S3StorageService } from '../../services/s3-storage.service';
+import {
+  NetworkWaterfall,
+  NetworkWaterfallEntry,
+} from '../../interfaces/cache.interface';
+
+describe('HarService', () => {
+  let service: HarService;
+  let s3Storage: { uploadHar: jest.Mock };
+
+  const entry = (
+    overrides: Partial<NetworkWaterfallEntry> = {},
+  ): NetworkWaterfallEntry => ({
+    url: 'https://example.com/?page=2',
+    method: 'GET',
+    resourceType: 'Document',
+    mimeType: 'text/html',
+    status: 200,
+    statusText: 'OK',
+    protocol: 'h2',
+    priority: 'VeryHigh',
+    initiator: { type: 'other' },
+    remoteAddress: '93.184.216.34:443',
+    fromCache: false,
+    fromServiceWorker: false,
+    failed: false,
+    errorText: null,
+    transferSize: 1500,
+    resourceSize: 4096,
+    startTime: 0,
+    duration: 250,
+    timings: {
+      blocked: 5,
+      dns: 20,
+      connect: 60,
+      ssl: 40,
+      send: 1,
+      wait: 100,
+      receive: 64,
+    },
+    requestHeaders: { Accept: 'text/html', Cookie: 'a=1; b=2' },
+    responseHeaders: {
+      'content-type': 'text/html',
+      'set-cookie': 'id=1; Path=/\ntheme=dark',
+    },
+    ...overrides,
+  });
+
+  const waterfall = (
+    entries: NetworkWaterfallEntry[],
+    redacted = false,
+  ): NetworkWaterfall => ({
+    startedAt: '2024-05-01T10:00:00.000Z',
+    redacted,
+    entries,
+    summary: {
+      requests: entries.length,
+      failedRequests: 0,
+      transferBytes: 0,
+      duration: 250,
+      truncated: false,
+    },
+  });
+
+  const pageInfo = {
+    title: 'Example',
+    browser: { name: 'HeadlessChrome', version: '124.0.6367.91' },
+    onContentLoad: 180,
+    onLoad: 240,
+  };
+
+  beforeEach(async () => {
+    s3Storage = {
+      uploadHar: jest.fn().mockResolvedValue('har/test-123/a.har'),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HarService,
+        { provide: S3StorageService, useValue: s3Storage },
+      ],
+    }).compile();
+
+    service = module.get<HarService>(HarService);
+  });
+
+  it('should convert waterfall entries to HAR 1.2 entries', () => {
+    const har = service.buildHar(waterfall([entry()]), pageInfo);
+
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.browser).toEqual(pageInfo.browser);
+    expect(har.log.pages).toEqual([
+      {
+        startedDateTime: '2024-05-01T10:00:00.000Z',
+        id: 'page_1',
+        title: 'Example',
+        pageTimings: { onContentLoad: 180, onLoad: 240 },
+      },
+    ]);
+
+    const [harEntry] = har.log.entries;
+    expect(harEntry.time).toBe(250);
+    expect(harEntry.serverIPAddress).toBe('93.184.216.34');
+    expect(harEntry.request).toMatchObject({
+      httpVersion: 'HTTP/2',
+      cookies: [
+        { name: 'a', value: '1' },
+        { name: 'b', value: '2' },
+      ],
+      queryString: [{ name: 'page', value: '2' }],
+      bodySize: 0,
+    });
+    expect(harEntry.response).toMatchObject({
+      status: 200,
+      cookies: [
+        { name: 'id', value: '1' },
+        { name: 'theme', value: 'dark' },
+      ],
+      content: { size: 4096, mimeType: 'text/html' },
+      _transferSize: 1500,
+    });
+    expect(harEntry.timings).toEqual({
+      blocked: 5,
+      dns: 20,
+      connect: 60,
+      send: 1,
+      wait: 100,
+      receive: 64,
+      ssl: 40,
+    });
+    expect(harEntry._resourceType).toBe('document');
+  });
+
+  it('should keep redacted cookies out of the archive and note the redaction', () => {
+    const har = service.buildHar(
+      waterfall(
+        [
+          entry({
+            requestHeaders: { Cookie: '[redacted]' },
+            responseHeaders: { 'set-cookie': '[redacted]' },
+          }),
+        ],
+        true,
+      ),
+      pageInfo,
+    );
+
+    expect(har.log.comment).toBeDefined();
+    expect(har.log.entries[0].request.cookies).toEqual([]);
+    expect(har.log.entries[0].response.cookies).toEqual([]);
+  });
+
+  it('should give failed requests without timing a zero status and receive-only timings', () => {
+    const har = service.buildHar(
+      waterfall([
+        entry({
+          failed: true,
+          status: null,
+          errorText: 'net::ERR_FAILED',
+          startTime: 120,
+          duration: 30,
+          timings: {
+            blocked: -1,
+            dns: -1,
+            connect: -1,
+            ssl: -1,
+            send: -1,
+            wait: -1,
+            receive: -1,
+          },
+        }),
+      ]),
+      pageInfo,
+    );
+
+    const [harEntry] = har.log.entries;
+    expect(harEntry.startedDateTime).toBe('2024-05-01T10:00:00.120Z');
+    expect(harEntry.response.status).toBe(0);
+    expect(harEntry.response._error).toBe('net::ERR_FAILED');
+    expect(harEntry.timings).toMatchObject({ send: 0, wait: 0, receive: 30 });
+    expect(harEntry.time).toBe(30);
+  });
+
+  it('should upload the archive and describe what was stored', async () => {
+    const page = {
+      title: jest.fn().mockResolvedValue('Example'),
+      browser: () => ({
+        version: jest.fn().mockResolvedValue('HeadlessChrome/124.0.6367.91'),
+      }),
+      evaluate: jest.fn().mockResolvedValue({ onContentLoad: 180, onLoad: 0 }),
+    } as any;
+
+    const artifact = await service.saveHar(
+      page,
+      waterfall([entry()], true),
+      'test-123',
+    );
+
+    const [buffer, testId] = s3Storage.uploadHar.mock.calls[0];
+    const har = JSON.parse(buffer.toString());
+    expect(testId).toBe('test-123');
+    expect(har.log.pages[0].pageTimings).toEqual({
+      onContentLoad: 180,
+      onLoad: -1,
+    });
+    expect(artifact).toEqual({
+      key: 'har/test-123/a.har',
+      entries: 1,
+      size: buffer.length,
+      redacted: true,
+    });
+    expect(service.summarize(artifact)).toEqual({
+      entries: 1,
+      size: buffer.length,
+      redacted: true,
+    });
+  });
+});
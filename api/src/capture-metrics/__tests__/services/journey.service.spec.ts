@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  JourneyProgressEvent,
+  JourneyService,
+} from '../../services/journey.service';
+import { S3StorageService } from '../../services/s3-storage.service';
+import { JourneyResult } from '../../interfaces/cache.interface';
+import { JourneyStep } from '~/dto/create-capture-data';
+
+describe('JourneyService', () => {
+  let service: JourneyService;
+  let s3Storage: { uploadScreenshot: jest.Mock };
+
+  const vitals = {
+    url: 'https://shop.example/cart',
+    ttfb: 120.4,
+    fcp: 810.2,
+    lcp: 1450.7,
+    cls: 0.04321,
+    tbt: 85.5,
+    inp: null,
+  };
+
+  // Each navigation commits a new document with a new time origin
+  const createPage = () => {
+    let timeOrigin = 1000;
+    return {
+      evaluateOnNewDocument: jest
+        .fn()
+        .mockResolvedValue({ identifier: 'vitals-script' }),
+      removeScriptToEvaluateOnNewDocument: jest
+        .fn()
+        .mockResolvedValue(undefined),
+      goto: jest.fn(async () => {
+        timeOrigin += 1;
+        return null;
+      }),
+      waitForSelector: jest.fn().mockResolvedValue({ click: jest.fn() }),
+      type: jest.fn().mockResolvedValue(undefined),
+      waitForNetworkIdle: jest.fn().mockResolvedValue(undefined),
+      // Text assertions pass their selector and text; settling passes none
+      waitForFunction: jest.fn(
+        async (_fn: unknown, _options: unknown, ...args: string[]) => {
+          if (args[1] === 'Order confirmed') throw new Error('Timed out');
+        },
+      ),
+      evaluate: jest.fn(async (fn: () => unknown) =>
+        fn.toString().includes('timeOrigin') ? timeOrigin : vitals,
+      ),
+      screenshot: jest.fn().mockResolvedValue(new Uint8Array([1, 2, 3])),
+      url: jest.fn().mockReturnValue('https://shop.example/cart'),
+      isClosed: jest.fn().mockReturnValue(false),
+    };
+  };
+
+  const collect = async (generator: AsyncGenerator<JourneyProgressEvent>) => {
+    const events: JourneyProgressEvent[] = [];
+    for await (const event of generator) events.push(event);
+    return events;
+  };
+
+  beforeEach(async () => {
+    s3Storage = {
+      uploadScreenshot: jest.fn(
+        async (
+          _buffer: Buffer,
+          options: { testId: string; frameNumber: number },
+        ) => `https://s3.example/${options.testId}/${options.frameNumber}.jpg`,
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JourneyService,
+        { provide: S3StorageService, useValue: s3Storage },
+      ],
+    }).compile();
+
+    service = module.get<JourneyService>(JourneyService);
+  });
+
+  it('should open the capture URL first unless the journey navigates itself', () => {
+    const steps: JourneyStep[] = [{ action: 'click', selector: '#buy' }];
+
+    expect(service.buildSteps('https://shop.example/', steps)).toEqual([
+      { action: 'navigate', name: 'Open page', url: 'https://shop.example/' },
+      { action: 'click', selector: '#buy' },
+    ]);
+    // Query strings pass the steps as JSON
+    expect(
+      service.buildSteps(
+        'https://shop.example/',
+        JSON.stringify([{ action: 'navigate', url: 'https://shop.example/a' }]),
+      ),
+    ).toEqual([{ action: 'navigate', url: 'https://shop.example/a' }]);
+    // Building twice doesn't open the page twice
+    expect(
+      service.buildSteps(
+        'https://shop.example/',
+        service.buildSteps('https://shop.example/', steps),
+      ),
+    ).toHaveLength(2);
+  });
+
+  it('should time, screenshot and snapshot vitals for every step', async () => {
+    const page = createPage();
+    const steps = service.buildSteps('https://shop.example/', [
+      { action: 'click', selector: '#add-to-cart', name: 'Add to cart' },
+      { action: 'type', selector: '#coupon', text: 'SAVE10' },
+      { action: 'assertText', text: 'Discount applied' },
+    ]);
+
+    const events = await collect(
+      service.runJourney(page as any, steps, {
+        testId: 'test-1',
+        deviceType: 'desktop',
+        includeScreenshots: true,
+      }),
+    );
+
+    expect(events.map((event) => event.status)).toEqual([
+      'JOURNEY_START',
+      'JOURNEY_STEP_START',
+      'JOURNEY_STEP_COMPLETE',
+      'JOURNEY_STEP_START',
+      'JOURNEY_STEP_COMPLETE',
+      'JOURNEY_STEP_START',
+      'JOURNEY_STEP_COMPLETE',
+      'JOURNEY_STEP_START',
+      'JOURNEY_STEP_COMPLETE',
+      'JOURNEY_COMPLETE',
+    ]);
+
+    const journey = events[events.length - 1].data as JourneyResult;
+    expect(journey).toMatchObject({ passed: true, failedStep: null });
+    expect(
+      journey.steps.map(({ name, navigated }) => ({ name, navigated })),
+    ).toEqual([
+      { name: 'Open page', navigated: true },
+      { name: 'Add to cart', navigated: false },
+      { name: 'Type into #coupon', navigated: false },
+      { name: 'Assert text "Discount applied"', navigated: false },
+    ]);
+    expect(journey.steps[1]).toMatchObject({
+      index: 2,
+      action: 'click',
+      status: 'passed',
+      url: 'https://shop.example/cart',
+      screenshot: 'https://s3.example/test-1-journey/2.jpg',
+      vitals: {
+        ttfb: 120,
+        fcp: 810,
+        lcp: 1451,
+        cls: 0.043,
+        tbt: 86,
+        inp: null,
+      },
+    });
+    expect(page.type).toHaveBeenCalledWith('#coupon', 'SAVE10');
+    expect(page.waitForFunction).toHaveBeenCalledWith(
+      expect.any(Function),
+      { timeout: 15000 },
+      'body',
+      'Discount applied',
+    );
+    expect(page.removeScriptToEvaluateOnNewDocument).toHaveBeenCalledWith(
+      'vitals-script',
+    );
+  });
+
+  it('should fail the journey at the first failing step and skip the rest', async () => {
+    const page = createPage();
+    const steps = service.buildSteps('https://shop.example/', [
+      { action: 'click', selector: '#checkout' },
+      { action: 'assertText', selector: 'h1', text: 'Order confirmed' },
+      { action: 'waitForSelector', selector: '#receipt' },
+    ]);
+
+    const events = await collect(
+      service.runJourney(page as any, steps, {
+        testId: 'test-2',
+        deviceType: 'mobile',
+        includeScreenshots: false,
+      }),
+    );
+
+    const failed = events.find(
+      (event) => event.status === 'JOURNEY_STEP_FAILED',
+    );
+    expect(failed?.step).toMatchObject({
+      index: 3,
+      status: 'failed',
+      error: 'Text "Order confirmed" not found in h1',
+      screenshot: null,
+    });
+
+    const journey = events[events.length - 1].data as JourneyResult;
+    expect(journey).toMatchObject({ passed: false, failedStep: 3 });
+    expect(journey.steps[3]).toMatchObject({
+      name: 'Wait for #receipt',
+      status: 'skipped',
+      vitals: null,
+    });
+    expect(page.waitForSelector).not.toHaveBeenCalledWith(
+      '#receipt',
+      expect.anything(),
+    );
+    expect(s3Storage.uploadScreenshot).not.toHaveBeenCalled();
+  });
+});
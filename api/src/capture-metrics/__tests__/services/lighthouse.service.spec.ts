@@ -1,10 +1,38 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter } from 'events';
+import { fork } from 'child_process';
 import { LighthouseService, LighthouseResult } from '../../services/lighthouse.service';
+import { readProcessTreeMemoryMb } from '../../../common/process-memory.common';
+import { LIGHTHOUSE_CONFIG } from '../../config/capture.config';
+
+jest.mock('child_process', () => ({ fork: jest.fn() }));
+jest.mock('../../../common/process-memory.common', () => ({
+  readProcessTreeMemoryMb: jest.fn(),
+}));
+
+// A forked worker that answers the job with `reply`, or exits without one
+const createWorker = (reply?: (worker: EventEmitter) => void) => {
+  const worker = Object.assign(new EventEmitter(), {
+    pid: 4321,
+    send: jest.fn(() => {
+      setImmediate(() => {
+        if (reply) reply(worker);
+        else worker.emit('close', 1, null);
+      });
+    }),
+  });
+  return worker;
+};
 
 describe('LighthouseService', () => {
   let service: LighthouseService;
+  let kill: jest.SpyInstance;
 
   beforeEach(async () => {
+    (fork as jest.Mock).mockImplementation(() => createWorker());
+    (readProcessTreeMemoryMb as jest.Mock).mockResolvedValue(200);
+    kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [LighthouseService],
     }).compile();
@@ -12,6 +40,10 @@ describe('LighthouseService', () => {
     service = module.get<LighthouseService>(LighthouseService);
   });
 
+  afterEach(() => {
+    kill.mockRestore();
+  });
+
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
@@ -138,4 +170,200 @@ describe('LighthouseService', () => {
       expect(result.performanceScore).toBeLessThanOrEqual(60);
     });
   });
+
+  describe('worker process', () => {
+    const page = {
+      evaluate: jest.fn().mockResolvedValue({
+        performanceScore: 70,
+        accessibilityScore: 70,
+        bestPracticesScore: 70,
+        seoScore: 70,
+        metrics: {},
+      }),
+    } as any;
+
+    it('should score the report the worker sends back and kill its process group', async () => {
+      const worker = createWorker((w) =>
+        w.emit('message', {
+          type: 'result',
+          report: {
+            categories: {
+              performance: { score: 0.91 },
+              accessibility: { score: 0.8 },
+              'best-practices': { score: 1 },
+              seo: { score: 0.75 },
+            },
+            audits: {
+              'largest-contentful-paint': { title: 'LCP', score: 0.9, numericValue: 2100 },
+            },
+          },
+        }),
+      );
+      (fork as jest.Mock).mockReturnValue(worker);
+
+      const result = await service.runAudit('https://example.com', page, {
+        latency: 150,
+        downloadThroughput: 204800,
+        uploadThroughput: 102400,
+      } as any);
+
+      expect(result).toMatchObject({
+        source: 'lighthouse',
+        performanceScore: 91,
+        bestPracticesScore: 100,
+        metrics: { largestContentfulPaint: 2100 },
+        audits: [{ id: 'largest-contentful-paint', title: 'LCP' }],
+      });
+      expect(fork).toHaveBeenCalledWith(
+        expect.stringMatching(/lighthouse\.worker\.ts$/),
+        [],
+        expect.objectContaining({ detached: true }),
+      );
+      expect(worker.send).toHaveBeenCalledWith({
+        url: 'https://example.com',
+        flags: expect.objectContaining({
+          throttling: expect.objectContaining({ requestLatencyMs: 150, downloadThroughputKbps: 1600 }),
+        }),
+      });
+      expect(kill).toHaveBeenCalledWith(-4321, 'SIGKILL');
+    });
+
+    it('should hand the credentials of an authenticated capture to the worker', async () => {
+      const auth = {
+        headers: { 'X-Api-Key': 'secret-key' },
+        cookies: [{ name: 'session', value: 'abc123' }],
+      };
+
+      await service.runAudit('https://example.com', page, undefined, undefined, auth);
+      await service.runAudit('https://example.com', page);
+
+      const [authenticatedWorker, anonymousWorker] = (fork as jest.Mock).mock.results.map(
+        (result) => result.value,
+      );
+      expect(authenticatedWorker.send).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://example.com', auth }),
+      );
+      expect(anonymousWorker.send.mock.calls[0][0]).not.toHaveProperty('auth');
+      // Lighthouse's extraHeaders would reach every third party
+      expect(authenticatedWorker.send.mock.calls[0][0].flags).not.toHaveProperty('extraHeaders');
+    });
+
+    it('should fall back to page scoring when the worker dies', async () => {
+      const result = await service.runAudit('https://example.com', page);
+
+      expect(result.source).toBe('fallback');
+      expect(page.evaluate).toHaveBeenCalled();
+    });
+
+    it('should fall back when the worker reports an error', async () => {
+      (fork as jest.Mock).mockReturnValue(
+        createWorker((w) => w.emit('message', { type: 'error', message: 'Chrome crashed' })),
+      );
+
+      const result = await service.runAudit('https://example.com', page);
+
+      expect(result.source).toBe('fallback');
+    });
+
+    it('should kill a worker that runs past its time limit', async () => {
+      jest.useFakeTimers();
+      try {
+        const worker = createWorker(() => undefined);
+        (fork as jest.Mock).mockReturnValue(worker);
+
+        const audit = service.runAudit('https://example.com', page);
+        await jest.advanceTimersByTimeAsync(LIGHTHOUSE_CONFIG.WORKER_TIMEOUT_MS);
+
+        expect((await audit).source).toBe('fallback');
+        expect(kill).toHaveBeenCalledWith(-4321, 'SIGKILL');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should kill a worker that uses more memory than allowed', async () => {
+      jest.useFakeTimers();
+      try {
+        (fork as jest.Mock).mockReturnValue(createWorker(() => undefined));
+        (readProcessTreeMemoryMb as jest.Mock).mockResolvedValue(
+          LIGHTHOUSE_CONFIG.WORKER_MEMORY_LIMIT_MB + 1,
+        );
+
+        const audit = service.runAudit('https://example.com', page);
+        await jest.advanceTimersByTimeAsync(LIGHTHOUSE_CONFIG.MEMORY_CHECK_INTERVAL_MS);
+
+        expect((await audit).source).toBe('fallback');
+        expect(readProcessTreeMemoryMb).toHaveBeenCalledWith(4321);
+        expect(kill).toHaveBeenCalledWith(-4321, 'SIGKILL');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should kill workers still running when the module shuts down', async () => {
+      const worker = createWorker(() => undefined);
+      (fork as jest.Mock).mockReturnValue(worker);
+
+      const audit = service.runAudit('https://example.com', page);
+      await new Promise((resolve) => setImmediate(resolve));
+      service.onModuleDestroy();
+
+      expect(kill).toHaveBeenCalledWith(-4321, 'SIGKILL');
+      worker.emit('close', null, 'SIGKILL');
+      expect((await audit).source).toBe('fallback');
+    });
+
+    it('should run no more workers at once than allowed', async () => {
+      const workers: EventEmitter[] = [];
+      (fork as jest.Mock).mockImplementation(() => {
+        const worker = createWorker(() => undefined);
+        workers.push(worker);
+        return worker;
+      });
+
+      const audits = Array.from(
+        { length: LIGHTHOUSE_CONFIG.MAX_CONCURRENT_WORKERS + 1 },
+        () => service.runAudit('https://example.com', page),
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(fork).toHaveBeenCalledTimes(LIGHTHOUSE_CONFIG.MAX_CONCURRENT_WORKERS);
+
+      // A finished audit hands its slot to the waiting one
+      workers[0].emit('close', 1, null);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(fork).toHaveBeenCalledTimes(LIGHTHOUSE_CONFIG.MAX_CONCURRENT_WORKERS + 1);
+
+      workers.slice(1).forEach((worker) => worker.emit('close', 1, null));
+      await Promise.all(audits);
+    });
+
+    it('should kill the worker when the capture is cancelled', async () => {
+      const worker = createWorker(() => undefined);
+      (fork as jest.Mock).mockReturnValue(worker);
+      const controller = new AbortController();
+
+      const audit = service.runAudit('https://example.com', page, undefined, controller.signal);
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(audit).rejects.toThrow('Request cancelled');
+      expect(kill).toHaveBeenCalledWith(-4321, 'SIGKILL');
+      expect(page.evaluate).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting for a slot when the capture is cancelled', async () => {
+      (fork as jest.Mock).mockImplementation(() => createWorker(() => undefined));
+      for (let i = 0; i < LIGHTHOUSE_CONFIG.MAX_CONCURRENT_WORKERS; i++) {
+        void service.runAudit('https://example.com', page);
+      }
+      const controller = new AbortController();
+
+      const audit = service.runAudit('https://example.com', page, undefined, controller.signal);
+      controller.abort();
+
+      await expect(audit).rejects.toThrow('Request cancelled');
+      expect(fork).toHaveBeenCalledTimes(LIGHTHOUSE_CONFIG.MAX_CONCURRENT_WORKERS);
+      service.onModuleDestroy();
+    });
+  });
 });
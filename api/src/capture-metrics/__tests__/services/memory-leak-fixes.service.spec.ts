@@ -119,11 +119,14 @@ describe('Memory Leak Fixes', () => {
 
       await Promise.all(promises);
 
-      // Verify no pages are stuck in limbo
+      // Verify no pages or browser contexts are stuck in limbo
       expect((browserPoolService as any).requiredPages.length).toBe(0);
-      expect(
-        (browserPoolService as any).releasedPages.length,
-      ).toBeLessThanOrEqual((browserPoolService as any).maxSize);
+      expect(browserPoolService.getPoolStats()).toMatchObject({
+        activePages: 0,
+        activeContexts: 0,
+        contextsCreated: concurrentRequests,
+        contextsDisposed: concurrentRequests,
+      });
     }, 30000);
   });
 
@@ -48,6 +48,7 @@ describe('Memory Leak Tests', () => {
   };
 
   const mockScreenshotsService = {
+    startFilmstrip: jest.fn().mockResolvedValue(undefined),
     captureScreenshots: jest.fn().mockReturnValue(
       // eslint-disable-next-line @typescript-eslint/require-await
       (async function* () {
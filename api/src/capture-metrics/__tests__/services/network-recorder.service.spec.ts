@@ -0,0 +1,329 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NetworkRecorderService } from '../../services/network-recorder.service';
+
+describe('NetworkRecorderService', () => {
+  let service: NetworkRecorderService;
+
+  const createMockPage = () => {
+    const handlers = new Map<string, (event: any) => void>();
+    const session = {
+      on: jest.fn((event: string, handler: (event: any) => void) => {
+        handlers.set(event, handler);
+      }),
+      send: jest.fn().mockResolvedValue(undefined),
+      detach: jest.fn().mockResolvedValue(undefined),
+    };
+    const page = {
+      createCDPSession: jest.fn().mockResolvedValue(session),
+    } as any;
+    const emit = (event: string, payload: any) => handlers.get(event)!(payload);
+    return { page, session, emit };
+  };
+
+  const request = (requestId: string, url: string, timestamp: number) => ({
+    requestId,
+    timestamp,
+    wallTime: 1700000000 + timestamp,
+    type: 'Document',
+    request: {
+      url,
+      method: 'GET',
+      initialPriority: 'VeryHigh',
+      headers: { Accept: 'text/html', Cookie: 'session=secret' },
+    },
+    initiator: { type: 'other' },
+  });
+
+  const response = (status: number, timing?: Record<string, number>) => ({
+    status,
+    statusText: 'OK',
+    mimeType: 'text/html',
+    protocol: 'h2',
+    remoteIPAddress: '93.184.216.34',
+    remotePort: 443,
+    encodedDataLength: 320,
+    headers: { 'content-type': 'text/html', 'set-cookie': 'id=1' },
+    timing,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [NetworkRecorderService],
+    }).compile();
+
+    service = module.get<NetworkRecorderService>(NetworkRecorderService);
+  });
+
+  it('should record timing phases, status and redacted headers of a request', async () => {
+    const { page, session, emit } = createMockPage();
+    await service.start(page);
+
+    emit('Network.requestWillBeSent', request('1', 'https://example.com/', 10));
+    emit('Network.responseReceived', {
+      requestId: '1',
+      response: response(200, {
+        requestTime: 10.005,
+        dnsStart: 0,
+        dnsEnd: 20,
+        connectStart: 20,
+        connectEnd: 80,
+        sslStart: 40,
+        sslEnd: 80,
+        sendStart: 80,
+        sendEnd: 81,
+        receiveHeadersEnd: 181,
+      }),
+    });
+    emit('Network.dataReceived', { requestId: '1', dataLength: 4096 });
+    emit('Network.loadingFinished', {
+      requestId: '1',
+      timestamp: 10.25,
+      encodedDataLength: 1500,
+    });
+
+    const waterfall = await service.stop(page);
+
+    expect(session.send).toHaveBeenCalledWith('Network.enable');
+    expect(session.detach).toHaveBeenCalled();
+    expect(waterfall?.entries).toHaveLength(1);
+    expect(waterfall?.entries[0]).toMatchObject({
+      url: 'https://example.com/',
+      status: 200,
+      priority: 'VeryHigh',
+      protocol: 'h2',
+      remoteAddress: '93.184.216.34:443',
+      transferSize: 1500,
+      resourceSize: 4096,
+      startTime: 0,
+      duration: 250,
+      timings: {
+        blocked: 5,
+        dns: 20,
+        connect: 60,
+        ssl: 40,
+        send: 1,
+        wait: 100,
+        receive: 64,
+      },
+      requestHeaders: { Accept: 'text/html', Cookie: '[redacted]' },
+      responseHeaders: {
+        'content-type': 'text/html',
+        'set-cookie': '[redacted]',
+      },
+    });
+    expect(waterfall?.startedAt).toBe('2023-11-14T22:13:30.000Z');
+    expect(waterfall?.redacted).toBe(true);
+    expect(waterfall?.summary).toEqual({
+      requests: 1,
+      failedRequests: 0,
+      transferBytes: 1500,
+      duration: 250,
+      truncated: false,
+    });
+  });
+
+  it('should record redirect hops and failed requests as separate entries', async () => {
+    const { page, emit } = createMockPage();
+    await service.start(page);
+
+    emit('Network.requestWillBeSent', request('1', 'http://example.com/', 1));
+    emit('Network.requestWillBeSent', {
+      ...request('1', 'https://example.com/', 1.1),
+      redirectResponse: response(301),
+    });
+    emit('Network.loadingFinished', {
+      requestId: '1',
+      timestamp: 1.3,
+      encodedDataLength: 900,
+    });
+    emit('Network.requestWillBeSent', {
+      ...request('2', 'https://cdn.example.com/app.js', 1.2),
+      type: 'Script',
+    });
+    emit('Network.loadingFailed', {
+      requestId: '2',
+      timestamp: 1.25,
+      errorText: 'net::ERR_BLOCKED_BY_CLIENT',
+      blockedReason: 'inspector',
+    });
+
+    const waterfall = await service.stop(page);
+
+    expect(
+      waterfall?.entries.map((entry) => [
+        entry.url,
+        entry.status,
+        entry.failed,
+      ]),
+    ).toEqual([
+      ['http://example.com/', 301, false],
+      ['https://example.com/', null, false],
+      ['https://cdn.example.com/app.js', null, true],
+    ]);
+    expect(waterfall?.entries[2].errorText).toBe(
+      'net::ERR_BLOCKED_BY_CLIENT (inspector)',
+    );
+    expect(waterfall?.summary.failedRequests).toBe(1);
+  });
+
+  it('should merge and redact the headers sent and received on the wire', async () => {
+    const { page, emit } = createMockPage();
+    await service.start(page);
+
+    // The wire headers of the first hop arrive before its request event
+    emit('Network.requestWillBeSentExtraInfo', {
+      requestId: '1',
+      headers: { accept: 'text/html', cookie: 'session=secret' },
+    });
+    emit('Network.requestWillBeSent', {
+      ...request('1', 'http://example.com/', 1),
+      request: {
+        url: 'http://example.com/',
+        method: 'GET',
+        headers: { Accept: 'text/html' },
+      },
+    });
+    emit('Network.responseReceivedExtraInfo', {
+      requestId: '1',
+      headers: { location: 'https://example.com/', 'set-cookie': 'id=1' },
+    });
+    emit('Network.requestWillBeSent', {
+      ...request('1', 'https://example.com/', 1.1),
+      request: {
+        url: 'https://example.com/',
+        method: 'GET',
+        headers: {},
+      },
+      redirectResponse: {
+        ...response(301),
+        headers: { location: 'https://example.com/' },
+      },
+    });
+    emit('Network.requestWillBeSentExtraInfo', {
+      requestId: '1',
+      headers: { cookie: 'session=secret; id=1' },
+    });
+    emit('Network.responseReceived', {
+      requestId: '1',
+      response: { ...response(200), headers: { 'content-type': 'text/html' } },
+    });
+    emit('Network.loadingFinished', {
+      requestId: '1',
+      timestamp: 1.3,
+      encodedDataLength: 900,
+    });
+    emit('Network.responseReceivedExtraInfo', {
+      requestId: '1',
+      headers: {
+        'content-type': 'text/html',
+        'Set-Cookie': 'token=abc; HttpOnly',
+      },
+    });
+
+    const waterfall = await service.stop(page);
+
+    const [redirect, document] = waterfall!.entries;
+    expect(redirect.requestHeaders).toEqual({
+      accept: 'text/html',
+      cookie: '[redacted]',
+    });
+    expect(redirect.responseHeaders).toEqual({
+      location: 'https://example.com/',
+      'set-cookie': '[redacted]',
+    });
+    expect(document.requestHeaders).toEqual({ cookie: '[redacted]' });
+    expect(document.responseHeaders).toEqual({
+      'content-type': 'text/html',
+      'Set-Cookie': '[redacted]',
+    });
+    expect(JSON.stringify(waterfall)).not.toMatch(/secret|token=abc/);
+  });
+
+  it('should keep credential headers when redaction is turned off', async () => {
+    const { page, emit } = createMockPage();
+    await service.start(page, { redactHeaders: false });
+
+    emit('Network.requestWillBeSent', request('1', 'https://example.com/', 1));
+    emit('Network.responseReceived', {
+      requestId: '1',
+      response: response(200),
+    });
+    emit('Network.loadingFinished', {
+      requestId: '1',
+      timestamp: 1.1,
+      encodedDataLength: 100,
+    });
+
+    const waterfall = await service.stop(page);
+
+    expect(waterfall?.redacted).toBe(false);
+    expect(waterfall?.entries[0].requestHeaders.Cookie).toBe('session=secret');
+    expect(waterfall?.entries[0].responseHeaders['set-cookie']).toBe('id=1');
+  });
+
+  it('should always redact the headers carrying capture credentials', async () => {
+    const { page, emit } = createMockPage();
+    await service.start(page, {
+      redactHeaders: false,
+      secretHeaders: ['X-Api-Key'],
+    });
+
+    emit('Network.requestWillBeSent', {
+      ...request('1', 'https://example.com/', 1),
+      request: {
+        url: 'https://example.com/',
+        method: 'GET',
+        headers: { Accept: 'text/html', 'x-api-key': 'secret-key' },
+      },
+    });
+    emit('Network.loadingFinished', {
+      requestId: '1',
+      timestamp: 1.1,
+      encodedDataLength: 100,
+    });
+
+    const waterfall = await service.stop(page);
+
+    expect(waterfall?.entries[0].requestHeaders).toEqual({
+      Accept: 'text/html',
+      'x-api-key': '[redacted]',
+    });
+  });
+
+  it('should return null when the page is not being recorded', async () => {
+    const { page } = createMockPage();
+
+    await expect(service.stop(page)).resolves.toBeNull();
+  });
+
+  it('should keep the headers out of stored waterfalls and their summaries', async () => {
+    const { page, emit } = createMockPage();
+    await service.start(page);
+    emit('Network.requestWillBeSent', request('1', 'https://example.com/', 1));
+    emit('Network.responseReceived', {
+      requestId: '1',
+      type: 'Document',
+      response: response(200),
+    });
+    emit('Network.loadingFinished', {
+      requestId: '1',
+      timestamp: 1.2,
+      encodedDataLength: 2048,
+    });
+    const waterfall = (await service.stop(page))!;
+
+    const stored = service.withoutHeaders(waterfall);
+    expect(stored.entries).toHaveLength(1);
+    expect(stored.entries[0]).not.toHaveProperty('requestHeaders');
+    expect(stored.entries[0]).not.toHaveProperty('responseHeaders');
+    expect(stored.entries[0].status).toBe(200);
+    // The recorded waterfall still has them for the HAR archive
+    expect(waterfall.entries[0].responseHeaders['content-type']).toBe(
+      'text/html',
+    );
+
+    const summary = service.summarize(stored);
+    expect(summary).not.toHaveProperty('entries');
+    expect(summary.summary).toEqual(waterfall.summary);
+  });
+});
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NetworkThrottlingService } from '../../services/network-throttling.service';
+import { PERFORMANCE_TEST_CONFIG } from '../../config/performance-test.config';
+
+describe('NetworkThrottlingService', () => {
+  let service: NetworkThrottlingService;
+
+  const createMockPage = () => {
+    const session = {
+      send: jest.fn().mockResolvedValue(undefined),
+      detach: jest.fn().mockResolvedValue(undefined),
+    };
+    const page = {
+      createCDPSession: jest.fn().mockResolvedValue(session),
+      isClosed: jest.fn().mockReturnValue(false),
+    } as any;
+    return { page, session };
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [NetworkThrottlingService],
+    }).compile();
+
+    service = module.get<NetworkThrottlingService>(NetworkThrottlingService);
+  });
+
+  describe('getProfile', () => {
+    it('should resolve a named profile', () => {
+      const profile = service.getProfile('3g');
+
+      expect(profile).toEqual({
+        name: '3g',
+        ...PERFORMANCE_TEST_CONFIG.network.throttling['3g'],
+      });
+    });
+
+    it('should fall back to wifi for missing or unknown types', () => {
+      expect(service.getProfile().name).toBe('wifi');
+      expect(service.getProfile('dial-up').name).toBe('wifi');
+    });
+  });
+
+  describe('applyToPage', () => {
+    it('should emulate network conditions including packet characteristics', async () => {
+      const { page, session } = createMockPage();
+
+      const profile = await service.applyToPage(page, '3g');
+
+      expect(profile.name).toBe('3g');
+      expect(session.send).toHaveBeenCalledWith('Network.enable');
+      expect(session.send).toHaveBeenCalledWith(
+        'Network.emulateNetworkConditions',
+        expect.objectContaining({
+          latency: profile.latency,
+          downloadThroughput: profile.downloadThroughput,
+          uploadThroughput: profile.uploadThroughput,
+          packetLoss: profile.packetLoss,
+          packetQueueLength: profile.packetQueueLength,
+          packetReordering: profile.packetReordering,
+        }),
+      );
+    });
+
+    it('should not open a CDP session for the unthrottled profile', async () => {
+      const { page } = createMockPage();
+
+      const profile = await service.applyToPage(page, 'none');
+
+      expect(profile.name).toBe('none');
+      expect(page.createCDPSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPage', () => {
+    it('should clear emulation and detach the session', async () => {
+      const { page, session } = createMockPage();
+      await service.applyToPage(page, '4g');
+      session.send.mockClear();
+
+      await service.resetPage(page);
+
+      expect(session.send).toHaveBeenCalledWith(
+        'Network.emulateNetworkConditions',
+        expect.objectContaining({ latency: 0, downloadThroughput: -1 }),
+      );
+      expect(session.detach).toHaveBeenCalled();
+    });
+
+    it('should be a no-op for pages that were never throttled', async () => {
+      const { page, session } = createMockPage();
+
+      await service.resetPage(page);
+
+      expect(session.send).not.toHaveBeenCalled();
+    });
+  });
+});
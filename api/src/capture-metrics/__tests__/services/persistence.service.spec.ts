@@ -9,11 +9,14 @@ import { TestResult, TestResultDocument } from '../../schemas/test-result.schema
 import { CachedTestResult, TestResults, ScreenshotResult } from '../../interfaces/cache.interface';
 import { CreateCaptureData } from '~/dto/create-capture-data';
 import { AppError } from '~/common/app-error.common';
+import { DomainEventsService } from '~/common/events/domain-events.service';
+import { DOMAIN_EVENTS } from '~/common/events/domain-events';
 
 describe('PersistenceService', () => {
   let service: PersistenceService;
   let mockTestResultModel: any;
   let mockCacheManager: any;
+  let mockDomainEvents: { emit: jest.Mock };
 
   // Sample S3 URLs for testing
   const sampleS3Urls = [
@@ -102,9 +105,15 @@ describe('PersistenceService', () => {
       del: jest.fn(),
     };
 
+    mockDomainEvents = { emit: jest.fn() };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PersistenceService,
+        {
+          provide: DomainEventsService,
+          useValue: mockDomainEvents,
+        },
         {
           provide: getModelToken(TestResult.name),
           useValue: MockTestResultModel,
@@ -196,6 +205,61 @@ describe('PersistenceService', () => {
       expect(savedId).toBe('saved-doc-id-123');
     });
 
+    it('should emit test.completed after saving', async () => {
+      // Act
+      await service.saveTestResult(
+        'user-789',
+        'https://example.com',
+        sampleCaptureData,
+        sampleTestResults,
+        'completed',
+        { batchId: 'batch-1' },
+      );
+
+      // Assert
+      expect(mockDomainEvents.emit).toHaveBeenCalledWith(
+        DOMAIN_EVENTS.TEST_COMPLETED,
+        expect.objectContaining({
+          userId: 'user-789',
+          testResultId: 'saved-doc-id-123',
+          url: 'https://example.com',
+          testType: 'performance',
+          status: 'completed',
+          batchId: 'batch-1',
+        }),
+      );
+    });
+
+    it('should not emit test.completed when saving fails', async () => {
+      // Arrange
+      const failingModule = await Test.createTestingModule({
+        providers: [
+          PersistenceService,
+          { provide: DomainEventsService, useValue: mockDomainEvents },
+          {
+            provide: getModelToken(TestResult.name),
+            useValue: function () {
+              return { save: jest.fn().mockRejectedValue(new Error('DB down')) };
+            },
+          },
+          { provide: CACHE_MANAGER, useValue: mockCacheManager },
+        ],
+      }).compile();
+      const failingService = failingModule.get(PersistenceService);
+
+      // Act & Assert
+      await expect(
+        failingService.saveTestResult(
+          'user-789',
+          'https://example.com',
+          sampleCaptureData,
+          sampleTestResults,
+          'completed',
+        ),
+      ).rejects.toThrow('DB down');
+      expect(mockDomainEvents.emit).not.toHaveBeenCalled();
+    });
+
     it('should handle results without screenshots', async () => {
       // Arrange
       const resultsWithoutScreenshots: TestResults = {
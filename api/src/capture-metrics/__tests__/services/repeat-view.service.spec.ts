@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RepeatViewService } from '../../services/repeat-view.service';
+import { WebMetricsService } from '../../services/web-metrics.service';
+
+describe('RepeatViewService', () => {
+  let service: RepeatViewService;
+  let webMetricsService: { captureWebMetrics: jest.Mock };
+
+  const createMockPage = () => {
+    const session = {
+      send: jest.fn().mockResolvedValue(undefined),
+      detach: jest.fn().mockResolvedValue(undefined),
+    };
+    const page = {
+      createCDPSession: jest.fn().mockResolvedValue(session),
+      reload: jest.fn().mockResolvedValue(null),
+    } as any;
+    return { page, session };
+  };
+
+  const webMetrics = (
+    totalRequests: number,
+    totalBytes: number,
+    cached: number,
+    loadComplete: number,
+  ) => ({
+    performanceMetrics: { loadComplete },
+    networkMetrics: { totalRequests, totalBytes, caching: { cached } },
+  });
+
+  const collect = async (generator: AsyncGenerator<any>) => {
+    const events: any[] = [];
+    for await (const event of generator) events.push(event);
+    return events;
+  };
+
+  beforeEach(async () => {
+    webMetricsService = { captureWebMetrics: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RepeatViewService,
+        { provide: WebMetricsService, useValue: webMetricsService },
+      ],
+    }).compile();
+
+    service = module.get<RepeatViewService>(RepeatViewService);
+  });
+
+  describe('prepareFirstView', () => {
+    it('should clear the HTTP cache and service workers for the origin', async () => {
+      const { page, session } = createMockPage();
+
+      await service.prepareFirstView(page, 'https://example.com/pricing');
+
+      expect(session.send).toHaveBeenCalledWith('Network.clearBrowserCache');
+      expect(session.send).toHaveBeenCalledWith('Storage.clearDataForOrigin', {
+        origin: 'https://example.com',
+        storageTypes: 'service_workers,cache_storage',
+      });
+      expect(session.detach).toHaveBeenCalled();
+    });
+  });
+
+  describe('captureRepeatView', () => {
+    it('should reload the page and compare it with the first view', async () => {
+      const { page } = createMockPage();
+      const repeatMetrics = webMetrics(12, 20000, 30, 900);
+      webMetricsService.captureWebMetrics.mockImplementation(
+        async function* () {
+          yield { status: 'METRICS_START' };
+          yield { status: 'METRICS_COMPLETE', data: repeatMetrics };
+        },
+      );
+
+      const events = await collect(
+        service.captureRepeatView(
+          page,
+          'performance',
+          webMetrics(42, 850000, 0, 2400) as any,
+        ),
+      );
+
+      expect(page.reload).toHaveBeenCalled();
+      // Collector events stay internal so they can't overwrite the first view
+      expect(events.map((event) => event.status)).toEqual([
+        'REPEAT_VIEW_START',
+        'REPEAT_VIEW_COMPLETE',
+      ]);
+      expect(events[1].data).toEqual({
+        webMetrics: repeatMetrics,
+        comparison: {
+          requestsSaved: 30,
+          bytesSaved: 830000,
+          cachedRequests: 30,
+          loadTimeSaved: 1500,
+        },
+      });
+    });
+
+    it('should report an error when the reload fails', async () => {
+      const { page } = createMockPage();
+      page.reload.mockRejectedValue(new Error('Navigation timeout'));
+
+      const events = await collect(
+        service.captureRepeatView(page, 'performance', null),
+      );
+
+      expect(events[events.length - 1]).toEqual({
+        status: 'REPEAT_VIEW_ERROR',
+        error: 'Navigation timeout',
+      });
+      expect(webMetricsService.captureWebMetrics).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RunAggregationService } from '../../services/run-aggregation.service';
+import { TestResults } from '../../interfaces/cache.interface';
+
+describe('RunAggregationService', () => {
+  let service: RunAggregationService;
+
+  const createRun = (
+    run: number,
+    performanceScore: number | undefined,
+    lcp: number,
+  ): TestResults => ({
+    url: 'https://example.com',
+    deviceType: 'desktop',
+    testType: 'performance',
+    timestamp: Date.now(),
+    status: 'completed',
+    cookieHandling: null,
+    screenshots: null,
+    consoleErrors: null,
+    run,
+    webMetrics: {
+      performanceScore,
+      vitalsMetrics: { CLS: 0.1, FID: 0, LCP: lcp },
+    },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [RunAggregationService],
+    }).compile();
+
+    service = module.get<RunAggregationService>(RunAggregationService);
+  });
+
+  describe('computeStats', () => {
+    it('should average the two middle values for an even number of runs', () => {
+      expect(service.computeStats([4, 1, 3, 2])).toEqual({
+        median: 2.5,
+        min: 1,
+        max: 4,
+        stddev: 1.12,
+      });
+    });
+  });
+
+  describe('aggregate', () => {
+    it('should report the run closest to the median score as the representative run', () => {
+      const runs = [
+        createRun(1, 60, 3200),
+        createRun(2, 82, 2100),
+        createRun(3, 95, 1500),
+      ];
+
+      const result = service.aggregate(runs, 3);
+
+      expect(result.run).toBe(2);
+      expect(result.webMetrics?.performanceScore).toBe(82);
+      expect(result.runs).toHaveLength(3);
+      expect(result.runSummary).toMatchObject({
+        requestedRuns: 3,
+        completedRuns: 3,
+        medianRun: 2,
+      });
+      expect(result.runSummary?.metrics.performanceScore).toEqual({
+        median: 82,
+        min: 60,
+        max: 95,
+        stddev: 14.45,
+      });
+      expect(result.runSummary?.metrics['vitalsMetrics.LCP'].median).toBe(2100);
+      expect(result.runSummary?.metrics['vitalsMetrics.CLS'].stddev).toBe(0);
+    });
+
+    it('should fall back to LCP when a run has no performance score', () => {
+      const runs = [
+        createRun(1, 70, 1800),
+        createRun(2, undefined, 2600),
+        createRun(3, 90, 2400),
+      ];
+
+      const result = service.aggregate(runs, 3);
+
+      expect(result.runSummary?.medianRun).toBe(3);
+      expect(result.runSummary?.metrics.performanceScore.median).toBe(80);
+    });
+  });
+});
@@ -6,6 +6,7 @@ import {
   PutObjectCommand,
   DeleteObjectCommand,
   HeadObjectCommand,
+  GetObjectCommand,
 } from '@aws-sdk/client-s3';
 
 // Mock AWS SDK
@@ -432,6 +433,42 @@ describe('S3StorageService', () => {
     });
   });
 
+  describe('uploadHar', () => {
+    it('should upload the archive privately under the har prefix of the test', async () => {
+      const key = await service.uploadHar(Buffer.from('{}'), 'test-123');
+
+      expect(mockS3Client.send).toHaveBeenCalledWith(
+        expect.any(PutObjectCommand),
+      );
+      expect(PutObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: key, ACL: 'private' }),
+      );
+      expect(key).toMatch(/^har\/test-123\/.+\.har$/);
+    });
+  });
+
+  describe('downloadFile', () => {
+    it('should return the object body as a buffer', async () => {
+      mockS3Client.send.mockResolvedValueOnce({
+        Body: {
+          transformToByteArray: jest
+            .fn()
+            .mockResolvedValue(new Uint8Array(Buffer.from('{"log":{}}'))),
+        },
+      });
+
+      const buffer = await service.downloadFile('har/test-123/a.har');
+
+      expect(buffer.toString()).toBe('{"log":{}}');
+      expect(mockS3Client.send).toHaveBeenCalledWith(
+        expect.any(GetObjectCommand),
+      );
+      expect(GetObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: 'har/test-123/a.har' }),
+      );
+    });
+  });
+
   describe('Utility methods', () => {
     it('should return configured bucket name', () => {
       const bucketName = service.getBucketName();
@@ -0,0 +1,207 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ScreenshotMatrixProgressEvent,
+  ScreenshotMatrixService,
+} from '../../services/screenshot-matrix.service';
+import { BrowserPoolService } from '../../services/browser-pool.service';
+import { DeviceConfigService } from '../../services/device-config.service';
+import { ScreenshotsService } from '../../services/screenshots.service';
+import { S3StorageService } from '../../services/s3-storage.service';
+import { CredentialsService } from '../../services/credentials.service';
+import { ScreenshotMatrixResult } from '../../interfaces/cache.interface';
+import { SCREENSHOT_MATRIX_CONFIG } from '../../config/capture.config';
+
+describe('ScreenshotMatrixService', () => {
+  let service: ScreenshotMatrixService;
+  let pages: ReturnType<typeof createPage>[];
+  let browserPool: { requirePage: jest.Mock; releasePage: jest.Mock };
+  let screenshots: { captureFullPage: jest.Mock };
+  let credentials: { applyToPage: jest.Mock; resetPage: jest.Mock };
+
+  const createPage = () => {
+    let width = 0;
+    return {
+      setViewport: jest.fn(async (viewport: { width: number }) => {
+        width = viewport.width;
+      }),
+      setUserAgent: jest.fn().mockResolvedValue(undefined),
+      // A page that can't render below 500px wide
+      goto: jest.fn(async () => {
+        if (width < 500) throw new Error('net::ERR_ABORTED');
+        return null;
+      }),
+      waitForNetworkIdle: jest.fn().mockResolvedValue(undefined),
+      screenshot: jest.fn().mockResolvedValue(new Uint8Array([1, 2, 3])),
+      browser: () => ({ userAgent: jest.fn().mockResolvedValue('Chrome') }),
+      isClosed: jest.fn().mockReturnValue(false),
+    };
+  };
+
+  const collect = async (
+    generator: AsyncGenerator<ScreenshotMatrixProgressEvent>,
+  ) => {
+    const events: ScreenshotMatrixProgressEvent[] = [];
+    for await (const event of generator) events.push(event);
+    return events;
+  };
+
+  beforeEach(async () => {
+    pages = [];
+    browserPool = {
+      requirePage: jest.fn(async () => {
+        const page = createPage();
+        pages.push(page);
+        return page;
+      }),
+      releasePage: jest.fn().mockResolvedValue(undefined),
+    };
+    screenshots = {
+      captureFullPage: jest.fn(async (_page, options: { testId: string }) => ({
+        url: `https://s3.example/${options.testId}-fullpage.png`,
+        width: 1000,
+        height: 3000,
+        truncated: false,
+      })),
+    };
+    credentials = {
+      applyToPage: jest.fn().mockResolvedValue(undefined),
+      resetPage: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScreenshotMatrixService,
+        DeviceConfigService,
+        { provide: BrowserPoolService, useValue: browserPool },
+        { provide: ScreenshotsService, useValue: screenshots },
+        {
+          provide: S3StorageService,
+          useValue: {
+            uploadScreenshot: jest.fn(
+              async (_buffer: Buffer, options: { testId: string }) =>
+                `https://s3.example/${options.testId}.jpg`,
+            ),
+          },
+        },
+        { provide: CredentialsService, useValue: credentials },
+      ],
+    }).compile();
+
+    service = module.get<ScreenshotMatrixService>(ScreenshotMatrixService);
+  });
+
+  it('should default to widths from 360 to 1920 and parse query-string viewports', () => {
+    expect(service.buildViewports().map(({ width }) => width)).toEqual([
+      360, 768, 1024, 1440, 1920,
+    ]);
+    expect(
+      service.buildViewports('[{"device":"iPhone 15"},{"width":1280}]'),
+    ).toEqual([{ device: 'iPhone 15' }, { width: 1280 }]);
+  });
+
+  it('should emulate custom widths as phones, tablets or desktops', () => {
+    const devices = new DeviceConfigService();
+
+    expect(devices.getViewportConfig({ width: 360 })).toMatchObject({
+      viewport: { width: 360, height: 800 },
+      isMobile: true,
+      deviceScaleFactor: 2,
+    });
+    expect(
+      devices.getViewportConfig({ width: 1440, height: 900 }),
+    ).toMatchObject({
+      viewport: { width: 1440, height: 900 },
+      isMobile: false,
+    });
+    // Known devices keep their emulation, resized when asked
+    expect(
+      devices.getViewportConfig({ device: 'iPhone 15', height: 400 }),
+    ).toMatchObject({ viewport: { width: 393, height: 400 }, isMobile: true });
+  });
+
+  it('should render every viewport in parallel pages and report them in request order', async () => {
+    const events = await collect(
+      service.captureMatrix(
+        'https://example.com',
+        [
+          { width: 1920 },
+          { width: 360, label: 'Small phone' },
+          { width: 768 },
+          { device: 'desktop-hd' },
+        ],
+        { testId: 'test-1' },
+      ),
+    );
+
+    // One page per viewport, at most three at a time
+    expect(browserPool.requirePage).toHaveBeenCalledTimes(4);
+    expect(events[0]).toMatchObject({ status: 'MATRIX_START' });
+    expect(
+      events.filter(({ status }) => status === 'MATRIX_VIEWPORT_FAILED'),
+    ).toHaveLength(1);
+
+    const result = events.at(-1)?.data as ScreenshotMatrixResult;
+    expect(events.at(-1)?.status).toBe('MATRIX_COMPLETE');
+    expect(result.entries.map((entry) => entry.viewport.label)).toEqual([
+      '1920×1080',
+      'Small phone',
+      '768×1024',
+      'desktop-hd',
+    ]);
+    expect(result.entries[0]).toMatchObject({
+      status: 'completed',
+      aboveTheFold: 'https://s3.example/test-1-matrix-1.jpg',
+      fullPage: { url: 'https://s3.example/test-1-matrix-1-fullpage.png' },
+    });
+    expect(result.entries[1]).toMatchObject({
+      status: 'failed',
+      fullPage: null,
+      error: 'net::ERR_ABORTED',
+    });
+    expect(result.entries[3].viewport).toMatchObject({
+      device: 'desktop-hd',
+      width: 2560,
+    });
+  });
+
+  it('should reset and give back the page of every viewport', async () => {
+    await collect(
+      service.captureMatrix(
+        'https://example.com',
+        [{ width: 1024 }, { width: 1280 }],
+        { testId: 'test-1', auth: { headers: { 'X-Token': 'secret' } } },
+      ),
+    );
+
+    expect(credentials.applyToPage).toHaveBeenCalledTimes(2);
+    expect(credentials.resetPage).toHaveBeenCalledTimes(2);
+    for (const page of pages) {
+      expect(browserPool.releasePage).toHaveBeenCalledWith(page);
+      expect(page.setUserAgent).toHaveBeenLastCalledWith('Chrome');
+    }
+  });
+
+  it('should hold no page while waiting for the next one', async () => {
+    // Pages the other workers hold whenever a worker asks for a page
+    const heldByOthers: number[] = [];
+    const requirePage = browserPool.requirePage.getMockImplementation()!;
+    browserPool.requirePage.mockImplementation(() => {
+      heldByOthers.push(
+        pages.length - browserPool.releasePage.mock.calls.length,
+      );
+      return requirePage();
+    });
+
+    await collect(
+      service.captureMatrix('https://example.com', service.buildViewports(), {
+        testId: 'test-1',
+      }),
+    );
+
+    expect(browserPool.requirePage).toHaveBeenCalledTimes(5);
+    expect(browserPool.releasePage).toHaveBeenCalledTimes(5);
+    expect(Math.max(...heldByOthers)).toBeLessThan(
+      SCREENSHOT_MATRIX_CONFIG.CONCURRENCY,
+    );
+  });
+});
@@ -3,12 +3,44 @@ import { ScreenshotsService } from '../../services/screenshots.service';
 import { BrowserPoolService } from '../../services/browser-pool.service';
 import { S3StorageService } from '../../services/s3-storage.service';
 import { Page } from 'puppeteer';
+import { EventEmitter } from 'events';
+import { encodePng } from '../../services/visual-diff.service';
 
 describe('ScreenshotsService', () => {
   let service: ScreenshotsService;
   let mockPage: jest.Mocked<Page>;
   let mockS3Service: jest.Mocked<S3StorageService>;
   let activeGenerators: Set<AsyncGenerator<any, any, unknown>> = new Set();
+  let session: EventEmitter & { send: jest.Mock; detach: jest.Mock };
+
+  // Navigation started long ago, so captures stop as soon as they start
+  const NAVIGATION_START = 1_000_000;
+
+  // 10x10 frame whose top `redRows` rows are red and the rest white
+  const frame = (redRows: number) => {
+    const data = Buffer.alloc(10 * 10 * 4, 255);
+    for (let i = 0; i < redRows * 10; i++) {
+      data[i * 4 + 1] = 0;
+      data[i * 4 + 2] = 0;
+    }
+    return encodePng({ width: 10, height: 10, data }).toString('base64');
+  };
+
+  // Paint a screencast frame `at` ms after navigation start
+  const paint = (redRows: number, at: number) =>
+    session.emit('Page.screencastFrame', {
+      data: frame(redRows),
+      sessionId: at,
+      metadata: { timestamp: (NAVIGATION_START + at) / 1000 },
+    });
+
+  const collect = async (generator: AsyncGenerator<any>) => {
+    activeGenerators.add(generator);
+    const results: any[] = [];
+    for await (const result of generator) results.push(result);
+    activeGenerators.delete(generator);
+    return results;
+  };
 
   beforeEach(async () => {
     jest.useRealTimers(); // Use real timers by default
@@ -48,9 +80,14 @@ describe('ScreenshotsService', () => {
 
     service = module.get<ScreenshotsService>(ScreenshotsService);
 
-    // Mock page object
+    // Mock page object with a CDP session that the test paints frames into
+    session = Object.assign(new EventEmitter(), {
+      send: jest.fn().mockResolvedValue(undefined),
+      detach: jest.fn().mockResolvedValue(undefined),
+    });
     mockPage = {
-      screenshot: jest.fn(),
+      createCDPSession: jest.fn().mockResolvedValue(session),
+      evaluate: jest.fn().mockResolvedValue(NAVIGATION_START),
       isClosed: jest.fn().mockReturnValue(false),
     } as any;
 
@@ -76,268 +113,108 @@ describe('ScreenshotsService', () => {
     const defaultOptions = {
       testId: 'test-123',
       deviceType: 'desktop' as DeviceType,
-      interval: 50, // Shorter interval for faster tests
       maxDuration: 5000,
       maxFrames: 10,
-      format: 'jpeg' as const,
     };
 
     beforeEach(() => {
-      // Mock page.screenshot to return a buffer > 500 bytes (service requirement)
-      mockPage.screenshot.mockResolvedValue(Buffer.alloc(1000));
-
       // Mock S3 upload to return URLs
       let uploadCount = 0;
       mockS3Service.uploadScreenshot.mockImplementation(async () => {
         uploadCount++;
-        return `https://test-bucket.s3.us-east-1.amazonaws.com/screenshots/test-123/desktop/frame-${uploadCount}.jpeg`;
+        return `https://test-bucket.s3.us-east-1.amazonaws.com/screenshots/test-123/desktop/frame-${uploadCount}.png`;
       });
     });
 
-    it('should capture screenshots successfully and upload to S3', async () => {
-      const generator = service.captureScreenshots(mockPage, defaultOptions);
-      activeGenerators.add(generator);
-      const results: any[] = [];
+    it('should record screencast frames from navigation start without taking screenshots', async () => {
+      await service.startFilmstrip(mockPage);
+      expect(session.send).toHaveBeenCalledWith(
+        'Page.startScreencast',
+        expect.objectContaining({ format: 'png' }),
+      );
 
-      try {
-        for await (const result of generator) {
-          results.push(result);
-        }
-      } finally {
-        await generator.return(undefined);
-        activeGenerators.delete(generator);
-      }
+      paint(0, -50); // Blank page before navigation
+      paint(0, 100); // Repaint that changes nothing
+      paint(5, 400);
+      paint(5, 450);
+      paint(10, 900);
 
-      // Should have START, multiple CAPTURED events, and COMPLETE
-      const startEvent = results.find((r) => r.status === 'SCREENSHOT_START');
-      const capturedEvents = results.filter(
-        (r) => r.status === 'SCREENSHOT_CAPTURED',
-      );
-      const completeEvent = results.find(
-        (r) => r.status === 'SCREENSHOT_COMPLETE',
+      const results = await collect(
+        service.captureScreenshots(mockPage, defaultOptions),
       );
 
-      expect(startEvent).toEqual({
+      expect(results[0]).toEqual({
         status: 'SCREENSHOT_START',
         deviceType: 'desktop',
         message: 'Starting desktop screenshot capture',
       });
-
-      expect(capturedEvents).toHaveLength(10);
-      expect(capturedEvents[0]).toMatchObject({
-        status: 'SCREENSHOT_CAPTURED',
-        frameNumber: 1,
-        deviceType: 'desktop',
-        url: expect.stringContaining('s3.us-east-1.amazonaws.com'),
-      });
-
-      expect(completeEvent).toMatchObject({
+      const captured = results.filter(
+        (r) => r.status === 'SCREENSHOT_CAPTURED',
+      );
+      expect(captured.map((r) => [r.frameNumber, r.timestamp])).toEqual([
+        [1, 0],
+        [2, 400],
+        [3, 900],
+      ]);
+
+      const complete = results.at(-1);
+      expect(complete).toMatchObject({
         status: 'SCREENSHOT_COMPLETE',
-        frameCount: 10,
+        frameCount: 3,
         deviceType: 'desktop',
-        screenshots: expect.arrayContaining([
-          expect.stringContaining('s3.us-east-1.amazonaws.com'),
-        ]),
-        message: 'Screenshot capture complete - 10 screenshots uploaded to S3',
+        message: 'Screenshot capture complete - 3 screenshots uploaded to S3',
+        filmstrip: {
+          framesReceived: 5,
+          distinctFrames: 3,
+          truncated: false,
+          visualProgress: [
+            { timestamp: 0, progress: 0 },
+            { timestamp: 400, progress: 50 },
+            { timestamp: 900, progress: 100 },
+          ],
+          milestones: {
+            firstVisualChange: 400,
+            visuallyComplete85: 900,
+            visuallyComplete95: 900,
+            visuallyComplete99: 900,
+            lastVisualChange: 900,
+          },
+          // Blank for 400ms, then half complete for 500ms
+          speedIndex: 650,
+        },
       });
-
-      expect(mockPage.screenshot).toHaveBeenCalledTimes(10);
-      expect(mockS3Service.uploadScreenshot).toHaveBeenCalledTimes(10);
-    }, 10000);
-
-    it('should respect maxFrames limit', async () => {
-      const options = { ...defaultOptions, maxFrames: 3 };
-      const generator = service.captureScreenshots(mockPage, options);
-      activeGenerators.add(generator);
-      const results: any[] = [];
-
-      try {
-        for await (const result of generator) {
-          results.push(result);
-        }
-      } finally {
-        await generator.return(undefined);
-        activeGenerators.delete(generator);
-      }
-
-      const completeEvent = results.find(
-        (r) => r.status === 'SCREENSHOT_COMPLETE',
-      );
-      expect(mockPage.screenshot).toHaveBeenCalledTimes(3);
-      expect(completeEvent.frameCount).toBe(3);
-      expect(mockS3Service.uploadScreenshot).toHaveBeenCalledTimes(3);
-    });
-
-    it('should respect maxDuration limit', async () => {
-      const options = { ...defaultOptions, maxDuration: 100, interval: 50 };
-      const generator = service.captureScreenshots(mockPage, options);
-      activeGenerators.add(generator);
-      const results: any[] = [];
-
-      try {
-        for await (const result of generator) {
-          results.push(result);
-        }
-      } finally {
-        await generator.return(undefined);
-        activeGenerators.delete(generator);
-      }
-
-      // Should capture fewer frames due to time limit
-      expect(mockPage.screenshot).toHaveBeenCalledTimes(2);
-    });
-
-    it('should handle screenshot errors gracefully', async () => {
-      mockPage.screenshot
-        .mockResolvedValueOnce(Buffer.alloc(1000))
-        .mockRejectedValueOnce(new Error('Screenshot failed'))
-        .mockResolvedValueOnce(Buffer.alloc(1000));
-
-      const generator = service.captureScreenshots(mockPage, defaultOptions);
-      activeGenerators.add(generator);
-      const results: any[] = [];
-
-      try {
-        for await (const result of generator) {
-          results.push(result);
-        }
-      } finally {
-        await generator.return(undefined);
-        activeGenerators.delete(generator);
-      }
-
-      const errorResults = results.filter(
-        (r) => r.status === 'SCREENSHOT_ERROR',
-      );
-      expect(errorResults).toHaveLength(1);
-      expect(errorResults[0]).toEqual({
-        status: 'SCREENSHOT_ERROR',
-        error: 'Screenshot failed',
-        frameNumber: 2,
+      expect(complete.screenshots).toHaveLength(3);
+      expect(complete.filmstrip.frames[1]).toEqual({
+        url: complete.screenshots[1],
+        timestamp: 400,
+        visualProgress: 50,
       });
-    }, 10000);
-
-    it('should skip screenshots that are too small', async () => {
-      // Mock multiple screenshots - service will keep capturing until maxFrames is reached
-      mockPage.screenshot
-        .mockResolvedValueOnce(Buffer.alloc(1000)) // Good size - frame 1
-        .mockResolvedValueOnce(Buffer.alloc(200)) // Too small - skipped
-        .mockResolvedValueOnce(Buffer.alloc(1500)) // Good size - frame 2
-        .mockResolvedValueOnce(Buffer.alloc(300)) // Too small - skipped
-        .mockResolvedValueOnce(Buffer.alloc(1200)); // Good size - frame 3
-
-      const options = { ...defaultOptions, maxFrames: 3 };
-      const generator = service.captureScreenshots(mockPage, options);
-      const results: any[] = [];
-
-      for await (const result of generator) {
-        results.push(result);
-      }
-
-      const completeEvent = results.find(
-        (r) => r.status === 'SCREENSHOT_COMPLETE',
-      );
-
-      // Should have captured 3 successful frames (5 attempts, 2 skipped)
-      expect(completeEvent.frameCount).toBe(3);
-      expect(mockS3Service.uploadScreenshot).toHaveBeenCalledTimes(3);
 
-      // Verify warnings were logged for small screenshots (by checking no errors)
-      const errorEvents = results.filter((r) => r.status === 'SCREENSHOT_ERROR');
-      expect(errorEvents).toHaveLength(0); // Skipped screenshots don't generate errors
-    });
-
-    it('should stop when page is closed', async () => {
-      mockPage.isClosed
-        .mockReturnValueOnce(false)
-        .mockReturnValueOnce(false)
-        .mockReturnValueOnce(true); // Page closed on third check
-
-      const generator = service.captureScreenshots(mockPage, defaultOptions);
-      const results: any[] = [];
-
-      for await (const result of generator) {
-        results.push(result);
-      }
-
-      // Should stop early when page is closed
-      expect(mockPage.screenshot).toHaveBeenCalledTimes(2);
-    });
-
-    it('should use correct screenshot options for PNG', async () => {
-      const options = {
-        ...defaultOptions,
-        format: 'png' as const,
-        maxFrames: 1,
-      };
-
-      const generator = service.captureScreenshots(mockPage, options);
-      const results: any[] = [];
-
-      for await (const result of generator) {
-        results.push(result);
-      }
-
-      expect(mockPage.screenshot).toHaveBeenCalledWith({
-        type: 'png',
-        quality: undefined,
-        fullPage: false,
-        omitBackground: true,
-        encoding: 'binary',
-      });
-    });
-
-    it('should use correct screenshot options for JPEG', async () => {
-      const options = {
-        ...defaultOptions,
-        format: 'jpeg' as const,
-        maxFrames: 1,
-      };
-
-      const generator = service.captureScreenshots(mockPage, options);
-      const results: any[] = [];
-
-      for await (const result of generator) {
-        results.push(result);
-      }
-
-      expect(mockPage.screenshot).toHaveBeenCalledWith({
-        type: 'jpeg',
-        quality: 75,
-        fullPage: false,
-        omitBackground: true,
-        encoding: 'binary',
-      });
+      // Every frame is acknowledged so Chrome keeps sending them
+      expect(
+        session.send.mock.calls.filter(
+          ([method]) => method === 'Page.screencastFrameAck',
+        ),
+      ).toHaveLength(5);
+      expect(session.send).toHaveBeenCalledWith('Page.stopScreencast');
+      expect(session.detach).toHaveBeenCalled();
     });
 
     it('should pass correct parameters to S3 upload', async () => {
-      const options = {
-        testId: 'test-456',
-        deviceType: 'mobile' as DeviceType,
-        format: 'png' as const,
-        maxFrames: 2,
-        interval: 100,
-        maxDuration: 5000,
-      };
-
-      const generator = service.captureScreenshots(mockPage, options);
-      const results: any[] = [];
-
-      for await (const result of generator) {
-        results.push(result);
-      }
+      await service.startFilmstrip(mockPage);
+      paint(0, -10);
+      paint(10, 300);
 
-      expect(mockS3Service.uploadScreenshot).toHaveBeenCalledWith(
-        expect.any(Buffer),
-        {
+      await collect(
+        service.captureScreenshots(mockPage, {
+          ...defaultOptions,
           testId: 'test-456',
-          deviceType: 'mobile',
-          frameNumber: 1,
-          format: 'png',
-        },
+          deviceType: 'mobile' as DeviceType,
+        }),
       );
 
-      expect(mockS3Service.uploadScreenshot).toHaveBeenCalledWith(
+      expect(mockS3Service.uploadScreenshot).toHaveBeenNthCalledWith(
+        2,
         expect.any(Buffer),
         {
           testId: 'test-456',
@@ -348,146 +225,103 @@ describe('ScreenshotsService', () => {
       );
     });
 
-    it('should handle S3 upload errors gracefully', async () => {
-      mockS3Service.uploadScreenshot
-        .mockResolvedValueOnce(
-          'https://test-bucket.s3.us-east-1.amazonaws.com/frame1.jpeg',
-        )
-        .mockRejectedValueOnce(new Error('S3 upload failed'))
-        .mockResolvedValueOnce(
-          'https://test-bucket.s3.us-east-1.amazonaws.com/frame3.jpeg',
-        );
-
-      const options = { ...defaultOptions, maxFrames: 3 };
-      const generator = service.captureScreenshots(mockPage, options);
-      activeGenerators.add(generator);
-      const results: any[] = [];
-
-      try {
-        for await (const result of generator) {
-          results.push(result);
-        }
-      } finally {
-        await generator.return(undefined);
-        activeGenerators.delete(generator);
-      }
+    it('should start the screencast itself when the page has already navigated', async () => {
+      // The page is already showing content when the screencast starts
+      session.send.mockImplementation(async (method: string) => {
+        if (method === 'Page.startScreencast') paint(8, 250);
+      });
 
-      const errorResults = results.filter(
-        (r) => r.status === 'SCREENSHOT_ERROR',
+      const results = await collect(
+        service.captureScreenshots(mockPage, defaultOptions),
       );
 
-      // S3 upload error should be caught and logged, but not stop the process
-      expect(errorResults.length).toBeGreaterThanOrEqual(0);
-      expect(mockPage.screenshot).toHaveBeenCalled();
-    }, 10000);
-
-    it('should return S3 URLs in final result', async () => {
-      const options = { ...defaultOptions, maxFrames: 2 };
-      const generator = service.captureScreenshots(mockPage, options);
-      const results: any[] = [];
-
-      for await (const result of generator) {
-        results.push(result);
-      }
+      expect(mockPage.createCDPSession).toHaveBeenCalled();
+      // Its first frame is already a change from the blank page
+      expect(results.at(-1).filmstrip).toMatchObject({
+        milestones: { firstVisualChange: 250, lastVisualChange: 250 },
+        speedIndex: 250,
+      });
+    });
 
-      const completeEvent = results.find(
-        (r) => r.status === 'SCREENSHOT_COMPLETE',
+    it('should upload at most maxFrames and always keep the milestones', async () => {
+      await service.startFilmstrip(mockPage);
+      paint(0, -10);
+      [1, 2, 3, 4, 5, 6, 7, 8, 9, 10].forEach((rows) =>
+        paint(rows, rows * 100),
       );
 
-      expect(completeEvent.screenshots).toHaveLength(2);
-      expect(completeEvent.screenshots[0]).toContain(
-        's3.us-east-1.amazonaws.com',
+      const results = await collect(
+        service.captureScreenshots(mockPage, {
+          ...defaultOptions,
+          maxFrames: 4,
+        }),
       );
-      expect(completeEvent.screenshots[1]).toContain(
-        's3.us-east-1.amazonaws.com',
-      );
-    });
 
-    it('should include S3 URLs in SCREENSHOT_CAPTURED events', async () => {
-      const options = { ...defaultOptions, maxFrames: 2 };
-      const generator = service.captureScreenshots(mockPage, options);
-      const results: any[] = [];
-
-      for await (const result of generator) {
-        results.push(result);
-      }
-
-      const capturedEvents = results.filter(
-        (r) => r.status === 'SCREENSHOT_CAPTURED',
+      const { filmstrip } = results.at(-1);
+      const timestamps = filmstrip.frames.map((f: any) => f.timestamp);
+      expect(filmstrip.distinctFrames).toBe(11);
+      expect(filmstrip.visualProgress).toHaveLength(11);
+      expect(timestamps).toHaveLength(4);
+      expect(timestamps).toEqual(
+        expect.arrayContaining([
+          0,
+          filmstrip.milestones.firstVisualChange,
+          filmstrip.milestones.visuallyComplete85,
+          1000,
+        ]),
       );
-
-      expect(capturedEvents[0]).toMatchObject({
-        status: 'SCREENSHOT_CAPTURED',
-        frameNumber: 1,
-        url: expect.stringContaining('s3.us-east-1.amazonaws.com'),
-        deviceType: 'desktop',
-        timestamp: expect.any(Number),
-      });
-
-      expect(capturedEvents[1]).toMatchObject({
-        status: 'SCREENSHOT_CAPTURED',
-        frameNumber: 2,
-        url: expect.stringContaining('s3.us-east-1.amazonaws.com'),
-        deviceType: 'desktop',
-        timestamp: expect.any(Number),
-      });
     });
 
-    it('should respect interval timing', async () => {
-      const options = {
-        ...defaultOptions,
-        interval: 10, // Use shorter interval to speed up test
-        maxFrames: 2,
-      };
+    it('should stop once the page has loaded and stopped painting', async () => {
+      jest.useFakeTimers({ now: NAVIGATION_START });
+      try {
+        await service.startFilmstrip(mockPage);
+        paint(0, -10);
+        const done = collect(
+          service.captureScreenshots(mockPage, {
+            ...defaultOptions,
+            maxDuration: 60000,
+          }),
+        );
 
-      const startTime = Date.now();
-      const generator = service.captureScreenshots(mockPage, options);
-      const results: any[] = [];
+        await jest.advanceTimersByTimeAsync(500);
+        session.emit('Page.loadEventFired', {});
+        await jest.advanceTimersByTimeAsync(2100);
 
-      for await (const result of generator) {
-        results.push(result);
+        const results = await done;
+        expect(results.at(-1).filmstrip.duration).toBeLessThan(3000);
+      } finally {
+        jest.useRealTimers();
       }
-
-      const endTime = Date.now();
-      const duration = endTime - startTime;
-
-      // Should take at least the interval time (10ms between 2 screenshots)
-      expect(duration).toBeGreaterThan(10);
     });
 
-    it('should increment frame numbers correctly', async () => {
-      const options = { ...defaultOptions, maxFrames: 3 };
-      const generator = service.captureScreenshots(mockPage, options);
-      const results: any[] = [];
+    it('should report failed uploads and keep going', async () => {
+      mockS3Service.uploadScreenshot
+        .mockResolvedValueOnce(
+          'https://test-bucket.s3.us-east-1.amazonaws.com/frame1.png',
+        )
+        .mockRejectedValueOnce(new Error('S3 upload failed'))
+        .mockResolvedValueOnce(
+          'https://test-bucket.s3.us-east-1.amazonaws.com/frame3.png',
+        );
 
-      for await (const result of generator) {
-        results.push(result);
-      }
+      await service.startFilmstrip(mockPage);
+      paint(0, -10);
+      paint(5, 200);
+      paint(10, 400);
 
-      const capturedEvents = results.filter(
-        (r) => r.status === 'SCREENSHOT_CAPTURED',
+      const results = await collect(
+        service.captureScreenshots(mockPage, defaultOptions),
       );
 
-      expect(capturedEvents[0].frameNumber).toBe(1);
-      expect(capturedEvents[1].frameNumber).toBe(2);
-      expect(capturedEvents[2].frameNumber).toBe(3);
-
-      // Verify S3 upload was called with correct frame numbers
-      expect(mockS3Service.uploadScreenshot).toHaveBeenNthCalledWith(
-        1,
-        expect.any(Buffer),
-        expect.objectContaining({ frameNumber: 1 }),
-      );
-      expect(mockS3Service.uploadScreenshot).toHaveBeenNthCalledWith(
-        2,
-        expect.any(Buffer),
-        expect.objectContaining({ frameNumber: 2 }),
-      );
-      expect(mockS3Service.uploadScreenshot).toHaveBeenNthCalledWith(
-        3,
-        expect.any(Buffer),
-        expect.objectContaining({ frameNumber: 3 }),
-      );
+      expect(results.filter((r) => r.status === 'SCREENSHOT_ERROR')).toEqual([
+        {
+          status: 'SCREENSHOT_ERROR',
+          error: 'S3 upload failed',
+          frameNumber: 2,
+        },
+      ]);
+      expect(results.at(-1).frameCount).toBe(2);
     });
   });
 });
@@ -0,0 +1,213 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ThirdPartyService } from '../../services/third-party.service';
+import {
+  NetworkWaterfall,
+  NetworkWaterfallEntry,
+  WebMetricsResult,
+} from '../../interfaces/cache.interface';
+
+describe('ThirdPartyService', () => {
+  let service: ThirdPartyService;
+
+  const entry = (url: string, transferSize: number): NetworkWaterfallEntry =>
+    ({
+      url,
+      method: 'GET',
+      resourceType: 'Script',
+      failed: false,
+      transferSize,
+      startTime: 0,
+      duration: 50,
+      requestHeaders: {},
+      responseHeaders: {},
+    }) as unknown as NetworkWaterfallEntry;
+
+  const waterfall = (entries: NetworkWaterfallEntry[]): NetworkWaterfall => ({
+    startedAt: '2024-05-01T10:00:00.000Z',
+    redacted: true,
+    entries,
+    summary: {
+      requests: entries.length,
+      failedRequests: 0,
+      transferBytes: 0,
+      duration: 250,
+      truncated: false,
+    },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ThirdPartyService],
+    }).compile();
+
+    service = module.get<ThirdPartyService>(ThirdPartyService);
+  });
+
+  it('should group requests by first party, known entity and unknown site', () => {
+    const report = service.buildReport(
+      'https://www.shop.co.uk/',
+      waterfall([
+        entry('https://www.shop.co.uk/', 20000),
+        entry('https://static.shop.co.uk/app.js', 50000),
+        entry('https://www.googletagmanager.com/gtm.js', 30000),
+        entry('https://www.google-analytics.com/analytics.js', 15000),
+        entry('https://region1.google-analytics.com/g/collect', 500),
+        entry('https://cdn.widgets.example/widget.js', 8000),
+        entry('data:image/png;base64,AAAA', 0),
+      ]),
+      null,
+    );
+
+    expect(report.firstParty).toEqual({
+      domain: 'shop.co.uk',
+      requests: 2,
+      transferBytes: 70000,
+      mainThreadTime: null,
+    });
+    expect(report.thirdParty).toMatchObject({
+      requests: 4,
+      transferBytes: 53500,
+    });
+    expect(
+      report.groups.map(({ entity, category }) => ({ entity, category })),
+    ).toEqual([
+      { entity: 'Google Tag Manager', category: 'tag-manager' },
+      { entity: 'Google Analytics', category: 'analytics' },
+      { entity: null, category: 'other' },
+    ]);
+    expect(report.groups[1].domains.map((d) => d.domain)).toEqual([
+      'www.google-analytics.com',
+      'region1.google-analytics.com',
+    ]);
+    expect(report.groups[2].domains[0].domain).toBe('cdn.widgets.example');
+    expect(report.categories.map((c) => c.category)).toEqual([
+      'tag-manager',
+      'analytics',
+      'other',
+    ]);
+  });
+
+  it('should attribute profiled script time to the script each sample ran in', async () => {
+    const session = {
+      send: jest.fn(async (method: string) =>
+        method === 'Profiler.stop'
+          ? {
+              profile: {
+                nodes: [
+                  {
+                    id: 1,
+                    callFrame: { functionName: '(root)', url: '' },
+                    children: [2, 4],
+                  },
+                  {
+                    id: 2,
+                    callFrame: {
+                      functionName: 'track',
+                      url: 'https://www.googletagmanager.com/gtm.js',
+                    },
+                    children: [3],
+                  },
+                  {
+                    id: 3,
+                    callFrame: { functionName: 'JSON.stringify', url: '' },
+                  },
+                  { id: 4, callFrame: { functionName: '(idle)', url: '' } },
+                ],
+                samples: [2, 3, 3, 4],
+                timeDeltas: [1000, 2000, 1500, 9000],
+              },
+            }
+          : undefined,
+      ),
+      detach: jest.fn().mockResolvedValue(undefined),
+    };
+    const page = {
+      createCDPSession: jest.fn().mockResolvedValue(session),
+    } as any;
+
+    await service.startProfiling(page);
+    const scriptTime = await service.stopProfiling(page);
+
+    expect(session.send).toHaveBeenCalledWith('Profiler.start');
+    expect(session.detach).toHaveBeenCalled();
+    expect(scriptTime).toEqual(
+      new Map([['https://www.googletagmanager.com/gtm.js', 4.5]]),
+    );
+    expect(await service.stopProfiling(page)).toBeNull();
+
+    const report = service.buildReport(
+      'https://example.com/',
+      waterfall([entry('https://example.com/', 1000)]),
+      scriptTime,
+    );
+    expect(report.firstParty.mainThreadTime).toBe(0);
+    expect(report.groups[0]).toMatchObject({
+      entity: 'Google Tag Manager',
+      requests: 0,
+      mainThreadTime: 4.5,
+    });
+  });
+
+  it('should match blocking patterns anywhere in the URL with * wildcards', () => {
+    const isBlocked = service.createBlockMatcher([
+      'googletagmanager.com',
+      '*/ads/*.js',
+    ]);
+
+    expect(isBlocked('https://www.googletagmanager.com/gtm.js?id=1')).toBe(
+      true,
+    );
+    expect(isBlocked('https://EXAMPLE.com/ads/banner.js')).toBe(true);
+    expect(isBlocked('https://example.com/ads/banner.css')).toBe(false);
+    expect(isBlocked('https://example.com/app.js')).toBe(false);
+    expect(service.createBlockMatcher([])('https://example.com/')).toBe(false);
+  });
+
+  it('should report the metric deltas of the blocked run', () => {
+    const baseline = {
+      performanceScore: 62,
+      performanceMetrics: {
+        firstContentfulPaint: 1800,
+        largestContentfulPaint: 3200,
+        totalBlockingTime: 450,
+        cumulativeLayoutShift: 0.12,
+        loadComplete: 0,
+      },
+      networkMetrics: { totalRequests: 80, totalBytes: 2048000 },
+    } as unknown as WebMetricsResult;
+    const blocked = {
+      performanceScore: 78,
+      performanceMetrics: {
+        firstContentfulPaint: 1500,
+        largestContentfulPaint: 2600,
+        totalBlockingTime: 120,
+        cumulativeLayoutShift: 0.12,
+        loadComplete: 2100,
+      },
+      networkMetrics: { totalRequests: 52, totalBytes: 1024000 },
+    } as unknown as WebMetricsResult;
+
+    const deltas = service.compareRuns(baseline, blocked);
+    const byMetric = Object.fromEntries(deltas.map((d) => [d.metric, d]));
+
+    expect(byMetric.performanceScore).toMatchObject({
+      baseline: 62,
+      blocked: 78,
+      delta: 16,
+    });
+    expect(byMetric.totalBlockingTime.delta).toBe(-330);
+    expect(byMetric.cumulativeLayoutShift.delta).toBe(0);
+    expect(byMetric.totalBytes).toMatchObject({
+      unit: 'KB',
+      baseline: 2000,
+      blocked: 1000,
+      delta: -1000,
+    });
+    // A missing measurement has no delta rather than a misleading one
+    expect(byMetric.loadComplete).toMatchObject({
+      baseline: null,
+      blocked: 2100,
+      delta: null,
+    });
+  });
+});
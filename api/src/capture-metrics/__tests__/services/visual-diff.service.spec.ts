@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import { Worker } from 'worker_threads';
+import {
+  compareScreenshots,
+  decodePng,
+  encodePng,
+  VisualDiffService,
+} from '../../services/visual-diff.service';
+
+jest.mock('worker_threads', () => ({ Worker: jest.fn() }));
+
+describe('VisualDiffService', () => {
+  const service = new VisualDiffService();
+
+  // Solid white image with optional coloured rectangles
+  const image = (
+    width: number,
+    height: number,
+    boxes: Array<{
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+      rgb: number[];
+    }> = [],
+  ) => {
+    const data = Buffer.alloc(width * height * 4, 255);
+    for (const { x, y, w, h, rgb } of boxes) {
+      for (let row = y; row < y + h; row++) {
+        for (let col = x; col < x + w; col++) {
+          const i = (row * width + col) * 4;
+          data[i] = rgb[0];
+          data[i + 1] = rgb[1];
+          data[i + 2] = rgb[2];
+        }
+      }
+    }
+    return encodePng({ width, height, data });
+  };
+
+  it('should report the share of changed pixels and draw them in red', () => {
+    const baseline = image(10, 10);
+    const current = image(10, 10, [{ x: 0, y: 0, w: 5, h: 2, rgb: [0, 0, 0] }]);
+
+    expect(compareScreenshots(baseline, baseline)).toMatchObject({
+      changedPixels: 0,
+      changedPercentage: 0,
+      sizeMismatch: false,
+    });
+
+    const result = compareScreenshots(baseline, current);
+    expect(result).toMatchObject({
+      changedPixels: 10,
+      totalPixels: 100,
+      changedPercentage: 10,
+    });
+
+    const diff = decodePng(result.diffImage);
+    expect([...diff.data.subarray(0, 4)]).toEqual([255, 0, 0, 255]);
+    expect(diff.data[(9 * 10 + 9) * 4 + 1]).toBeGreaterThan(200);
+  });
+
+  it('should skip ignored regions and changes below the threshold', () => {
+    const baseline = image(10, 10);
+    const current = image(10, 10, [
+      { x: 0, y: 0, w: 10, h: 2, rgb: [0, 0, 0] },
+      { x: 0, y: 5, w: 10, h: 1, rgb: [250, 250, 250] },
+    ]);
+
+    const result = compareScreenshots(baseline, current, {
+      ignoreRegions: [{ x: 0, y: 0, width: 10, height: 2 }],
+    });
+    expect(result).toMatchObject({ changedPixels: 0, totalPixels: 80 });
+
+    // A threshold of 0 flags even the slightest colour change
+    expect(
+      compareScreenshots(baseline, current, {
+        threshold: 0,
+        ignoreRegions: [{ x: 0, y: 0, width: 10, height: 2 }],
+      }).changedPercentage,
+    ).toBe(12.5);
+  });
+
+  it('should count area only one screenshot covers as changed', () => {
+    const result = compareScreenshots(image(10, 10), image(10, 12));
+
+    expect(result).toMatchObject({
+      changedPixels: 20,
+      totalPixels: 120,
+      changedPercentage: 16.67,
+      sizeMismatch: true,
+    });
+    expect(decodePng(result.diffImage)).toMatchObject({
+      width: 10,
+      height: 12,
+    });
+  });
+
+  it('should reject images it cannot decode', () => {
+    expect(() =>
+      compareScreenshots(Buffer.from('jpeg'), image(1, 1)),
+    ).toThrow();
+  });
+
+  describe('compare', () => {
+    // Runs the worker's comparison in-process, delivered like a message
+    const fakeWorker = (reply: (job: any) => unknown) => {
+      const worker = Object.assign(new EventEmitter(), {
+        terminate: jest.fn().mockResolvedValue(0),
+      });
+      (Worker as unknown as jest.Mock).mockImplementationOnce(
+        (_path, { workerData }) => {
+          setImmediate(() => worker.emit('message', reply(workerData)));
+          return worker;
+        },
+      );
+      return worker;
+    };
+
+    it('should compare in a worker thread and return the diff image as a Buffer', async () => {
+      const baseline = image(10, 10);
+      const current = image(10, 10, [
+        { x: 0, y: 0, w: 5, h: 2, rgb: [0, 0, 0] },
+      ]);
+      const worker = fakeWorker((job) => {
+        const output = compareScreenshots(
+          job.baselinePng,
+          job.currentPng,
+          job.options,
+        );
+        // Structured clone turns Buffers into plain Uint8Arrays
+        return {
+          type: 'result',
+          output: { ...output, diffImage: new Uint8Array(output.diffImage) },
+        };
+      });
+
+      const result = await service.compare(baseline, current, {
+        threshold: 0.2,
+      });
+
+      expect(Worker).toHaveBeenCalledWith(
+        expect.stringContaining('visual-diff.worker'),
+        {
+          workerData: {
+            baselinePng: baseline,
+            currentPng: current,
+            options: { threshold: 0.2 },
+          },
+        },
+      );
+      expect(result.changedPixels).toBe(10);
+      expect(Buffer.isBuffer(result.diffImage)).toBe(true);
+      expect(decodePng(result.diffImage).width).toBe(10);
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should reject when the worker fails', async () => {
+      const worker = fakeWorker(() => ({
+        type: 'error',
+        message: 'Invalid file signature',
+      }));
+
+      await expect(service.compare(image(1, 1), image(1, 1))).rejects.toThrow(
+        'Invalid file signature',
+      );
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+  });
+});
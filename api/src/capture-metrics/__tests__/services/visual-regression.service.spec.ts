@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { VisualRegressionService } from '../../services/visual-regression.service';
+import { VisualDiffService } from '../../services/visual-diff.service';
+import { S3StorageService } from '../../services/s3-storage.service';
+import { VisualBaseline } from '../../schemas/visual-baseline.schema';
+import { TestResult } from '../../schemas/test-result.schema';
+import { DomainEventsService } from '~/common/events/domain-events.service';
+import {
+  DOMAIN_EVENTS,
+  TestCompletedEvent,
+} from '~/common/events/domain-events';
+import { AppError } from '~/common/app-error.common';
+
+describe('VisualRegressionService', () => {
+  let service: VisualRegressionService;
+  let baselineModel: {
+    findOne: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+  };
+  let testResultModel: { findOne: jest.Mock; updateOne: jest.Mock };
+  let s3Storage: { downloadFile: jest.Mock; uploadScreenshot: jest.Mock };
+  let visualDiff: { compare: jest.Mock };
+  let domainEvents: { on: jest.Mock; emit: jest.Mock };
+
+  const userId = new Types.ObjectId().toString();
+  const baselineTestId = new Types.ObjectId().toString();
+  const testResultId = new Types.ObjectId().toString();
+
+  const query = (value: unknown) => ({
+    select: jest.fn().mockReturnThis(),
+    sort: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const baseline = {
+    _id: new Types.ObjectId(),
+    userId,
+    url: 'https://example.com',
+    deviceType: 'desktop',
+    testResultId: new Types.ObjectId(baselineTestId),
+    screenshotUrl: 'https://s3.example/baseline.png',
+    threshold: 0.1,
+    alertPercentage: 1,
+    ignoreRegions: [{ x: 0, y: 0, width: 100, height: 50 }],
+  };
+
+  const completed = (id = testResultId): TestCompletedEvent => ({
+    userId,
+    testResultId: id,
+    url: 'https://example.com',
+    testType: 'performance',
+    status: 'completed',
+    testId: 'test-123',
+    scheduleName: 'Homepage',
+    results: {
+      url: 'https://example.com',
+      deviceType: 'desktop',
+      testType: 'performance',
+      timestamp: Date.now(),
+      status: 'completed',
+      cookieHandling: null,
+      webMetrics: null,
+      screenshots: null,
+      consoleErrors: null,
+      fullPageScreenshot: {
+        url: 'https://s3.example/current.png',
+        width: 1920,
+        height: 3000,
+        truncated: false,
+      },
+    },
+  });
+
+  beforeEach(async () => {
+    baselineModel = {
+      findOne: jest.fn().mockReturnValue(query(baseline)),
+      findOneAndUpdate: jest.fn().mockReturnValue(query(baseline)),
+    };
+    testResultModel = {
+      findOne: jest.fn(),
+      updateOne: jest.fn().mockReturnValue(query({ modifiedCount: 1 })),
+    };
+    s3Storage = {
+      downloadFile: jest.fn(async (url: string) => Buffer.from(url)),
+      uploadScreenshot: jest
+        .fn()
+        .mockResolvedValue('https://s3.example/diff.png'),
+    };
+    visualDiff = {
+      compare: jest.fn().mockResolvedValue({
+        changedPixels: 1200,
+        totalPixels: 40000,
+        changedPercentage: 3,
+        sizeMismatch: false,
+        diffImage: Buffer.from('diff'),
+      }),
+    };
+    domainEvents = {
+      on: jest.fn().mockReturnValue(jest.fn()),
+      emit: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VisualRegressionService,
+        {
+          provide: getModelToken(VisualBaseline.name),
+          useValue: baselineModel,
+        },
+        { provide: getModelToken(TestResult.name), useValue: testResultModel },
+        { provide: S3StorageService, useValue: s3Storage },
+        { provide: VisualDiffService, useValue: visualDiff },
+        { provide: DomainEventsService, useValue: domainEvents },
+      ],
+    }).compile();
+
+    service = module.get<VisualRegressionService>(VisualRegressionService);
+  });
+
+  describe('setBaseline', () => {
+    it("should make the test's full-page screenshot the baseline of its URL and device", async () => {
+      testResultModel.findOne.mockReturnValue(
+        query({
+          url: 'https://example.com',
+          testConfig: { deviceType: 'mobile' },
+          results: {
+            fullPageScreenshot: {
+              url: 'https://s3.example/full.png',
+              width: 375,
+              height: 2400,
+            },
+          },
+        }),
+      );
+
+      await service.setBaseline(userId, baselineTestId, {
+        alertPercentage: 2.5,
+      });
+
+      const [filter, update, options] =
+        baselineModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({
+        userId: new Types.ObjectId(userId),
+        url: 'https://example.com',
+        deviceType: 'mobile',
+      });
+      expect(update.$set).toMatchObject({
+        screenshotUrl: 'https://s3.example/full.png',
+        width: 375,
+        height: 2400,
+        threshold: 0.1,
+        alertPercentage: 2.5,
+        ignoreRegions: [],
+      });
+      expect(options).toMatchObject({ upsert: true });
+    });
+
+    it('should reject tests without a full-page screenshot', async () => {
+      testResultModel.findOne.mockReturnValue(
+        query({ url: 'https://example.com', results: {} }),
+      );
+
+      await expect(
+        service.setBaseline(userId, baselineTestId, {}),
+      ).rejects.toThrow(AppError);
+      expect(baselineModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compareWithBaseline', () => {
+    it('should store the comparison and alert when the change exceeds the alert percentage', async () => {
+      const result = await service.compareWithBaseline(completed());
+
+      expect(visualDiff.compare).toHaveBeenCalledWith(
+        Buffer.from('https://s3.example/baseline.png'),
+        Buffer.from('https://s3.example/current.png'),
+        { threshold: 0.1, ignoreRegions: baseline.ignoreRegions },
+      );
+      expect(s3Storage.uploadScreenshot).toHaveBeenCalledWith(
+        Buffer.from('diff'),
+        expect.objectContaining({
+          testId: 'test-123-visual-diff',
+          format: 'png',
+        }),
+      );
+      expect(result).toMatchObject({
+        baselineTestId,
+        diffImage: 'https://s3.example/diff.png',
+        changedPercentage: 3,
+        changed: true,
+      });
+      expect(testResultModel.updateOne).toHaveBeenCalledWith(
+        { _id: new Types.ObjectId(testResultId) },
+        { $set: { 'results.visualDiff': result } },
+      );
+      expect(domainEvents.emit).toHaveBeenCalledWith(
+        DOMAIN_EVENTS.VISUAL_CHANGE_DETECTED,
+        expect.objectContaining({
+          testResultId,
+          changedPercentage: 3,
+          alertPercentage: 1,
+          scheduleName: 'Homepage',
+        }),
+      );
+    });
+
+    it('should store changes within the alert percentage without alerting', async () => {
+      visualDiff.compare.mockResolvedValue({
+        changedPixels: 4,
+        totalPixels: 40000,
+        changedPercentage: 0.01,
+        sizeMismatch: false,
+        diffImage: Buffer.from('diff'),
+      });
+
+      const result = await service.compareWithBaseline(completed());
+
+      expect(result).toMatchObject({ changed: false });
+      expect(testResultModel.updateOne).toHaveBeenCalled();
+      expect(domainEvents.emit).not.toHaveBeenCalled();
+    });
+
+    it("should not compare the baseline's own test or tests without a screenshot", async () => {
+      expect(
+        await service.compareWithBaseline(completed(baselineTestId)),
+      ).toBeNull();
+
+      const withoutScreenshot = completed();
+      withoutScreenshot.results.fullPageScreenshot = null;
+      expect(await service.compareWithBaseline(withoutScreenshot)).toBeNull();
+
+      expect(visualDiff.compare).not.toHaveBeenCalled();
+      expect(testResultModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
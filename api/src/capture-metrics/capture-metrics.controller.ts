@@ -11,8 +11,10 @@ import {
   Body,
   Req,
   Get,
+  Delete,
+  Param,
 } from '@nestjs/common';
-import { Observable } from 'rxjs';
+import { Observable, map } from 'rxjs';
 
 import {
   CreateCaptureData,
@@ -56,7 +58,6 @@ export class CaptureMetricsController {
       sequential = 'false',
       includeScreenshots = 'true',
       batchName,
-      batchId,
     } = query;
 
     if (!urls) {
@@ -77,7 +78,8 @@ export class CaptureMetricsController {
       );
     }
 
-    // Build the batch data object
+    // Build the batch data object. Anonymous batches are never recorded;
+    // saved batches are started through the batch tests API
     const batchData: CreateBatchCaptureData = {
       urls: urlArray.map((url: string, index: number) => ({
         url,
@@ -88,7 +90,6 @@ export class CaptureMetricsController {
       sequential: sequential === 'true',
       includeScreenshots: includeScreenshots === 'true',
       batchName,
-      batchId,
     };
 
     this.logger.log(
@@ -108,11 +109,55 @@ export class CaptureMetricsController {
     @Query() query: CreateCaptureData,
     @Req() request: any,
   ): Observable<MessageEvent> {
+    // Query strings end up in access logs and browser history
+    if (query.auth) {
+      throw new AppError(
+        'Credentials cannot be sent in the query string; submit an authenticated capture as a capture job',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
     this.logger.log(`Received capture request: ${JSON.stringify(query)}`);
-    return this.captureOrchestrator.startCapture(
-      query,
-      request.abortSignal,
-    ) as Observable<MessageEvent>;
+    return this.captureOrchestrator
+      .startCapture(query, request.abortSignal)
+      .pipe(
+        map((event) => this.captureOrchestrator.toClientEvent(event)),
+      ) as Observable<MessageEvent>;
+  }
+
+  /**
+   * DELETE /capture-metrics/tests/:testId
+   * Cancel a running single capture of the user, e.g. from another tab,
+   * a CI job or for a scheduled run
+   */
+  @Delete('tests/:testId')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  cancelCapture(
+    @Param('testId') testId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log(
+      `Received cancel request for capture ${testId} from user: ${user.email}`,
+    );
+    return this.captureOrchestrator.cancelCapture(testId, user.id);
+  }
+
+  /**
+   * DELETE /capture-metrics/batches/:batchId
+   * Cancel a running batch capture of the user
+   */
+  @Delete('batches/:batchId')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  cancelBatch(
+    @Param('batchId') batchId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log(
+      `Received cancel request for batch ${batchId} from user: ${user.email}`,
+    );
+    return this.captureOrchestrator.cancelBatch(batchId, user.id);
   }
 
   @Post('save')
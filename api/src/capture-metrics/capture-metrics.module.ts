@@ -41,6 +41,9 @@ import { TestResult, TestResultSchema } from './schemas/test-result.schema';
     BatchCaptureService,
   ],
   controllers: [CaptureMetricsController],
-  // No exports needed - BrowserManagementModule is @Global()
+  // SingleCaptureService is used by the scheduler for headless runs and
+  // CaptureOrchestratorService by batch retries.
+  // BrowserManagementModule is @Global() so the pool needs no export.
+  exports: [SingleCaptureService, CaptureOrchestratorService],
 })
 export class CaptureMetricsModule {}
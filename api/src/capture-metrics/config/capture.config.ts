@@ -13,9 +13,30 @@ export const BROWSER_POOL_CONFIG = {
   IDLE_TIMEOUT_MS: 0, // Disabled for now
   IDLE_CHECK_INTERVAL_MS: 60000, // 1 minute
   PAGE_CLOSE_TIMEOUT_MS: 3000,
+  CONTEXT_CLOSE_TIMEOUT_MS: 3000, // Per-page incognito context disposal
+  // Relaunch the browser after this many pages (0 disables)
+  RECYCLE_AFTER_PAGES: 200,
+  // Relaunch once the browser's processes use this much PSS (0 disables)
+  RECYCLE_MEMORY_LIMIT_MB: 1024,
+  // Longest wait for in-flight pages before a recycle closes them anyway
+  RECYCLE_DRAIN_TIMEOUT_MS: 600000, // 10 minutes
   BROWSER_LAUNCH_TIMEOUT_MS: 30000,
 } as const;
 
+/**
+ * Lighthouse Worker Configuration
+ */
+export const LIGHTHOUSE_CONFIG = {
+  // Audits run in a forked process with its own Chromium; it is killed when
+  // it passes either cap and the capture falls back to page scoring
+  WORKER_TIMEOUT_MS: 75000, // Inside the 90s performance test timeout
+  WORKER_MEMORY_LIMIT_MB: 1536, // PSS of the worker and its Chromium
+  WORKER_HEAP_MB: 512, // --max-old-space-size of the worker itself
+  MEMORY_CHECK_INTERVAL_MS: 1000,
+  // Each worker runs its own Chromium; further audits queue for a slot
+  MAX_CONCURRENT_WORKERS: 2,
+} as const;
+
 /**
  * Cache Configuration
  */
@@ -47,6 +68,25 @@ export const SCREENSHOT_CONFIG = {
   FULL_PAGE: false, // Capture only viewport
 } as const;
 
+/**
+ * Filmstrip Configuration
+ *
+ * Frames come from a CDP screencast started before navigation, so they cost
+ * the page no extra screenshots and catch changes between polls.
+ */
+export const FILMSTRIP_CONFIG = {
+  MAX_DURATION_MS: 10000, // Recorded from navigation start
+  // Stop early once the page has loaded and nothing has painted for this long
+  IDLE_AFTER_LOAD_MS: 2000,
+  POLL_INTERVAL_MS: 100,
+  // PNG so frames can be decoded for visual progress; scaled to fit
+  MAX_FRAME_WIDTH: 1024,
+  MAX_FRAME_HEIGHT: 1024,
+  MAX_RECORDED_FRAMES: 200, // Distinct frames kept in memory
+  MAX_FRAMES: 15, // Frames uploaded; visual milestones are always among them
+  VISUALLY_COMPLETE_THRESHOLDS: [85, 95, 99],
+} as const;
+
 /**
  * Cookie Detection Configuration
  */
@@ -74,6 +114,128 @@ export const RETRY_CONFIG = {
   INITIAL_RETRY_DELAY_MS: 1000,
 } as const;
 
+/**
+ * Multi-run Configuration
+ *
+ * Repeated page loads smooth out run-to-run variance; the median run is
+ * reported as the representative result.
+ */
+export const MULTI_RUN_CONFIG = {
+  MIN_RUNS: 1,
+  MAX_RUNS: 9,
+  DEFAULT_RUNS: 1,
+} as const;
+
+/**
+ * Network Recorder Configuration
+ *
+ * Caps the CDP waterfall so a request-heavy page can't bloat the stored
+ * result; header values that carry credentials are not stored unless the
+ * capture opts out of redaction.
+ */
+export const NETWORK_RECORDER_CONFIG = {
+  MAX_ENTRIES: 500,
+  REDACTED_HEADERS: [
+    'authorization',
+    'proxy-authorization',
+    'cookie',
+    'set-cookie',
+  ],
+} as const;
+
+/**
+ * Capture Credentials Configuration
+ *
+ * Headers, cookies and basic auth sent with authenticated captures. They are
+ * encrypted wherever they are stored and never returned by the API.
+ */
+export const CREDENTIALS_CONFIG = {
+  ALGORITHM: 'aes-256-gcm',
+  KEY_VERSION: 'v1', // Prefix of stored ciphertexts, bumped when the format changes
+  IV_BYTES: 12,
+  MAX_HEADERS: 20,
+  MAX_HEADER_VALUE_LENGTH: 4096,
+  // Headers the browser manages itself and a capture must not override
+  FORBIDDEN_HEADERS: [
+    'host',
+    'content-length',
+    'connection',
+    'transfer-encoding',
+    'upgrade',
+    'keep-alive',
+    'te',
+    'trailer',
+  ],
+} as const;
+
+/**
+ * Journey Test Configuration
+ *
+ * Steps of a scripted journey run one after another in the same page; a
+ * step that exceeds its timeout fails the journey.
+ */
+export const JOURNEY_CONFIG = {
+  MAX_STEPS: 20,
+  STEP_TIMEOUT_MS: 15000,
+  MAX_STEP_TIMEOUT_MS: 60000,
+  // Quiet network time after a click or typing before the step is timed
+  SETTLE_IDLE_MS: 500,
+  SETTLE_TIMEOUT_MS: 5000,
+  SCREENSHOT_QUALITY: 60,
+} as const;
+
+/**
+ * Screenshot Matrix Configuration
+ *
+ * Matrix tests render one URL at several viewports in parallel pool pages.
+ * Custom viewports up to MOBILE_MAX_WIDTH wide are emulated as phones and
+ * up to TABLET_MAX_WIDTH as tablets.
+ */
+export const SCREENSHOT_MATRIX_CONFIG = {
+  DEFAULT_VIEWPORTS: [
+    { width: 360, height: 800 },
+    { width: 768, height: 1024 },
+    { width: 1024, height: 768 },
+    { width: 1440, height: 900 },
+    { width: 1920, height: 1080 },
+  ],
+  MAX_VIEWPORTS: 10,
+  CONCURRENCY: 3, // Pool pages used at once
+  NAVIGATION_TIMEOUT_MS: 30000,
+  SETTLE_IDLE_MS: 500,
+  SETTLE_TIMEOUT_MS: 5000,
+  ABOVE_THE_FOLD_QUALITY: 80,
+  MOBILE_MAX_WIDTH: 767,
+  TABLET_MAX_WIDTH: 1023,
+  // Heights of custom viewports given only a width
+  DEFAULT_HEIGHTS: { mobile: 800, tablet: 1024, desktop: 1080 },
+} as const;
+
+/**
+ * Visual Regression Configuration
+ *
+ * The final full-page screenshot of a test is compared pixel by pixel with
+ * the baseline set for its URL and device.
+ */
+export const VISUAL_REGRESSION_CONFIG = {
+  MAX_HEIGHT: 5000, // CSS pixels; taller pages are cut off
+  // Per-pixel colour difference (0-1) below which pixels count as unchanged
+  DEFAULT_THRESHOLD: 0.1,
+  // Changed pixels (%) above which a comparison raises an alert
+  DEFAULT_ALERT_PERCENTAGE: 1,
+  MAX_IGNORE_REGIONS: 20,
+  WORKER_TIMEOUT_MS: 30000, // A comparison taking longer is abandoned
+} as const;
+
+/**
+ * HAR Export Configuration
+ */
+export const HAR_CONFIG = {
+  VERSION: '1.2',
+  CREATOR: { name: 'BugSpy', version: '1.0' },
+  CONTENT_TYPE: 'application/json',
+} as const;
+
 /**
  * Performance Metrics Configuration
  */
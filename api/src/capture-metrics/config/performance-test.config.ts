@@ -38,13 +38,21 @@ export interface PerformanceTestConfig {
   };
 }
 
-interface NetworkThrottling {
-  downloadThroughput: number;
-  uploadThroughput: number;
-  latency: number;
+/**
+ * Network throttling profile, in CDP Network.emulateNetworkConditions units
+ */
+export interface NetworkThrottling {
+  downloadThroughput: number; // bytes/sec, 0 disables throttling
+  uploadThroughput: number; // bytes/sec, 0 disables throttling
+  latency: number; // added round-trip latency in ms
   offline: boolean;
+  packetLoss: number; // percentage of packets dropped (0-100)
+  packetQueueLength: number; // max packets queued before dropping, 0 for unlimited
+  packetReordering: boolean;
 }
 
+export type NetworkType = keyof PerformanceTestConfig['network']['throttling'];
+
 export const PERFORMANCE_TEST_CONFIG: PerformanceTestConfig = {
   screenshots: {
     enabled: true,
@@ -90,30 +98,45 @@ export const PERFORMANCE_TEST_CONFIG: PerformanceTestConfig = {
         uploadThroughput: (400 * 1024) / 8, // 400 Kbps
         latency: 200, // 200ms
         offline: false,
+        packetLoss: 1, // Lossy mobile link
+        packetQueueLength: 20,
+        packetReordering: true,
       },
       '4g': {
         downloadThroughput: (4 * 1024 * 1024) / 8, // 4 Mbps
         uploadThroughput: (3 * 1024 * 1024) / 8, // 3 Mbps
         latency: 20, // 20ms
         offline: false,
+        packetLoss: 0.5,
+        packetQueueLength: 50,
+        packetReordering: false,
       },
       '5g': {
         downloadThroughput: (20 * 1024 * 1024) / 8, // 20 Mbps
         uploadThroughput: (10 * 1024 * 1024) / 8, // 10 Mbps
         latency: 10, // 10ms
         offline: false,
+        packetLoss: 0,
+        packetQueueLength: 0,
+        packetReordering: false,
       },
       wifi: {
         downloadThroughput: (30 * 1024 * 1024) / 8, // 30 Mbps
         uploadThroughput: (15 * 1024 * 1024) / 8, // 15 Mbps
         latency: 5, // 5ms
         offline: false,
+        packetLoss: 0,
+        packetQueueLength: 0,
+        packetReordering: false,
       },
       none: {
         downloadThroughput: 0,
         uploadThroughput: 0,
         latency: 0,
         offline: false,
+        packetLoss: 0,
+        packetQueueLength: 0,
+        packetReordering: false,
       },
     },
   },
@@ -0,0 +1,195 @@
+export type ThirdPartyCategory =
+  | 'analytics'
+  | 'ads'
+  | 'tag-manager'
+  | 'cdn'
+  | 'social'
+  | 'customer-success'
+  | 'video'
+  | 'other';
+
+export interface ThirdPartyEntity {
+  name: string;
+  category: ThirdPartyCategory;
+  domains: string[]; // Hosts; subdomains match too and the most specific host wins
+}
+
+/**
+ * Third-Party Analysis Configuration
+ */
+export const THIRD_PARTY_CONFIG = {
+  // CDP sampling profiler interval; 1ms keeps overhead low on the page
+  PROFILER_SAMPLING_INTERVAL_US: 1000,
+  // Matches the blockUrls limit of CreateCaptureData
+  MAX_BLOCK_PATTERNS: 20,
+} as const;
+
+// Public suffixes with two labels, so "shop.example.co.uk" groups as "example.co.uk"
+export const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk',
+  'org.uk',
+  'ac.uk',
+  'gov.uk',
+  'com.au',
+  'net.au',
+  'org.au',
+  'co.nz',
+  'co.jp',
+  'co.in',
+  'co.za',
+  'com.br',
+  'com.cn',
+  'com.mx',
+  'com.tr',
+  'com.sg',
+]);
+
+/**
+ * Well-known third parties, grouped the way their owners ship them
+ */
+export const THIRD_PARTY_ENTITIES: ThirdPartyEntity[] = [
+  {
+    name: 'Google Analytics',
+    category: 'analytics',
+    domains: ['google-analytics.com', 'analytics.google.com'],
+  },
+  {
+    name: 'Google Tag Manager',
+    category: 'tag-manager',
+    domains: ['googletagmanager.com'],
+  },
+  {
+    name: 'Google Ads',
+    category: 'ads',
+    domains: [
+      'doubleclick.net',
+      'googlesyndication.com',
+      'googleadservices.com',
+      'googletagservices.com',
+      'adservice.google.com',
+    ],
+  },
+  {
+    name: 'Google Fonts',
+    category: 'cdn',
+    domains: ['fonts.googleapis.com', 'fonts.gstatic.com'],
+  },
+  {
+    name: 'Google CDN',
+    category: 'cdn',
+    domains: ['ajax.googleapis.com', 'gstatic.com'],
+  },
+  {
+    name: 'YouTube',
+    category: 'video',
+    domains: ['youtube.com', 'ytimg.com', 'youtube-nocookie.com'],
+  },
+  {
+    name: 'Facebook',
+    category: 'social',
+    domains: ['facebook.net', 'facebook.com', 'fbcdn.net'],
+  },
+  {
+    name: 'Twitter',
+    category: 'social',
+    domains: ['twitter.com', 'twimg.com', 'x.com', 'ads-twitter.com'],
+  },
+  {
+    name: 'LinkedIn',
+    category: 'social',
+    domains: ['linkedin.com', 'licdn.com'],
+  },
+  {
+    name: 'TikTok',
+    category: 'ads',
+    domains: ['tiktok.com', 'analytics.tiktok.com'],
+  },
+  {
+    name: 'Microsoft Advertising',
+    category: 'ads',
+    domains: ['bat.bing.com', 'clarity.ms'],
+  },
+  { name: 'Criteo', category: 'ads', domains: ['criteo.com', 'criteo.net'] },
+  { name: 'Taboola', category: 'ads', domains: ['taboola.com'] },
+  { name: 'Outbrain', category: 'ads', domains: ['outbrain.com'] },
+  { name: 'Amazon Ads', category: 'ads', domains: ['amazon-adsystem.com'] },
+  { name: 'Hotjar', category: 'analytics', domains: ['hotjar.com'] },
+  {
+    name: 'Segment',
+    category: 'analytics',
+    domains: ['segment.com', 'segment.io'],
+  },
+  { name: 'Mixpanel', category: 'analytics', domains: ['mixpanel.com'] },
+  { name: 'Amplitude', category: 'analytics', domains: ['amplitude.com'] },
+  {
+    name: 'Heap',
+    category: 'analytics',
+    domains: ['heap.io', 'heapanalytics.com'],
+  },
+  { name: 'FullStory', category: 'analytics', domains: ['fullstory.com'] },
+  {
+    name: 'New Relic',
+    category: 'analytics',
+    domains: ['newrelic.com', 'nr-data.net'],
+  },
+  {
+    name: 'Sentry',
+    category: 'analytics',
+    domains: ['sentry.io', 'sentry-cdn.com'],
+  },
+  {
+    name: 'Adobe Analytics',
+    category: 'analytics',
+    domains: ['omtrdc.net', 'demdex.net'],
+  },
+  {
+    name: 'Adobe Tag Manager',
+    category: 'tag-manager',
+    domains: ['adobedtm.com'],
+  },
+  {
+    name: 'Tealium',
+    category: 'tag-manager',
+    domains: ['tiqcdn.com', 'tealiumiq.com'],
+  },
+  {
+    name: 'Intercom',
+    category: 'customer-success',
+    domains: ['intercom.io', 'intercomcdn.com'],
+  },
+  {
+    name: 'Zendesk',
+    category: 'customer-success',
+    domains: ['zdassets.com', 'zendesk.com'],
+  },
+  {
+    name: 'Drift',
+    category: 'customer-success',
+    domains: ['drift.com', 'driftt.com'],
+  },
+  {
+    name: 'HubSpot',
+    category: 'customer-success',
+    domains: [
+      'hubspot.com',
+      'hs-scripts.com',
+      'hs-analytics.net',
+      'hsforms.net',
+    ],
+  },
+  {
+    name: 'Cloudflare CDN',
+    category: 'cdn',
+    domains: ['cdnjs.cloudflare.com'],
+  },
+  { name: 'jsDelivr', category: 'cdn', domains: ['jsdelivr.net'] },
+  { name: 'unpkg', category: 'cdn', domains: ['unpkg.com'] },
+  { name: 'Fastly', category: 'cdn', domains: ['fastly.net'] },
+  {
+    name: 'Akamai',
+    category: 'cdn',
+    domains: ['akamaihd.net', 'akamaized.net'],
+  },
+  { name: 'Amazon CloudFront', category: 'cdn', domains: ['cloudfront.net'] },
+  { name: 'Vimeo', category: 'video', domains: ['vimeo.com', 'vimeocdn.com'] },
+];
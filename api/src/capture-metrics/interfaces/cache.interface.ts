@@ -1,5 +1,11 @@
-import { CreateCaptureData } from '~/dto/create-capture-data';
+import { CreateCaptureData, JourneyStepAction } from '~/dto/create-capture-data';
 import { ConsoleErrorsResult } from '../services/console-errors.service';
+import { AccessibilityAuditResult } from '../services/accessibility.service';
+import {
+  NetworkThrottling,
+  NetworkType,
+} from '../config/performance-test.config';
+import { ThirdPartyCategory } from '../config/third-party.config';
 
 export interface CachedTestResult {
   captureData: CreateCaptureData;
@@ -18,6 +24,344 @@ export interface TestResults {
   webMetrics: WebMetricsResult | null;
   screenshots: ScreenshotResult | null;
   consoleErrors: ConsoleErrorsResult | null;
+  accessibility?: AccessibilityAuditResult | null;
+  networkProfile?: NetworkProfile;
+  // Multi-run captures: the top-level fields are those of the median run
+  run?: number; // 1-based index of this run
+  runs?: TestResults[];
+  runSummary?: RunSummary;
+  // Warm-cache reload; the top-level webMetrics are the cold first view
+  repeatView?: RepeatViewResult;
+  budget?: BudgetResult;
+  networkWaterfall?: StoredNetworkWaterfall;
+  har?: HarArtifact | null;
+  thirdParty?: ThirdPartyReport;
+  blockingExperiment?: BlockingExperimentResult | null;
+  auth?: CaptureAuthSummary; // Names of the credentials sent, never values
+  journey?: JourneyResult;
+  fullPageScreenshot?: FullPageScreenshot | null;
+  visualDiff?: VisualDiffResult; // Set once compared with the URL's baseline
+  screenshotMatrix?: ScreenshotMatrixResult;
+}
+
+/**
+ * Time spent in each phase of a request, in ms; -1 when a phase did not
+ * happen (reused connection, cached response, failed request)
+ */
+export interface NetworkTimingPhases {
+  blocked: number;
+  dns: number;
+  connect: number; // Includes ssl
+  ssl: number;
+  send: number;
+  wait: number; // Time to first byte of the response
+  receive: number;
+}
+
+/**
+ * One request recorded through the CDP Network domain
+ */
+export interface NetworkWaterfallEntry {
+  url: string;
+  method: string;
+  resourceType: string;
+  mimeType: string | null;
+  status: number | null; // null when no response was received
+  statusText: string | null;
+  protocol: string | null;
+  priority: string | null;
+  initiator: { type: string; url?: string; lineNumber?: number };
+  remoteAddress: string | null;
+  fromCache: boolean;
+  fromServiceWorker: boolean;
+  failed: boolean;
+  errorText: string | null;
+  transferSize: number; // Bytes on the wire, including headers
+  resourceSize: number; // Decoded body bytes
+  startTime: number; // ms since the first request
+  duration: number; // ms
+  timings: NetworkTimingPhases;
+  requestHeaders: Record<string, string>;
+  responseHeaders: Record<string, string>;
+}
+
+/**
+ * Network waterfall of a page load, in request start order
+ */
+export interface NetworkWaterfall {
+  startedAt: string | null; // Wall-clock time of the first request (ISO 8601)
+  redacted: boolean; // Credential headers replaced with '[redacted]'
+  entries: NetworkWaterfallEntry[];
+  summary: {
+    requests: number;
+    failedRequests: number;
+    transferBytes: number;
+    duration: number; // ms from the first request to the last response
+    truncated: boolean; // true when requests beyond MAX_ENTRIES were dropped
+  };
+}
+
+/**
+ * Network waterfall as kept with a result: the headers of its requests
+ * are only kept in the HAR archive
+ */
+export type StoredNetworkWaterfall = Omit<NetworkWaterfall, 'entries'> & {
+  entries: Omit<NetworkWaterfallEntry, 'requestHeaders' | 'responseHeaders'>[];
+};
+
+/**
+ * What clients see of a waterfall in a capture's events
+ */
+export type NetworkWaterfallSummary = Omit<NetworkWaterfall, 'entries'>;
+
+/**
+ * HAR archive of a capture, stored privately through the storage layer.
+ * The key never leaves the API; clients download the archive through the
+ * authenticated HAR endpoint of their test.
+ */
+export interface HarArtifact {
+  key: string; // Storage key of the private object
+  entries: number;
+  size: number; // bytes
+  redacted: boolean;
+}
+
+/**
+ * What clients see of a stored HAR archive
+ */
+export type HarSummary = Omit<HarArtifact, 'key'>;
+
+/**
+ * Requests, bytes and main-thread time of one host or group of hosts.
+ * mainThreadTime is sampled JavaScript execution in ms; null when the page
+ * was not profiled.
+ */
+export interface ThirdPartyUsage {
+  requests: number;
+  transferBytes: number;
+  mainThreadTime: number | null;
+}
+
+export interface ThirdPartyDomainUsage extends ThirdPartyUsage {
+  domain: string;
+}
+
+export interface ThirdPartyGroup extends ThirdPartyUsage {
+  entity: string | null; // Known owner, or null for an unrecognised domain
+  category: ThirdPartyCategory;
+  domains: ThirdPartyDomainUsage[];
+}
+
+export interface ThirdPartyReport {
+  firstParty: ThirdPartyUsage & { domain: string };
+  thirdParty: ThirdPartyUsage; // Totals over all groups
+  groups: ThirdPartyGroup[]; // Heaviest first
+  categories: Array<ThirdPartyUsage & { category: ThirdPartyCategory }>;
+}
+
+/**
+ * Change of one metric when the experiment's URL patterns are blocked;
+ * delta is blocked - baseline, so a negative delta is a saving
+ */
+export interface MetricDelta {
+  metric: string;
+  label: string;
+  unit: 'ms' | 'KB' | 'count' | 'score' | '';
+  baseline: number | null;
+  blocked: number | null;
+  delta: number | null;
+}
+
+export interface BlockingExperimentResult {
+  patterns: string[];
+  blockedRequests: number;
+  webMetrics: WebMetricsResult | null; // Of the blocked run (median run for multi-run)
+  deltas: MetricDelta[];
+}
+
+/**
+ * What credentials a capture was sent with, without their values; the
+ * only form in which credentials leave the API
+ */
+export interface CaptureAuthSummary {
+  headers: string[]; // Header names
+  cookies: string[]; // Cookie names
+  basicAuth: boolean;
+}
+
+/**
+ * Web vitals of the document a journey step ended on, in ms (cls unitless).
+ * They accumulate from the last navigation, so steps that stay in the same
+ * document report the vitals of that document so far.
+ */
+export interface JourneyVitals {
+  url: string;
+  ttfb: number | null;
+  fcp: number | null;
+  lcp: number | null;
+  cls: number;
+  tbt: number; // Long-task time over 50 ms since the navigation
+  inp: number | null; // Slowest interaction so far
+}
+
+export interface JourneyStepResult {
+  index: number; // 1-based
+  name: string;
+  action: JourneyStepAction;
+  status: 'passed' | 'failed' | 'skipped';
+  startTime: number; // ms since the journey started
+  duration: number; // ms, including the settle time after clicks and typing
+  navigated: boolean; // The step loaded a new document
+  url: string | null; // Page URL when the step ended
+  screenshot: string | null; // S3 URL
+  vitals: JourneyVitals | null;
+  error?: string;
+}
+
+/**
+ * Timeline of a scripted journey; passed is false if any step failed
+ */
+export interface JourneyResult {
+  passed: boolean;
+  duration: number;
+  failedStep: number | null; // index of the failed step
+  steps: JourneyStepResult[];
+}
+
+/**
+ * Final full-page screenshot of a test; compared with the visual baseline
+ */
+export interface FullPageScreenshot {
+  url: string;
+  width: number; // CSS pixels
+  height: number; // CSS pixels, capped at VISUAL_REGRESSION_CONFIG.MAX_HEIGHT
+  truncated: boolean; // true if the page was taller than the screenshot
+}
+
+/**
+ * Viewport a screenshot matrix entry was rendered at
+ */
+export interface MatrixViewportInfo {
+  label: string; // e.g. "iPhone 15" or "1440×900"
+  device: string | null; // Known device name, null for custom widths
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+}
+
+/**
+ * Screenshots of the page at one matrix viewport
+ */
+export interface ScreenshotMatrixEntry {
+  viewport: MatrixViewportInfo;
+  status: 'completed' | 'failed';
+  fullPage: FullPageScreenshot | null;
+  aboveTheFold: string | null; // S3 URL of the first viewport-sized screen
+  loadTime: number | null; // ms until the load event
+  error?: string;
+}
+
+/**
+ * Screenshots of one URL at every viewport of a matrix test, in request order
+ */
+export interface ScreenshotMatrixResult {
+  entries: ScreenshotMatrixEntry[];
+  duration: number;
+}
+
+/**
+ * Area of a page left out of visual comparisons, in CSS pixels
+ */
+export interface VisualIgnoreRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pixel comparison of a test's full-page screenshot with its baseline
+ */
+export interface VisualDiffResult {
+  baselineId: string;
+  baselineTestId: string;
+  baselineScreenshot: string;
+  diffImage: string | null; // Changed pixels in red over a faded screenshot
+  changedPixels: number;
+  totalPixels: number; // Compared pixels, excluding ignored regions
+  changedPercentage: number;
+  threshold: number;
+  alertPercentage: number;
+  changed: boolean; // changedPercentage exceeds alertPercentage
+  sizeMismatch: boolean; // Screenshots differ in size; extra area counts as changed
+  comparedAt: Date;
+}
+
+/**
+ * Outcome of checking one budget limit against the collected metrics
+ */
+export interface BudgetAssertion {
+  metric: string; // PerformanceBudget key, e.g. 'maxLcp'
+  label: string;
+  limit: number;
+  actual: number | null; // null when the capture did not report the metric
+  unit: 'ms' | 'KB' | 'count' | 'score' | '';
+  status: 'pass' | 'fail' | 'unknown';
+}
+
+/**
+ * Performance budget verdict; passed is false if any assertion failed
+ */
+export interface BudgetResult {
+  passed: boolean;
+  assertions: BudgetAssertion[];
+}
+
+/**
+ * Repeat view of a capture: the same page reloaded with a warm HTTP cache
+ * and any service worker the first view installed
+ */
+export interface RepeatViewResult {
+  webMetrics: WebMetricsResult | null;
+  comparison: RepeatViewComparison | null;
+}
+
+/**
+ * How much the warm cache saved relative to the first view
+ */
+export interface RepeatViewComparison {
+  requestsSaved: number;
+  bytesSaved: number;
+  cachedRequests: number; // Repeat-view requests served without a network transfer
+  loadTimeSaved: number; // ms
+}
+
+/**
+ * Spread of a single metric across repeated runs
+ */
+export interface MetricStats {
+  median: number;
+  min: number;
+  max: number;
+  stddev: number;
+}
+
+/**
+ * Aggregate of a multi-run capture
+ */
+export interface RunSummary {
+  requestedRuns: number;
+  completedRuns: number;
+  medianRun: number; // 1-based index of the representative run
+  metrics: Record<string, MetricStats>; // Keyed by webMetrics path, e.g. 'vitalsMetrics.LCP'
+}
+
+/**
+ * Network throttling profile as applied to a capture
+ */
+export interface NetworkProfile extends NetworkThrottling {
+  name: NetworkType;
 }
 
 export interface CookieHandlingResult {
@@ -92,6 +436,7 @@ export interface PerformanceMetrics {
   largestContentfulPaint: number;
   domContentLoaded: number;
   loadComplete: number;
+  speedIndex?: number; // ms, from the filmstrip's visual progress
 }
 
 export interface NetworkMetrics {
@@ -111,6 +456,50 @@ export interface ScreenshotResult {
   deviceType: string;
   screenshots: string[]; // Array of S3 URLs
   message: string;
+  filmstrip?: Filmstrip;
+}
+
+/**
+ * One uploaded filmstrip frame
+ */
+export interface FilmstripFrame {
+  url: string; // S3 URL
+  timestamp: number; // ms after navigation start
+  visualProgress: number | null; // 0-100; null if the frame couldn't be decoded
+}
+
+/**
+ * Visual completeness of one distinct frame, measured by how close its
+ * colour histogram is to the final frame's
+ */
+export interface VisualProgressPoint {
+  timestamp: number; // ms after navigation start
+  progress: number; // 0-100
+}
+
+/**
+ * Visual milestones in ms after navigation start; null if never reached
+ */
+export interface VisualMilestones {
+  firstVisualChange: number | null;
+  visuallyComplete85: number | null;
+  visuallyComplete95: number | null;
+  visuallyComplete99: number | null;
+  lastVisualChange: number | null;
+}
+
+/**
+ * Screencast filmstrip of a page load
+ */
+export interface Filmstrip {
+  frames: FilmstripFrame[];
+  visualProgress: VisualProgressPoint[]; // Every distinct frame
+  milestones: VisualMilestones;
+  speedIndex: number | null; // ms; area above the visual progress curve
+  duration: number; // ms recorded after navigation start
+  framesReceived: number; // Screencast frames, identical ones included
+  distinctFrames: number;
+  truncated: boolean; // More distinct frames than could be kept
 }
 
 export interface SaveTestRequest {
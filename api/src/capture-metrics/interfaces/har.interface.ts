@@ -0,0 +1,82 @@
+/**
+ * HTTP Archive (HAR) 1.2
+ *
+ * Only the parts BugSpy writes; fields starting with an underscore are the
+ * custom fields Chrome DevTools also emits and reads back.
+ * @see http://www.softwareishard.com/blog/har-12-spec/
+ */
+export interface Har {
+  log: HarLog;
+}
+
+export interface HarLog {
+  version: string;
+  creator: HarCreator;
+  browser?: HarCreator;
+  pages: HarPage[];
+  entries: HarEntry[];
+  comment?: string;
+}
+
+export interface HarCreator {
+  name: string;
+  version: string;
+}
+
+export interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: {
+    onContentLoad: number; // ms since page start, -1 when unknown
+    onLoad: number;
+  };
+}
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _transferSize: number;
+    _error?: string;
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl: number;
+  };
+  serverIPAddress?: string;
+  _resourceType: string;
+  _priority: string | null;
+  _initiator: { type: string; url?: string; lineNumber?: number };
+}
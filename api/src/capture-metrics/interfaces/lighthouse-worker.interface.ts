@@ -0,0 +1,33 @@
+import { CaptureAuth } from '~/dto/create-capture-data';
+
+/**
+ * IPC messages between LighthouseService and its forked audit worker
+ */
+
+export interface LighthouseWorkerJob {
+  url: string;
+  flags: Record<string, unknown>; // Lighthouse flags; the worker adds the port
+  auth?: CaptureAuth; // Credentials applied to the audited page for the URL's origin
+}
+
+export interface LighthouseWorkerAudit {
+  title: string;
+  description?: string;
+  score: number | null;
+  displayValue?: string;
+  numericValue?: number;
+  scoreDisplayMode?: string;
+}
+
+/**
+ * The parts of the Lighthouse report the service reads; the full report is
+ * several MB and stays in the worker
+ */
+export interface LighthouseWorkerReport {
+  categories: Record<string, { score: number | null } | undefined>;
+  audits: Record<string, LighthouseWorkerAudit | undefined>;
+}
+
+export type LighthouseWorkerMessage =
+  | { type: 'result'; report: LighthouseWorkerReport | null }
+  | { type: 'error'; message: string };
@@ -164,6 +164,53 @@ export interface IBrowserPoolService {
    * Check if pool is available
    */
   isAvailable(): boolean;
+
+  /**
+   * Current page and browser context counts
+   */
+  getPoolStats(): BrowserPoolStats;
+}
+
+/**
+ * Page and browser context counts of the browser pool; every active page
+ * has its own incognito context
+ */
+export interface BrowserPoolStats {
+  maxPages: number;
+  activePages: number;
+  pendingPages: number; // Being opened, already counted against maxPages
+  waitingRequests: number;
+  activeContexts: number;
+  contextsCreated: number; // Since the pool started
+  contextsDisposed: number;
+  browserConnected: boolean;
+  recycling: BrowserRecycleStats;
+}
+
+export type BrowserRecycleReason = 'page-count' | 'memory';
+
+/**
+ * Browser relaunches after serving too many pages or using too much memory
+ */
+export interface BrowserRecycleStats {
+  pagesServed: number; // By the current browser
+  maxPagesPerBrowser: number; // 0 when disabled
+  memoryLimitMb: number; // 0 when disabled
+  lastMemoryMb: number | null; // RSS of the browser's processes at the last check
+  draining: BrowserRecycleReason | null; // Recycle waiting for in-flight pages
+  recycleCount: number;
+  recyclesByReason: Record<BrowserRecycleReason, number>;
+  forcedRecycles: number; // Drains that timed out with pages still open
+  lastRecycle: BrowserRecycle | null;
+}
+
+export interface BrowserRecycle {
+  reason: BrowserRecycleReason;
+  at: string; // ISO timestamp
+  pagesServed: number;
+  memoryMb: number | null;
+  drainDurationMs: number;
+  forced: boolean;
 }
 
 /**
@@ -0,0 +1,18 @@
+import type {
+  VisualDiffOptions,
+  VisualDiffOutput,
+} from '../services/visual-diff.service';
+
+/**
+ * Messages between VisualDiffService and its comparison worker thread
+ */
+
+export interface VisualDiffWorkerJob {
+  baselinePng: Uint8Array;
+  currentPng: Uint8Array;
+  options: VisualDiffOptions;
+}
+
+export type VisualDiffWorkerMessage =
+  | { type: 'result'; output: VisualDiffOutput }
+  | { type: 'error'; message: string };
@@ -1,4 +1,5 @@
 import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { BrowserPoolService } from '../services/browser-pool.service';
 import { TimeoutService } from '../services/timeout.service';
 
@@ -6,7 +7,8 @@ import { TimeoutService } from '../services/timeout.service';
  * Browser Management Module (Global)
  *
  * Handles browser lifecycle and timeout management:
- * - Browser pool for resource management
+ * - Browser pool for resource management, recycling the browser after
+ *   BROWSER_RECYCLE_AFTER_PAGES pages or BROWSER_RECYCLE_MEMORY_MB of memory
  * - Intelligent timeout strategies
  *
  * NOTE: This module is global to ensure a single instance of BrowserPoolService
@@ -18,15 +20,21 @@ import { TimeoutService } from '../services/timeout.service';
     TimeoutService,
     {
       provide: BrowserPoolService,
-      useFactory: (timeoutService: TimeoutService) => {
+      useFactory: (timeoutService: TimeoutService, config: ConfigService) => {
         return new BrowserPoolService(
           5, // maxSize - up to 5 concurrent pages
           0, // idleTimeoutMs - disabled for now
           60000, // idleCheckIntervalMs
           timeoutService,
+          {
+            maxPagesPerBrowser: config.get<number>(
+              'BROWSER_RECYCLE_AFTER_PAGES',
+            ),
+            memoryLimitMb: config.get<number>('BROWSER_RECYCLE_MEMORY_MB'),
+          },
         );
       },
-      inject: [TimeoutService],
+      inject: [TimeoutService, ConfigService],
     },
   ],
   exports: [BrowserPoolService, TimeoutService],
@@ -5,6 +5,13 @@ import { CookiesService } from '../services/cookies.service';
 import { ConsoleErrorsService } from '../services/console-errors.service';
 import { LighthouseService } from '../services/lighthouse.service';
 import { SeoMetricsService } from '../services/seo-metrics.service';
+import { AccessibilityService } from '../services/accessibility.service';
+import { RepeatViewService } from '../services/repeat-view.service';
+import { NetworkRecorderService } from '../services/network-recorder.service';
+import { HarService } from '../services/har.service';
+import { ThirdPartyService } from '../services/third-party.service';
+import { JourneyService } from '../services/journey.service';
+import { ScreenshotMatrixService } from '../services/screenshot-matrix.service';
 import { UtilityModule } from './utility.module';
 
 /**
@@ -12,11 +19,18 @@ import { UtilityModule } from './utility.module';
  *
  * Handles all types of web metrics capture:
  * - Performance metrics (Core Web Vitals, Network, Resources)
+ * - CDP network waterfall of every request
+ * - HAR 1.2 export of the waterfall
+ * - Third-party cost report and request blocking experiments
+ * - Scripted multi-step journeys with per-step timings and vitals
+ * - Screenshot matrices of one URL at many viewports
  * - Lighthouse audits (accurate performance scoring)
  * - SEO analysis (comprehensive SEO checks)
+ * - Accessibility audits (WCAG-tagged rule violations)
  * - Screenshots (progressive capture during page load)
  * - Cookie detection and handling
  * - Console errors and JavaScript errors
+ * - First view / repeat view cache comparison
  *
  * NOTE: BrowserPoolService is available globally via BrowserManagementModule
  */
@@ -29,6 +43,13 @@ import { UtilityModule } from './utility.module';
     ScreenshotsService,
     CookiesService,
     ConsoleErrorsService,
+    AccessibilityService,
+    RepeatViewService,
+    NetworkRecorderService,
+    HarService,
+    ThirdPartyService,
+    JourneyService,
+    ScreenshotMatrixService,
   ],
   exports: [
     WebMetricsService,
@@ -37,6 +58,13 @@ import { UtilityModule } from './utility.module';
     ScreenshotsService,
     CookiesService,
     ConsoleErrorsService,
+    AccessibilityService,
+    RepeatViewService,
+    NetworkRecorderService,
+    HarService,
+    ThirdPartyService,
+    JourneyService,
+    ScreenshotMatrixService,
   ],
 })
 export class MetricsCollectionModule {}
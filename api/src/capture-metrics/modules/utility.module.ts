@@ -6,7 +6,19 @@ import { RateLimiterService } from '../services/rate-limiter.service';
 import { ErrorHandlerService } from '../services/error-handler.service';
 import { PersistenceService } from '../services/persistence.service';
 import { S3StorageService } from '../services/s3-storage.service';
+import { NetworkThrottlingService } from '../services/network-throttling.service';
+import { BatchRunService } from '../services/batch-run.service';
+import { RunAggregationService } from '../services/run-aggregation.service';
+import { BudgetService } from '../services/budget.service';
+import { CredentialsService } from '../services/credentials.service';
+import { VisualDiffService } from '../services/visual-diff.service';
+import { VisualRegressionService } from '../services/visual-regression.service';
 import { TestResult, TestResultSchema } from '../schemas/test-result.schema';
+import { BatchRun, BatchRunSchema } from '../schemas/batch-run.schema';
+import {
+  VisualBaseline,
+  VisualBaselineSchema,
+} from '../schemas/visual-baseline.schema';
 
 /**
  * Utility Module
@@ -17,6 +29,12 @@ import { TestResult, TestResultSchema } from '../schemas/test-result.schema';
  * - Rate limiting for API protection
  * - Error handling and formatting
  * - Data persistence (database and cache)
+ * - Network throttling profiles (CDP network emulation)
+ * - Batch run progress tracking
+ * - Multi-run result aggregation
+ * - Performance budget evaluation
+ * - Encryption and page setup of capture credentials
+ * - Visual baselines and pixel diffs of full-page screenshots
  *
  * NOTE: TimeoutService is available globally via BrowserManagementModule
  */
@@ -24,6 +42,8 @@ import { TestResult, TestResultSchema } from '../schemas/test-result.schema';
   imports: [
     MongooseModule.forFeature([
       { name: TestResult.name, schema: TestResultSchema },
+      { name: BatchRun.name, schema: BatchRunSchema },
+      { name: VisualBaseline.name, schema: VisualBaselineSchema },
     ]),
   ],
   providers: [
@@ -33,6 +53,13 @@ import { TestResult, TestResultSchema } from '../schemas/test-result.schema';
     ErrorHandlerService,
     PersistenceService,
     S3StorageService,
+    NetworkThrottlingService,
+    BatchRunService,
+    RunAggregationService,
+    BudgetService,
+    CredentialsService,
+    VisualDiffService,
+    VisualRegressionService,
   ],
   exports: [
     PuppeteerHelpersService,
@@ -41,6 +68,13 @@ import { TestResult, TestResultSchema } from '../schemas/test-result.schema';
     ErrorHandlerService,
     PersistenceService,
     S3StorageService,
+    NetworkThrottlingService,
+    BatchRunService,
+    RunAggregationService,
+    BudgetService,
+    CredentialsService,
+    VisualDiffService,
+    VisualRegressionService,
   ],
 })
 export class UtilityModule {}
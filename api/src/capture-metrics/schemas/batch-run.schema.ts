@@ -0,0 +1,112 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+
+import { SCHEMA_OPTIONS } from '~/common/schema-options';
+import { User } from '~/users/schema/user.schema';
+import { CaptureAuthSummary } from '../interfaces/cache.interface';
+
+export type BatchRunDocument = HydratedDocument<BatchRun>;
+
+export type BatchRunStatus = 'PENDING' | 'RUNNING' | 'COMPLETE' | 'FAILED';
+
+export interface BatchRunUrlResult {
+  url: string;
+  label?: string;
+  status: BatchRunStatus;
+  testId?: string; // Capture test ID (e.g. batch-123-2)
+  resultId?: Types.ObjectId; // Persisted TestResult document
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+@Schema({
+  timestamps: true,
+  toJSON: { ...SCHEMA_OPTIONS },
+  toObject: {
+    ...SCHEMA_OPTIONS,
+  },
+})
+export class BatchRun {
+  _id: string;
+
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User', index: true })
+  userId: User;
+
+  @Prop({ required: true, type: String, unique: true })
+  batchId: string;
+
+  @Prop({ type: String })
+  batchName?: string;
+
+  @Prop({ type: String, default: 'performance' })
+  testType: string;
+
+  @Prop({ type: String, default: 'desktop' })
+  deviceType: string;
+
+  @Prop({ type: String, default: 'wifi' })
+  networkType?: string;
+
+  @Prop({ type: Boolean, default: true })
+  includeScreenshots: boolean;
+
+  @Prop({ type: Boolean, default: false })
+  sequential: boolean;
+
+  // Credentials sent with every URL, encrypted by CredentialsService
+  @Prop({ type: String })
+  encryptedAuth?: string;
+
+  // Names of the stored credentials, returned in their place
+  @Prop({ type: Object })
+  authSummary?: CaptureAuthSummary;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: ['PENDING', 'RUNNING', 'COMPLETE', 'FAILED'],
+    default: 'PENDING',
+    index: true,
+  })
+  status: BatchRunStatus;
+
+  @Prop({
+    type: [
+      {
+        url: { type: String, required: true },
+        label: String,
+        status: {
+          type: String,
+          enum: ['PENDING', 'RUNNING', 'COMPLETE', 'FAILED'],
+          default: 'PENDING',
+        },
+        testId: String,
+        resultId: { type: Types.ObjectId, ref: 'TestResult' },
+        error: String,
+        startedAt: Date,
+        completedAt: Date,
+        _id: false,
+      },
+    ],
+    default: [],
+  })
+  results: BatchRunUrlResult[];
+
+  @Prop({ type: Number, default: 0 })
+  retryCount: number;
+
+  @Prop({ type: Date })
+  startedAt?: Date;
+
+  @Prop({ type: Date })
+  completedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const BatchRunSchema = SchemaFactory.createForClass(BatchRun);
+
+// Indexes for performance
+BatchRunSchema.index({ userId: 1, createdAt: -1 }); // User's batches sorted by date
@@ -3,6 +3,26 @@ import { HydratedDocument, Types } from 'mongoose';
 
 import { SCHEMA_OPTIONS } from '~/common/schema-options';
 import { User } from '~/users/schema/user.schema';
+import {
+  BlockingExperimentResult,
+  BudgetResult,
+  CaptureAuthSummary,
+  FullPageScreenshot,
+  HarArtifact,
+  JourneyResult,
+  NetworkProfile,
+  RepeatViewResult,
+  RunSummary,
+  ScreenshotMatrixResult,
+  StoredNetworkWaterfall,
+  ThirdPartyReport,
+  VisualDiffResult,
+} from '../interfaces/cache.interface';
+import {
+  JourneyStep,
+  MatrixViewport,
+  PerformanceBudget,
+} from '~/dto/create-capture-data';
 
 export type TestResultDocument = HydratedDocument<TestResult>;
 
@@ -30,9 +50,22 @@ export class TestResult {
     webMetrics?: Record<string, any>;
     screenshots?: Record<string, any>;
     cookieHandling?: Record<string, any>;
+    accessibility?: Record<string, any>;
     errors?: string[];
     duration?: number;
     summary?: Record<string, any>;
+    runs?: Record<string, any>[]; // Every run of a multi-run capture
+    runSummary?: RunSummary;
+    repeatView?: RepeatViewResult; // Warm-cache reload of the first view
+    budget?: BudgetResult; // Per-assertion budget verdict
+    networkWaterfall?: StoredNetworkWaterfall; // CDP-recorded requests of the first view
+    har?: HarArtifact | null; // Stored HAR archive of the first view
+    thirdParty?: ThirdPartyReport; // Requests and script time per third party
+    blockingExperiment?: BlockingExperimentResult | null; // Metrics with URLs blocked
+    journey?: JourneyResult; // Per-step timeline of a journey test
+    fullPageScreenshot?: FullPageScreenshot | null; // Final state of the page
+    visualDiff?: VisualDiffResult; // Comparison with the URL's visual baseline
+    screenshotMatrix?: ScreenshotMatrixResult; // Screenshots per viewport of a matrix test
   };
 
   @Prop({ type: Object })
@@ -41,6 +74,16 @@ export class TestResult {
     testType?: string;
     includeScreenshots?: boolean;
     networkType?: string;
+    networkProfile?: NetworkProfile; // Throttling actually applied during capture
+    runs?: number;
+    repeatView?: boolean;
+    har?: boolean;
+    thirdPartyReport?: boolean;
+    blockUrls?: string[]; // Patterns blocked by the blocking experiment
+    auth?: CaptureAuthSummary; // Credentials sent, by name only
+    budget?: PerformanceBudget; // Limits the capture was checked against
+    steps?: JourneyStep[]; // Steps of a journey test
+    viewports?: MatrixViewport[]; // Viewports of a matrix test
     testId?: string;
   };
 
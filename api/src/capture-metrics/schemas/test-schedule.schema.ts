@@ -3,6 +3,8 @@ import { HydratedDocument, Types } from 'mongoose';
 
 import { SCHEMA_OPTIONS } from '~/common/schema-options';
 import { User } from '~/users/schema/user.schema';
+import { PerformanceBudget } from '~/dto/create-capture-data';
+import { CaptureAuthSummary } from '../interfaces/cache.interface';
 
 export type TestScheduleDocument = HydratedDocument<TestSchedule>;
 
@@ -37,10 +39,10 @@ export class TestSchedule {
   @Prop({
     required: true,
     type: String,
-    enum: ['performance', 'screenshot', 'cookie', 'seo'],
+    enum: ['performance', 'screenshot', 'cookie', 'seo', 'accessibility'],
     default: 'performance',
   })
-  testType: 'performance' | 'screenshot' | 'cookie' | 'seo';
+  testType: 'performance' | 'screenshot' | 'cookie' | 'seo' | 'accessibility';
 
   @Prop({
     required: true,
@@ -56,6 +58,23 @@ export class TestSchedule {
   @Prop({ type: Boolean, default: true })
   includeScreenshots: boolean;
 
+  // Independent page loads per scheduled capture; the median run is stored
+  @Prop({ type: Number, default: 1, min: 1, max: 9 })
+  runs: number;
+
+  // Limits each scheduled capture is checked against; exceeding one fails the run
+  @Prop({ type: Object })
+  budget?: PerformanceBudget;
+
+  // Headers, cookies and basic auth sent with each capture, encrypted by
+  // CredentialsService; never returned by the API
+  @Prop({ type: String })
+  encryptedAuth?: string;
+
+  // Names of the stored credentials, returned in their place
+  @Prop({ type: Object })
+  authSummary?: CaptureAuthSummary;
+
   @Prop({ type: String })
   description?: string;
 
@@ -92,6 +111,13 @@ export class TestSchedule {
     duration?: number;
   }>;
 
+  // Execution lease - set while a scheduler instance is running this schedule
+  @Prop({ type: String })
+  lockedBy?: string;
+
+  @Prop({ type: Date })
+  lockedUntil?: Date;
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -102,4 +128,5 @@ export const TestScheduleSchema = SchemaFactory.createForClass(TestSchedule);
 TestScheduleSchema.index({ userId: 1, isActive: 1 }); // User's active schedules
 TestScheduleSchema.index({ userId: 1, createdAt: -1 }); // User's schedules sorted by date
 TestScheduleSchema.index({ nextRun: 1, isActive: 1 }); // Scheduled jobs to run
+TestScheduleSchema.index({ isActive: 1, nextRun: 1, lockedUntil: 1 }); // Scheduler claim query
 TestScheduleSchema.index({ userId: 1, frequency: 1 }); // User's schedules by frequency
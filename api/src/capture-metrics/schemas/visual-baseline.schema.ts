@@ -0,0 +1,83 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+
+import { SCHEMA_OPTIONS } from '~/common/schema-options';
+import { User } from '~/users/schema/user.schema';
+import { VisualIgnoreRegion } from '../interfaces/cache.interface';
+import { VISUAL_REGRESSION_CONFIG } from '../config/capture.config';
+
+export type VisualBaselineDocument = HydratedDocument<VisualBaseline>;
+
+/**
+ * Full-page screenshot later tests of the same URL and device are
+ * compared with; one per user, URL and device
+ */
+@Schema({
+  timestamps: true,
+  toJSON: { ...SCHEMA_OPTIONS },
+  toObject: {
+    ...SCHEMA_OPTIONS,
+  },
+})
+export class VisualBaseline {
+  _id: string;
+
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User', index: true })
+  userId: User;
+
+  @Prop({ required: true, type: String })
+  url: string;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: ['desktop', 'mobile', 'tablet'],
+  })
+  deviceType: 'desktop' | 'mobile' | 'tablet';
+
+  // Test the screenshot was taken from
+  @Prop({ required: true, type: Types.ObjectId, ref: 'TestResult' })
+  testResultId: Types.ObjectId;
+
+  @Prop({ required: true, type: String })
+  screenshotUrl: string;
+
+  @Prop({ type: Number, required: true })
+  width: number;
+
+  @Prop({ type: Number, required: true })
+  height: number;
+
+  // Per-pixel colour difference (0-1) below which pixels count as unchanged
+  @Prop({
+    type: Number,
+    default: VISUAL_REGRESSION_CONFIG.DEFAULT_THRESHOLD,
+    min: 0,
+    max: 1,
+  })
+  threshold: number;
+
+  // Changed pixels (%) above which a comparison raises an alert
+  @Prop({
+    type: Number,
+    default: VISUAL_REGRESSION_CONFIG.DEFAULT_ALERT_PERCENTAGE,
+    min: 0,
+    max: 100,
+  })
+  alertPercentage: number;
+
+  // Areas left out of comparisons, e.g. carousels or timestamps
+  @Prop({ type: Array, default: [] })
+  ignoreRegions: VisualIgnoreRegion[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const VisualBaselineSchema =
+  SchemaFactory.createForClass(VisualBaseline);
+
+VisualBaselineSchema.index(
+  { userId: 1, url: 1, deviceType: 1 },
+  { unique: true },
+); // Baseline lookup per test
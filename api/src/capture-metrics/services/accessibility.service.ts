@@ -0,0 +1,785 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Page } from 'puppeteer';
+import { PuppeteerHelpersService } from './puppeteer-helpers.service';
+
+/**
+ * Rule metadata, mirroring axe-core rule ids so results line up with
+ * Lighthouse and the Deque rule documentation.
+ */
+const ACCESSIBILITY_RULES: AccessibilityRule[] = [
+  // Perceivable
+  {
+    id: 'image-alt',
+    group: 'perceivable',
+    impact: 'critical',
+    tags: ['wcag2a', 'wcag111'],
+    description:
+      'Ensures <img> elements have alternate text or a role of none or presentation',
+    help: 'Images must have alternate text',
+  },
+  {
+    id: 'video-caption',
+    group: 'perceivable',
+    impact: 'critical',
+    tags: ['wcag2a', 'wcag122'],
+    description: 'Ensures <video> elements have captions',
+    help: '<video> elements must have captions',
+  },
+  {
+    id: 'color-contrast',
+    group: 'perceivable',
+    impact: 'serious',
+    tags: ['wcag2aa', 'wcag143'],
+    description:
+      'Ensures the contrast between foreground and background colors meets WCAG 2 AA minimum contrast ratio thresholds',
+    help: 'Elements must meet minimum color contrast ratio thresholds',
+  },
+  {
+    id: 'list',
+    group: 'perceivable',
+    impact: 'serious',
+    tags: ['wcag2a', 'wcag131'],
+    description: 'Ensures that lists are structured correctly',
+    help: '<ul> and <ol> must only directly contain <li>, <script> or <template> elements',
+  },
+  {
+    id: 'meta-viewport',
+    group: 'perceivable',
+    impact: 'critical',
+    tags: ['wcag2aa', 'wcag144'],
+    description:
+      'Ensures <meta name="viewport"> does not disable text scaling and zooming',
+    help: 'Zooming and scaling must not be disabled',
+  },
+  // Operable
+  {
+    id: 'link-name',
+    group: 'operable',
+    impact: 'serious',
+    tags: ['wcag2a', 'wcag244', 'wcag412'],
+    description: 'Ensures links have discernible text',
+    help: 'Links must have discernible text',
+  },
+  {
+    id: 'document-title',
+    group: 'operable',
+    impact: 'serious',
+    tags: ['wcag2a', 'wcag242'],
+    description:
+      'Ensures each HTML document contains a non-empty <title> element',
+    help: 'Documents must have <title> element to aid in navigation',
+  },
+  {
+    id: 'frame-title',
+    group: 'operable',
+    impact: 'serious',
+    tags: ['wcag2a', 'wcag412'],
+    description:
+      'Ensures <iframe> and <frame> elements have an accessible name',
+    help: 'Frames must have an accessible name',
+  },
+  {
+    id: 'tabindex',
+    group: 'operable',
+    impact: 'serious',
+    tags: ['best-practice'],
+    description: 'Ensures tabindex attribute values are not greater than 0',
+    help: 'Elements should not have tabindex greater than zero',
+  },
+  {
+    id: 'heading-order',
+    group: 'operable',
+    impact: 'moderate',
+    tags: ['best-practice'],
+    description: 'Ensures the order of headings is semantically correct',
+    help: 'Heading levels should only increase by one',
+  },
+  // Understandable
+  {
+    id: 'html-has-lang',
+    group: 'understandable',
+    impact: 'serious',
+    tags: ['wcag2a', 'wcag311'],
+    description: 'Ensures every HTML document has a lang attribute',
+    help: '<html> element must have a lang attribute',
+  },
+  {
+    id: 'label',
+    group: 'understandable',
+    impact: 'critical',
+    tags: ['wcag2a', 'wcag412', 'wcag131'],
+    description: 'Ensures every form element has a label',
+    help: 'Form elements must have labels',
+  },
+  // Robust
+  {
+    id: 'button-name',
+    group: 'robust',
+    impact: 'critical',
+    tags: ['wcag2a', 'wcag412'],
+    description: 'Ensures buttons have discernible text',
+    help: 'Buttons must have discernible text',
+  },
+  {
+    id: 'duplicate-id-aria',
+    group: 'robust',
+    impact: 'critical',
+    tags: ['wcag2a', 'wcag412'],
+    description:
+      'Ensures every id attribute value used in ARIA and in labels is unique',
+    help: 'IDs used in ARIA and labels must be unique',
+  },
+  {
+    id: 'aria-hidden-focus',
+    group: 'robust',
+    impact: 'serious',
+    tags: ['wcag2a', 'wcag412'],
+    description:
+      'Ensures aria-hidden elements are not focusable nor contain focusable elements',
+    help: 'ARIA hidden element must not be focusable or contain focusable elements',
+  },
+];
+
+const RULE_GROUPS: AccessibilityRuleGroup[] = [
+  'perceivable',
+  'operable',
+  'understandable',
+  'robust',
+];
+
+const IMPACT_WEIGHTS: Record<AccessibilityImpact, number> = {
+  critical: 10,
+  serious: 7,
+  moderate: 3,
+  minor: 1,
+};
+
+const AXE_DOCS_BASE_URL = 'https://dequeuniversity.com/rules/axe/4.10';
+const MAX_NODES_PER_RULE = 25;
+
+/**
+ * Accessibility Service
+ *
+ * Runs axe-core style accessibility rules inside the page:
+ * - WCAG 2.x A/AA tagged rules grouped by principle
+ *   (perceivable, operable, understandable, robust)
+ * - Violations with impact, CSS selector, HTML snippet and help text
+ * - Weighted accessibility score from passed vs failed rules
+ */
+@Injectable()
+export class AccessibilityService {
+  private readonly logger = new Logger(AccessibilityService.name);
+
+  constructor(private readonly puppeteerHelpers: PuppeteerHelpersService) {}
+
+  /**
+   * Run the accessibility audit, yielding progress per WCAG principle
+   *
+   * @param page - Puppeteer page instance
+   * @param url - URL being audited
+   */
+  async *runAccessibilityAudit(
+    page: Page,
+    url: string,
+  ): AsyncGenerator<AccessibilityProgressEvent> {
+    this.logger.log(`Starting accessibility audit for ${url}`);
+
+    yield {
+      status: 'ACCESSIBILITY_START',
+      message: 'Starting accessibility audit',
+      totalRules: ACCESSIBILITY_RULES.length,
+    };
+
+    try {
+      await this.puppeteerHelpers.waitForLoadState(page, 'domcontentloaded');
+
+      const violations: AccessibilityViolation[] = [];
+      const passes: string[] = [];
+      const inapplicable: string[] = [];
+      let rulesRun = 0;
+
+      for (const group of RULE_GROUPS) {
+        const rules = ACCESSIBILITY_RULES.filter(
+          (rule) => rule.group === group,
+        );
+        const outcomes = await this.evaluateRules(
+          page,
+          rules.map((rule) => rule.id),
+        );
+
+        for (const rule of rules) {
+          const outcome = outcomes[rule.id];
+          if (!outcome || !outcome.applicable) {
+            inapplicable.push(rule.id);
+          } else if (outcome.nodes.length === 0) {
+            passes.push(rule.id);
+          } else {
+            violations.push(this.toViolation(rule, outcome.nodes));
+          }
+        }
+        rulesRun += rules.length;
+
+        yield {
+          status: 'ACCESSIBILITY_PROGRESS',
+          group,
+          rulesRun,
+          totalRules: ACCESSIBILITY_RULES.length,
+          violationsFound: violations.length,
+        };
+      }
+
+      const result: AccessibilityAuditResult = {
+        score: this.calculateScore(violations, passes),
+        standard: 'WCAG 2.1 AA',
+        violations,
+        passes,
+        inapplicable,
+        summary: this.summarize(violations),
+      };
+
+      this.logger.log(
+        `Accessibility audit complete for ${url}: score=${result.score}, violations=${violations.length}`,
+      );
+
+      yield { status: 'ACCESSIBILITY_COMPLETE', data: result };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Accessibility audit failed: ${errorMessage}`);
+      yield { status: 'ACCESSIBILITY_ERROR', error: errorMessage };
+    }
+  }
+
+  /**
+   * Build a violation from rule metadata and failing nodes
+   */
+  private toViolation(
+    rule: AccessibilityRule,
+    nodes: AccessibilityNode[],
+  ): AccessibilityViolation {
+    return {
+      id: rule.id,
+      impact: rule.impact,
+      description: rule.description,
+      help: rule.help,
+      helpUrl: `${AXE_DOCS_BASE_URL}/${rule.id}`,
+      tags: rule.tags,
+      wcag: rule.tags
+        .filter((tag) => /^wcag\d{3,}$/.test(tag))
+        .map((tag) => tag.replace(/^wcag(\d)(\d)(\d+)$/, '$1.$2.$3')),
+      nodes,
+    };
+  }
+
+  /**
+   * Weighted pass ratio across applicable rules (0-100)
+   */
+  private calculateScore(
+    violations: AccessibilityViolation[],
+    passes: string[],
+  ): number {
+    const weightOf = (id: string) => {
+      const rule = ACCESSIBILITY_RULES.find((r) => r.id === id);
+      return rule ? IMPACT_WEIGHTS[rule.impact] : 0;
+    };
+
+    const passedWeight = passes.reduce((sum, id) => sum + weightOf(id), 0);
+    const failedWeight = violations.reduce(
+      (sum, violation) => sum + weightOf(violation.id),
+      0,
+    );
+    const totalWeight = passedWeight + failedWeight;
+
+    return totalWeight === 0
+      ? 100
+      : Math.round((passedWeight / totalWeight) * 100);
+  }
+
+  /**
+   * Count violations by impact
+   */
+  private summarize(
+    violations: AccessibilityViolation[],
+  ): AccessibilityAuditResult['summary'] {
+    const summary = {
+      critical: 0,
+      serious: 0,
+      moderate: 0,
+      minor: 0,
+      totalViolations: violations.length,
+      totalNodes: 0,
+    };
+
+    for (const violation of violations) {
+      summary[violation.impact]++;
+      summary.totalNodes += violation.nodes.length;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Evaluate a set of rules in the page context
+   *
+   * @returns Per-rule applicability and failing nodes
+   */
+  private async evaluateRules(
+    page: Page,
+    ruleIds: string[],
+  ): Promise<Record<string, RuleOutcome>> {
+    return await page.evaluate(
+      (ids: string[], maxNodes: number) => {
+        const cssEscape = (value: string) =>
+          typeof CSS !== 'undefined' && CSS.escape
+            ? CSS.escape(value)
+            : value.replace(/([^\w-])/g, '\\$1');
+
+        const getSelector = (el: Element): string => {
+          if (
+            el.id &&
+            document.querySelectorAll(`#${cssEscape(el.id)}`).length === 1
+          ) {
+            return `#${cssEscape(el.id)}`;
+          }
+          const parts: string[] = [];
+          let current: Element | null = el;
+          while (
+            current &&
+            current !== document.documentElement &&
+            parts.length < 5
+          ) {
+            const tag = current.tagName.toLowerCase();
+            const parent: Element | null = current.parentElement;
+            if (
+              current.id &&
+              document.querySelectorAll(`#${cssEscape(current.id)}`).length ===
+                1
+            ) {
+              parts.unshift(`#${cssEscape(current.id)}`);
+              break;
+            }
+            if (parent) {
+              const siblings = Array.from(parent.children).filter(
+                (child) => child.tagName === current!.tagName,
+              );
+              parts.unshift(
+                siblings.length > 1
+                  ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})`
+                  : tag,
+              );
+            } else {
+              parts.unshift(tag);
+            }
+            current = parent;
+          }
+          return parts.join(' > ') || el.tagName.toLowerCase();
+        };
+
+        const getHtml = (el: Element): string => {
+          const html = el.outerHTML || '';
+          return html.length > 250 ? `${html.substring(0, 250)}...` : html;
+        };
+
+        const isHidden = (el: Element): boolean => {
+          if (el.closest('[aria-hidden="true"]')) return true;
+          const style = window.getComputedStyle(el);
+          return style.display === 'none' || style.visibility === 'hidden';
+        };
+
+        const getAccessibleName = (el: Element): string => {
+          const labelledBy = el.getAttribute('aria-labelledby');
+          if (labelledBy) {
+            const text = labelledBy
+              .split(/\s+/)
+              .map((id) => document.getElementById(id)?.textContent || '')
+              .join(' ')
+              .trim();
+            if (text) return text;
+          }
+          const ariaLabel = el.getAttribute('aria-label')?.trim();
+          if (ariaLabel) return ariaLabel;
+          const text = (el.textContent || '').trim();
+          if (text) return text;
+          const imgAlt = Array.from(el.querySelectorAll('img[alt], svg title'))
+            .map(
+              (child) => child.getAttribute('alt') || child.textContent || '',
+            )
+            .join(' ')
+            .trim();
+          if (imgAlt) return imgAlt;
+          return el.getAttribute('title')?.trim() || '';
+        };
+
+        const parseColor = (value: string): number[] | null => {
+          const match = value.match(/rgba?\(([^)]+)\)/);
+          if (!match) return null;
+          const parts = match[1]
+            .split(/[\s,/]+/)
+            .filter(Boolean)
+            .map(Number);
+          return [
+            parts[0],
+            parts[1],
+            parts[2],
+            parts.length > 3 ? parts[3] : 1,
+          ];
+        };
+
+        const luminance = ([r, g, b]: number[]): number => {
+          const channel = (c: number) => {
+            const s = c / 255;
+            return s <= 0.03928
+              ? s / 12.92
+              : Math.pow((s + 0.055) / 1.055, 2.4);
+          };
+          return (
+            0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b)
+          );
+        };
+
+        const getBackground = (el: Element): number[] | null => {
+          let current: Element | null = el;
+          while (current) {
+            const style = window.getComputedStyle(current);
+            if (style.backgroundImage && style.backgroundImage !== 'none') {
+              return null; // Can't determine contrast over images
+            }
+            const color = parseColor(style.backgroundColor);
+            if (color && color[3] > 0) return color;
+            current = current.parentElement;
+          }
+          return [255, 255, 255, 1];
+        };
+
+        const checks: Record<
+          string,
+          () => { applicable: boolean; failing: Element[] }
+        > = {
+          'image-alt': () => {
+            const images = Array.from(document.querySelectorAll('img')).filter(
+              (img) => !isHidden(img),
+            );
+            return {
+              applicable: images.length > 0,
+              failing: images.filter((img) => {
+                const role = img.getAttribute('role');
+                if (role === 'presentation' || role === 'none') return false;
+                return (
+                  !img.hasAttribute('alt') &&
+                  !img.getAttribute('aria-label') &&
+                  !img.getAttribute('aria-labelledby') &&
+                  !img.getAttribute('title')
+                );
+              }),
+            };
+          },
+          'video-caption': () => {
+            const videos = Array.from(document.querySelectorAll('video'));
+            return {
+              applicable: videos.length > 0,
+              failing: videos.filter(
+                (video) =>
+                  !video.querySelector(
+                    'track[kind="captions"], track[kind="subtitles"]',
+                  ),
+              ),
+            };
+          },
+          'color-contrast': () => {
+            const candidates = Array.from(
+              document.querySelectorAll(
+                'p, span, a, li, td, th, label, button, h1, h2, h3, h4, h5, h6, small, strong, em',
+              ),
+            )
+              .filter((el) =>
+                Array.from(el.childNodes).some(
+                  (node) =>
+                    node.nodeType === Node.TEXT_NODE &&
+                    (node.textContent || '').trim(),
+                ),
+              )
+              .filter((el) => !isHidden(el))
+              .slice(0, 500);
+
+            const failing = candidates.filter((el) => {
+              const style = window.getComputedStyle(el);
+              const foreground = parseColor(style.color);
+              const background = getBackground(el);
+              if (!foreground || !background) return false;
+
+              const l1 = luminance(foreground);
+              const l2 = luminance(background);
+              const ratio =
+                (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+
+              const fontSize = parseFloat(style.fontSize);
+              const isBold = parseInt(style.fontWeight, 10) >= 700;
+              const isLargeText =
+                fontSize >= 24 || (isBold && fontSize >= 18.66);
+              return ratio < (isLargeText ? 3 : 4.5);
+            });
+
+            return { applicable: candidates.length > 0, failing };
+          },
+          list: () => {
+            const lists = Array.from(
+              document.querySelectorAll('ul, ol'),
+            ).filter((list) => !list.getAttribute('role'));
+            return {
+              applicable: lists.length > 0,
+              failing: lists.filter((list) =>
+                Array.from(list.children).some(
+                  (child) =>
+                    !['LI', 'SCRIPT', 'TEMPLATE'].includes(child.tagName),
+                ),
+              ),
+            };
+          },
+          'meta-viewport': () => {
+            const meta = document.querySelector('meta[name="viewport"]');
+            if (!meta) return { applicable: false, failing: [] };
+            const content = (meta.getAttribute('content') || '').toLowerCase();
+            const maxScale = content.match(/maximum-scale\s*=\s*([\d.]+)/);
+            const disablesZoom =
+              /user-scalable\s*=\s*(no|0)/.test(content) ||
+              (maxScale !== null && parseFloat(maxScale[1]) < 2);
+            return { applicable: true, failing: disablesZoom ? [meta] : [] };
+          },
+          'link-name': () => {
+            const links = Array.from(
+              document.querySelectorAll('a[href]'),
+            ).filter((link) => !isHidden(link));
+            return {
+              applicable: links.length > 0,
+              failing: links.filter((link) => !getAccessibleName(link)),
+            };
+          },
+          'document-title': () => ({
+            applicable: true,
+            failing: document.title.trim() ? [] : [document.documentElement],
+          }),
+          'frame-title': () => {
+            const frames = Array.from(
+              document.querySelectorAll('iframe, frame'),
+            ).filter((frame) => !isHidden(frame));
+            return {
+              applicable: frames.length > 0,
+              failing: frames.filter(
+                (frame) =>
+                  !frame.getAttribute('title')?.trim() &&
+                  !frame.getAttribute('aria-label')?.trim() &&
+                  !frame.getAttribute('aria-labelledby'),
+              ),
+            };
+          },
+          tabindex: () => {
+            const elements = Array.from(
+              document.querySelectorAll('[tabindex]'),
+            );
+            return {
+              applicable: elements.length > 0,
+              failing: elements.filter(
+                (el) => parseInt(el.getAttribute('tabindex') || '0', 10) > 0,
+              ),
+            };
+          },
+          'heading-order': () => {
+            const headings = Array.from(
+              document.querySelectorAll('h1, h2, h3, h4, h5, h6'),
+            ).filter((heading) => !isHidden(heading));
+            const failing: Element[] = [];
+            let previousLevel = 0;
+            for (const heading of headings) {
+              const level = parseInt(heading.tagName.substring(1), 10);
+              if (previousLevel > 0 && level > previousLevel + 1) {
+                failing.push(heading);
+              }
+              previousLevel = level;
+            }
+            return { applicable: headings.length > 1, failing };
+          },
+          'html-has-lang': () => ({
+            applicable: true,
+            failing: document.documentElement.getAttribute('lang')?.trim()
+              ? []
+              : [document.documentElement],
+          }),
+          label: () => {
+            const fields = Array.from(
+              document.querySelectorAll('input, select, textarea'),
+            ).filter((field) => {
+              const type = (field.getAttribute('type') || '').toLowerCase();
+              return (
+                !['hidden', 'submit', 'button', 'reset', 'image'].includes(
+                  type,
+                ) && !isHidden(field)
+              );
+            });
+            return {
+              applicable: fields.length > 0,
+              failing: fields.filter((field) => {
+                if (field.getAttribute('aria-label')?.trim()) return false;
+                if (field.getAttribute('aria-labelledby')) return false;
+                if (field.getAttribute('title')?.trim()) return false;
+                if (field.closest('label')) return false;
+                return !(
+                  field.id &&
+                  document.querySelector(`label[for="${cssEscape(field.id)}"]`)
+                );
+              }),
+            };
+          },
+          'button-name': () => {
+            const buttons = Array.from(
+              document.querySelectorAll(
+                'button, [role="button"], input[type="button"], input[type="submit"]',
+              ),
+            ).filter((button) => !isHidden(button));
+            return {
+              applicable: buttons.length > 0,
+              failing: buttons.filter((button) => {
+                if (button instanceof HTMLInputElement) {
+                  return !button.value.trim() && !getAccessibleName(button);
+                }
+                return !getAccessibleName(button);
+              }),
+            };
+          },
+          'duplicate-id-aria': () => {
+            const referencedIds = new Set<string>();
+            document
+              .querySelectorAll(
+                '[aria-labelledby], [aria-describedby], [aria-controls], label[for]',
+              )
+              .forEach((el) => {
+                [
+                  'aria-labelledby',
+                  'aria-describedby',
+                  'aria-controls',
+                  'for',
+                ].forEach((attr) => {
+                  (el.getAttribute(attr) || '')
+                    .split(/\s+/)
+                    .filter(Boolean)
+                    .forEach((id) => referencedIds.add(id));
+                });
+              });
+            const failing: Element[] = [];
+            referencedIds.forEach((id) => {
+              const matches = document.querySelectorAll(
+                `[id="${cssEscape(id)}"]`,
+              );
+              if (matches.length > 1) failing.push(matches[1]);
+            });
+            return { applicable: referencedIds.size > 0, failing };
+          },
+          'aria-hidden-focus': () => {
+            const hiddenElements = Array.from(
+              document.querySelectorAll('[aria-hidden="true"]'),
+            );
+            const focusableSelector =
+              'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+            return {
+              applicable: hiddenElements.length > 0,
+              failing: hiddenElements.filter(
+                (el) =>
+                  el.matches(focusableSelector) ||
+                  el.querySelector(focusableSelector),
+              ),
+            };
+          },
+        };
+
+        const outcomes: Record<
+          string,
+          { applicable: boolean; nodes: { selector: string; html: string }[] }
+        > = {};
+        for (const id of ids) {
+          const check = checks[id];
+          if (!check) continue;
+          try {
+            const { applicable, failing } = check();
+            outcomes[id] = {
+              applicable,
+              nodes: failing.slice(0, maxNodes).map((el) => ({
+                selector: getSelector(el),
+                html: getHtml(el),
+              })),
+            };
+          } catch {
+            outcomes[id] = { applicable: false, nodes: [] };
+          }
+        }
+        return outcomes;
+      },
+      ruleIds,
+      MAX_NODES_PER_RULE,
+    );
+  }
+}
+
+// Type definitions
+export type AccessibilityImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export type AccessibilityRuleGroup =
+  | 'perceivable'
+  | 'operable'
+  | 'understandable'
+  | 'robust';
+
+interface AccessibilityRule {
+  id: string;
+  group: AccessibilityRuleGroup;
+  impact: AccessibilityImpact;
+  tags: string[];
+  description: string;
+  help: string;
+}
+
+interface RuleOutcome {
+  applicable: boolean;
+  nodes: AccessibilityNode[];
+}
+
+export interface AccessibilityProgressEvent {
+  status: string;
+  message?: string;
+  group?: AccessibilityRuleGroup;
+  rulesRun?: number;
+  totalRules?: number;
+  violationsFound?: number;
+  data?: AccessibilityAuditResult;
+  error?: string;
+}
+
+export interface AccessibilityNode {
+  selector: string;
+  html: string;
+}
+
+export interface AccessibilityViolation {
+  id: string;
+  impact: AccessibilityImpact;
+  description: string;
+  help: string;
+  helpUrl: string;
+  tags: string[]; // axe-style tags, e.g. wcag2a, wcag111, best-practice
+  wcag: string[]; // WCAG success criteria, e.g. 1.1.1
+  nodes: AccessibilityNode[];
+}
+
+export interface AccessibilityAuditResult {
+  score: number;
+  standard: string;
+  violations: AccessibilityViolation[];
+  passes: string[];
+  inapplicable: string[];
+  summary: {
+    critical: number;
+    serious: number;
+    moderate: number;
+    minor: number;
+    totalViolations: number;
+    totalNodes: number;
+  };
+}
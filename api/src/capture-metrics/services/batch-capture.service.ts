@@ -10,11 +10,17 @@ import { ScreenshotsService } from './screenshots.service';
 import { CookiesService } from './cookies.service';
 import { DeviceConfigService } from './device-config.service';
 import { ConsoleErrorsService } from './console-errors.service';
+import { AccessibilityService } from './accessibility.service';
+import { NetworkThrottlingService } from './network-throttling.service';
+import { AttachedBatchRun, BatchRunService } from './batch-run.service';
+import { PersistenceService } from './persistence.service';
+import { CredentialsService } from './credentials.service';
 import {
   CreateBatchCaptureData,
   CreateCaptureData,
 } from '~/dto/create-capture-data';
 import { AppError } from '~/common/app-error.common';
+import { raceAbort } from '~/common/abort.common';
 
 /**
  * Batch Capture Service
@@ -25,6 +31,8 @@ import { AppError } from '~/common/app-error.common';
  * - Chunk-based parallel processing (max 5 concurrent)
  * - Individual URL result aggregation
  * - Error handling per URL
+ * - Recording progress and results for persisted batch runs
+ * - Credentials of persisted batch runs sent with every URL
  *
  * Extracted from CaptureOrchestratorService to follow Single Responsibility Principle
  */
@@ -39,6 +47,11 @@ export class BatchCaptureService {
     private readonly cookiesService: CookiesService,
     private readonly deviceConfigService: DeviceConfigService,
     private readonly consoleErrorsService: ConsoleErrorsService,
+    private readonly accessibilityService: AccessibilityService,
+    private readonly networkThrottlingService: NetworkThrottlingService,
+    private readonly batchRunService: BatchRunService,
+    private readonly persistenceService: PersistenceService,
+    private readonly credentialsService: CredentialsService,
   ) {
     this.logger.log('BatchCaptureService initialized');
   }
@@ -49,12 +62,15 @@ export class BatchCaptureService {
    * @param batchData - Batch configuration with URLs
    * @param batchId - Unique batch identifier
    * @param abortSignal - Optional abort signal for cancellation
+   * @param ownerId - User running the batch; only their own pending batch
+   * run is attached, anonymous batches are never recorded
    * @returns Observable stream of batch progress and results
    */
   executeBatchCapture(
     batchData: CreateBatchCaptureData,
     batchId: string,
     abortSignal?: AbortSignal,
+    ownerId?: string,
   ): Observable<any> {
     return new Observable((subscriber) => {
       this.executeBatchCaptureInternal(
@@ -62,6 +78,7 @@ export class BatchCaptureService {
         batchData,
         batchId,
         abortSignal,
+        ownerId,
       )
         .catch((error) => {
           this.logger.error('Batch capture execution failed:', error);
@@ -77,20 +94,33 @@ export class BatchCaptureService {
    * @param batchData - Batch configuration
    * @param batchId - Unique batch identifier
    * @param abortSignal - Optional abort signal
+   * @param ownerId - User running the batch, if signed in
    */
   private async executeBatchCaptureInternal(
     subscriber: any,
     batchData: CreateBatchCaptureData,
     batchId: string,
     abortSignal?: AbortSignal,
+    ownerId?: string,
   ): Promise<void> {
+    // Record progress if this stream belongs to the owner's batch run
+    const batchOwner =
+      !ownerId || abortSignal?.aborted
+        ? null
+        : await this.attachBatchRun(batchId, ownerId);
+
+    // A persisted run's URLs and settings come from the run, not the stream
     const {
       urls,
       deviceType = 'desktop',
       testType = 'performance',
       includeScreenshots = true,
+      networkType,
       sequential = false,
-    } = batchData;
+    } = batchOwner?.batchData ?? batchData;
+    // Position of each URL in the batch; it names the URL's testId
+    const positions =
+      batchOwner?.positions ?? urls.map((_urlData, index) => index);
 
     const batchResults: any[] = [];
     let completedCount = 0;
@@ -100,6 +130,10 @@ export class BatchCaptureService {
     try {
       // Only process if not cancelled
       if (!abortSignal?.aborted) {
+        const auth = batchOwner?.encryptedAuth
+          ? this.credentialsService.decrypt(batchOwner.encryptedAuth)
+          : undefined;
+
         subscriber.next({
           data: {
             status: 'BATCH_PROCESSING',
@@ -115,7 +149,8 @@ export class BatchCaptureService {
             if (abortSignal?.aborted) break;
 
             const urlData = urls[index];
-            const testId = `${batchId}-${index + 1}`;
+            const position = positions[index];
+            const testId = `${batchId}-${position + 1}`;
 
             try {
               subscriber.next({
@@ -130,13 +165,25 @@ export class BatchCaptureService {
                 },
               });
 
+              if (batchOwner) {
+                await this.recordBatchProgress(batchId, () =>
+                  this.batchRunService.markUrlRunning(
+                    batchId,
+                    position,
+                    testId,
+                  ),
+                );
+              }
+
               // Create individual capture data for this URL
               const captureData: CreateCaptureData = {
                 url: urlData.url,
                 deviceType,
                 testType,
                 includeScreenshots,
+                networkType,
                 testId,
+                auth,
               };
 
               // Process this URL using single URL processing logic
@@ -157,6 +204,16 @@ export class BatchCaptureService {
                 }),
               );
 
+              if (batchOwner) {
+                await this.recordUrlCompleted(
+                  batchOwner.userId,
+                  batchId,
+                  position,
+                  captureData,
+                  urlResult,
+                );
+              }
+
               batchResults.push({
                 url: urlData.url,
                 label: urlData.label,
@@ -187,6 +244,17 @@ export class BatchCaptureService {
                 errorMessage,
               );
 
+              if (batchOwner) {
+                await this.recordBatchProgress(batchId, () =>
+                  this.batchRunService.markUrlFailed(
+                    batchId,
+                    position,
+                    testId,
+                    errorMessage,
+                  ),
+                );
+              }
+
               batchResults.push({
                 url: urlData.url,
                 label: urlData.label,
@@ -245,7 +313,8 @@ export class BatchCaptureService {
 
             const chunkPromises = chunk.map(async (urlData, chunkIndex) => {
               const index = i + chunkIndex;
-              const testId = `${batchId}-${index + 1}`;
+              const position = positions[index];
+              const testId = `${batchId}-${position + 1}`;
 
               try {
                 subscriber.next({
@@ -260,12 +329,24 @@ export class BatchCaptureService {
                   },
                 });
 
+                if (batchOwner) {
+                  await this.recordBatchProgress(batchId, () =>
+                    this.batchRunService.markUrlRunning(
+                      batchId,
+                      position,
+                      testId,
+                    ),
+                  );
+                }
+
                 const captureData: CreateCaptureData = {
                   url: urlData.url,
                   deviceType,
                   testType,
                   includeScreenshots,
+                  networkType,
                   testId,
+                  auth,
                 };
 
                 const urlResult = await this.processSingleUrl(
@@ -285,6 +366,16 @@ export class BatchCaptureService {
                   }),
                 );
 
+                if (batchOwner) {
+                  await this.recordUrlCompleted(
+                    batchOwner.userId,
+                    batchId,
+                    position,
+                    captureData,
+                    urlResult,
+                  );
+                }
+
                 subscriber.next({
                   data: {
                     status: 'URL_COMPLETED',
@@ -314,6 +405,17 @@ export class BatchCaptureService {
                   errorMessage,
                 );
 
+                if (batchOwner) {
+                  await this.recordBatchProgress(batchId, () =>
+                    this.batchRunService.markUrlFailed(
+                      batchId,
+                      position,
+                      testId,
+                      errorMessage,
+                    ),
+                  );
+                }
+
                 subscriber.next({
                   data: {
                     status: 'URL_FAILED',
@@ -369,6 +471,13 @@ export class BatchCaptureService {
           }
         }
 
+        // Settle the persisted run before clients refetch it
+        if (batchOwner) {
+          await this.recordBatchProgress(batchId, () =>
+            this.batchRunService.finishRun(batchId),
+          );
+        }
+
         // Send final batch completion
         const totalDuration = Date.now() - startTime;
         this.logger.log(
@@ -425,6 +534,13 @@ export class BatchCaptureService {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       this.logger.error('Error during batch execution:', errorMessage);
+
+      if (batchOwner) {
+        await this.recordBatchProgress(batchId, () =>
+          this.batchRunService.finishRun(batchId),
+        );
+      }
+
       subscriber.next({
         data: {
           status: 'BATCH_ERROR',
@@ -436,6 +552,86 @@ export class BatchCaptureService {
     }
   }
 
+  /**
+   * Attach this stream to the owner's pending batch run, if one exists
+   *
+   * @param batchId - Unique batch identifier
+   * @param ownerId - User running the batch
+   * @returns The attached batch run, or null if the user has none
+   */
+  private async attachBatchRun(
+    batchId: string,
+    ownerId: string,
+  ): Promise<AttachedBatchRun | null> {
+    try {
+      return await this.batchRunService.startRun(batchId, ownerId);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to attach batch run ${batchId}:`,
+        errorMessage,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Persist a URL's results and link them to the batch run
+   *
+   * @param userId - Owner of the batch run
+   * @param batchId - Unique batch identifier
+   * @param position - Position of the URL in the batch run
+   * @param captureData - Capture configuration for the URL
+   * @param urlResult - Results collected for the URL
+   */
+  private async recordUrlCompleted(
+    userId: string,
+    batchId: string,
+    position: number,
+    captureData: CreateCaptureData,
+    urlResult: TestResults,
+  ): Promise<void> {
+    await this.recordBatchProgress(batchId, async () => {
+      const resultId = await this.persistenceService.saveTestResult(
+        userId,
+        captureData.url,
+        captureData,
+        urlResult,
+        'completed',
+        { batchId },
+      );
+      await this.batchRunService.markUrlCompleted(
+        batchId,
+        position,
+        captureData.testId || '',
+        resultId,
+      );
+    });
+  }
+
+  /**
+   * Run a batch run update without letting storage failures break the stream
+   *
+   * @param batchId - Unique batch identifier
+   * @param update - Update to perform
+   */
+  private async recordBatchProgress(
+    batchId: string,
+    update: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await update();
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to record progress for batch ${batchId}:`,
+        errorMessage,
+      );
+    }
+  }
+
   /**
    * Process a single URL without Observable streaming (used within batch processing)
    *
@@ -459,6 +655,7 @@ export class BatchCaptureService {
       webMetrics: null,
       screenshots: null,
       consoleErrors: null,
+      accessibility: null,
     };
 
     try {
@@ -473,11 +670,39 @@ export class BatchCaptureService {
           captureData.deviceType || 'desktop',
         );
 
+        // Apply the batch's network throttling profile
+        results.networkProfile =
+          await this.networkThrottlingService.applyToPage(
+            page,
+            captureData.networkType,
+          );
+
+        // Cancelled while waiting for a page: the finally block releases it
+        if (abortSignal?.aborted) {
+          throw new AppError('Request cancelled', HttpStatus.BAD_REQUEST);
+        }
+
+        await this.credentialsService.applyToPage(
+          page,
+          captureData.auth,
+          captureData.url,
+        );
+        const authSummary = this.credentialsService.summarize(captureData.auth);
+        if (authSummary) results.auth = authSummary;
+
+        // Filmstrip frames are timed from navigation start
+        if (captureData.includeScreenshots) {
+          await this.screenshotsService.startFilmstrip(page);
+        }
+
         // Navigate to URL
-        await page.goto(captureData.url, {
-          waitUntil: 'domcontentloaded',
-          timeout: 45000,
-        });
+        await raceAbort(
+          page.goto(captureData.url, {
+            waitUntil: 'domcontentloaded',
+            timeout: 45000,
+          }),
+          abortSignal,
+        );
 
         // Run services in parallel with proper coordination
         const servicePromises: Promise<void>[] = [];
@@ -515,6 +740,20 @@ export class BatchCaptureService {
           );
         }
 
+        // Accessibility audit for accessibility test types
+        if (captureData.testType === 'accessibility') {
+          servicePromises.push(
+            this.runServiceForSingleUrl(
+              'ACCESSIBILITY',
+              this.accessibilityService.runAccessibilityAudit(
+                page,
+                captureData.url,
+              ),
+              results,
+            ),
+          );
+        }
+
         // Console errors (start early to capture all errors)
         servicePromises.push(
           this.runServiceForSingleUrl(
@@ -535,7 +774,6 @@ export class BatchCaptureService {
               this.screenshotsService.captureScreenshots(page, {
                 testId: captureData.testId || `test-${Date.now()}`, // Use testId or generate fallback
                 deviceType: captureData.deviceType || 'desktop',
-                interval: 500,
                 maxDuration: 10000,
                 maxFrames: 15,
               }),
@@ -545,7 +783,16 @@ export class BatchCaptureService {
         }
 
         // Wait for all services to complete in parallel
-        await Promise.allSettled(servicePromises);
+        await raceAbort(Promise.allSettled(servicePromises), abortSignal);
+
+        // Speed Index from our own filmstrip; Lighthouse's often fails headless
+        const speedIndex = results.screenshots?.filmstrip?.speedIndex;
+        if (
+          typeof speedIndex === 'number' &&
+          results.webMetrics?.performanceMetrics
+        ) {
+          results.webMetrics.performanceMetrics.speedIndex = speedIndex;
+        }
 
         // Mark test as completed since all services finished
         results.status = 'completed';
@@ -574,6 +821,12 @@ export class BatchCaptureService {
       results.status = 'failed';
       throw error;
     } finally {
+      // Pooled pages must not carry emulation or credentials into the next test
+      if (page) {
+        await this.networkThrottlingService.resetPage(page);
+        await this.credentialsService.resetPage(page, captureData.auth);
+      }
+
       // Always release the page back to the pool
       if (page && this.browserPool.isPageTracked(page)) {
         try {
@@ -681,6 +934,7 @@ export class BatchCaptureService {
         deviceType: data.deviceType,
         screenshots: data.screenshots || [], // Include S3 URLs
         message: data.message,
+        filmstrip: data.filmstrip,
       };
     }
 
@@ -705,5 +959,10 @@ export class BatchCaptureService {
       this.logger.log('Collecting CONSOLE_ERRORS_COMPLETE data', data.data);
       results.consoleErrors = data.data;
     }
+
+    // Collect accessibility audit results
+    if (data.status === 'ACCESSIBILITY_COMPLETE' && data.data) {
+      results.accessibility = data.data;
+    }
   }
 }
@@ -0,0 +1,206 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import { BatchRun, BatchRunDocument } from '../schemas/batch-run.schema';
+import { CreateBatchCaptureData } from '~/dto/create-capture-data';
+
+export interface AttachedBatchRun {
+  userId: string;
+  encryptedAuth?: string;
+  // The run's settings and its URLs that are still pending
+  batchData: CreateBatchCaptureData;
+  positions: number[]; // Position in the run of each URL in batchData
+}
+
+/**
+ * Batch Run Service
+ *
+ * Records the progress of a persisted batch while it streams:
+ * - Attaches its owner's capture stream to a pending BatchRun by batchId
+ * - Tracks per-URL status and links each URL to its TestResult
+ * - Finalizes the batch status once every URL has settled
+ *
+ * URLs are addressed by their position in the run, so parallel URLs and
+ * repeated URLs in the same batch never overwrite each other.
+ */
+@Injectable()
+export class BatchRunService {
+  private readonly logger = new Logger(BatchRunService.name);
+
+  constructor(
+    @InjectModel(BatchRun.name)
+    private readonly batchRunModel: Model<BatchRunDocument>,
+  ) {}
+
+  /**
+   * Attach a capture stream to a pending batch run.
+   * Only the owner's PENDING run can be started, so a stream can neither
+   * take over another user's batch nor one that is already running or
+   * finished. The stream runs the URLs and settings stored with the run,
+   * whatever it asked for.
+   *
+   * @param batchId - Batch identifier shared with the capture stream
+   * @param userId - User starting the run; must own it
+   * @returns Owner, credentials, settings and pending URLs of the batch,
+   * or null if the user has no pending run with this ID
+   */
+  async startRun(
+    batchId: string,
+    userId: string,
+  ): Promise<AttachedBatchRun | null> {
+    if (!Types.ObjectId.isValid(userId)) return null;
+
+    const run = await this.batchRunModel.findOneAndUpdate(
+      { batchId, userId: new Types.ObjectId(userId), status: 'PENDING' },
+      {
+        $set: { status: 'RUNNING', startedAt: new Date() },
+        $unset: { completedAt: '' },
+      },
+      { new: true },
+    );
+
+    if (!run) return null;
+
+    const pending = run.results
+      .map((result, position) => ({ result, position }))
+      .filter(({ result }) => result.status === 'PENDING');
+
+    this.logger.log(`Batch run ${batchId} started`);
+    return {
+      userId: String(run.userId),
+      encryptedAuth: run.encryptedAuth,
+      batchData: {
+        urls: pending.map(({ result }) => ({
+          url: result.url,
+          label: result.label,
+        })),
+        testType: run.testType,
+        deviceType: run.deviceType,
+        networkType: run.networkType,
+        includeScreenshots: run.includeScreenshots,
+        sequential: run.sequential,
+        batchId: run.batchId,
+        batchName: run.batchName,
+      } as CreateBatchCaptureData,
+      positions: pending.map(({ position }) => position),
+    };
+  }
+
+  /**
+   * Mark a URL as running
+   */
+  async markUrlRunning(
+    batchId: string,
+    position: number,
+    testId: string,
+  ): Promise<void> {
+    const result = `results.${position}`;
+    await this.batchRunModel.updateOne(
+      { batchId, [`${result}.status`]: 'PENDING' },
+      {
+        $set: {
+          [`${result}.status`]: 'RUNNING',
+          [`${result}.testId`]: testId,
+          [`${result}.startedAt`]: new Date(),
+        },
+        $unset: { [`${result}.error`]: '' },
+      },
+    );
+  }
+
+  /**
+   * Mark a URL as complete and link it to its persisted TestResult
+   */
+  async markUrlCompleted(
+    batchId: string,
+    position: number,
+    testId: string,
+    resultId: string,
+  ): Promise<void> {
+    const result = `results.${position}`;
+    await this.batchRunModel.updateOne(
+      { batchId, [`${result}.status`]: { $in: ['PENDING', 'RUNNING'] } },
+      {
+        $set: {
+          [`${result}.status`]: 'COMPLETE',
+          [`${result}.testId`]: testId,
+          [`${result}.resultId`]: new Types.ObjectId(resultId),
+          [`${result}.completedAt`]: new Date(),
+        },
+        $unset: { [`${result}.error`]: '' },
+      },
+    );
+  }
+
+  /**
+   * Mark a URL as failed with the error that stopped it
+   */
+  async markUrlFailed(
+    batchId: string,
+    position: number,
+    testId: string,
+    error: string,
+  ): Promise<void> {
+    const result = `results.${position}`;
+    await this.batchRunModel.updateOne(
+      { batchId, [`${result}.status`]: { $in: ['PENDING', 'RUNNING'] } },
+      {
+        $set: {
+          [`${result}.status`]: 'FAILED',
+          [`${result}.testId`]: testId,
+          [`${result}.error`]: error,
+          [`${result}.completedAt`]: new Date(),
+        },
+      },
+    );
+  }
+
+  /**
+   * Settle a running batch. URLs that never finished (cancelled or
+   * timed out stream) are marked failed so they can be retried.
+   * The batch is COMPLETE if at least one URL succeeded, otherwise FAILED.
+   */
+  async finishRun(batchId: string): Promise<void> {
+    const now = new Date();
+
+    await this.batchRunModel.updateOne(
+      { batchId, status: 'RUNNING' },
+      {
+        $set: {
+          'results.$[unfinished].status': 'FAILED',
+          'results.$[unfinished].error': 'Batch ended before this URL finished',
+          'results.$[unfinished].completedAt': now,
+        },
+      },
+      {
+        arrayFilters: [
+          { 'unfinished.status': { $in: ['PENDING', 'RUNNING'] } },
+        ],
+      },
+    );
+
+    const run = await this.batchRunModel.findOne({
+      batchId,
+      status: 'RUNNING',
+    });
+    if (!run) return;
+
+    const hasCompleted = run.results.some(
+      (result) => result.status === 'COMPLETE',
+    );
+    await this.batchRunModel.updateOne(
+      { _id: run._id, status: 'RUNNING' },
+      {
+        $set: {
+          status: hasCompleted ? 'COMPLETE' : 'FAILED',
+          completedAt: now,
+        },
+      },
+    );
+
+    this.logger.log(
+      `Batch run ${batchId} finished with status ${hasCompleted ? 'COMPLETE' : 'FAILED'}`,
+    );
+  }
+}
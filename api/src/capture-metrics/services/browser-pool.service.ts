@@ -1,4 +1,4 @@
-import type { Browser, Page } from 'puppeteer';
+import type { Browser, BrowserContext, Page } from 'puppeteer';
 import puppeteer from 'puppeteer';
 
 import {
@@ -8,18 +8,42 @@ import {
   OnModuleDestroy,
 } from '@nestjs/common';
 import { AppError } from '~/common/app-error.common';
+import { readProcessTreeMemoryMb } from '~/common/process-memory.common';
 import { TimeoutService } from './timeout.service';
+import { BROWSER_POOL_CONFIG } from '../config/capture.config';
+import {
+  BrowserPoolStats,
+  BrowserRecycle,
+  BrowserRecycleReason,
+} from '../interfaces/services.interface';
+
+export interface BrowserRecycleOptions {
+  maxPagesPerBrowser?: number; // 0 disables
+  memoryLimitMb?: number; // 0 disables
+  drainTimeoutMs?: number;
+}
 
 /**
- * A pool of browsers to manage the creation and reuse of browser pages
- * with a maximum size limit.
+ * A pool of browser pages with a maximum size limit, all in one shared
+ * browser. Every page is opened in its own incognito browser context, so
+ * cookies, storage, the HTTP cache and service workers of one test never
+ * reach the next; the context is disposed when the page is released.
+ *
+ * The browser is recycled after serving a set number of pages or once its
+ * processes use too much memory: new pages wait while the pages in flight
+ * finish, then the browser is closed and the next page launches a new one.
+ * A caller must therefore release its page before it requires another, or
+ * it waits on its own page until the drain times out.
  */
 @Injectable()
 export class BrowserPoolService implements OnModuleDestroy {
   private browserClosed: boolean = false;
   private browser: Browser | undefined;
-  private releasedPages: Page[] = [];
   private requiredPages: Page[] = [];
+  private pendingPages = 0; // Slots reserved while a page is being opened
+  private pageContexts = new Map<Page, BrowserContext>();
+  private contextsCreated = 0;
+  private contextsDisposed = 0;
   private readonly maxSize: number;
   private waitQueue: Array<(value: void | PromiseLike<void>) => void> = []; // Queue for waiting requests
   private browserLaunchPromise: Promise<Browser> | null = null; // Lock for launching
@@ -30,6 +54,26 @@ export class BrowserPoolService implements OnModuleDestroy {
   private readonly logger = new Logger(BrowserPoolService.name);
   private browserEventHandlers = new Map<string, (...args: any[]) => void>(); // Track event handlers
   private activeTimeouts = new Set<NodeJS.Timeout>(); // Track active timeouts for cleanup
+  private readonly maxPagesPerBrowser: number;
+  private readonly memoryLimitMb: number;
+  private readonly drainTimeoutMs: number;
+  private pagesServed = 0; // Pages opened in the current browser
+  private lastMemoryMb: number | null = null;
+  private drain: {
+    reason: BrowserRecycleReason;
+    startedAt: number;
+    memoryMb: number | null;
+    timer: NodeJS.Timeout;
+    finishing: boolean;
+  } | null = null; // Recycle waiting for in-flight pages
+  private drainWaiters: Array<() => void> = [];
+  private recycleCount = 0;
+  private forcedRecycles = 0;
+  private recyclesByReason: Record<BrowserRecycleReason, number> = {
+    'page-count': 0,
+    memory: 0,
+  };
+  private lastRecycle: BrowserRecycle | null = null;
 
   /**
    * Initializes a new instance of the BrowserPool class.
@@ -37,18 +81,29 @@ export class BrowserPoolService implements OnModuleDestroy {
    * @param idleTimeoutMs Time in milliseconds before an idle browser is closed.0 disables idle timeout.
    * @param idleCheckIntervalMs How often (in ms) to check for idleness.
    * @param timeoutService Intelligent timeout service for adaptive timeouts.
+   * @param recycleOptions When to relaunch the browser; defaults to BROWSER_POOL_CONFIG.
    */
   public constructor(
     maxSize: number,
     idleTimeoutMs: number = 0,
     idleCheckIntervalMs: number = 60000,
     private readonly timeoutService?: TimeoutService,
+    recycleOptions: BrowserRecycleOptions = {},
   ) {
     this.maxSize = maxSize;
+    this.maxPagesPerBrowser =
+      recycleOptions.maxPagesPerBrowser ??
+      BROWSER_POOL_CONFIG.RECYCLE_AFTER_PAGES;
+    this.memoryLimitMb =
+      recycleOptions.memoryLimitMb ??
+      BROWSER_POOL_CONFIG.RECYCLE_MEMORY_LIMIT_MB;
+    this.drainTimeoutMs =
+      recycleOptions.drainTimeoutMs ??
+      BROWSER_POOL_CONFIG.RECYCLE_DRAIN_TIMEOUT_MS;
     this.idleTimeoutMs = idleTimeoutMs;
     this.idleCheckIntervalMs = Math.max(10000, idleCheckIntervalMs); // Ensure minimum check interval
     this.logger.debug(
-      `BrowserPool initialized with maxSize=${maxSize}, idleTimeout=${idleTimeoutMs}ms`,
+      `BrowserPool initialized with maxSize=${maxSize}, idleTimeout=${idleTimeoutMs}ms, recycleAfterPages=${this.maxPagesPerBrowser}, recycleMemoryLimit=${this.memoryLimitMb}MB`,
     );
 
     // Start idle check timer if timeout is enabled
@@ -67,7 +122,34 @@ export class BrowserPoolService implements OnModuleDestroy {
   }
 
   private getCurrentSize(): number {
-    return this.requiredPages.length + this.releasedPages.length;
+    return this.requiredPages.length + this.pendingPages;
+  }
+
+  /**
+   * Current page and browser context counts of the pool
+   */
+  public getPoolStats(): BrowserPoolStats {
+    return {
+      maxPages: this.maxSize,
+      activePages: this.requiredPages.length,
+      pendingPages: this.pendingPages,
+      waitingRequests: this.waitQueue.length,
+      activeContexts: this.pageContexts.size,
+      contextsCreated: this.contextsCreated,
+      contextsDisposed: this.contextsDisposed,
+      browserConnected: !this.browserClosed && !!this.browser?.connected,
+      recycling: {
+        pagesServed: this.pagesServed,
+        maxPagesPerBrowser: this.maxPagesPerBrowser,
+        memoryLimitMb: this.memoryLimitMb,
+        lastMemoryMb: this.lastMemoryMb,
+        draining: this.drain?.reason ?? null,
+        recycleCount: this.recycleCount,
+        recyclesByReason: { ...this.recyclesByReason },
+        forcedRecycles: this.forcedRecycles,
+        lastRecycle: this.lastRecycle,
+      },
+    };
   }
 
   /**
@@ -170,7 +252,8 @@ export class BrowserPoolService implements OnModuleDestroy {
       );
       const newBrowser = await puppeteer.launch({
         headless: true,
-        executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || '/usr/bin/chromium',
+        executablePath:
+          process.env.PUPPETEER_EXECUTABLE_PATH || '/usr/bin/chromium',
         handleSIGTERM: false,
         handleSIGINT: false,
         handleSIGHUP: false,
@@ -214,6 +297,7 @@ export class BrowserPoolService implements OnModuleDestroy {
       );
       this.browser = newBrowser; // Assign the new browser
       this.browserClosed = false; // Mark as not closed
+      this.pagesServed = 0;
 
       // FIX BUG 2: Memory Leak - Properly track and clean up event handlers
       this.setupBrowserEventHandlers(newBrowser, callId, launchId);
@@ -325,9 +409,8 @@ export class BrowserPoolService implements OnModuleDestroy {
   }
 
   /**
-   * Requires a page from the pool, reusing a released page if possible,
-   * or creating a new one if necessary and space allows.
-   * Waits if the pool is full.
+   * Requires a page from the pool, opened in a new incognito browser
+   * context. Waits if the pool is full.
    * @returns A promise that resolves to a page instance.
    */
   public async requirePage(): Promise<Page> {
@@ -335,36 +418,21 @@ export class BrowserPoolService implements OnModuleDestroy {
     this.logger.debug(
       `requirePage: Pool state: Required=${
         this.requiredPages.length
-      }, Released=${
-        this.releasedPages.length
-      }, Total=${this.getCurrentSize()}, Max=${this.maxSize}`,
+      }, Pending=${this.pendingPages}, Contexts=${
+        this.pageContexts.size
+      }, Max=${this.maxSize}`,
     );
 
+    // A recycle holds new pages back until the old browser's pages are released
+    await this._checkRecycle();
+    while (this.drain) {
+      await new Promise<void>((resolve) => this.drainWaiters.push(resolve));
+    }
+
     // FIX BUG 3: Infinite Loop - Add safety checks and limits
     const maxRetries = 10;
     let retryCount = 0;
 
-    // Try to reuse a released page first
-    while (this.releasedPages.length > 0 && retryCount < maxRetries) {
-      const page = this.releasedPages.pop()!;
-      if (!page.isClosed() && this.browser?.connected) {
-        this.logger.debug('requirePage: Reusing released page.');
-        this.requiredPages.push(page);
-        return page;
-      } else {
-        this.logger.warn(
-          'requirePage: Found a closed/disconnected page in releasedPages, discarding.',
-        );
-        // Ensure waiting queue is notified if discarding reduces potential size implicitly
-        this._notifyWaitQueue();
-        retryCount++;
-      }
-    }
-
-    // Reset retry count for pool waiting
-    retryCount = 0;
-
-    // No released page available, check size before creating a new one
     while (this.getCurrentSize() >= this.maxSize && retryCount < maxRetries) {
       this.logger.debug(
         `requirePage: Pool is full (${this.getCurrentSize()}/${
@@ -375,20 +443,7 @@ export class BrowserPoolService implements OnModuleDestroy {
       await new Promise<void>((resolve) => this.waitQueue.push(resolve));
 
       this.logger.debug(
-        'requirePage: Woke up from wait queue. Re-checking availability...',
-      );
-
-      // Re-check if a released page became available while waiting
-      if (this.releasedPages.length > 0) {
-        this.logger.debug(
-          'requirePage: Found released page after waiting. Attempting reuse.',
-        );
-        // Break out of the pool waiting loop to try reuse
-        break;
-      }
-
-      this.logger.debug(
-        `requirePage: Still no released pages. Pool size: ${this.getCurrentSize()}. Max: ${
+        `requirePage: Woke up from wait queue. Pool size: ${this.getCurrentSize()}. Max: ${
           this.maxSize
         }.`,
       );
@@ -396,24 +451,26 @@ export class BrowserPoolService implements OnModuleDestroy {
     }
 
     // Safety check to prevent infinite loops
-    if (retryCount >= maxRetries) {
+    if (this.getCurrentSize() >= this.maxSize) {
       throw new AppError(
         'Pool operation exceeded maximum retries. This may indicate a deadlock or resource exhaustion.',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
 
-    // If we reach here, we should have capacity or found a reusable page
-    // Try reuse one more time before creating new
-    if (this.releasedPages.length > 0) {
-      const page = this.releasedPages.pop()!;
-      if (!page.isClosed() && this.browser?.connected) {
-        this.logger.debug('requirePage: Reusing released page after wait.');
-        this.requiredPages.push(page);
-        return page;
-      }
+    // Hold the slot while the context and page are opened
+    this.pendingPages++;
+    try {
+      return await this._openIsolatedPage();
+    } finally {
+      this.pendingPages--;
     }
+  }
 
+  /**
+   * Opens a page in a new incognito browser context and tracks both.
+   */
+  private async _openIsolatedPage(): Promise<Page> {
     this.logger.debug('requirePage: Pool has capacity. Getting browser...');
     let browser = await this.getBrowser();
 
@@ -440,22 +497,31 @@ export class BrowserPoolService implements OnModuleDestroy {
       );
     }
 
-    this.logger.debug('requirePage: Attempting browser.newPage()...');
+    this.logger.debug('requirePage: Attempting to open an isolated page...');
+    let context: BrowserContext | undefined;
     try {
-      const page = await browser.newPage();
+      context = await browser.createBrowserContext();
+      this.contextsCreated++;
+
+      const page = await context.newPage();
       await page.setViewport({ width: 1280, height: 720 });
       await page.setUserAgent(
         'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
       );
       await page.setBypassCSP(true);
-      this.logger.debug('requirePage: New page created successfully.');
+      this.logger.debug('requirePage: New isolated page created successfully.');
       this.requiredPages.push(page); // Add to required
+      this.pageContexts.set(page, context);
+      this.pagesServed++;
       return page;
     } catch (error: any) {
-      this.logger.error('requirePage: Error during browser.newPage():', {
+      this.logger.error('requirePage: Error opening isolated page:', {
         errorMessage: error.message,
         stack: error.stack,
       });
+      if (context) {
+        await this._closeContextSafely(context, 'requirePage failure');
+      }
       if (
         error.message.includes(
           'Target page, context or browser has been closed',
@@ -466,7 +532,6 @@ export class BrowserPoolService implements OnModuleDestroy {
         );
         this.browserClosed = true;
         this.browser = undefined;
-        // Don't notify queue here, as we failed to add a page
       }
       // If page creation failed, make sure we potentially unblock waiting requests
       this._notifyWaitQueue();
@@ -475,7 +540,8 @@ export class BrowserPoolService implements OnModuleDestroy {
   }
 
   /**
-   * Releases a page back to the pool.
+   * Releases a page back to the pool, disposing of its browser context and
+   * everything the test left in it.
    * @param page The page to release.
    */
   public async releasePage(page: Page): Promise<void> {
@@ -493,199 +559,205 @@ export class BrowserPoolService implements OnModuleDestroy {
     this.logger.debug(`releasePage: Removed page from requiredPages list.`);
 
     try {
-      // Attempt to cleanup the page (navigate to blank) and pool it, or close it.
-      await this._cleanupOrClosePage(page);
+      await this._disposePage(page);
     } catch (error: any) {
-      // Catch unexpected errors from _cleanupOrClosePage itself
+      // Catch unexpected errors from _disposePage itself
       this.logger.error(
-        `releasePage: Unexpected error during page cleanup/close: ${error.message}`,
+        `releasePage: Unexpected error while disposing page: ${error.message}`,
       );
-      // Ensure page is attempted to be closed even if _cleanupOrClosePage fails unexpectedly
-      await this._closePageSafely(page, 'releasePage main catch');
     } finally {
       // Always notify the queue after a page is removed from requiredPages,
-      // regardless of whether it was successfully pooled or closed,
-      // as a slot has become available.
+      // whether or not its context closed cleanly, as a slot has become available.
       this.logger.debug('releasePage: Notifying wait queue.');
       this._notifyWaitQueue();
     }
+
+    // The last in-flight page of a draining browser lets the recycle finish
+    if (this.drain && this.getCurrentSize() === 0) {
+      await this._finishRecycle(false);
+    }
     this.logger.debug('releasePage: Finished release process.');
   }
 
   /**
-   * Handles the logic when an attempt is made to release a page
-   * that is not currently tracked as required/active.
+   * Starts a recycle if the current browser has served its page quota or
+   * its processes use more memory than allowed.
    */
-  private _handleUnknownReleaseAttempt(page: Page): void {
-    this.logger.warn(
-      'releasePage: Attempted to release an unknown or already released page.',
+  private async _checkRecycle(): Promise<void> {
+    if (this.drain || this.browserClosed || !this.browser?.connected) {
+      return;
+    }
+
+    let reason: BrowserRecycleReason | null = null;
+    let memoryMb: number | null = null;
+    if (
+      this.maxPagesPerBrowser > 0 &&
+      this.pagesServed >= this.maxPagesPerBrowser
+    ) {
+      reason = 'page-count';
+    } else if (this.memoryLimitMb > 0) {
+      memoryMb = await this._readBrowserMemoryMb();
+      this.lastMemoryMb = memoryMb;
+      if (memoryMb !== null && memoryMb >= this.memoryLimitMb) {
+        reason = 'memory';
+      }
+    }
+
+    // Another caller may have started the recycle while memory was read
+    if (!reason || this.drain) return;
+
+    this.logger.log(
+      `BrowserPool: Recycling browser (${reason}) after ${this.pagesServed} pages${
+        memoryMb !== null ? ` at ${memoryMb}MB` : ''
+      }; draining ${this.getCurrentSize()} in-flight page(s).`,
     );
-    if (this.releasedPages.includes(page)) {
-      this.logger.warn(
-        'releasePage: Page was found in releasedPages (potential double release).',
-      );
+
+    const timer = setTimeout(() => {
+      this._finishRecycle(true).catch((error: Error) => {
+        this.logger.error(`Error finishing browser recycle: ${error.message}`);
+      });
+    }, this.drainTimeoutMs);
+    timer.unref();
+    this.trackTimeout(timer);
+
+    this.drain = {
+      reason,
+      startedAt: Date.now(),
+      memoryMb,
+      timer,
+      finishing: false,
+    };
+
+    if (this.getCurrentSize() === 0) {
+      await this._finishRecycle(false);
     }
   }
 
   /**
-   * Attempts to clean up a page for reuse or properly dispose of it.
-   * Uses a comprehensive strategy that doesn't rely on navigation.
+   * Closes the drained browser and lets waiting requests launch a new one.
+   * @param forced True if the drain timed out with pages still in flight.
    */
-  private async _cleanupOrClosePage(page: Page): Promise<void> {
-    // First check if page is already closed
-    if (page.isClosed()) {
-      this.logger.debug(
-        'releasePage: Page is already closed, no cleanup needed.',
-      );
-      return;
-    }
+  private async _finishRecycle(forced: boolean): Promise<void> {
+    const drain = this.drain;
+    if (!drain || drain.finishing) return;
+    drain.finishing = true;
 
-    // Check if browser is still connected
-    const browser = this.browser;
-    if (!browser || !browser.connected) {
-      this.logger.debug(
-        'releasePage: Browser disconnected, cannot cleanup page. Page will be discarded.',
+    clearTimeout(drain.timer);
+    this.untrackTimeout(drain.timer);
+
+    if (forced) {
+      this.logger.warn(
+        `BrowserPool: Drain timed out after ${this.drainTimeoutMs}ms with ${this.getCurrentSize()} page(s) in flight; recycling anyway.`,
       );
-      return;
     }
 
-    this.logger.debug(
-      'releasePage: Page is open and browser connected. Attempting comprehensive cleanup.',
-    );
-
+    const pagesServed = this.pagesServed;
     try {
-      // Strategy: Clean up page state without relying on navigation
-      // This is more reliable than trying to navigate to about:blank
-
-      // 1. Stop all ongoing activity first
-      await this._stopPageActivity(page);
+      await this.cleanupBrowser();
+    } finally {
+      this.recycleCount++;
+      this.recyclesByReason[drain.reason]++;
+      if (forced) this.forcedRecycles++;
+      this.lastRecycle = {
+        reason: drain.reason,
+        at: new Date().toISOString(),
+        pagesServed,
+        memoryMb: drain.memoryMb,
+        drainDurationMs: Date.now() - drain.startedAt,
+        forced,
+      };
+      this.pagesServed = 0;
+      this.drain = null;
 
-      // 2. Check if page is still usable after stopping activity
-      const isPageUsable = await this._isPageUsableForReuse(page);
+      this.logger.log(
+        `BrowserPool: Browser recycled (${drain.reason}); ${this.recycleCount} recycle(s) so far.`,
+      );
+      this._releaseDrainWaiters();
+    }
+  }
 
-      if (isPageUsable) {
-        // Page is clean and can be reused
-        this.releasedPages.push(page);
-        this.logger.debug(
-          'releasePage: Page cleaned and added back to released pool.',
-        );
-      } else {
-        // Page is not in a good state for reuse, close it
-        this.logger.debug('releasePage: Page not suitable for reuse, closing.');
-        await this._closePageSafely(page, 'not suitable for reuse');
-      }
-    } catch (error: any) {
-      const errorMessage = error.message || String(error);
+  private _releaseDrainWaiters(): void {
+    const waiters = this.drainWaiters;
+    this.drainWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
 
-      // Handle specific error cases
-      if (
-        errorMessage.includes('Target page, context or browser has been closed')
-      ) {
-        this.logger.debug(
-          'releasePage: Page was closed during cleanup, no further action needed.',
-        );
-      } else {
-        this.logger.warn(
-          `releasePage: Error during cleanup: ${errorMessage}. Closing page instead.`,
-        );
-        await this._closePageSafely(page, 'cleanup error');
-      }
-    }
+  /**
+   * Resident memory of the browser and its renderer processes, if known
+   */
+  private _readBrowserMemoryMb(): Promise<number | null> {
+    return readProcessTreeMemoryMb(this.browser?.process()?.pid);
   }
 
   /**
-   * Stops all ongoing activity on the page without navigation
+   * Handles the logic when an attempt is made to release a page
+   * that is not currently tracked as required/active.
    */
-  private async _stopPageActivity(page: Page): Promise<void> {
-    // First check if page is still valid
-    if (page.isClosed() || !this.browser?.connected) {
-      throw new Error('Page or browser is already closed');
+  private _handleUnknownReleaseAttempt(page: Page): void {
+    this.logger.warn(
+      'releasePage: Attempted to release an unknown or already released page.',
+    );
+    if (page.isClosed()) {
+      this.logger.warn(
+        'releasePage: Page is already closed (potential double release).',
+      );
     }
+  }
 
-    // Stop all ongoing requests, scripts, and activity with timeout protection
-    let evaluateTimeout: NodeJS.Timeout | undefined;
-    await Promise.race([
-      page.evaluate(() => {
-        try {
-          // Stop all timers - use a safer approach
-          for (let i = 1; i <= 10000; i++) {
-            window.clearTimeout(i);
-            window.clearInterval(i);
-          }
-
-          // Cancel any ongoing fetch requests if possible
-          if (window.AbortController) {
-            // This won't cancel existing requests but helps with future ones
-            window.fetch = () =>
-              Promise.reject(new Error('Page being cleaned up'));
-          }
-
-          return true;
-        } catch {
-          // Ignore errors in cleanup - page might already be detached
-          return false;
-        }
-      }),
-      new Promise((_, reject) => {
-        evaluateTimeout = setTimeout(
-          () => reject(new Error('Evaluate timeout')),
-          1000,
-        );
-      }),
-    ]).finally(() => {
-      if (evaluateTimeout) {
-        clearTimeout(evaluateTimeout);
-      }
-    });
+  /**
+   * Closes a released page, then its browser context, which takes the
+   * test's cookies, storage, cache and service workers with it.
+   */
+  private async _disposePage(page: Page): Promise<void> {
+    const context = this.pageContexts.get(page);
+    this.pageContexts.delete(page);
 
-    // Remove all listeners that might interfere with cleanup
-    // This is safe to call even if page is detached
-    page.removeAllListeners();
+    await this._closePageSafely(page, 'release');
+    if (context) {
+      await this._closeContextSafely(context, 'release');
+    }
   }
 
   /**
-   * Checks if a page is in a good state for reuse
+   * Safely closes a browser context with a timeout; a context of a
+   * disconnected browser is already gone.
    */
-  private async _isPageUsableForReuse(page: Page): Promise<boolean> {
-    try {
-      // Check if page is still connected first
-      if (page.isClosed() || !this.browser?.connected) {
-        return false;
-      }
-
-      // Check if page is still responsive with a quick evaluation
-      let timeoutHandle: NodeJS.Timeout | undefined;
-      const isResponsive = await Promise.race([
-        page.evaluate(() => document.readyState),
-        new Promise((_, reject) => {
-          timeoutHandle = setTimeout(
-            () => reject(new Error('Page unresponsive')),
-            500,
-          );
-        }),
-      ]).finally(() => {
-        if (timeoutHandle) {
-          clearTimeout(timeoutHandle);
-        }
-      });
+  private async _closeContextSafely(
+    context: BrowserContext,
+    label: string,
+  ): Promise<void> {
+    let timeoutHandle: NodeJS.Timeout | undefined;
 
-      if (!isResponsive) {
-        return false;
+    try {
+      if (this.browser?.connected && !context.closed) {
+        await Promise.race([
+          context.close(),
+          new Promise((_, reject) => {
+            timeoutHandle = setTimeout(
+              () =>
+                reject(
+                  new AppError(
+                    'Browser context close timeout',
+                    HttpStatus.EXPECTATION_FAILED,
+                  ),
+                ),
+              BROWSER_POOL_CONFIG.CONTEXT_CLOSE_TIMEOUT_MS,
+            );
+          }),
+        ]);
+        this.logger.debug(`closeContext [${label}]: Browser context closed.`);
       }
-
-      // For safety, we'll implement a more conservative approach:
-      // Only reuse pages that are at about:blank or simple pages
-      const currentUrl = page.url();
-      if (currentUrl === 'about:blank' || currentUrl === 'data:,') {
-        return true;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `closeContext [${label}]: Error closing browser context: ${errorMessage}`,
+      );
+    } finally {
+      if (timeoutHandle) {
+        clearTimeout(timeoutHandle);
       }
-
-      // If page is not at a blank state, we'll close it instead of trying to navigate
-      // This avoids the "Navigating frame was detached" errors
-      return false;
-    } catch {
-      // If any check fails, page is not suitable for reuse
-      return false;
+      this.contextsDisposed++;
     }
   }
 
@@ -727,11 +799,10 @@ export class BrowserPoolService implements OnModuleDestroy {
 
       // Use intelligent timeout system if available, otherwise fallback to static timeout
       if (this.timeoutService) {
-        const result =
-          await this.timeoutService.closePageWithTimeout(
-            page,
-            `${context}-close`,
-          );
+        const result = await this.timeoutService.closePageWithTimeout(
+          page,
+          `${context}-close`,
+        );
 
         if (!result.success) {
           throw new Error(result.error || 'Failed to close page');
@@ -825,8 +896,16 @@ export class BrowserPoolService implements OnModuleDestroy {
     this.waitQueue.forEach((resolve) => resolve()); // Resolve all waiting promises immediately
     this.waitQueue = [];
 
+    // The browser is closing anyway; a recycle in progress has nothing left to do
+    if (this.drain) {
+      clearTimeout(this.drain.timer);
+      this.untrackTimeout(this.drain.timer);
+      this.drain = null;
+    }
+    this._releaseDrainWaiters();
+
     // Close all pages with improved error handling
-    const allPages = [...this.requiredPages, ...this.releasedPages];
+    const allPages = [...this.requiredPages];
     const closePagePromises = allPages.map(async (page) => {
       let timeoutHandle: NodeJS.Timeout | undefined;
       try {
@@ -904,7 +983,13 @@ export class BrowserPoolService implements OnModuleDestroy {
       );
     }
     this.requiredPages = [];
-    this.releasedPages = [];
+
+    // Dispose of the pages' browser contexts before the browser itself
+    const contexts = [...this.pageContexts.values()];
+    this.pageContexts.clear();
+    await Promise.all(
+      contexts.map((context) => this._closeContextSafely(context, 'close')),
+    );
 
     // Clean up browser
     await this.cleanupBrowser();
@@ -0,0 +1,169 @@
+import { Injectable } from '@nestjs/common';
+
+import {
+  BudgetAssertion,
+  BudgetResult,
+  StoredNetworkWaterfall,
+  WebMetricsResult,
+} from '../interfaces/cache.interface';
+import { PerformanceBudget } from '~/dto/create-capture-data';
+
+interface BudgetMetric {
+  key: keyof PerformanceBudget;
+  label: string;
+  unit: BudgetAssertion['unit'];
+  comparison: 'max' | 'min';
+  read: (
+    webMetrics: Record<string, any>,
+    waterfall: StoredNetworkWaterfall | null,
+  ) => number | undefined;
+}
+
+// Every limit a budget can set, in the order assertions are reported
+const BUDGET_METRICS: BudgetMetric[] = [
+  {
+    key: 'maxLcp',
+    label: 'Largest Contentful Paint',
+    unit: 'ms',
+    comparison: 'max',
+    // 0 is the collector's placeholder when LCP was never observed
+    read: (m) => positive(m.performanceMetrics?.largestContentfulPaint),
+  },
+  {
+    key: 'maxFcp',
+    label: 'First Contentful Paint',
+    unit: 'ms',
+    comparison: 'max',
+    read: (m) => positive(m.performanceMetrics?.firstContentfulPaint),
+  },
+  {
+    key: 'maxTbt',
+    label: 'Total Blocking Time',
+    unit: 'ms',
+    comparison: 'max',
+    read: (m) => finite(m.performanceMetrics?.totalBlockingTime),
+  },
+  {
+    key: 'maxCls',
+    label: 'Cumulative Layout Shift',
+    unit: '',
+    comparison: 'max',
+    read: (m) => finite(m.performanceMetrics?.cumulativeLayoutShift),
+  },
+  {
+    key: 'maxScriptKb',
+    label: 'JavaScript transferred',
+    unit: 'KB',
+    comparison: 'max',
+    read: (_m, waterfall) => {
+      if (!waterfall) return undefined;
+      const bytes = waterfall.entries
+        .filter((entry) => entry.resourceType === 'Script')
+        .reduce((sum, entry) => sum + entry.transferSize, 0);
+      return bytes / 1024;
+    },
+  },
+  {
+    key: 'maxTotalKb',
+    label: 'Total bytes transferred',
+    unit: 'KB',
+    comparison: 'max',
+    read: (_m, waterfall) =>
+      waterfall ? waterfall.summary.transferBytes / 1024 : undefined,
+  },
+  {
+    key: 'maxRequests',
+    label: 'Requests',
+    unit: 'count',
+    comparison: 'max',
+    read: (_m, waterfall) => waterfall?.summary.requests,
+  },
+  {
+    key: 'minPerformanceScore',
+    label: 'Performance score',
+    unit: 'score',
+    comparison: 'min',
+    read: (m) => finite(m.performanceScore),
+  },
+];
+
+function finite(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function positive(value: unknown): number | undefined {
+  const number = finite(value);
+  return number !== undefined && number > 0 ? number : undefined;
+}
+
+/**
+ * Budget Service
+ *
+ * Checks a capture against its performance budget:
+ * - One assertion per limit the budget sets
+ * - Metrics the capture did not report are 'unknown' and don't fail it
+ * - Bytes and requests come from the CDP network waterfall: Resource
+ *   Timing reports 0 bytes for cross-origin resources
+ * - The budget fails if any assertion fails
+ */
+@Injectable()
+export class BudgetService {
+  /**
+   * Evaluate a budget against collected web metrics
+   *
+   * @param budget - Limits requested with the capture
+   * @param webMetrics - Web metrics of the capture (median run for multi-run)
+   * @param networkWaterfall - Network waterfall of the same run
+   * @returns Per-assertion results, or null when the budget sets no limits
+   */
+  evaluate(
+    budget: PerformanceBudget | undefined,
+    webMetrics: WebMetricsResult | null,
+    networkWaterfall?: StoredNetworkWaterfall | null,
+  ): BudgetResult | null {
+    if (!budget) return null;
+
+    const metrics = (webMetrics ?? {}) as Record<string, any>;
+    const assertions: BudgetAssertion[] = [];
+
+    for (const metric of BUDGET_METRICS) {
+      const limit = finite(budget[metric.key]);
+      if (limit === undefined) continue;
+
+      const actual = metric.read(metrics, networkWaterfall ?? null);
+      assertions.push({
+        metric: metric.key,
+        label: metric.label,
+        limit,
+        actual: actual === undefined ? null : this.round(actual),
+        unit: metric.unit,
+        status: this.getStatus(metric, limit, actual),
+      });
+    }
+
+    if (assertions.length === 0) return null;
+
+    return {
+      passed: assertions.every((assertion) => assertion.status !== 'fail'),
+      assertions,
+    };
+  }
+
+  private getStatus(
+    metric: BudgetMetric,
+    limit: number,
+    actual: number | undefined,
+  ): BudgetAssertion['status'] {
+    if (actual === undefined) return 'unknown';
+
+    const withinBudget =
+      metric.comparison === 'max' ? actual <= limit : actual >= limit;
+    return withinBudget ? 'pass' : 'fail';
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
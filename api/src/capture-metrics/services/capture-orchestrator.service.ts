@@ -9,12 +9,21 @@ import { Observable } from 'rxjs';
 import { SingleCaptureService } from './single-capture.service';
 import { BatchCaptureService } from './batch-capture.service';
 import { PersistenceService } from './persistence.service';
+import {
+  JOURNEY_CONFIG,
+  SCREENSHOT_MATRIX_CONFIG,
+} from '../config/capture.config';
 import {
   CreateCaptureData,
   CreateBatchCaptureData,
 } from '~/dto/create-capture-data';
 import { AppError } from '~/common/app-error.common';
 
+interface ActiveRun {
+  controller: AbortController;
+  ownerId?: string; // Only the owner may cancel the run by ID
+}
+
 /**
  * Capture Orchestrator Service (Thin Facade)
  *
@@ -25,7 +34,7 @@ import { AppError } from '~/common/app-error.common';
  *
  * Responsibilities:
  * - Public API endpoints
- * - Timeout and cancellation management
+ * - Timeout and cancellation management (client disconnects and REST cancels)
  * - Observable lifecycle tracking
  * - Resource cleanup on module destruction
  *
@@ -36,6 +45,9 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
   private readonly logger = new Logger(CaptureOrchestratorService.name);
   private readonly activeTimeouts = new Set<NodeJS.Timeout>();
   private readonly activeObservables = new Set<any>();
+  // In-flight runs by testId / batchId so they can be cancelled by ID
+  private readonly activeCaptures = new Map<string, ActiveRun>();
+  private readonly activeBatches = new Map<string, ActiveRun>();
   private isDestroying = false;
 
   constructor(
@@ -51,11 +63,14 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
    *
    * @param captureData - Capture configuration
    * @param abortSignal - Optional abort signal for cancellation
+   * @param ownerId - User who may cancel the capture; anonymous captures
+   * can only be cancelled by disconnecting
    * @returns Observable stream of capture progress
    */
   startCapture(
     captureData: CreateCaptureData,
     abortSignal?: AbortSignal,
+    ownerId?: string,
   ): Observable<any> {
     const {
       url,
@@ -83,14 +98,55 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
         return;
       }
 
+      if (this.activeCaptures.has(testId)) {
+        this.untrackObservable(subscriber);
+        subscriber.error(
+          new AppError(
+            `A capture with ID ${testId} is already running`,
+            HttpStatus.CONFLICT,
+          ),
+        );
+        return;
+      }
+
+      // Cancelled by the client disconnecting or by cancelCapture()
+      const run = this.registerRun(
+        this.activeCaptures,
+        testId,
+        abortSignal,
+        ownerId,
+      );
+      const runController = run.controller;
+
       // Send immediate response to test SSE
       subscriber.next({
         data: { status: 'OBSERVABLE_CREATED', timestamp: Date.now() },
       });
 
       // Add a safety timeout to prevent hanging connections
-      // Increased timeouts for complex websites
-      const timeoutMs = testType === 'performance' ? 90000 : 120000;
+      // Increased timeouts for complex websites, scaled for multi-run captures,
+      // for the extra page load of a repeat view and for a blocking experiment;
+      // journeys get the default timeout of the longest journey on top and
+      // matrices that of the largest matrix
+      const pageLoadsPerRun =
+        (String(captureData.repeatView) === 'true' ? 2 : 1) +
+        (captureData.blockUrls?.length ? 1 : 0);
+      const journeyTimeMs =
+        testType === 'journey'
+          ? JOURNEY_CONFIG.MAX_STEPS * JOURNEY_CONFIG.STEP_TIMEOUT_MS
+          : 0;
+      const matrixTimeMs =
+        testType === 'matrix'
+          ? Math.ceil(
+              SCREENSHOT_MATRIX_CONFIG.MAX_VIEWPORTS /
+                SCREENSHOT_MATRIX_CONFIG.CONCURRENCY,
+            ) * SCREENSHOT_MATRIX_CONFIG.NAVIGATION_TIMEOUT_MS
+          : 0;
+      const timeoutMs =
+        ((testType === 'performance' ? 90000 : 120000) * pageLoadsPerRun +
+          journeyTimeMs +
+          matrixTimeMs) *
+        Math.max(Number(captureData.runs) || 1, 1);
 
       const timeoutId = setTimeout(() => {
         this.logger.warn(
@@ -119,13 +175,17 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
 
       // Add abort signal listener
       const abortListener = async () => {
-        this.logger.log('Request cancelled by client');
+        const message = this.getCancelReason(runController.signal);
+        this.logger.log(`Capture ${testId}: ${message}`);
+        this.unregisterRun(this.activeCaptures, testId, run);
+        this.cleanupTimeout(timeoutId);
 
         try {
           subscriber.next({
             data: {
               status: 'CANCELLED',
-              message: 'Request cancelled by client',
+              testId,
+              message,
             },
           });
           subscriber.complete();
@@ -137,14 +197,12 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
         }
       };
 
-      if (abortSignal) {
-        abortSignal.addEventListener('abort', abortListener);
-      }
+      runController.signal.addEventListener('abort', abortListener);
 
       // Delegate to SingleCaptureService
       const captureObservable = this.singleCaptureService.executeCapture(
         { ...captureData, testId },
-        abortSignal,
+        runController.signal,
       );
 
       // Subscribe to the single capture service's observable
@@ -176,18 +234,16 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
 
           this.cleanupTimeout(timeoutId);
           this.untrackTimeout(timeoutId);
-          if (abortSignal) {
-            abortSignal.removeEventListener('abort', abortListener);
-          }
+          runController.signal.removeEventListener('abort', abortListener);
+          this.unregisterRun(this.activeCaptures, testId, run);
         },
         complete: () => {
           this.logger.debug('Single capture completed');
           this.untrackObservable(subscriber);
           this.cleanupTimeout(timeoutId);
           this.untrackTimeout(timeoutId);
-          if (abortSignal) {
-            abortSignal.removeEventListener('abort', abortListener);
-          }
+          runController.signal.removeEventListener('abort', abortListener);
+          this.unregisterRun(this.activeCaptures, testId, run);
         },
       });
     });
@@ -198,11 +254,14 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
    *
    * @param batchData - Batch configuration
    * @param abortSignal - Optional abort signal for cancellation
+   * @param ownerId - User who may cancel the batch; only a batch with an
+   * owner is attached to their persisted batch run
    * @returns Observable stream of batch progress
    */
   startBatchCapture(
     batchData: CreateBatchCaptureData,
     abortSignal?: AbortSignal,
+    ownerId?: string,
   ): Observable<any> {
     const {
       urls,
@@ -224,6 +283,25 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
         return;
       }
 
+      if (this.activeBatches.has(batchId)) {
+        subscriber.error(
+          new AppError(
+            `A batch with ID ${batchId} is already running`,
+            HttpStatus.CONFLICT,
+          ),
+        );
+        return;
+      }
+
+      // Cancelled by the client disconnecting or by cancelBatch()
+      const run = this.registerRun(
+        this.activeBatches,
+        batchId,
+        abortSignal,
+        ownerId,
+      );
+      const runController = run.controller;
+
       // Send immediate batch started response
       subscriber.next({
         data: {
@@ -238,13 +316,16 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
 
       // Add abort signal listener
       const abortListener = () => {
-        this.logger.log('Batch request cancelled by client');
+        const message = this.getCancelReason(runController.signal);
+        this.logger.log(`Batch ${batchId}: ${message}`);
+        this.unregisterRun(this.activeBatches, batchId, run);
+        this.cleanupTimeout(timeoutId);
         try {
           subscriber.next({
             data: {
               status: 'BATCH_CANCELLED',
               batchId,
-              message: 'Batch request cancelled by client',
+              message,
             },
           });
           subscriber.complete();
@@ -256,9 +337,7 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
         }
       };
 
-      if (abortSignal) {
-        abortSignal.addEventListener('abort', abortListener);
-      }
+      runController.signal.addEventListener('abort', abortListener);
 
       // Add safety timeout to prevent hanging connections
       const timeoutId = setTimeout(() => {
@@ -289,7 +368,8 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
       const batchObservable = this.batchCaptureService.executeBatchCapture(
         batchData,
         batchId,
-        abortSignal,
+        runController.signal,
+        ownerId,
       );
 
       // Subscribe to the batch capture service's observable
@@ -323,16 +403,14 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
           }
 
           this.cleanupTimeout(timeoutId);
-          if (abortSignal) {
-            abortSignal.removeEventListener('abort', abortListener);
-          }
+          runController.signal.removeEventListener('abort', abortListener);
+          this.unregisterRun(this.activeBatches, batchId, run);
         },
         complete: () => {
           this.logger.debug('Batch capture completed');
           this.cleanupTimeout(timeoutId);
-          if (abortSignal) {
-            abortSignal.removeEventListener('abort', abortListener);
-          }
+          runController.signal.removeEventListener('abort', abortListener);
+          this.unregisterRun(this.activeBatches, batchId, run);
         },
       });
 
@@ -341,6 +419,57 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
     });
   }
 
+  /**
+   * Cancel an in-flight single capture by its testId
+   *
+   * Listeners receive a final CANCELLED event and the capture's page is
+   * released back to the browser pool once its current step settles.
+   *
+   * @param testId - Test identifier of the running capture
+   * @param userId - User asking to cancel; must own the capture
+   */
+  cancelCapture(
+    testId: string,
+    userId: string,
+  ): { message: string; testId: string } {
+    const run = this.activeCaptures.get(testId);
+    // Runs of other users are reported as missing, not forbidden
+    if (!run || !run.ownerId || run.ownerId !== userId) {
+      throw new AppError(
+        `No running capture found with ID ${testId}`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    run.controller.abort('Capture cancelled by request');
+    return { message: 'Capture cancelled successfully', testId };
+  }
+
+  /**
+   * Cancel an in-flight batch capture by its batchId
+   *
+   * Listeners receive a final BATCH_CANCELLED event; URLs that have not
+   * started are skipped and pages in use are released back to the pool.
+   *
+   * @param batchId - Batch identifier of the running batch
+   * @param userId - User asking to cancel; must own the batch
+   */
+  cancelBatch(
+    batchId: string,
+    userId: string,
+  ): { message: string; batchId: string } {
+    const run = this.activeBatches.get(batchId);
+    if (!run || !run.ownerId || run.ownerId !== userId) {
+      throw new AppError(
+        `No running batch found with ID ${batchId}`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    run.controller.abort('Batch cancelled by request');
+    return { message: 'Batch cancelled successfully', batchId };
+  }
+
   /**
    * Retrieve and save test results from cache to database
    * Delegates to PersistenceService
@@ -383,6 +512,63 @@ export class CaptureOrchestratorService implements OnModuleDestroy {
     );
   }
 
+  /**
+   * Copy of a capture event that is safe to send to a client
+   * Delegates to SingleCaptureService
+   *
+   * @param event - Event emitted by startCapture
+   */
+  toClientEvent<T extends { data?: any }>(event: T): T {
+    return this.singleCaptureService.toClientEvent(event);
+  }
+
+  /**
+   * Register a cancellable run. A client disconnect (the request's abort
+   * signal) cancels the run the same way a REST cancel does.
+   */
+  private registerRun(
+    runs: Map<string, ActiveRun>,
+    runId: string,
+    abortSignal?: AbortSignal,
+    ownerId?: string,
+  ): ActiveRun {
+    const runController = new AbortController();
+
+    if (abortSignal) {
+      const forwardAbort = () =>
+        runController.abort('Request cancelled by client');
+      abortSignal.addEventListener('abort', forwardAbort, { once: true });
+      runController.signal.addEventListener(
+        'abort',
+        () => abortSignal.removeEventListener('abort', forwardAbort),
+        { once: true },
+      );
+    }
+
+    const run: ActiveRun = { controller: runController, ownerId };
+    runs.set(runId, run);
+    return run;
+  }
+
+  /**
+   * Forget a finished run, unless its ID has already been reused
+   */
+  private unregisterRun(
+    runs: Map<string, ActiveRun>,
+    runId: string,
+    run: ActiveRun,
+  ): void {
+    if (runs.get(runId) === run) {
+      runs.delete(runId);
+    }
+  }
+
+  private getCancelReason(signal: AbortSignal): string {
+    return typeof signal.reason === 'string'
+      ? signal.reason
+      : 'Request cancelled by client';
+  }
+
   /**
    * Track a timeout for cleanup
    */
@@ -0,0 +1,266 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import type { CookieData, Page } from 'puppeteer';
+
+import {
+  CREDENTIALS_CONFIG,
+  NETWORK_RECORDER_CONFIG,
+} from '../config/capture.config';
+import { CaptureAuthSummary } from '../interfaces/cache.interface';
+import { CaptureAuth, CaptureCookie } from '~/dto/create-capture-data';
+import { AppError } from '~/common/app-error.common';
+import { PuppeteerHelpersService } from './puppeteer-helpers.service';
+
+/**
+ * Check whether a request goes to the origin credentials were given for
+ */
+export function isSameOrigin(requestUrl: string, origin: string): boolean {
+  try {
+    return new URL(requestUrl).origin === origin;
+  } catch (_error) {
+    return false;
+  }
+}
+
+/**
+ * Cookies of a capture as set in the browser; cookies without a domain are
+ * set for the host of the tested URL
+ */
+export function toBrowserCookies(
+  cookies: CaptureCookie[],
+  url: string,
+): CookieData[] {
+  const { hostname, protocol } = new URL(url);
+  return cookies.map((cookie) => ({
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain ?? hostname,
+    path: cookie.path ?? '/',
+    secure: cookie.secure ?? protocol === 'https:',
+    httpOnly: cookie.httpOnly ?? false,
+  }));
+}
+
+/**
+ * Credentials Service
+ *
+ * Handles the credentials of authenticated captures:
+ * - Encrypts them (AES-256-GCM) for storage in schedules, batches and jobs
+ * - Summarises them by name for API responses, results and logs
+ * - Applies them to a pooled page before navigation and removes them
+ *   again before the page is released
+ */
+@Injectable()
+export class CredentialsService {
+  private readonly logger = new Logger(CredentialsService.name);
+  private readonly key: Buffer;
+  private readonly applied = new WeakMap<Page, CookieData[]>();
+  private readonly intercepted = new WeakSet<Page>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly puppeteerHelpers: PuppeteerHelpersService,
+  ) {
+    const secret = this.configService.get<string>('CREDENTIALS_ENCRYPTION_KEY');
+    if (!secret) {
+      throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set');
+    }
+    this.key = createHash('sha256').update(secret).digest();
+  }
+
+  /**
+   * Check whether a capture carries any credentials
+   */
+  hasCredentials(auth?: CaptureAuth | null): auth is CaptureAuth {
+    return (
+      !!auth &&
+      (Object.keys(auth.headers ?? {}).length > 0 ||
+        (auth.cookies?.length ?? 0) > 0 ||
+        !!auth.basicAuth)
+    );
+  }
+
+  /**
+   * Encrypt credentials for storage
+   *
+   * @returns "v1:<iv>:<auth tag>:<ciphertext>", base64 encoded parts
+   */
+  encrypt(auth: CaptureAuth): string {
+    const iv = randomBytes(CREDENTIALS_CONFIG.IV_BYTES);
+    const cipher = createCipheriv(CREDENTIALS_CONFIG.ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(auth), 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [
+      CREDENTIALS_CONFIG.KEY_VERSION,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64'),
+    ].join(':');
+  }
+
+  /**
+   * Decrypt credentials stored by encrypt
+   *
+   * @throws AppError if the payload was tampered with or the key has changed
+   */
+  decrypt(payload: string): CaptureAuth {
+    try {
+      const [version, iv, tag, ciphertext] = payload.split(':');
+      if (version !== CREDENTIALS_CONFIG.KEY_VERSION || !ciphertext) {
+        throw new Error(`Unsupported credentials format "${version}"`);
+      }
+
+      const decipher = createDecipheriv(
+        CREDENTIALS_CONFIG.ALGORITHM,
+        this.key,
+        Buffer.from(iv, 'base64'),
+      );
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+      return JSON.parse(
+        Buffer.concat([
+          decipher.update(Buffer.from(ciphertext, 'base64')),
+          decipher.final(),
+        ]).toString('utf8'),
+      ) as CaptureAuth;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to decrypt credentials: ${errorMessage}`);
+      throw new AppError(
+        'Stored credentials could not be decrypted',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Describe credentials by name only, for responses and stored results
+   */
+  summarize(auth?: CaptureAuth | null): CaptureAuthSummary | undefined {
+    if (!this.hasCredentials(auth)) return undefined;
+
+    return {
+      headers: Object.keys(auth.headers ?? {}),
+      cookies: (auth.cookies ?? []).map((cookie) => cookie.name),
+      basicAuth: !!auth.basicAuth,
+    };
+  }
+
+  /**
+   * Headers whose values are never recorded for an authenticated capture,
+   * whatever its redaction setting: the extra headers themselves and the
+   * cookie and authorization headers that carry the logged-in session
+   */
+  getSecretHeaderNames(auth?: CaptureAuth | null): string[] {
+    if (!this.hasCredentials(auth)) return [];
+
+    return [
+      ...Object.keys(auth.headers ?? {}).map((name) => name.toLowerCase()),
+      ...NETWORK_RECORDER_CONFIG.REDACTED_HEADERS,
+    ];
+  }
+
+  /**
+   * Copy of capture data without its credentials, safe to cache or log
+   */
+  withoutCredentials<T extends { auth?: CaptureAuth }>(
+    captureData: T,
+  ): Omit<T, 'auth'> {
+    const { auth: _auth, ...rest } = captureData;
+    return rest;
+  }
+
+  /**
+   * Send credentials with the next page load. Headers are added by request
+   * interception, only to requests for the tested origin, so third parties
+   * never receive them. Basic auth is set on the page; cookies go into the
+   * cookie jar of its browser context, which other pages of that context
+   * share until resetPage removes them.
+   *
+   * @param url - Tested URL; headers go to its origin and cookies without
+   * a domain are set for its host
+   */
+  async applyToPage(
+    page: Page,
+    auth: CaptureAuth | undefined,
+    url: string,
+  ): Promise<void> {
+    if (!this.hasCredentials(auth)) return;
+
+    const headers = auth.headers;
+    if (headers && Object.keys(headers).length > 0) {
+      const { origin } = new URL(url);
+      await this.puppeteerHelpers.setupRequestInterception(
+        page,
+        (route, request) => {
+          if (isSameOrigin(request.url(), origin)) {
+            route.continue({ headers: { ...request.headers(), ...headers } });
+          } else {
+            route.continue();
+          }
+        },
+      );
+      this.intercepted.add(page);
+    }
+    if (auth.basicAuth) {
+      await page.authenticate(auth.basicAuth);
+    }
+
+    if (auth.cookies?.length) {
+      const cookies = toBrowserCookies(auth.cookies, url);
+      await page.browserContext().setCookie(...cookies);
+      this.applied.set(page, cookies);
+    }
+
+    this.logger.debug(
+      `Applied credentials to page: ${JSON.stringify(this.summarize(auth))}`,
+    );
+  }
+
+  /**
+   * Remove credentials from a page before it returns to the pool
+   */
+  async resetPage(page: Page, auth: CaptureAuth | undefined): Promise<void> {
+    if (!this.hasCredentials(auth) || page.isClosed()) return;
+
+    try {
+      if (this.intercepted.delete(page)) {
+        await this.puppeteerHelpers.removeRequestInterception(page);
+      }
+      await page.authenticate(null);
+
+      const applied = this.applied.get(page) ?? [];
+      this.applied.delete(page);
+      if (applied.length > 0) {
+        // Chrome stores domain cookies with a leading dot
+        const host = (domain?: string) => domain?.replace(/^\./, '');
+        const context = page.browserContext();
+        const seeded = (await context.cookies()).filter((cookie) =>
+          applied.some(
+            ({ name, domain, path }) =>
+              cookie.name === name &&
+              cookie.path === path &&
+              host(cookie.domain) === host(domain),
+          ),
+        );
+        await context.deleteCookie(...seeded);
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Failed to remove credentials from page: ${errorMessage}`,
+      );
+    }
+  }
+}
@@ -1,5 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { KnownDevices } from 'puppeteer';
+import { KnownDevices, Page } from 'puppeteer';
+
+import {
+  DEVICE_VIEWPORTS,
+  SCREENSHOT_MATRIX_CONFIG,
+  USER_AGENTS,
+} from '../config/capture.config';
 
 export interface DeviceConfig {
   viewport: { width: number; height: number };
@@ -42,9 +48,9 @@ export class DeviceConfigService {
       return {
         viewport: puppeteerDevice.viewport,
         userAgent: puppeteerDevice.userAgent,
-        deviceScaleFactor: puppeteerDevice.deviceScaleFactor || 1,
-        isMobile: puppeteerDevice.isMobile || false,
-        hasTouch: puppeteerDevice.hasTouch || false,
+        deviceScaleFactor: puppeteerDevice.viewport.deviceScaleFactor || 1,
+        isMobile: puppeteerDevice.viewport.isMobile || false,
+        hasTouch: puppeteerDevice.viewport.hasTouch || false,
       };
     }
 
@@ -52,6 +58,81 @@ export class DeviceConfigService {
     return this.customDevices['desktop'];
   }
 
+  /**
+   * Resolve a matrix viewport: a known device, resized if a width or height
+   * is given, or a custom width emulated as a phone, tablet or desktop
+   */
+  getViewportConfig(viewport: {
+    device?: DeviceType;
+    width?: number;
+    height?: number;
+  }): DeviceConfig {
+    if (viewport.device) {
+      const config = this.getDeviceConfig(viewport.device);
+      return {
+        ...config,
+        viewport: {
+          width: viewport.width ?? config.viewport.width,
+          height: viewport.height ?? config.viewport.height,
+        },
+      };
+    }
+
+    const width = viewport.width ?? this.customDevices.desktop.viewport.width;
+    const formFactor =
+      width <= SCREENSHOT_MATRIX_CONFIG.MOBILE_MAX_WIDTH
+        ? 'mobile'
+        : width <= SCREENSHOT_MATRIX_CONFIG.TABLET_MAX_WIDTH
+          ? 'tablet'
+          : 'desktop';
+    const { deviceScaleFactor, isMobile, hasTouch } =
+      DEVICE_VIEWPORTS[formFactor];
+
+    return {
+      viewport: {
+        width,
+        height:
+          viewport.height ??
+          SCREENSHOT_MATRIX_CONFIG.DEFAULT_HEIGHTS[formFactor],
+      },
+      userAgent: USER_AGENTS[formFactor],
+      deviceScaleFactor,
+      isMobile,
+      hasTouch,
+    };
+  }
+
+  /**
+   * Fully emulate a resolved config on a page, including pixel ratio and
+   * touch. Pooled pages must be given back with restorePage.
+   */
+  async configurePageForViewport(
+    page: Page,
+    config: DeviceConfig,
+  ): Promise<void> {
+    await page.setViewport({
+      ...config.viewport,
+      deviceScaleFactor: config.deviceScaleFactor,
+      isMobile: config.isMobile,
+      hasTouch: config.hasTouch,
+    });
+    await page.setUserAgent(config.userAgent);
+  }
+
+  /**
+   * Undo configurePageForViewport before a page goes back to the pool
+   */
+  async restorePage(page: Page): Promise<void> {
+    try {
+      await page.setUserAgent(await page.browser().userAgent());
+      await page.setViewport(this.customDevices.desktop.viewport);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to restore page emulation: ${errorMessage}`);
+    }
+  }
+
   async configurePageForDevice(
     page: any,
     deviceType: DeviceType,
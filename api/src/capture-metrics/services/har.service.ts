@@ -0,0 +1,299 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Page } from 'puppeteer';
+
+import { S3StorageService } from './s3-storage.service';
+import {
+  HarArtifact,
+  HarSummary,
+  NetworkWaterfall,
+  NetworkWaterfallEntry,
+} from '../interfaces/cache.interface';
+import {
+  Har,
+  HarCreator,
+  HarEntry,
+  HarNameValue,
+  HarPage,
+} from '../interfaces/har.interface';
+import { HAR_CONFIG } from '../config/capture.config';
+
+export interface HarPageInfo {
+  title: string;
+  browser: HarCreator | null;
+  onContentLoad: number;
+  onLoad: number;
+}
+
+const PAGE_ID = 'page_1';
+
+/**
+ * HAR Service
+ *
+ * Turns the CDP network waterfall of a capture into a HAR 1.2 archive that
+ * Chrome DevTools and other HAR tooling can open, and stores it privately.
+ * Headers are written as recorded, so an archive is redacted whenever the
+ * waterfall was.
+ */
+@Injectable()
+export class HarService {
+  private readonly logger = new Logger(HarService.name);
+
+  constructor(private readonly s3Storage: S3StorageService) {}
+
+  /**
+   * Build the archive for a recorded page load and upload it
+   *
+   * @param page - Page the waterfall was recorded on (still open)
+   * @param waterfall - Waterfall returned by NetworkRecorderService.stop
+   * @param testId - Test the archive belongs to
+   * @returns Where the archive was stored and what it holds
+   */
+  async saveHar(
+    page: Page,
+    waterfall: NetworkWaterfall,
+    testId: string,
+  ): Promise<HarArtifact> {
+    const har = this.buildHar(waterfall, await this.readPageInfo(page));
+    const buffer = Buffer.from(JSON.stringify(har));
+    const key = await this.s3Storage.uploadHar(buffer, testId);
+
+    this.logger.log(
+      `HAR stored for ${testId}: ${har.log.entries.length} entries, ${buffer.length} bytes`,
+    );
+
+    return {
+      key,
+      entries: har.log.entries.length,
+      size: buffer.length,
+      redacted: waterfall.redacted,
+    };
+  }
+
+  /**
+   * Describe a stored archive without its storage key, for clients
+   */
+  summarize(har: HarArtifact): HarSummary {
+    return { entries: har.entries, size: har.size, redacted: har.redacted };
+  }
+
+  /**
+   * Convert a waterfall to a HAR 1.2 archive
+   */
+  buildHar(waterfall: NetworkWaterfall, pageInfo: HarPageInfo): Har {
+    const startedAt = waterfall.startedAt
+      ? Date.parse(waterfall.startedAt)
+      : Date.now();
+
+    const page: HarPage = {
+      startedDateTime: new Date(startedAt).toISOString(),
+      id: PAGE_ID,
+      title: pageInfo.title,
+      pageTimings: {
+        onContentLoad: pageInfo.onContentLoad,
+        onLoad: pageInfo.onLoad,
+      },
+    };
+
+    return {
+      log: {
+        version: HAR_CONFIG.VERSION,
+        creator: { ...HAR_CONFIG.CREATOR },
+        ...(pageInfo.browser ? { browser: pageInfo.browser } : {}),
+        pages: [page],
+        entries: waterfall.entries.map((entry) =>
+          this.toEntry(entry, startedAt),
+        ),
+        ...(waterfall.redacted
+          ? { comment: 'Cookie and authorization headers are redacted' }
+          : {}),
+      },
+    };
+  }
+
+  private toEntry(entry: NetworkWaterfallEntry, startedAt: number): HarEntry {
+    const httpVersion = this.toHttpVersion(entry.protocol);
+    const timings = this.toTimings(entry);
+
+    return {
+      pageref: PAGE_ID,
+      startedDateTime: new Date(startedAt + entry.startTime).toISOString(),
+      time: this.round(
+        [
+          timings.blocked,
+          timings.dns,
+          timings.connect,
+          timings.send,
+          timings.wait,
+          timings.receive,
+        ]
+          .filter((phase) => phase > 0)
+          .reduce((sum, phase) => sum + phase, 0),
+      ),
+      request: {
+        method: entry.method,
+        url: entry.url,
+        httpVersion,
+        cookies: this.parseCookies(
+          this.findHeader(entry.requestHeaders, 'cookie'),
+          ';',
+        ),
+        headers: this.toNameValues(entry.requestHeaders),
+        queryString: this.toQueryString(entry.url),
+        headersSize: -1,
+        bodySize: ['GET', 'HEAD'].includes(entry.method) ? 0 : -1,
+      },
+      response: {
+        status: entry.failed ? 0 : (entry.status ?? 0),
+        statusText: entry.statusText ?? '',
+        httpVersion,
+        cookies: this.parseCookies(
+          this.findHeader(entry.responseHeaders, 'set-cookie'),
+          '\n',
+        ),
+        headers: this.toNameValues(entry.responseHeaders),
+        content: {
+          size: entry.resourceSize,
+          mimeType: entry.mimeType ?? 'x-unknown',
+        },
+        redirectURL: this.findHeader(entry.responseHeaders, 'location') ?? '',
+        headersSize: -1,
+        bodySize: entry.fromCache ? 0 : -1,
+        _transferSize: entry.transferSize,
+        ...(entry.errorText ? { _error: entry.errorText } : {}),
+      },
+      cache: {},
+      timings,
+      ...(entry.remoteAddress
+        ? { serverIPAddress: entry.remoteAddress.replace(/:\d*$/, '') }
+        : {}),
+      _resourceType: entry.resourceType.toLowerCase(),
+      _priority: entry.priority,
+      _initiator: entry.initiator,
+    };
+  }
+
+  /**
+   * HAR requires send, wait and receive; a request without CDP timing
+   * (cache hit, failure) spends its whole duration in receive
+   */
+  private toTimings(entry: NetworkWaterfallEntry): HarEntry['timings'] {
+    const { timings } = entry;
+    if (timings.send < 0) {
+      return {
+        blocked: -1,
+        dns: -1,
+        connect: -1,
+        send: 0,
+        wait: 0,
+        receive: entry.duration,
+        ssl: -1,
+      };
+    }
+
+    return {
+      blocked: timings.blocked,
+      dns: timings.dns,
+      connect: timings.connect,
+      send: timings.send,
+      wait: Math.max(timings.wait, 0),
+      receive: Math.max(timings.receive, 0),
+      ssl: timings.ssl,
+    };
+  }
+
+  private toHttpVersion(protocol: string | null): string {
+    const normalized = protocol?.toLowerCase() ?? '';
+    if (normalized === 'h2') return 'HTTP/2';
+    if (normalized.startsWith('h3')) return 'HTTP/3';
+    if (normalized.startsWith('http/')) return normalized.toUpperCase();
+    return normalized ? protocol! : '';
+  }
+
+  private findHeader(
+    headers: Record<string, string>,
+    name: string,
+  ): string | undefined {
+    const key = Object.keys(headers).find(
+      (header) => header.toLowerCase() === name,
+    );
+    return key === undefined ? undefined : headers[key];
+  }
+
+  private toNameValues(headers: Record<string, string>): HarNameValue[] {
+    return Object.entries(headers).map(([name, value]) => ({ name, value }));
+  }
+
+  private toQueryString(url: string): HarNameValue[] {
+    try {
+      return [...new URL(url).searchParams].map(([name, value]) => ({
+        name,
+        value,
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Cookie headers hold "a=1; b=2"; CDP joins Set-Cookie lines with "\n"
+   */
+  private parseCookies(
+    header: string | undefined,
+    separator: string,
+  ): HarNameValue[] {
+    if (!header || header === '[redacted]') return [];
+
+    return header
+      .split(separator)
+      .map((cookie) => cookie.split(';')[0].trim())
+      .filter((cookie) => cookie.includes('='))
+      .map((cookie) => {
+        const index = cookie.indexOf('=');
+        return {
+          name: cookie.slice(0, index),
+          value: cookie.slice(index + 1),
+        };
+      });
+  }
+
+  private async readPageInfo(page: Page): Promise<HarPageInfo> {
+    const [title, version, timings] = await Promise.all([
+      page.title().catch(() => ''),
+      page
+        .browser()
+        .version()
+        .catch(() => ''),
+      page
+        .evaluate(() => {
+          const navigation = performance.getEntriesByType('navigation')[0] as
+            | PerformanceNavigationTiming
+            | undefined;
+          return navigation
+            ? {
+                onContentLoad: navigation.domContentLoadedEventEnd,
+                onLoad: navigation.loadEventEnd,
+              }
+            : null;
+        })
+        .catch(() => null),
+    ]);
+
+    // e.g. "HeadlessChrome/124.0.6367.91"
+    const [name, browserVersion] = version.split('/');
+
+    return {
+      title,
+      browser: browserVersion ? { name, version: browserVersion } : null,
+      onContentLoad: this.toPageTiming(timings?.onContentLoad),
+      onLoad: this.toPageTiming(timings?.onLoad),
+    };
+  }
+
+  private toPageTiming(value: number | undefined): number {
+    return value && value > 0 ? this.round(value) : -1;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,442 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Page } from 'puppeteer';
+
+import { S3StorageService } from './s3-storage.service';
+import {
+  JourneyResult,
+  JourneyStepResult,
+  JourneyVitals,
+} from '../interfaces/cache.interface';
+import { JOURNEY_CONFIG } from '../config/capture.config';
+import { JourneyStep, JourneyStepAction } from '~/dto/create-capture-data';
+import { raceAbort } from '~/common/abort.common';
+
+export interface JourneyOptions {
+  testId: string; // Screenshots are stored as <testId>-journey frames
+  deviceType: string;
+  includeScreenshots: boolean;
+  abortSignal?: AbortSignal;
+}
+
+export interface JourneyProgressEvent {
+  status: string;
+  message?: string;
+  index?: number;
+  totalSteps?: number;
+  name?: string;
+  action?: JourneyStepAction;
+  step?: JourneyStepResult;
+  data?: JourneyResult;
+  error?: string;
+}
+
+/**
+ * Journey Service
+ *
+ * Runs scripted multi-step journeys (navigate, click, type, wait for a
+ * selector, assert text) in a single page. Every step is timed and ends
+ * with a screenshot and a snapshot of the web vitals of the document it
+ * left the page on. The first failing step fails the journey; the steps
+ * after it are skipped.
+ */
+@Injectable()
+export class JourneyService {
+  private readonly logger = new Logger(JourneyService.name);
+
+  constructor(private readonly s3Storage: S3StorageService) {}
+
+  /**
+   * Steps to run for a capture: opens the capture URL first unless the
+   * journey starts with a navigation of its own
+   *
+   * @param steps - Query-string captures pass them as a JSON array
+   */
+  buildSteps(url: string, steps?: JourneyStep[] | string): JourneyStep[] {
+    let parsed: unknown = steps ?? [];
+    if (typeof parsed === 'string') {
+      try {
+        parsed = JSON.parse(parsed);
+      } catch {
+        parsed = [];
+      }
+    }
+
+    const journey = (Array.isArray(parsed) ? parsed : []).slice(
+      0,
+      JOURNEY_CONFIG.MAX_STEPS,
+    ) as JourneyStep[];
+
+    return journey[0]?.action === 'navigate'
+      ? journey
+      : [{ action: 'navigate', name: 'Open page', url }, ...journey];
+  }
+
+  /**
+   * Run the steps one after another, streaming each step's start and result
+   *
+   * @param page - Page to run the journey in; navigated by the steps
+   * @param steps - Steps from buildSteps
+   */
+  async *runJourney(
+    page: Page,
+    steps: JourneyStep[],
+    options: JourneyOptions,
+  ): AsyncGenerator<JourneyProgressEvent> {
+    const { abortSignal } = options;
+    const totalSteps = steps.length;
+    const startedAt = Date.now();
+    let scriptId: string | null = null;
+
+    yield {
+      status: 'JOURNEY_START',
+      message: `Starting journey of ${totalSteps} steps`,
+      totalSteps,
+    };
+
+    try {
+      scriptId = await this.installVitalsObserver(page);
+
+      const results: JourneyStepResult[] = [];
+      let failedStep: number | null = null;
+
+      for (const [position, step] of steps.entries()) {
+        if (abortSignal?.aborted) return;
+
+        const index = position + 1;
+        const name = step.name ?? this.describeStep(step);
+
+        if (failedStep !== null) {
+          results.push({
+            index,
+            name,
+            action: step.action,
+            status: 'skipped',
+            startTime: Date.now() - startedAt,
+            duration: 0,
+            navigated: false,
+            url: null,
+            screenshot: null,
+            vitals: null,
+          });
+          continue;
+        }
+
+        yield {
+          status: 'JOURNEY_STEP_START',
+          index,
+          totalSteps,
+          name,
+          action: step.action,
+        };
+
+        const documentBefore = await this.getDocumentId(page);
+        const stepStartedAt = Date.now();
+        let error: string | undefined;
+
+        try {
+          await raceAbort(this.runStep(page, step), abortSignal);
+        } catch (stepError: unknown) {
+          if (abortSignal?.aborted) return;
+          error =
+            stepError instanceof Error ? stepError.message : String(stepError);
+        }
+        const duration = Date.now() - stepStartedAt;
+
+        const result: JourneyStepResult = {
+          index,
+          name,
+          action: step.action,
+          status: error ? 'failed' : 'passed',
+          startTime: stepStartedAt - startedAt,
+          duration,
+          navigated: (await this.getDocumentId(page)) !== documentBefore,
+          url: page.isClosed() ? null : page.url(),
+          screenshot: options.includeScreenshots
+            ? await this.captureScreenshot(page, options, index)
+            : null,
+          vitals: await this.getVitals(page),
+          ...(error ? { error } : {}),
+        };
+        results.push(result);
+
+        if (error) {
+          failedStep = index;
+          this.logger.warn(`Journey step ${index} (${name}) failed: ${error}`);
+          yield { status: 'JOURNEY_STEP_FAILED', step: result };
+        } else {
+          yield { status: 'JOURNEY_STEP_COMPLETE', step: result };
+        }
+      }
+
+      const journey: JourneyResult = {
+        passed: failedStep === null,
+        duration: Date.now() - startedAt,
+        failedStep,
+        steps: results,
+      };
+
+      this.logger.log(
+        `Journey complete: ${journey.passed ? 'passed' : `failed at step ${failedStep}`} in ${journey.duration}ms`,
+      );
+
+      yield { status: 'JOURNEY_COMPLETE', data: journey };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Journey failed: ${errorMessage}`);
+      yield { status: 'JOURNEY_ERROR', error: errorMessage };
+    } finally {
+      // Pooled pages must not keep observing in later tests
+      if (scriptId && !page.isClosed()) {
+        await page
+          .removeScriptToEvaluateOnNewDocument(scriptId)
+          .catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Perform one step; rejects if it can't be completed within its timeout
+   */
+  private async runStep(page: Page, step: JourneyStep): Promise<void> {
+    const timeout = Math.min(
+      step.timeout ?? JOURNEY_CONFIG.STEP_TIMEOUT_MS,
+      JOURNEY_CONFIG.MAX_STEP_TIMEOUT_MS,
+    );
+
+    switch (step.action) {
+      case 'navigate':
+        await page.goto(step.url ?? '', { waitUntil: 'load', timeout });
+        break;
+
+      case 'click': {
+        const element = await page.waitForSelector(step.selector ?? '', {
+          visible: true,
+          timeout,
+        });
+        await element?.click();
+        await this.settle(page);
+        break;
+      }
+
+      case 'type':
+        await page.waitForSelector(step.selector ?? '', {
+          visible: true,
+          timeout,
+        });
+        await page.type(step.selector ?? '', step.text ?? '');
+        await this.settle(page);
+        break;
+
+      case 'waitForSelector':
+        await page.waitForSelector(step.selector ?? '', {
+          visible: true,
+          timeout,
+        });
+        break;
+
+      case 'assertText': {
+        const selector = step.selector ?? 'body';
+        try {
+          await page.waitForFunction(
+            (target: string, expected: string) => {
+              const element = document.querySelector(target);
+              const text =
+                element instanceof HTMLElement
+                  ? element.innerText
+                  : (element?.textContent ?? '');
+              return text.includes(expected);
+            },
+            { timeout },
+            selector,
+            step.text ?? '',
+          );
+        } catch {
+          throw new Error(`Text "${step.text}" not found in ${selector}`);
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown journey action "${String(step.action)}"`);
+    }
+  }
+
+  /**
+   * Wait for the requests and any navigation a click or typing started
+   */
+  private async settle(page: Page): Promise<void> {
+    await page
+      .waitForNetworkIdle({
+        idleTime: JOURNEY_CONFIG.SETTLE_IDLE_MS,
+        timeout: JOURNEY_CONFIG.SETTLE_TIMEOUT_MS,
+      })
+      .catch(() => undefined);
+    await page
+      .waitForFunction(() => document.readyState === 'complete', {
+        timeout: JOURNEY_CONFIG.SETTLE_TIMEOUT_MS,
+      })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Record web vitals in every document the journey loads
+   *
+   * @returns Identifier to remove the script with
+   */
+  private async installVitalsObserver(page: Page): Promise<string> {
+    const { identifier } = await page.evaluateOnNewDocument(() => {
+      const state = {
+        lcp: null as number | null,
+        cls: 0,
+        tbt: 0,
+        inp: null as number | null,
+      };
+      (window as any).__journeyVitals = state;
+
+      const observe = (
+        type: string,
+        callback: (entries: any[]) => void,
+        options: Record<string, unknown> = {},
+      ) => {
+        try {
+          new PerformanceObserver((list) =>
+            callback(list.getEntries()),
+          ).observe({
+            type,
+            buffered: true,
+            ...options,
+          } as PerformanceObserverInit);
+        } catch {
+          // Entry type not supported by this browser
+        }
+      };
+
+      observe('largest-contentful-paint', (entries) => {
+        state.lcp = entries[entries.length - 1].startTime;
+      });
+      observe('layout-shift', (entries) => {
+        for (const entry of entries) {
+          if (!entry.hadRecentInput) state.cls += entry.value;
+        }
+      });
+      observe('longtask', (entries) => {
+        for (const entry of entries) {
+          state.tbt += Math.max(0, entry.duration - 50);
+        }
+      });
+      observe(
+        'event',
+        (entries) => {
+          for (const entry of entries) {
+            if (entry.interactionId) {
+              state.inp = Math.max(state.inp ?? 0, entry.duration);
+            }
+          }
+        },
+        { durationThreshold: 16 },
+      );
+    });
+
+    return identifier;
+  }
+
+  /**
+   * Vitals of the current document so far, or null if the page is mid-navigation
+   */
+  private async getVitals(page: Page): Promise<JourneyVitals | null> {
+    try {
+      const vitals = await page.evaluate(() => {
+        const state = (window as any).__journeyVitals ?? {};
+        const navigation = performance.getEntriesByType('navigation')[0] as
+          | PerformanceNavigationTiming
+          | undefined;
+        const paint = performance.getEntriesByName('first-contentful-paint')[0];
+
+        return {
+          url: location.href,
+          ttfb: navigation ? navigation.responseStart : null,
+          fcp: paint ? paint.startTime : null,
+          lcp: (state.lcp as number | null) ?? null,
+          cls: (state.cls as number) ?? 0,
+          tbt: (state.tbt as number) ?? 0,
+          inp: (state.inp as number | null) ?? null,
+        };
+      });
+
+      const round = (value: number | null) =>
+        value === null ? null : Math.round(value);
+      return {
+        url: vitals.url,
+        ttfb: round(vitals.ttfb),
+        fcp: round(vitals.fcp),
+        lcp: round(vitals.lcp),
+        cls: Math.round(vitals.cls * 1000) / 1000,
+        tbt: Math.round(vitals.tbt),
+        inp: round(vitals.inp),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Identifies the loaded document; changes whenever a navigation commits
+   */
+  private async getDocumentId(page: Page): Promise<number | null> {
+    try {
+      return await page.evaluate(() => performance.timeOrigin);
+    } catch {
+      return null;
+    }
+  }
+
+  private async captureScreenshot(
+    page: Page,
+    options: JourneyOptions,
+    index: number,
+  ): Promise<string | null> {
+    try {
+      const screenshot = await page.screenshot({
+        type: 'jpeg',
+        quality: JOURNEY_CONFIG.SCREENSHOT_QUALITY,
+        fullPage: false,
+        encoding: 'binary',
+      });
+
+      return await this.s3Storage.uploadScreenshot(Buffer.from(screenshot), {
+        testId: `${options.testId}-journey`,
+        deviceType: options.deviceType,
+        frameNumber: index,
+        format: 'jpeg',
+      });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Failed to capture journey step ${index} screenshot: ${errorMessage}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Default step name, e.g. "Click #checkout"
+   */
+  private describeStep(step: JourneyStep): string {
+    switch (step.action) {
+      case 'navigate':
+        return `Navigate to ${step.url}`;
+      case 'click':
+        return `Click ${step.selector}`;
+      case 'type':
+        return `Type into ${step.selector}`;
+      case 'waitForSelector':
+        return `Wait for ${step.selector}`;
+      case 'assertText':
+        return `Assert text "${step.text}"`;
+      default:
+        return String(step.action);
+    }
+  }
+}
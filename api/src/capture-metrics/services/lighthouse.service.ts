@@ -1,86 +1,100 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Page, Browser } from 'puppeteer';
+import { HttpStatus, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ChildProcess, fork } from 'child_process';
+import { extname, join } from 'path';
+import { Page } from 'puppeteer';
+
+import { NetworkProfile } from '../interfaces/cache.interface';
+import {
+  LighthouseWorkerJob,
+  LighthouseWorkerMessage,
+  LighthouseWorkerReport,
+} from '../interfaces/lighthouse-worker.interface';
+import { LIGHTHOUSE_CONFIG } from '../config/capture.config';
+import { AppError } from '~/common/app-error.common';
+import { CaptureAuth } from '~/dto/create-capture-data';
+import { readProcessTreeMemoryMb } from '~/common/process-memory.common';
+
+// Compiled next to this file as .js, or run from source as .ts
+const WORKER_PATH = join(
+  __dirname,
+  '..',
+  'workers',
+  `lighthouse.worker${extname(__filename)}`,
+);
 
 /**
  * Lighthouse Service
  * 
  * Provides accurate performance scoring using Google Lighthouse.
- * Falls back to manual calculation if Lighthouse fails.
+ * Each audit runs in a forked worker process with its own Chromium, capped
+ * in time and memory, so it can't disturb the pooled browser. At most
+ * LIGHTHOUSE_CONFIG.MAX_CONCURRENT_WORKERS workers run at once; further
+ * audits wait for a free slot. Cancelling the capture kills its worker.
+ * Falls back to manual calculation if Lighthouse fails or the worker dies.
  */
 @Injectable()
-export class LighthouseService {
+export class LighthouseService implements OnModuleDestroy {
   private readonly logger = new Logger(LighthouseService.name);
-  private lighthouse: any = null;
-
-  constructor() {
-    this.initializeLighthouse();
-  }
+  private readonly workers = new Set<ChildProcess>();
+  private activeWorkers = 0;
+  private slotWaiters: Array<() => void> = [];
 
-  private async initializeLighthouse() {
-    try {
-      // Dynamic import for lighthouse (ESM module)
-      this.lighthouse = await import('lighthouse');
-      this.logger.log('Lighthouse module loaded successfully');
-    } catch (error) {
-      this.logger.warn('Lighthouse module not available, will use fallback scoring');
+  onModuleDestroy() {
+    for (const worker of this.workers) {
+      this.killWorker(worker);
     }
+    this.workers.clear();
   }
 
   /**
    * Run Lighthouse audit on a URL
    * 
    * @param url - URL to audit
-   * @param page - Puppeteer page instance
+   * @param page - Puppeteer page instance, used for fallback scoring
+   * @param networkProfile - Network profile to throttle the audit with (unthrottled if omitted)
+   * @param abortSignal - Cancels the audit, waiting or running
+   * @param auth - Credentials of an authenticated capture; the worker applies
+   * them to the audited page for the URL's origin only
    * @returns Lighthouse scores and metrics
+   * @throws AppError if the audit is cancelled
    */
   async runAudit(
     url: string,
     page: Page,
+    networkProfile?: NetworkProfile,
+    abortSignal?: AbortSignal,
+    auth?: CaptureAuth,
   ): Promise<LighthouseResult> {
-    // Get browser from page
-    const browser = page.browser();
-    
-    if (!this.lighthouse || !browser) {
-      this.logger.warn('Lighthouse not available, using fallback scoring');
-      return this.getFallbackScores(page);
-    }
+    await this.acquireSlot(abortSignal);
 
     try {
-      const wsEndpoint = browser.wsEndpoint();
-      const port = new URL(wsEndpoint).port;
+      this.logger.log(`Running Lighthouse audit on ${url} in a worker process`);
 
-      this.logger.log(`Running Lighthouse audit on ${url} via port ${port}`);
-
-      const lighthouseModule = this.lighthouse.default || this.lighthouse;
-      
-      const result = await lighthouseModule(url, {
-        port: parseInt(port),
-        output: 'json',
-        logLevel: 'error',
-        onlyCategories: ['performance', 'accessibility', 'best-practices', 'seo'],
-        // Optimize for speed
-        disableStorageReset: true,
-        throttlingMethod: 'devtools',
-        throttling: {
-          cpuSlowdownMultiplier: 1,
-          requestLatencyMs: 0,
-          downloadThroughputKbps: 0,
-          uploadThroughputKbps: 0,
+      const lhr = await this.runWorker({
+        url,
+        flags: {
+          output: 'json',
+          logLevel: 'error',
+          onlyCategories: ['performance', 'accessibility', 'best-practices', 'seo'],
+          // Optimize for speed
+          disableStorageReset: true,
+          throttlingMethod: 'devtools',
+          throttling: this.buildThrottlingConfig(networkProfile),
+          // Skip unnecessary audits for faster results
+          skipAudits: [
+            'screenshot-thumbnails',
+            'final-screenshot',
+            'full-page-screenshot',
+          ],
         },
-        // Skip unnecessary audits for faster results
-        skipAudits: [
-          'screenshot-thumbnails',
-          'final-screenshot',
-          'full-page-screenshot',
-        ],
-      });
+        ...(auth ? { auth } : {}),
+      }, abortSignal);
 
-      if (!result || !result.lhr) {
+      if (!lhr) {
         this.logger.warn('Lighthouse returned no results, using fallback');
         return this.getFallbackScores(page);
       }
 
-      const { lhr } = result;
       const categories = lhr.categories;
 
       // Get Lighthouse scores, with fallback calculation for performance
@@ -114,17 +128,171 @@ export class LighthouseService {
       return scores;
 
     } catch (error) {
+      // A cancelled capture has no use for fallback scores
+      if (abortSignal?.aborted) throw error;
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error(`Lighthouse audit failed: ${errorMessage}`);
       return this.getFallbackScores(page);
+    } finally {
+      this.releaseSlot();
     }
   }
 
+  /**
+   * Wait for one of the MAX_CONCURRENT_WORKERS worker slots
+   *
+   * @throws AppError if the signal aborts first
+   */
+  private acquireSlot(abortSignal?: AbortSignal): Promise<void> {
+    if (abortSignal?.aborted) {
+      return Promise.reject(new AppError('Request cancelled', HttpStatus.BAD_REQUEST));
+    }
+    if (this.activeWorkers < LIGHTHOUSE_CONFIG.MAX_CONCURRENT_WORKERS) {
+      this.activeWorkers++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onSlot = () => {
+        abortSignal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.slotWaiters = this.slotWaiters.filter((waiter) => waiter !== onSlot);
+        reject(new AppError('Request cancelled', HttpStatus.BAD_REQUEST));
+      };
+
+      this.slotWaiters.push(onSlot);
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Hand a finished audit's slot to the next waiting audit, if any
+   */
+  private releaseSlot(): void {
+    const next = this.slotWaiters.shift();
+    if (next) next();
+    else this.activeWorkers--;
+  }
+
+  /**
+   * Fork a worker for one audit and wait for its report. The worker and its
+   * Chromium are killed once it answers, exits, passes the time or memory
+   * cap, or the signal aborts; every way out but a report rejects.
+   */
+  private runWorker(
+    job: LighthouseWorkerJob,
+    abortSignal?: AbortSignal,
+  ): Promise<LighthouseWorkerReport | null> {
+    return new Promise((resolve, reject) => {
+      const worker = fork(WORKER_PATH, [], {
+        // Own process group, so the worker's Chromium can be killed with it
+        detached: true,
+        execArgv: [
+          ...process.execArgv.filter((arg) => !arg.startsWith('--inspect')),
+          `--max-old-space-size=${LIGHTHOUSE_CONFIG.WORKER_HEAP_MB}`,
+        ],
+        stdio: ['ignore', 'inherit', 'inherit', 'ipc'],
+      });
+      this.workers.add(worker);
+
+      let settled = false;
+      const finish = (error: Error | null, report: LighthouseWorkerReport | null = null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        clearInterval(memoryCheck);
+        abortSignal?.removeEventListener('abort', onAbort);
+        this.killWorker(worker);
+        this.workers.delete(worker);
+        if (error) reject(error);
+        else resolve(report);
+      };
+
+      const timeout = setTimeout(() => {
+        finish(
+          new AppError(
+            `Lighthouse worker timed out after ${LIGHTHOUSE_CONFIG.WORKER_TIMEOUT_MS}ms`,
+            HttpStatus.REQUEST_TIMEOUT,
+          ),
+        );
+      }, LIGHTHOUSE_CONFIG.WORKER_TIMEOUT_MS);
+
+      const memoryCheck = setInterval(() => {
+        readProcessTreeMemoryMb(worker.pid).then((memoryMb) => {
+          if (memoryMb !== null && memoryMb > LIGHTHOUSE_CONFIG.WORKER_MEMORY_LIMIT_MB) {
+            finish(
+              new AppError(
+                `Lighthouse worker used ${memoryMb}MB, over the ${LIGHTHOUSE_CONFIG.WORKER_MEMORY_LIMIT_MB}MB limit`,
+                HttpStatus.INSUFFICIENT_STORAGE,
+              ),
+            );
+          }
+        });
+      }, LIGHTHOUSE_CONFIG.MEMORY_CHECK_INTERVAL_MS);
+
+      const onAbort = () =>
+        finish(new AppError('Request cancelled', HttpStatus.BAD_REQUEST));
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.on('message', (message: LighthouseWorkerMessage) => {
+        if (message.type === 'result') {
+          finish(null, message.report);
+        } else {
+          finish(new AppError(message.message, HttpStatus.INTERNAL_SERVER_ERROR));
+        }
+      });
+      worker.on('error', (error) => finish(error));
+      // 'close' comes after every IPC message has been delivered
+      worker.on('close', (code, signal) => {
+        finish(
+          new AppError(
+            `Lighthouse worker exited (${signal ?? `code ${code}`}) without a result`,
+            HttpStatus.INTERNAL_SERVER_ERROR,
+          ),
+        );
+      });
+
+      worker.send(job);
+    });
+  }
+
+  /**
+   * Kill a worker's whole process group, including its Chromium
+   */
+  private killWorker(worker: ChildProcess) {
+    if (!worker.pid) return;
+    try {
+      process.kill(-worker.pid, 'SIGKILL');
+    } catch {
+      // Already exited
+    }
+  }
+
+  /**
+   * Convert a network profile (bytes/sec) into Lighthouse devtools throttling (Kbps).
+   * Lighthouse has no packet loss/reordering settings, so only latency and
+   * throughput carry over.
+   */
+  private buildThrottlingConfig(networkProfile?: NetworkProfile) {
+    const toKbps = (bytesPerSecond: number) =>
+      Math.round((bytesPerSecond * 8) / 1024);
+
+    return {
+      cpuSlowdownMultiplier: 1,
+      requestLatencyMs: networkProfile?.latency ?? 0,
+      downloadThroughputKbps: toKbps(networkProfile?.downloadThroughput ?? 0),
+      uploadThroughputKbps: toKbps(networkProfile?.uploadThroughput ?? 0),
+    };
+  }
+
   /**
    * Calculate performance score from individual Lighthouse audit metrics
    * Used when the overall performance score is 0 (often due to Speed Index failing)
    */
-  private calculatePerformanceScoreFromMetrics(audits: any): number {
+  private calculatePerformanceScoreFromMetrics(audits: LighthouseWorkerReport['audits']): number {
     let score = 100;
     
     // FCP (First Contentful Paint) - Good: < 1.8s, Needs Improvement: < 3s
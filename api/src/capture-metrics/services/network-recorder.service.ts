@@ -0,0 +1,443 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { CDPSession, Page, Protocol } from 'puppeteer';
+
+import {
+  NetworkTimingPhases,
+  NetworkWaterfall,
+  NetworkWaterfallEntry,
+  NetworkWaterfallSummary,
+  StoredNetworkWaterfall,
+} from '../interfaces/cache.interface';
+import { NETWORK_RECORDER_CONFIG } from '../config/capture.config';
+
+interface PendingRequest {
+  entry: NetworkWaterfallEntry;
+  timestamp: number; // CDP monotonic seconds when the request was issued
+  timing?: Protocol.Network.ResourceTiming;
+}
+
+// Headers as sent and received on the wire, one per redirect hop
+interface ExtraInfo {
+  request: Protocol.Network.Headers[];
+  response: Protocol.Network.Headers[];
+}
+
+interface Recording {
+  session: CDPSession;
+  pending: Map<string, PendingRequest>;
+  entries: NetworkWaterfallEntry[];
+  hops: Map<string, NetworkWaterfallEntry[]>; // Entries of a request ID, one per redirect hop
+  extraInfo: Map<string, ExtraInfo>;
+  origin: number | null; // Timestamp of the first request
+  startedAt: string | null; // Wall-clock time of the first request
+  redact: boolean;
+  secretHeaders: Set<string>; // Lowercased names redacted even when redact is off
+  truncated: boolean;
+}
+
+const NO_TIMINGS: NetworkTimingPhases = {
+  blocked: -1,
+  dns: -1,
+  connect: -1,
+  ssl: -1,
+  send: -1,
+  wait: -1,
+  receive: -1,
+};
+
+/**
+ * Network Recorder Service
+ *
+ * Records every request of a page load through the CDP Network domain,
+ * which (unlike Resource Timing) sees the document itself, failed
+ * requests, status codes, headers, priorities and cross-origin timing
+ * phases. Attach before navigation and stop once the page has settled.
+ *
+ * Request and response events only carry the headers Chrome exposes to
+ * the page; cookies, Set-Cookie and headers added by the network stack
+ * arrive in the ExtraInfo events and are merged in, redacted the same way.
+ */
+@Injectable()
+export class NetworkRecorderService {
+  private readonly logger = new Logger(NetworkRecorderService.name);
+  private readonly recordings = new WeakMap<Page, Recording>();
+
+  /**
+   * Start recording network activity on a page
+   *
+   * @param options.redactHeaders - Replace credential headers (default true)
+   * @param options.secretHeaders - Headers carrying the capture's own
+   * credentials, always replaced
+   */
+  async start(
+    page: Page,
+    options: { redactHeaders?: boolean; secretHeaders?: string[] } = {},
+  ): Promise<void> {
+    await this.stop(page);
+
+    const session = await page.createCDPSession();
+    const recording: Recording = {
+      session,
+      pending: new Map(),
+      entries: [],
+      hops: new Map(),
+      extraInfo: new Map(),
+      origin: null,
+      startedAt: null,
+      redact: options.redactHeaders !== false,
+      secretHeaders: new Set(
+        (options.secretHeaders ?? []).map((name) => name.toLowerCase()),
+      ),
+      truncated: false,
+    };
+
+    session.on('Network.requestWillBeSent', (event) =>
+      this.onRequest(recording, event),
+    );
+    session.on('Network.responseReceived', (event) => {
+      const request = recording.pending.get(event.requestId);
+      if (request) this.applyResponse(recording, request, event.response);
+    });
+    session.on('Network.requestWillBeSentExtraInfo', (event) => {
+      this.getExtraInfo(recording, event.requestId).request.push(event.headers);
+    });
+    session.on('Network.responseReceivedExtraInfo', (event) => {
+      this.getExtraInfo(recording, event.requestId).response.push(
+        event.headers,
+      );
+    });
+    session.on('Network.requestServedFromCache', (event) => {
+      const request = recording.pending.get(event.requestId);
+      if (request) request.entry.fromCache = true;
+    });
+    session.on('Network.dataReceived', (event) => {
+      const request = recording.pending.get(event.requestId);
+      if (request) request.entry.resourceSize += event.dataLength;
+    });
+    session.on('Network.loadingFinished', (event) => {
+      const request = recording.pending.get(event.requestId);
+      if (!request) return;
+      request.entry.transferSize = event.encodedDataLength;
+      this.finish(recording, event.requestId, event.timestamp);
+    });
+    session.on('Network.loadingFailed', (event) => {
+      const request = recording.pending.get(event.requestId);
+      if (!request) return;
+      request.entry.failed = true;
+      request.entry.errorText = event.blockedReason
+        ? `${event.errorText} (${event.blockedReason})`
+        : event.errorText;
+      this.finish(recording, event.requestId, event.timestamp);
+    });
+
+    await session.send('Network.enable');
+    this.recordings.set(page, recording);
+  }
+
+  /**
+   * Stop recording and return the waterfall
+   *
+   * Requests still in flight are included with the time they have taken
+   * so far. Safe to call when no recording is active.
+   *
+   * @returns The waterfall, or null if the page was not being recorded
+   */
+  async stop(page: Page): Promise<NetworkWaterfall | null> {
+    const recording = this.recordings.get(page);
+    if (!recording) return null;
+    this.recordings.delete(page);
+
+    try {
+      await recording.session.detach();
+    } catch (error) {
+      // The page may already be closed; the data collected so far stands
+      this.logger.debug('Network recorder session already detached', error);
+    }
+
+    const lastTimestamp = recording.entries.reduce(
+      (latest, entry) => Math.max(latest, entry.startTime + entry.duration),
+      0,
+    );
+    for (const request of recording.pending.values()) {
+      // In-flight requests end where the last completed request ended
+      this.finalize(
+        recording,
+        request,
+        (recording.origin ?? request.timestamp) + lastTimestamp / 1000,
+      );
+    }
+    // ExtraInfo may arrive before or after the event it belongs to
+    this.mergeExtraInfo(recording);
+
+    return this.buildWaterfall(recording);
+  }
+
+  /**
+   * Copy of a waterfall as kept with a result. Headers are left out: the
+   * HAR archive, when requested, is their only record.
+   */
+  withoutHeaders(waterfall: NetworkWaterfall): StoredNetworkWaterfall {
+    return {
+      ...waterfall,
+      entries: waterfall.entries.map(
+        ({ requestHeaders: _request, responseHeaders: _response, ...entry }) =>
+          entry,
+      ),
+    };
+  }
+
+  /**
+   * Describe a waterfall without its entries, for a capture's events
+   */
+  summarize(waterfall: StoredNetworkWaterfall): NetworkWaterfallSummary {
+    const { entries: _entries, ...summary } = waterfall;
+    return summary;
+  }
+
+  private onRequest(
+    recording: Recording,
+    event: Protocol.Network.RequestWillBeSentEvent,
+  ): void {
+    if (recording.origin === null) {
+      recording.origin = event.timestamp;
+      recording.startedAt = new Date(event.wallTime * 1000).toISOString();
+    }
+
+    // A redirect reuses the request ID: close out the hop that redirected
+    const previous = recording.pending.get(event.requestId);
+    if (previous && event.redirectResponse) {
+      this.applyResponse(recording, previous, event.redirectResponse);
+      previous.entry.transferSize = event.redirectResponse.encodedDataLength;
+      this.finish(recording, event.requestId, event.timestamp);
+    }
+
+    if (
+      recording.entries.length + recording.pending.size >=
+      NETWORK_RECORDER_CONFIG.MAX_ENTRIES
+    ) {
+      recording.truncated = true;
+      return;
+    }
+
+    const initiatorFrame = event.initiator.stack?.callFrames[0];
+    const entry: NetworkWaterfallEntry = {
+      url: event.request.url,
+      method: event.request.method,
+      resourceType: event.type ?? 'Other',
+      mimeType: null,
+      status: null,
+      statusText: null,
+      protocol: null,
+      priority: event.request.initialPriority ?? null,
+      initiator: {
+        type: event.initiator.type,
+        url: event.initiator.url ?? initiatorFrame?.url,
+        lineNumber: event.initiator.lineNumber ?? initiatorFrame?.lineNumber,
+      },
+      remoteAddress: null,
+      fromCache: false,
+      fromServiceWorker: false,
+      failed: false,
+      errorText: null,
+      transferSize: 0,
+      resourceSize: 0,
+      startTime: 0,
+      duration: 0,
+      timings: NO_TIMINGS,
+      requestHeaders: this.copyHeaders(recording, event.request.headers),
+      responseHeaders: {},
+    };
+    recording.pending.set(event.requestId, {
+      timestamp: event.timestamp,
+      entry,
+    });
+
+    const hops = recording.hops.get(event.requestId) ?? [];
+    hops.push(entry);
+    recording.hops.set(event.requestId, hops);
+  }
+
+  private getExtraInfo(recording: Recording, requestId: string): ExtraInfo {
+    let extraInfo = recording.extraInfo.get(requestId);
+    if (!extraInfo) {
+      extraInfo = { request: [], response: [] };
+      recording.extraInfo.set(requestId, extraInfo);
+    }
+    return extraInfo;
+  }
+
+  /**
+   * Merge the on-the-wire headers into the hop they were recorded for;
+   * Chrome sends one ExtraInfo event of each kind per hop, in order
+   */
+  private mergeExtraInfo(recording: Recording): void {
+    for (const [requestId, extraInfo] of recording.extraInfo) {
+      const hops = recording.hops.get(requestId) ?? [];
+      hops.forEach((entry, hop) => {
+        entry.requestHeaders = this.mergeHeaders(
+          recording,
+          entry.requestHeaders,
+          extraInfo.request[hop],
+        );
+        entry.responseHeaders = this.mergeHeaders(
+          recording,
+          entry.responseHeaders,
+          extraInfo.response[hop],
+        );
+      });
+    }
+  }
+
+  /**
+   * Overlay wire headers on recorded ones, matching names case-insensitively
+   */
+  private mergeHeaders(
+    recording: Recording,
+    headers: Record<string, string>,
+    wireHeaders?: Protocol.Network.Headers,
+  ): Record<string, string> {
+    if (!wireHeaders) return headers;
+
+    const wire = this.copyHeaders(recording, wireHeaders);
+    const names = new Set(Object.keys(wire).map((name) => name.toLowerCase()));
+    const merged: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (!names.has(name.toLowerCase())) merged[name] = value;
+    }
+    return { ...merged, ...wire };
+  }
+
+  private applyResponse(
+    recording: Recording,
+    request: PendingRequest,
+    response: Protocol.Network.Response,
+  ): void {
+    const { entry } = request;
+    entry.status = response.status;
+    entry.statusText = response.statusText || null;
+    entry.mimeType = response.mimeType || null;
+    entry.protocol = response.protocol ?? null;
+    entry.remoteAddress = response.remoteIPAddress
+      ? `${response.remoteIPAddress}:${response.remotePort ?? ''}`
+      : null;
+    entry.fromCache =
+      entry.fromCache ||
+      !!response.fromDiskCache ||
+      !!response.fromPrefetchCache;
+    entry.fromServiceWorker = !!response.fromServiceWorker;
+    entry.responseHeaders = this.copyHeaders(recording, response.headers);
+    request.timing = response.timing;
+  }
+
+  private finish(
+    recording: Recording,
+    requestId: string,
+    timestamp: number,
+  ): void {
+    const request = recording.pending.get(requestId);
+    if (!request) return;
+    recording.pending.delete(requestId);
+    this.finalize(recording, request, timestamp);
+  }
+
+  private finalize(
+    recording: Recording,
+    request: PendingRequest,
+    endTimestamp: number,
+  ): void {
+    const origin = recording.origin ?? request.timestamp;
+    const { entry } = request;
+
+    entry.startTime = this.round((request.timestamp - origin) * 1000);
+    entry.duration = this.round(
+      Math.max(endTimestamp - request.timestamp, 0) * 1000,
+    );
+    entry.timings = this.computeTimings(request, endTimestamp);
+    recording.entries.push(entry);
+  }
+
+  /**
+   * Split a request into phases from CDP ResourceTiming, whose offsets are
+   * ms relative to timing.requestTime (-1 when a phase didn't happen)
+   */
+  private computeTimings(
+    request: PendingRequest,
+    endTimestamp: number,
+  ): NetworkTimingPhases {
+    const timing = request.timing;
+    if (!timing || timing.sendStart < 0) return NO_TIMINGS;
+
+    const span = (start: number, end: number) =>
+      start >= 0 && end >= start ? this.round(end - start) : -1;
+    const firstPhase = [timing.dnsStart, timing.connectStart].find(
+      (start) => start >= 0,
+    );
+    const queued = (timing.requestTime - request.timestamp) * 1000;
+
+    return {
+      blocked: this.round(
+        Math.max(queued + (firstPhase ?? timing.sendStart), 0),
+      ),
+      dns: span(timing.dnsStart, timing.dnsEnd),
+      connect: span(timing.connectStart, timing.connectEnd),
+      ssl: span(timing.sslStart, timing.sslEnd),
+      send: span(timing.sendStart, timing.sendEnd),
+      wait: span(timing.sendEnd, timing.receiveHeadersEnd),
+      receive: this.round(
+        Math.max(
+          (endTimestamp - timing.requestTime) * 1000 - timing.receiveHeadersEnd,
+          0,
+        ),
+      ),
+    };
+  }
+
+  private buildWaterfall(recording: Recording): NetworkWaterfall {
+    const entries = [...recording.entries].sort(
+      (a, b) => a.startTime - b.startTime,
+    );
+
+    return {
+      startedAt: recording.startedAt,
+      redacted: recording.redact,
+      entries,
+      summary: {
+        requests: entries.length,
+        failedRequests: entries.filter((entry) => entry.failed).length,
+        transferBytes: entries.reduce(
+          (sum, entry) => sum + entry.transferSize,
+          0,
+        ),
+        duration: entries.reduce(
+          (latest, entry) =>
+            Math.max(latest, this.round(entry.startTime + entry.duration)),
+          0,
+        ),
+        truncated: recording.truncated,
+      },
+    };
+  }
+
+  private copyHeaders(
+    recording: Recording,
+    headers: Protocol.Network.Headers = {},
+  ): Record<string, string> {
+    const copy: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      const header = name.toLowerCase();
+      copy[name] =
+        recording.secretHeaders.has(header) ||
+        (recording.redact &&
+          (
+            NETWORK_RECORDER_CONFIG.REDACTED_HEADERS as readonly string[]
+          ).includes(header))
+          ? '[redacted]'
+          : String(value);
+    }
+    return copy;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
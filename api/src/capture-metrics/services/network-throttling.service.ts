@@ -0,0 +1,109 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CDPSession, Page } from 'puppeteer';
+
+import {
+  NetworkType,
+  PERFORMANCE_TEST_CONFIG,
+} from '../config/performance-test.config';
+import { NetworkProfile } from '../interfaces/cache.interface';
+
+const DEFAULT_NETWORK_TYPE: NetworkType = 'wifi';
+
+/**
+ * Network Throttling Service
+ *
+ * Resolves named network profiles (3g, 4g, 5g, wifi, none) and applies
+ * them to pages through CDP network emulation. Emulation is reset, and
+ * its CDP session detached, before a page goes back to the pool.
+ */
+@Injectable()
+export class NetworkThrottlingService {
+  private readonly logger = new Logger(NetworkThrottlingService.name);
+  private readonly sessions = new WeakMap<Page, CDPSession>();
+
+  /**
+   * Resolve a network type to its throttling profile.
+   * Unknown or missing types fall back to the DTO default (wifi).
+   */
+  getProfile(networkType?: string): NetworkProfile {
+    const throttling = PERFORMANCE_TEST_CONFIG.network.throttling;
+    const name = (
+      networkType && networkType in throttling
+        ? networkType
+        : DEFAULT_NETWORK_TYPE
+    ) as NetworkType;
+
+    return { name, ...throttling[name] };
+  }
+
+  /**
+   * Check whether a profile actually limits the connection
+   */
+  isThrottled(profile: NetworkProfile): boolean {
+    return (
+      profile.offline ||
+      profile.latency > 0 ||
+      profile.downloadThroughput > 0 ||
+      profile.uploadThroughput > 0 ||
+      profile.packetLoss > 0
+    );
+  }
+
+  /**
+   * Apply a network profile to a page via CDP
+   *
+   * @returns The profile that was applied
+   */
+  async applyToPage(page: Page, networkType?: string): Promise<NetworkProfile> {
+    const profile = this.getProfile(networkType);
+
+    if (!this.isThrottled(profile)) {
+      return profile;
+    }
+
+    const session = await page.createCDPSession();
+    this.sessions.set(page, session);
+
+    await session.send('Network.enable');
+    await session.send('Network.emulateNetworkConditions', {
+      offline: profile.offline,
+      latency: profile.latency,
+      // CDP uses -1 (not 0) to leave a direction unthrottled
+      downloadThroughput: profile.downloadThroughput || -1,
+      uploadThroughput: profile.uploadThroughput || -1,
+      packetLoss: profile.packetLoss,
+      packetQueueLength: profile.packetQueueLength,
+      packetReordering: profile.packetReordering,
+    });
+
+    this.logger.debug(
+      `Applied ${profile.name} network profile (latency: ${profile.latency}ms)`,
+    );
+    return profile;
+  }
+
+  /**
+   * Remove network emulation from a page before it returns to the pool
+   */
+  async resetPage(page: Page): Promise<void> {
+    const session = this.sessions.get(page);
+    if (!session) return;
+    this.sessions.delete(page);
+
+    if (page.isClosed()) return;
+
+    try {
+      await session.send('Network.emulateNetworkConditions', {
+        offline: false,
+        latency: 0,
+        downloadThroughput: -1,
+        uploadThroughput: -1,
+      });
+      await session.detach();
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to reset network emulation: ${errorMessage}`);
+    }
+  }
+}
@@ -9,6 +9,8 @@ import { CachedTestResult, TestResults } from '../interfaces/cache.interface';
 import { CreateCaptureData } from '~/dto/create-capture-data';
 import { AppError } from '~/common/app-error.common';
 import { CACHE_CONFIG } from '../config/capture.config';
+import { DomainEventsService } from '~/common/events/domain-events.service';
+import { DOMAIN_EVENTS } from '~/common/events/domain-events';
 
 /**
  * Persistence Service
@@ -18,6 +20,7 @@ import { CACHE_CONFIG } from '../config/capture.config';
  * - Caching results in Redis
  * - Retrieving cached results
  * - Cache management and invalidation
+ * - Publishing test.completed once a result is saved
  *
  * Extracted from CaptureOrchestratorService to follow Single Responsibility Principle
  */
@@ -32,6 +35,7 @@ export class PersistenceService {
     private readonly testResultModel: Model<TestResultDocument>,
     @Inject(CACHE_MANAGER)
     private readonly cacheManager: Cache,
+    private readonly domainEvents: DomainEventsService,
   ) {
     this.logger.log('PersistenceService initialized');
   }
@@ -68,6 +72,16 @@ export class PersistenceService {
           testType: tempData.captureData.testType,
           includeScreenshots: tempData.captureData.includeScreenshots,
           networkType: tempData.captureData.networkType,
+          runs: tempData.results.runSummary?.requestedRuns,
+          repeatView: !!tempData.results.repeatView,
+          har: !!tempData.results.har,
+          thirdPartyReport: !!tempData.results.thirdParty,
+          blockUrls: tempData.results.blockingExperiment?.patterns,
+          auth: tempData.results.auth,
+          budget: tempData.captureData.budget,
+          steps: tempData.captureData.steps,
+          viewports: tempData.captureData.viewports,
+          networkProfile: tempData.results.networkProfile,
           testId: testId,
         },
         status: tempData.results.status || 'completed',
@@ -82,6 +96,16 @@ export class PersistenceService {
         `Test result saved to database for user: ${userId}, testId: ${testId}`,
       );
 
+      this.domainEvents.emit(DOMAIN_EVENTS.TEST_COMPLETED, {
+        userId,
+        testResultId: savedResult._id.toString(),
+        url: tempData.captureData.url,
+        testType: tempData.captureData.testType || 'performance',
+        status: tempData.results.status === 'failed' ? 'failed' : 'completed',
+        results: tempData.results,
+        testId,
+      });
+
       return savedResult._id.toString();
     } catch (error: any) {
       this.logger.error(
@@ -100,6 +124,7 @@ export class PersistenceService {
    * @param captureData - Capture configuration data
    * @param results - Test results to save
    * @param status - Test status (completed/failed)
+   * @param options - Batch or schedule the result belongs to (optional)
    * @returns MongoDB document ID of saved result
    */
   async saveTestResult(
@@ -108,11 +133,15 @@ export class PersistenceService {
     captureData: CreateCaptureData,
     results: TestResults,
     status: 'completed' | 'failed',
+    options: { batchId?: string; scheduleName?: string } = {},
   ): Promise<string> {
+    const { batchId, scheduleName } = options;
+
     try {
       const testResult = new this.testResultModel({
         userId,
         url,
+        batchId,
         timestamp: new Date(),
         results,
         testConfig: {
@@ -120,6 +149,16 @@ export class PersistenceService {
           testType: captureData.testType,
           includeScreenshots: captureData.includeScreenshots,
           networkType: captureData.networkType,
+          runs: results.runSummary?.requestedRuns,
+          repeatView: !!results.repeatView,
+          har: !!results.har,
+          thirdPartyReport: !!results.thirdParty,
+          blockUrls: results.blockingExperiment?.patterns,
+          auth: results.auth,
+          budget: captureData.budget,
+          steps: captureData.steps,
+          viewports: captureData.viewports,
+          networkProfile: results.networkProfile,
           testId: captureData.testId,
         },
         status,
@@ -127,6 +166,19 @@ export class PersistenceService {
 
       const savedResult = await testResult.save();
       this.logger.log(`Test result saved to database for user: ${userId}`);
+
+      this.domainEvents.emit(DOMAIN_EVENTS.TEST_COMPLETED, {
+        userId,
+        testResultId: savedResult._id.toString(),
+        url,
+        testType: captureData.testType || 'performance',
+        status,
+        results,
+        testId: captureData.testId,
+        batchId,
+        scheduleName,
+      });
+
       return savedResult._id.toString();
     } catch (error: any) {
       this.logger.error(
@@ -152,8 +204,10 @@ export class PersistenceService {
     ttlMs?: number,
   ): Promise<void> {
     const cacheKey = `${this.CACHE_KEY_PREFIX}${testId}`;
+    // Credentials never reach the cache; results keep only their names
+    const { auth: _auth, ...cacheableData } = captureData;
     const cachedData: CachedTestResult = {
-      captureData,
+      captureData: cacheableData,
       results,
       timestamp: Date.now(),
     };
@@ -1,5 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Page, ElementHandle } from 'puppeteer';
+import {
+  Page,
+  ElementHandle,
+  HTTPRequest,
+  ContinueRequestOverrides,
+} from 'puppeteer';
 import { TimeoutService } from './timeout.service';
 
 @Injectable()
@@ -181,10 +186,14 @@ export class PuppeteerHelpersService {
     await new Promise((resolve) => setTimeout(resolve, timeout));
   }
 
-  private requestHandlers = new Map<Page, (request: any) => void>();
+  private requestHandlers = new Map<Page, (request: HTTPRequest) => void>();
 
   /**
    * Setup request interception (replaces Playwright's route)
+   *
+   * Requests are resolved cooperatively, so several handlers can intercept
+   * the same page: an abort from any of them wins, and overrides passed to
+   * continue are merged with those of the handlers that ran before.
    */
   async setupRequestInterception(
     page: Page,
@@ -192,40 +201,44 @@ export class PuppeteerHelpersService {
   ): Promise<void> {
     await page.setRequestInterception(true);
 
-    const requestHandler = (request: any) => {
+    const requestHandler = (request: HTTPRequest) => {
+      if (request.isInterceptResolutionHandled()) return;
+
+      const continueRequest = (overrides?: ContinueRequestOverrides) => {
+        try {
+          void request.continue(
+            { ...request.continueRequestOverrides(), ...overrides },
+            0,
+          );
+        } catch (_error) {
+          // Request might already be handled, ignore
+        }
+      };
+
       // Convert Puppeteer request to Playwright-like route object
       const route = {
         abort: () => {
           try {
-            request.abort();
-          } catch (_error) {
-            // Request might already be handled, ignore
-          }
-        },
-        continue: () => {
-          try {
-            request.continue();
+            void request.abort('failed', 0);
           } catch (_error) {
             // Request might already be handled, ignore
           }
         },
+        continue: continueRequest,
       };
 
       // Create a request-like object for compatibility
       const requestObj = {
         url: () => request.url(),
         resourceType: () => request.resourceType(),
+        headers: () => request.headers(),
       };
 
       try {
         handler(route, requestObj);
       } catch (_error) {
         // If handler fails, continue the request to avoid hanging
-        try {
-          request.continue();
-        } catch (_continueError) {
-          // Ignore if request was already handled
-        }
+        continueRequest();
       }
     };
 
@@ -0,0 +1,131 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CDPSession, Page } from 'puppeteer';
+
+import {
+  RepeatViewComparison,
+  RepeatViewResult,
+  WebMetricsResult,
+} from '../interfaces/cache.interface';
+import { WebMetricsService } from './web-metrics.service';
+
+// CDP storage types that would otherwise serve the first view from a warm cache
+const COLD_CACHE_STORAGE_TYPES = 'service_workers,cache_storage';
+
+/**
+ * Repeat View Service
+ *
+ * WebPageTest-style first view / repeat view measurement:
+ * - Clears the HTTP cache and the origin's service workers before the
+ *   first view so it loads cold
+ * - Reloads the same page afterwards, keeping the warm HTTP cache and any
+ *   service worker the first view installed
+ * - Compares both views' network breakdowns to show what caching saved
+ */
+@Injectable()
+export class RepeatViewService {
+  private readonly logger = new Logger(RepeatViewService.name);
+
+  constructor(private readonly webMetricsService: WebMetricsService) {}
+
+  /**
+   * Clear cached responses and service workers so the next load is a cold
+   * first view. Best effort: a failure is logged and the load proceeds.
+   */
+  async prepareFirstView(page: Page, url: string): Promise<void> {
+    let session: CDPSession | null = null;
+
+    try {
+      session = await page.createCDPSession();
+      await session.send('Network.clearBrowserCache');
+      await session.send('Storage.clearDataForOrigin', {
+        origin: new URL(url).origin,
+        storageTypes: COLD_CACHE_STORAGE_TYPES,
+      });
+      this.logger.debug(`Cleared browser cache for first view of ${url}`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Failed to clear cache before first view: ${errorMessage}`,
+      );
+    } finally {
+      await session?.detach().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Reload the page with a warm cache and collect its web metrics
+   *
+   * @param page - Page that has already completed the first view
+   * @param testType - Test type, forwarded to web metrics collection
+   * @param firstView - Web metrics of the first view, for the comparison
+   */
+  async *captureRepeatView(
+    page: Page,
+    testType: 'performance' | 'screenshot' | 'cookie' | 'seo' | 'accessibility',
+    firstView: WebMetricsResult | null,
+  ): AsyncGenerator<any> {
+    yield {
+      status: 'REPEAT_VIEW_START',
+      message: 'Reloading page with a warm cache',
+    };
+
+    try {
+      await page.reload({ waitUntil: 'domcontentloaded', timeout: 20000 });
+
+      // Consume the collector here: forwarding its METRICS_COMPLETE would
+      // overwrite the first view's metrics
+      let webMetrics: WebMetricsResult | null = null;
+      for await (const event of this.webMetricsService.captureWebMetrics(
+        page,
+        testType,
+      )) {
+        if (event.status === 'METRICS_COMPLETE' && event.data) {
+          webMetrics = event.data;
+        }
+      }
+
+      const result: RepeatViewResult = {
+        webMetrics,
+        comparison: this.compare(firstView, webMetrics),
+      };
+
+      yield {
+        status: 'REPEAT_VIEW_COMPLETE',
+        data: result,
+        message: 'Repeat view metrics collected',
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Repeat view failed: ${errorMessage}`);
+      yield { status: 'REPEAT_VIEW_ERROR', error: errorMessage };
+    }
+  }
+
+  /**
+   * Compare the network breakdowns of both views
+   *
+   * @returns Savings of the repeat view, or null when either view has no
+   * network metrics
+   */
+  compare(
+    firstView: WebMetricsResult | null,
+    repeatView: WebMetricsResult | null,
+  ): RepeatViewComparison | null {
+    const firstNetwork = firstView?.networkMetrics as Record<string, any>;
+    const repeatNetwork = repeatView?.networkMetrics as Record<string, any>;
+    if (!firstNetwork || !repeatNetwork) return null;
+
+    return {
+      requestsSaved:
+        (firstNetwork.totalRequests ?? 0) - (repeatNetwork.totalRequests ?? 0),
+      bytesSaved:
+        (firstNetwork.totalBytes ?? 0) - (repeatNetwork.totalBytes ?? 0),
+      cachedRequests: repeatNetwork.caching?.cached ?? 0,
+      loadTimeSaved:
+        (firstView?.performanceMetrics?.loadComplete ?? 0) -
+        (repeatView?.performanceMetrics?.loadComplete ?? 0),
+    };
+  }
+}
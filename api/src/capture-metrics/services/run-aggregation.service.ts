@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+
+import {
+  MetricStats,
+  RunSummary,
+  TestResults,
+} from '../interfaces/cache.interface';
+
+// Numeric fields within these webMetrics groups are aggregated per run
+const METRIC_GROUPS = [
+  'performanceMetrics',
+  'networkMetrics',
+  'vitalsMetrics',
+] as const;
+
+// Lighthouse category scores stored at the top level of webMetrics
+const SCORE_KEYS = [
+  'performanceScore',
+  'accessibilityScore',
+  'bestPracticesScore',
+  'seoScore',
+] as const;
+
+// Metrics used to pick the representative run, in order of preference
+const MEDIAN_RUN_METRICS = [
+  'performanceScore',
+  'vitalsMetrics.LCP',
+  'performanceMetrics.largestContentfulPaint',
+  'performanceMetrics.loadComplete',
+];
+
+/**
+ * Run Aggregation Service
+ *
+ * Combines repeated page loads of the same URL into a single result:
+ * - Median, min, max and standard deviation for every numeric web metric
+ *   and Lighthouse score
+ * - Picks the run closest to the median as the representative run, so
+ *   score comparisons and alerts are based on a typical load rather than
+ *   an outlier
+ */
+@Injectable()
+export class RunAggregationService {
+  /**
+   * Merge completed runs into one result
+   *
+   * @param runs - Completed runs, in execution order
+   * @param requestedRuns - Number of runs that were requested
+   * @returns The median run, with every run and the summary attached
+   */
+  aggregate(runs: TestResults[], requestedRuns: number): TestResults {
+    const runSummary = this.summarize(runs, requestedRuns);
+    const representative = runs.find((run) => run.run === runSummary.medianRun);
+
+    return {
+      ...(representative ?? runs[0]),
+      runs,
+      runSummary,
+    };
+  }
+
+  /**
+   * Compute per-metric statistics and the representative run
+   */
+  summarize(runs: TestResults[], requestedRuns: number): RunSummary {
+    const valuesByMetric = new Map<string, number[]>();
+    const runMetrics = runs.map((run) => this.collectMetrics(run));
+
+    for (const metrics of runMetrics) {
+      for (const [path, value] of Object.entries(metrics)) {
+        if (!valuesByMetric.has(path)) valuesByMetric.set(path, []);
+        valuesByMetric.get(path)!.push(value);
+      }
+    }
+
+    const metrics: Record<string, MetricStats> = {};
+    for (const [path, values] of valuesByMetric) {
+      metrics[path] = this.computeStats(values);
+    }
+
+    return {
+      requestedRuns,
+      completedRuns: runs.length,
+      medianRun: this.selectMedianRun(runs, runMetrics, metrics),
+      metrics,
+    };
+  }
+
+  computeStats(values: number[]): MetricStats {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median =
+      sorted.length % 2 === 0
+        ? (sorted[middle - 1] + sorted[middle]) / 2
+        : sorted[middle];
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+    const variance =
+      sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+      sorted.length;
+
+    return {
+      median: this.round(median),
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      stddev: this.round(Math.sqrt(variance)),
+    };
+  }
+
+  /**
+   * Pick the run closest to the median of the first metric every run
+   * reported. Ties go to the earliest run.
+   */
+  private selectMedianRun(
+    runs: TestResults[],
+    runMetrics: Array<Record<string, number>>,
+    metrics: Record<string, MetricStats>,
+  ): number {
+    const metric = MEDIAN_RUN_METRICS.find((path) =>
+      runMetrics.every((values) => values[path] !== undefined),
+    );
+    if (!metric) return runs[0]?.run ?? 1;
+
+    const { median } = metrics[metric];
+    let bestIndex = 0;
+    runMetrics.forEach((values, index) => {
+      const distance = Math.abs(values[metric] - median);
+      const bestDistance = Math.abs(runMetrics[bestIndex][metric] - median);
+      if (distance < bestDistance) bestIndex = index;
+    });
+
+    return runs[bestIndex].run ?? bestIndex + 1;
+  }
+
+  /**
+   * Flatten a run's numeric web metrics into dotted paths
+   */
+  private collectMetrics(run: TestResults): Record<string, number> {
+    const webMetrics = (run.webMetrics ?? {}) as Record<string, any>;
+    const metrics: Record<string, number> = {};
+
+    for (const key of SCORE_KEYS) {
+      if (this.isNumber(webMetrics[key])) metrics[key] = webMetrics[key];
+    }
+
+    for (const group of METRIC_GROUPS) {
+      const values = webMetrics[group];
+      if (!values || typeof values !== 'object') continue;
+
+      for (const [key, value] of Object.entries(values)) {
+        if (this.isNumber(value)) metrics[`${group}.${key}`] = value;
+      }
+    }
+
+    return metrics;
+  }
+
+  private isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
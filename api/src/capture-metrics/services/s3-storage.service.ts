@@ -5,13 +5,15 @@ import {
   PutObjectCommand,
   DeleteObjectCommand,
   HeadObjectCommand,
+  GetObjectCommand,
 } from '@aws-sdk/client-s3';
 import * as crypto from 'crypto';
 
 /**
  * S3 Storage Service
  *
- * Handles all interactions with AWS S3 for storing screenshots.
+ * Handles all interactions with AWS S3 for storing screenshots and HAR
+ * archives.
  * Provides secure, scalable storage with:
  * - Automatic file naming with UUID
  * - Content-type detection
@@ -150,6 +152,70 @@ export class S3StorageService {
     }
   }
 
+  /**
+   * Upload a HAR archive to S3 as a private object. Archives hold the
+   * headers of every request, so they are only read back through
+   * downloadFile, never linked to.
+   *
+   * @param buffer - Serialized HAR JSON
+   * @param testId - Test the archive was recorded for
+   * @returns S3 key of the uploaded file
+   */
+  async uploadHar(buffer: Buffer, testId: string): Promise<string> {
+    try {
+      const uuid = crypto.randomBytes(8).toString('hex');
+      const filename = `har/${testId}/${Date.now()}-${uuid}.har`;
+
+      const command = new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: filename,
+        Body: buffer,
+        ContentType: 'application/json',
+        ACL: 'private',
+        Metadata: {
+          testId,
+          uploadedAt: new Date().toISOString(),
+        },
+      });
+
+      await this.s3Client.send(command);
+
+      this.logger.log(`HAR uploaded successfully: ${filename}`);
+
+      return filename;
+    } catch (error) {
+      this.logger.error('Failed to upload HAR to S3:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download a stored file from S3
+   *
+   * @param url - S3 URL or key of the file
+   * @returns File contents
+   */
+  async downloadFile(url: string): Promise<Buffer> {
+    try {
+      const key = this.extractKeyFromUrl(url);
+
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+      });
+
+      const response = await this.s3Client.send(command);
+      if (!response.Body) {
+        throw new Error(`Empty body for S3 object: ${key}`);
+      }
+
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      this.logger.error('Failed to download file from S3:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a screenshot from S3
    *
@@ -0,0 +1,299 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Page } from 'puppeteer';
+
+import { BrowserPoolService } from './browser-pool.service';
+import { DeviceConfigService } from './device-config.service';
+import { ScreenshotsService } from './screenshots.service';
+import { S3StorageService } from './s3-storage.service';
+import { CredentialsService } from './credentials.service';
+import {
+  MatrixViewportInfo,
+  ScreenshotMatrixEntry,
+  ScreenshotMatrixResult,
+} from '../interfaces/cache.interface';
+import { SCREENSHOT_MATRIX_CONFIG } from '../config/capture.config';
+import { CaptureAuth, MatrixViewport } from '~/dto/create-capture-data';
+import { raceAbort } from '~/common/abort.common';
+
+export interface ScreenshotMatrixOptions {
+  testId: string; // Screenshots are stored as <testId>-matrix-<n> frames
+  auth?: CaptureAuth;
+  abortSignal?: AbortSignal;
+}
+
+export interface ScreenshotMatrixProgressEvent {
+  status: string;
+  message?: string;
+  index?: number;
+  totalViewports?: number;
+  entry?: ScreenshotMatrixEntry;
+  data?: ScreenshotMatrixResult;
+}
+
+/**
+ * Screenshot Matrix Service
+ *
+ * Renders one URL at a list of devices or custom viewports, several at a
+ * time in separate pool pages, and takes a full-page screenshot and an
+ * above-the-fold crop at each. A viewport that fails to load is reported
+ * as failed without failing the others.
+ *
+ * Every viewport gets its own page, given back as soon as it is captured:
+ * a worker never holds a page while it waits for the next one, so it
+ * cannot hold up a browser recycle that is draining the pool.
+ */
+@Injectable()
+export class ScreenshotMatrixService {
+  private readonly logger = new Logger(ScreenshotMatrixService.name);
+
+  constructor(
+    private readonly browserPool: BrowserPoolService,
+    private readonly deviceConfigService: DeviceConfigService,
+    private readonly screenshotsService: ScreenshotsService,
+    private readonly s3Storage: S3StorageService,
+    private readonly credentialsService: CredentialsService,
+  ) {}
+
+  /**
+   * Viewports to render for a capture; 360 to 1920 wide if none are given
+   *
+   * @param viewports - Query-string captures pass them as a JSON array
+   */
+  buildViewports(viewports?: MatrixViewport[] | string): MatrixViewport[] {
+    let parsed: unknown = viewports ?? [];
+    if (typeof parsed === 'string') {
+      try {
+        parsed = JSON.parse(parsed);
+      } catch {
+        parsed = [];
+      }
+    }
+
+    const matrix = (Array.isArray(parsed) ? parsed : []).slice(
+      0,
+      SCREENSHOT_MATRIX_CONFIG.MAX_VIEWPORTS,
+    ) as MatrixViewport[];
+
+    return matrix.length > 0
+      ? matrix
+      : SCREENSHOT_MATRIX_CONFIG.DEFAULT_VIEWPORTS.map((viewport) => ({
+          ...viewport,
+        }));
+  }
+
+  /**
+   * Render the URL at every viewport, streaming each viewport's result as it
+   * finishes; the final MATRIX_COMPLETE lists them in request order
+   *
+   * @param viewports - Viewports from buildViewports
+   */
+  async *captureMatrix(
+    url: string,
+    viewports: MatrixViewport[],
+    options: ScreenshotMatrixOptions,
+  ): AsyncGenerator<ScreenshotMatrixProgressEvent> {
+    const { abortSignal } = options;
+    const totalViewports = viewports.length;
+    const startedAt = Date.now();
+    const entries: ScreenshotMatrixEntry[] = new Array(totalViewports);
+
+    // Workers run outside the generator; their events are queued for it
+    const events: ScreenshotMatrixProgressEvent[] = [];
+    let wake: (() => void) | null = null;
+    let finished = false;
+    const push = (event: ScreenshotMatrixProgressEvent) => {
+      events.push(event);
+      wake?.();
+    };
+
+    yield {
+      status: 'MATRIX_START',
+      message: `Rendering ${url} at ${totalViewports} viewports`,
+      totalViewports,
+    };
+
+    let next = 0;
+    const worker = async () => {
+      while (next < totalViewports && !abortSignal?.aborted) {
+        const index = next++;
+        const page = await this.browserPool.requirePage();
+        let entry: ScreenshotMatrixEntry;
+        try {
+          if (abortSignal?.aborted) return;
+          await this.credentialsService.applyToPage(page, options.auth, url);
+
+          entry = await this.captureViewport(
+            page,
+            url,
+            viewports[index],
+            index,
+            options,
+          );
+        } finally {
+          await this.releasePage(page, options);
+        }
+
+        entries[index] = entry;
+        push({
+          status:
+            entry.status === 'completed'
+              ? 'MATRIX_VIEWPORT_COMPLETE'
+              : 'MATRIX_VIEWPORT_FAILED',
+          index: index + 1,
+          totalViewports,
+          entry,
+        });
+      }
+    };
+
+    const workers = Promise.all(
+      Array.from(
+        {
+          length: Math.min(
+            SCREENSHOT_MATRIX_CONFIG.CONCURRENCY,
+            totalViewports,
+          ),
+        },
+        () => worker(),
+      ),
+    ).finally(() => {
+      finished = true;
+      wake?.();
+    });
+
+    try {
+      while (!finished || events.length > 0) {
+        const event = events.shift();
+        if (event) {
+          yield event;
+          continue;
+        }
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+      }
+      await workers;
+
+      if (abortSignal?.aborted) return;
+
+      const data: ScreenshotMatrixResult = {
+        entries,
+        duration: Date.now() - startedAt,
+      };
+      const failed = entries.filter(
+        (entry) => entry.status === 'failed',
+      ).length;
+
+      yield {
+        status: 'MATRIX_COMPLETE',
+        message: `Rendered ${totalViewports - failed} of ${totalViewports} viewports`,
+        data,
+      };
+    } finally {
+      // Workers still running give their page back before the stream ends
+      await workers.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Reset a viewport's page and give it back to the pool
+   */
+  private async releasePage(
+    page: Page,
+    options: ScreenshotMatrixOptions,
+  ): Promise<void> {
+    await this.deviceConfigService.restorePage(page);
+    await this.credentialsService.resetPage(page, options.auth);
+    await this.browserPool.releasePage(page).catch((error: Error) => {
+      this.logger.error(
+        `Error releasing matrix page back to pool: ${error.message}`,
+      );
+    });
+  }
+
+  /**
+   * Load the URL at one viewport and store both screenshots
+   */
+  private async captureViewport(
+    page: Page,
+    url: string,
+    viewport: MatrixViewport,
+    index: number,
+    options: ScreenshotMatrixOptions,
+  ): Promise<ScreenshotMatrixEntry> {
+    const config = this.deviceConfigService.getViewportConfig(viewport);
+    const info: MatrixViewportInfo = {
+      label:
+        viewport.label ??
+        viewport.device ??
+        `${config.viewport.width}×${config.viewport.height}`,
+      device: viewport.device ?? null,
+      width: config.viewport.width,
+      height: config.viewport.height,
+      deviceScaleFactor: config.deviceScaleFactor,
+      isMobile: config.isMobile,
+    };
+    const artifactId = `${options.testId}-matrix-${index + 1}`;
+    const deviceType =
+      info.device ?? `${config.viewport.width}x${config.viewport.height}`;
+
+    try {
+      await this.deviceConfigService.configurePageForViewport(page, config);
+
+      const navigationStartedAt = Date.now();
+      await raceAbort(
+        page.goto(url, {
+          waitUntil: 'load',
+          timeout: SCREENSHOT_MATRIX_CONFIG.NAVIGATION_TIMEOUT_MS,
+        }),
+        options.abortSignal,
+      );
+      const loadTime = Date.now() - navigationStartedAt;
+
+      // Let late requests (lazy images, web fonts) finish before capturing
+      await page
+        .waitForNetworkIdle({
+          idleTime: SCREENSHOT_MATRIX_CONFIG.SETTLE_IDLE_MS,
+          timeout: SCREENSHOT_MATRIX_CONFIG.SETTLE_TIMEOUT_MS,
+        })
+        .catch(() => undefined);
+
+      const aboveTheFold = await page.screenshot({
+        type: 'jpeg',
+        quality: SCREENSHOT_MATRIX_CONFIG.ABOVE_THE_FOLD_QUALITY,
+        encoding: 'binary',
+      });
+      const aboveTheFoldUrl = await this.s3Storage.uploadScreenshot(
+        Buffer.from(aboveTheFold),
+        { testId: artifactId, deviceType, frameNumber: 1, format: 'jpeg' },
+      );
+
+      const fullPage = await this.screenshotsService.captureFullPage(page, {
+        testId: artifactId,
+        deviceType,
+      });
+
+      return {
+        viewport: info,
+        status: 'completed',
+        fullPage,
+        aboveTheFold: aboveTheFoldUrl,
+        loadTime,
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Matrix viewport ${info.label} of ${url} failed: ${errorMessage}`,
+      );
+
+      return {
+        viewport: info,
+        status: 'failed',
+        fullPage: null,
+        aboveTheFold: null,
+        loadTime: null,
+        error: errorMessage,
+      };
+    }
+  }
+}
@@ -1,27 +1,133 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Page } from 'puppeteer';
+import type { CDPSession, Page, Protocol } from 'puppeteer';
 import { BrowserPoolService } from './browser-pool.service';
 import { S3StorageService } from './s3-storage.service';
+import { decodePng } from './visual-diff.service';
+import {
+  Filmstrip,
+  FilmstripFrame,
+  FullPageScreenshot,
+  VisualMilestones,
+  VisualProgressPoint,
+} from '../interfaces/cache.interface';
+import {
+  FILMSTRIP_CONFIG,
+  VISUAL_REGRESSION_CONFIG,
+} from '../config/capture.config';
 
 export interface ScreenshotOptions {
   deviceType: DeviceType;
   testId: string; // Required for S3 storage organization
-  interval?: number;
-  maxDuration?: number;
-  maxFrames?: number;
-  format?: 'png' | 'jpeg';
+  maxDuration?: number; // ms after navigation start
+  maxFrames?: number; // Frames uploaded
   fullPage?: boolean;
   networkAware?: boolean; // Whether to adapt to network conditions
 }
+
+interface ScreencastFrame {
+  data: string; // Base64 PNG
+  timestamp: number; // Wall-clock ms the frame was swapped in
+}
+
+interface Recording {
+  session: CDPSession;
+  frames: ScreencastFrame[]; // Distinct frames in order
+  received: number;
+  loadedAt: number | null; // Wall-clock ms of the load event
+  lastFrameAt: number; // Wall-clock ms the last distinct frame arrived
+  truncated: boolean;
+}
+
 @Injectable()
 export class ScreenshotsService {
   private readonly logger = new Logger(ScreenshotsService.name);
+  private readonly recordings = new WeakMap<Page, Recording>();
 
   constructor(
     private readonly browserPool: BrowserPoolService,
     private readonly s3Storage: S3StorageService,
   ) {}
 
+  /**
+   * Start recording the page's screencast; attach before navigation so the
+   * filmstrip starts from a blank page
+   */
+  async startFilmstrip(page: Page): Promise<void> {
+    await this.stopFilmstrip(page);
+
+    const session = await page.createCDPSession();
+    const recording: Recording = {
+      session,
+      frames: [],
+      received: 0,
+      loadedAt: null,
+      lastFrameAt: Date.now(),
+      truncated: false,
+    };
+
+    session.on('Page.screencastFrame', (event) =>
+      this.onFrame(recording, event),
+    );
+    session.on('Page.loadEventFired', () => {
+      recording.loadedAt = Date.now();
+    });
+
+    await session.send('Page.enable');
+    await session.send('Page.startScreencast', {
+      format: 'png',
+      maxWidth: FILMSTRIP_CONFIG.MAX_FRAME_WIDTH,
+      maxHeight: FILMSTRIP_CONFIG.MAX_FRAME_HEIGHT,
+      everyNthFrame: 1,
+    });
+    this.recordings.set(page, recording);
+  }
+
+  /**
+   * Stop the screencast and hand back what it recorded
+   */
+  private async stopFilmstrip(page: Page): Promise<Recording | null> {
+    const recording = this.recordings.get(page);
+    if (!recording) return null;
+    this.recordings.delete(page);
+
+    await recording.session.send('Page.stopScreencast').catch(() => undefined);
+    await recording.session.detach().catch(() => undefined);
+    return recording;
+  }
+
+  private onFrame(
+    recording: Recording,
+    event: Protocol.Page.ScreencastFrameEvent,
+  ): void {
+    // Chrome sends the next frame only once this one is acknowledged
+    recording.session
+      .send('Page.screencastFrameAck', { sessionId: event.sessionId })
+      .catch(() => undefined);
+    recording.received++;
+
+    // Repaints that change nothing add nothing to the filmstrip
+    if (recording.frames.at(-1)?.data === event.data) return;
+    if (recording.frames.length >= FILMSTRIP_CONFIG.MAX_RECORDED_FRAMES) {
+      recording.truncated = true;
+      return;
+    }
+
+    recording.frames.push({
+      data: event.data,
+      timestamp: event.metadata.timestamp
+        ? event.metadata.timestamp * 1000
+        : Date.now(),
+    });
+    recording.lastFrameAt = Date.now();
+  }
+
+  /**
+   * Record the page load as a filmstrip and upload its frames
+   *
+   * Uses the screencast started by startFilmstrip, or starts one now if the
+   * page has already navigated. Stops after maxDuration from navigation
+   * start, or earlier once the page has loaded and stopped painting.
+   */
   async *captureScreenshots(
     page: Page,
     options: ScreenshotOptions,
@@ -29,16 +135,10 @@ export class ScreenshotsService {
     const {
       deviceType,
       testId,
-      interval = 500, // Faster screenshots
-      maxDuration = 10000, // Shorter duration
-      maxFrames = 15, // Fewer frames
-      format = 'jpeg',
+      maxDuration = FILMSTRIP_CONFIG.MAX_DURATION_MS,
+      maxFrames = FILMSTRIP_CONFIG.MAX_FRAMES,
     } = options;
 
-    let frameCount = 0;
-    const startTime = Date.now();
-    const screenshotUrls: string[] = [];
-
     try {
       yield {
         status: 'SCREENSHOT_START',
@@ -46,88 +146,317 @@ export class ScreenshotsService {
         message: `Starting ${deviceType} screenshot capture`,
       };
 
-      // Start immediately - capture from the very beginning like WebPageTest.org
-      // This captures blank screens, loading states, and full page progression
+      if (!this.recordings.has(page)) {
+        await this.startFilmstrip(page);
+      }
+      const recording = this.recordings.get(page)!;
 
-      while (frameCount < maxFrames) {
-        const elapsed = Date.now() - startTime;
+      // Frames are timed from the navigation's time origin, on the same clock
+      const navigationStart = await page
+        .evaluate(() => performance.timeOrigin)
+        .catch(() => Date.now());
 
-        if (elapsed >= maxDuration || page.isClosed()) {
+      while (!page.isClosed()) {
+        const now = Date.now();
+        if (now - navigationStart >= maxDuration) break;
+        if (
+          recording.loadedAt !== null &&
+          now - Math.max(recording.loadedAt, recording.lastFrameAt) >=
+            FILMSTRIP_CONFIG.IDLE_AFTER_LOAD_MS
+        ) {
           break;
         }
+        await new Promise((resolve) =>
+          setTimeout(resolve, FILMSTRIP_CONFIG.POLL_INTERVAL_MS),
+        );
+      }
 
-        const secondsElapsed = Math.floor(elapsed / 1000);
+      const duration = Math.round(Date.now() - navigationStart);
+      await this.stopFilmstrip(page);
+
+      const analysis = this.analyseFrames(recording.frames, navigationStart);
+      const selected = this.selectFrames(analysis, maxFrames);
+
+      const frames: FilmstripFrame[] = [];
+      for (const index of selected) {
+        const { frame, timestamp, progress } = analysis.frames[index];
+        const frameNumber = frames.length + 1;
 
         try {
-          // Capture screenshot as buffer (in-memory, no disk I/O)
-          const screenshotBuffer = await page.screenshot({
-            type: format === 'jpeg' ? 'jpeg' : 'png',
-            quality: format === 'jpeg' ? 75 : undefined, // Reduced from 90 for speed
-            fullPage: false, // Always capture viewport only
-            omitBackground: true, // Faster processing
-            encoding: 'binary', // Return Buffer instead of base64
-          });
-
-          // Verify buffer size - accept ALL screenshots including blank ones (like WebPageTest.org)
-          if (screenshotBuffer && screenshotBuffer.length > 500) {
-            // Upload to S3
-            const s3Url = await this.s3Storage.uploadScreenshot(
-              screenshotBuffer as Buffer,
-              {
-                testId,
-                deviceType,
-                frameNumber: frameCount + 1,
-                format,
-              },
-            );
-
-            screenshotUrls.push(s3Url);
-            frameCount++;
-
-            this.logger.log(
-              `Screenshot ${frameCount} at ${secondsElapsed}s uploaded to S3: ${screenshotBuffer.length} bytes`,
-            );
-
-            // Yield progress update with S3 URL
-            yield {
-              status: 'SCREENSHOT_CAPTURED',
-              frameNumber: frameCount,
-              url: s3Url,
-              deviceType,
-              timestamp: secondsElapsed,
-            };
-          } else {
-            this.logger.warn(
-              `Screenshot ${frameCount + 1} at ${secondsElapsed}s was too small (${screenshotBuffer?.length || 0} bytes)`,
-            );
-          }
+          const url = await this.s3Storage.uploadScreenshot(
+            Buffer.from(frame.data, 'base64'),
+            { testId, deviceType, frameNumber, format: 'png' },
+          );
+          frames.push({ url, timestamp, visualProgress: progress });
+
+          yield {
+            status: 'SCREENSHOT_CAPTURED',
+            frameNumber,
+            url,
+            deviceType,
+            timestamp, // ms after navigation start
+            visualProgress: progress,
+          };
         } catch (error) {
           this.logger.error(
-            `Screenshot ${frameCount + 1} failed:`,
+            `Filmstrip frame ${frameNumber} at ${timestamp}ms failed:`,
             error.message,
           );
           yield {
             status: 'SCREENSHOT_ERROR',
             error: error.message,
-            frameNumber: frameCount + 1,
+            frameNumber,
           };
         }
-
-        await new Promise((resolve) => setTimeout(resolve, interval));
       }
 
+      const filmstrip: Filmstrip = {
+        frames,
+        visualProgress: analysis.frames
+          .filter((entry) => entry.progress !== null)
+          .map(({ timestamp, progress }) => ({
+            timestamp,
+            progress: progress!,
+          })),
+        milestones: analysis.milestones,
+        speedIndex: analysis.speedIndex,
+        duration,
+        framesReceived: recording.received,
+        distinctFrames: analysis.frames.length,
+        truncated: recording.truncated,
+      };
+      const screenshots = frames.map((frame) => frame.url);
+
+      this.logger.log(
+        `Filmstrip of ${analysis.frames.length} distinct frames (${recording.received} received); uploaded ${frames.length}`,
+      );
+
       yield {
         status: 'SCREENSHOT_COMPLETE',
-        frameCount,
+        frameCount: frames.length,
         deviceType,
-        screenshots: screenshotUrls, // Include S3 URLs in completion event
-        message: `Screenshot capture complete - ${frameCount} screenshots uploaded to S3`,
+        screenshots, // Include S3 URLs in completion event
+        filmstrip,
+        message: `Screenshot capture complete - ${frames.length} screenshots uploaded to S3`,
       };
 
-      return { screenshots: screenshotUrls, frameCount, deviceType };
+      return { screenshots, frameCount: frames.length, deviceType };
     } catch (error) {
       this.logger.error('Screenshot service error:', error);
       throw error;
+    } finally {
+      await this.stopFilmstrip(page);
+    }
+  }
+
+  /**
+   * Time every distinct frame from navigation start and work out how
+   * visually complete it is
+   *
+   * The last frame painted before navigation start is the blank starting
+   * point; progress compares each frame's colour histogram with the start
+   * and the final frame, as WebPageTest does.
+   */
+  private analyseFrames(
+    recorded: ScreencastFrame[],
+    navigationStart: number,
+  ): {
+    frames: {
+      frame: ScreencastFrame;
+      timestamp: number;
+      progress: number | null;
+    }[];
+    speedIndex: number | null;
+    milestones: VisualMilestones;
+  } {
+    const firstAfterStart = recorded.findIndex(
+      (frame) => frame.timestamp > navigationStart,
+    );
+    // Without a frame from before navigation the first frame is a change too
+    const blankStart = firstAfterStart !== 0;
+    const startIndex =
+      firstAfterStart === -1
+        ? Math.max(recorded.length - 1, 0)
+        : Math.max(firstAfterStart - 1, 0);
+    const kept = recorded.slice(startIndex);
+    const firstChange = blankStart ? 1 : 0;
+
+    const histograms = kept.map((frame) => this.histogram(frame.data));
+    const first = histograms[0];
+    const last = histograms.at(-1);
+    const total = first && last ? this.histogramDistance(first, last) : 0;
+
+    const frames = kept.map((frame, index) => {
+      const histogram = histograms[index];
+      let progress: number | null = null;
+      if (histogram && last) {
+        progress =
+          total === 0
+            ? 100
+            : Math.round(
+                Math.max(
+                  0,
+                  1 - this.histogramDistance(histogram, last) / total,
+                ) * 100,
+              );
+      }
+      return {
+        frame,
+        timestamp: Math.max(0, Math.round(frame.timestamp - navigationStart)),
+        progress,
+      };
+    });
+
+    const reached = (threshold: number) =>
+      frames.find(
+        (entry, index) =>
+          index >= firstChange &&
+          entry.progress !== null &&
+          entry.progress >= threshold,
+      )?.timestamp ?? null;
+    const [complete85, complete95, complete99] =
+      FILMSTRIP_CONFIG.VISUALLY_COMPLETE_THRESHOLDS.map(reached);
+    const changed = frames.length > firstChange;
+
+    return {
+      frames,
+      speedIndex: this.speedIndex(frames, blankStart),
+      milestones: {
+        firstVisualChange: changed ? frames[firstChange].timestamp : null,
+        visuallyComplete85: complete85,
+        visuallyComplete95: complete95,
+        visuallyComplete99: complete99,
+        lastVisualChange: changed ? frames.at(-1)!.timestamp : null,
+      },
+    };
+  }
+
+  /**
+   * Speed Index: the area above the visual progress curve, i.e. the sum of
+   * each frame's incompleteness times how long it stayed on screen
+   *
+   * @param blankStart - False if no frame shows the page before its first
+   * paint; it is then taken as blank from navigation start
+   */
+  private speedIndex(
+    frames: { timestamp: number; progress: number | null }[],
+    blankStart: boolean,
+  ): number | null {
+    if (!frames.some((entry) => entry.progress !== null)) return null;
+
+    let speedIndex = 0;
+    let previous = blankStart
+      ? { timestamp: frames[0].timestamp, progress: frames[0].progress ?? 0 }
+      : { timestamp: 0, progress: 0 };
+    for (const entry of frames) {
+      speedIndex +=
+        (1 - previous.progress / 100) * (entry.timestamp - previous.timestamp);
+      // A frame that couldn't be decoded keeps the previous progress
+      previous = {
+        timestamp: entry.timestamp,
+        progress: entry.progress ?? previous.progress,
+      };
+    }
+    return Math.round(speedIndex);
+  }
+
+  /**
+   * Pick the frames to upload: the first, the last and every milestone,
+   * then evenly spaced frames in between up to maxFrames
+   */
+  private selectFrames(
+    analysis: ReturnType<ScreenshotsService['analyseFrames']>,
+    maxFrames: number,
+  ): number[] {
+    const count = analysis.frames.length;
+    if (count <= maxFrames) return analysis.frames.map((_, index) => index);
+
+    const selected = new Set<number>([0, count - 1]);
+    for (const timestamp of Object.values(analysis.milestones)) {
+      if (timestamp === null) continue;
+      const index = analysis.frames.findIndex(
+        (entry, i) => i > 0 && entry.timestamp === timestamp,
+      );
+      if (index > 0) selected.add(index);
     }
+    for (let step = 1; selected.size < maxFrames && step < maxFrames; step++) {
+      selected.add(Math.round((step * (count - 1)) / (maxFrames - 1)));
+    }
+
+    return [...selected].sort((a, b) => a - b).slice(0, maxFrames);
+  }
+
+  /**
+   * Red, green and blue histograms of a frame; null if it can't be decoded
+   */
+  private histogram(data: string): Uint32Array | null {
+    try {
+      const image = decodePng(Buffer.from(data, 'base64'));
+      const histogram = new Uint32Array(256 * 3);
+      for (let i = 0; i < image.data.length; i += 4) {
+        histogram[image.data[i]]++;
+        histogram[256 + image.data[i + 1]]++;
+        histogram[512 + image.data[i + 2]]++;
+      }
+      return histogram;
+    } catch (error) {
+      this.logger.warn(`Could not decode filmstrip frame: ${error.message}`);
+      return null;
+    }
+  }
+
+  private histogramDistance(a: Uint32Array, b: Uint32Array): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+      distance += Math.abs(a[i] - b[i]);
+    }
+    return distance;
+  }
+
+  /**
+   * Capture the settled page top to bottom as a PNG for visual comparison
+   *
+   * Taken at one image pixel per CSS pixel whatever the device scale factor,
+   * so baselines and ignore regions share the page's coordinates.
+   */
+  async captureFullPage(
+    page: Page,
+    options: { testId: string; deviceType: DeviceType },
+  ): Promise<FullPageScreenshot> {
+    const { width, height, devicePixelRatio } = await page.evaluate(() => ({
+      width: document.documentElement.clientWidth,
+      height: Math.max(
+        document.documentElement.scrollHeight,
+        document.body?.scrollHeight ?? 0,
+      ),
+      devicePixelRatio: window.devicePixelRatio || 1,
+    }));
+    const clipHeight = Math.min(height, VISUAL_REGRESSION_CONFIG.MAX_HEIGHT);
+
+    const screenshot = await page.screenshot({
+      type: 'png',
+      clip: {
+        x: 0,
+        y: 0,
+        width,
+        height: clipHeight,
+        scale: 1 / devicePixelRatio,
+      },
+      captureBeyondViewport: true,
+      encoding: 'binary',
+    });
+
+    const url = await this.s3Storage.uploadScreenshot(Buffer.from(screenshot), {
+      testId: `${options.testId}-fullpage`,
+      deviceType: options.deviceType,
+      frameNumber: 1,
+      format: 'png',
+    });
+
+    this.logger.log(
+      `Full-page screenshot (${width}x${clipHeight}) uploaded to S3: ${screenshot.length} bytes`,
+    );
+
+    return { url, width, height: clipHeight, truncated: height > clipHeight };
   }
 }
@@ -1,9 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { Page } from 'puppeteer';
 
 import {
+  BlockingExperimentResult,
   CookieHandlingResult,
+  FullPageScreenshot,
+  HarArtifact,
+  NetworkWaterfall,
   ScreenshotResult,
   TestResults,
 } from '../interfaces/cache.interface';
@@ -12,13 +16,28 @@ import { BrowserPoolService } from './browser-pool.service';
 import { WebMetricsService } from './web-metrics.service';
 import { LighthouseService } from './lighthouse.service';
 import { SeoMetricsService } from './seo-metrics.service';
+import { AccessibilityService } from './accessibility.service';
 import { ScreenshotsService } from './screenshots.service';
 import { CookiesService } from './cookies.service';
 import { DeviceConfigService } from './device-config.service';
 import { ConsoleErrorsService } from './console-errors.service';
 import { PuppeteerHelpersService } from './puppeteer-helpers.service';
 import { PersistenceService } from './persistence.service';
-import { CreateCaptureData } from '~/dto/create-capture-data';
+import { NetworkThrottlingService } from './network-throttling.service';
+import { RunAggregationService } from './run-aggregation.service';
+import { RepeatViewService } from './repeat-view.service';
+import { BudgetService } from './budget.service';
+import { NetworkRecorderService } from './network-recorder.service';
+import { HarService } from './har.service';
+import { ThirdPartyService } from './third-party.service';
+import { CredentialsService } from './credentials.service';
+import { JourneyService } from './journey.service';
+import { ScreenshotMatrixService } from './screenshot-matrix.service';
+import { MULTI_RUN_CONFIG } from '../config/capture.config';
+import { THIRD_PARTY_CONFIG } from '../config/third-party.config';
+import { CaptureAuth, CreateCaptureData } from '~/dto/create-capture-data';
+import { AppError } from '~/common/app-error.common';
+import { raceAbort } from '~/common/abort.common';
 
 /**
  * Single Capture Service
@@ -26,8 +45,19 @@ import { CreateCaptureData } from '~/dto/create-capture-data';
  * Handles single URL capture operations with:
  * - Page acquisition and configuration
  * - Service coordination (metrics, screenshots, cookies, console errors)
+ * - CDP network waterfall recorded from navigation start
+ * - Optional HAR export of the waterfall, stored with the screenshots
+ * - Third-party cost report and URL blocking experiments
+ * - Authenticated captures with extra headers, cookies and basic auth
+ * - Network throttling via named profiles (CDP emulation + Lighthouse)
  * - Lighthouse integration for accurate performance scoring
+ * - Repeated runs aggregated into median/min/max/stddev per metric
+ * - Optional cold first view / warm repeat view of each run
+ * - Performance budget assertions that fail the capture when exceeded
  * - SEO-specific analysis for SEO test types
+ * - WCAG accessibility audit for accessibility test types
+ * - Scripted multi-step journeys for journey test types
+ * - Screenshot matrices at many viewports for matrix test types
  * - Observable/SSE streaming for real-time progress
  * - Resource cleanup and error handling
  * - Temporary cache storage
@@ -43,12 +73,23 @@ export class SingleCaptureService {
     private readonly webMetricsService: WebMetricsService,
     private readonly lighthouseService: LighthouseService,
     private readonly seoMetricsService: SeoMetricsService,
+    private readonly accessibilityService: AccessibilityService,
     private readonly screenshotsService: ScreenshotsService,
     private readonly cookiesService: CookiesService,
     private readonly deviceConfigService: DeviceConfigService,
     private readonly consoleErrorsService: ConsoleErrorsService,
     private readonly puppeteerHelpers: PuppeteerHelpersService,
     private readonly persistenceService: PersistenceService,
+    private readonly networkThrottlingService: NetworkThrottlingService,
+    private readonly runAggregationService: RunAggregationService,
+    private readonly repeatViewService: RepeatViewService,
+    private readonly budgetService: BudgetService,
+    private readonly networkRecorderService: NetworkRecorderService,
+    private readonly harService: HarService,
+    private readonly thirdPartyService: ThirdPartyService,
+    private readonly credentialsService: CredentialsService,
+    private readonly journeyService: JourneyService,
+    private readonly screenshotMatrixService: ScreenshotMatrixService,
   ) {
     this.logger.log('SingleCaptureService initialized');
   }
@@ -73,6 +114,39 @@ export class SingleCaptureService {
     });
   }
 
+  /**
+   * Copy of a capture event that is safe to send to a client. The COMPLETE
+   * event carries the results as stored, including the storage key of a
+   * HAR archive and every request of the waterfall; clients only get their
+   * summaries and load the waterfall with the saved test.
+   *
+   * @param event - Event emitted by executeCapture
+   */
+  toClientEvent<T extends { data?: any }>(event: T): T {
+    const results = event?.data?.results as TestResults | undefined;
+    if (!results?.har && !results?.networkWaterfall) return event;
+
+    return {
+      ...event,
+      data: {
+        ...event.data,
+        results: {
+          ...results,
+          ...(results.har
+            ? { har: this.harService.summarize(results.har) }
+            : {}),
+          ...(results.networkWaterfall
+            ? {
+                networkWaterfall: this.networkRecorderService.summarize(
+                  results.networkWaterfall,
+                ),
+              }
+            : {}),
+        },
+      },
+    };
+  }
+
   /**
    * Internal capture execution logic
    *
@@ -96,6 +170,317 @@ export class SingleCaptureService {
       includeScreenshots = true,
       testId,
     } = captureData;
+    const runCount = this.getRunCount(captureData.runs);
+    const startedAt = Date.now();
+
+    // Every run (and the stored config) uses the same parsed journey
+    if (testType === 'journey') {
+      captureData = {
+        ...captureData,
+        steps: this.journeyService.buildSteps(url, captureData.steps),
+      };
+    }
+    if (testType === 'matrix') {
+      captureData = {
+        ...captureData,
+        viewports: this.screenshotMatrixService.buildViewports(
+          captureData.viewports,
+        ),
+      };
+    }
+
+    try {
+      // Send starting status
+      subscriber.next({
+        data: { status: 'STARTING', url, deviceType, testType, runs: runCount },
+      });
+
+      const results =
+        testType === 'matrix'
+          ? await this.captureMatrix(subscriber, captureData, abortSignal)
+          : runCount > 1
+            ? await this.captureRuns(
+                subscriber,
+                captureData,
+                runCount,
+                abortSignal,
+                pageTracker,
+              )
+            : await this.captureRun(
+                subscriber,
+                captureData,
+                abortSignal,
+                pageTracker,
+              );
+
+      const authSummary = this.credentialsService.summarize(captureData.auth);
+      if (authSummary) results.auth = authSummary;
+
+      // A capture over budget is a failed test, even though it loaded fine
+      const budget = this.budgetService.evaluate(
+        captureData.budget,
+        results.webMetrics,
+        results.networkWaterfall,
+      );
+      if (budget) {
+        results.budget = budget;
+        if (!budget.passed) results.status = 'failed';
+        subscriber.next({ data: { status: 'BUDGET_EVALUATED', budget } });
+      }
+
+      // Load the page again without the blocked requests and compare
+      const blockPatterns = this.getBlockPatterns(captureData.blockUrls);
+      if (blockPatterns.length > 0 && results.webMetrics) {
+        results.blockingExperiment = await this.runBlockingExperiment(
+          subscriber,
+          captureData,
+          runCount,
+          blockPatterns,
+          results,
+          abortSignal,
+          pageTracker,
+        );
+      }
+
+      // Store results temporarily for later saving
+      if (testId) {
+        try {
+          this.logger.debug('Storing temp result to cache...');
+
+          // Add timeout protection for cache operations
+          await Promise.race([
+            this.persistenceService.cacheTestResult(testId, captureData, results),
+            new Promise((_, reject) =>
+              setTimeout(() => {
+                reject(new Error('Cache storage timeout after 3 seconds'));
+              }, 3000),
+            ),
+          ]);
+
+          this.logger.debug('Temp result stored successfully');
+        } catch (cacheError: unknown) {
+          const errorMessage =
+            cacheError instanceof Error
+              ? cacheError.message
+              : String(cacheError);
+          this.logger.warn('Cache storage failed (non-fatal):', errorMessage);
+          // Continue processing - cache failures shouldn't break the request
+        }
+      }
+
+      // Send final complete response with testId
+      const completionTime = Date.now();
+      const totalProcessingTime = completionTime - startedAt;
+
+      this.logger.log(
+        'Final results before sending:',
+        JSON.stringify({
+          testId: testId || 'none',
+          webMetrics: results.webMetrics ? 'PRESENT' : 'NULL',
+          cookieHandling: results.cookieHandling ? 'PRESENT' : 'NULL',
+          screenshots: results.screenshots ? 'PRESENT' : 'NULL',
+          consoleErrors: results.consoleErrors ? 'PRESENT' : 'NULL',
+          accessibility: results.accessibility ? 'PRESENT' : 'NULL',
+          totalProcessingTime: `${totalProcessingTime}ms`,
+          isProduction: process.env.NODE_ENV === 'production',
+        }),
+      );
+
+      try {
+        this.logger.debug('Sending COMPLETE status to subscriber...');
+
+        subscriber.next({
+          data: {
+            status: 'COMPLETE',
+            testId: testId || undefined,
+            testStatus: results.status,
+            results: results,
+            summary: {
+              totalDuration: Date.now() - startedAt,
+              runs: results.runSummary,
+              budget: results.budget,
+              servicesRun: [
+                'cookies',
+                ...(testType === 'performance' ? ['webMetrics'] : []),
+                ...(testType === 'accessibility' ? ['accessibility'] : []),
+                ...(testType === 'journey' ? ['journey'] : []),
+                ...(results.screenshotMatrix ? ['screenshotMatrix'] : []),
+                ...(includeScreenshots ? ['screenshots'] : []),
+                ...(results.fullPageScreenshot ? ['fullPageScreenshot'] : []),
+                ...(results.repeatView ? ['repeatView'] : []),
+                ...(results.har ? ['har'] : []),
+                ...(results.thirdParty ? ['thirdParty'] : []),
+                ...(results.blockingExperiment ? ['blockingExperiment'] : []),
+              ],
+            },
+          },
+        });
+
+        this.logger.debug('COMPLETE status sent, completing subscriber...');
+        subscriber.complete();
+        this.logger.debug('Subscriber completed successfully');
+      } catch (completionError: unknown) {
+        const errorMessage =
+          completionError instanceof Error
+            ? completionError.message
+            : String(completionError);
+        this.logger.error('Error during completion phase:', errorMessage);
+
+        try {
+          subscriber.error(completionError);
+        } catch (errorNotifyError) {
+          this.logger.error(
+            'Could not notify subscriber of completion error:',
+            errorNotifyError,
+          );
+        }
+      }
+    } catch (error: unknown) {
+      // The orchestrator has already told listeners about the cancellation
+      if (abortSignal?.aborted) {
+        this.logger.log(`Capture for ${url} cancelled, releasing resources`);
+        subscriber.complete();
+        return;
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error('Error during capture execution:', errorMessage);
+
+      subscriber.next({ data: { status: 'ERROR', error: errorMessage } });
+      subscriber.complete();
+    }
+  }
+
+  /**
+   * Run independent page loads one after another and report the median run
+   *
+   * Failed runs are skipped; the capture only fails if every run fails.
+   *
+   * @param subscriber - Observable subscriber for streaming updates
+   * @param captureData - Capture configuration
+   * @param runCount - Number of page loads to execute
+   * @param abortSignal - Optional abort signal
+   * @param pageTracker - Optional callback to track page reference
+   * @param blockUrls - URL patterns to block in every run
+   * @returns The median run with every run and per-metric statistics attached
+   */
+  private async captureRuns(
+    subscriber: any,
+    captureData: CreateCaptureData,
+    runCount: number,
+    abortSignal?: AbortSignal,
+    pageTracker?: (page: Page | null) => void,
+    blockUrls: string[] = [],
+  ): Promise<TestResults> {
+    const completedRuns: TestResults[] = [];
+    let lastError: unknown;
+
+    for (let run = 1; run <= runCount; run++) {
+      subscriber.next({
+        data: { status: 'RUN_STARTED', run, totalRuns: runCount },
+      });
+
+      try {
+        const runResults = await this.captureRun(
+          subscriber,
+          captureData,
+          abortSignal,
+          pageTracker,
+          run,
+          blockUrls,
+        );
+        completedRuns.push(runResults);
+
+        subscriber.next({
+          data: {
+            status: 'RUN_COMPLETE',
+            run,
+            totalRuns: runCount,
+            performanceScore: runResults.webMetrics?.performanceScore,
+          },
+        });
+      } catch (error: unknown) {
+        if (abortSignal?.aborted) throw error;
+
+        lastError = error;
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Run ${run}/${runCount} failed: ${errorMessage}`);
+        subscriber.next({
+          data: {
+            status: 'RUN_FAILED',
+            run,
+            totalRuns: runCount,
+            error: errorMessage,
+          },
+        });
+      }
+    }
+
+    if (completedRuns.length === 0) {
+      throw lastError ?? new Error('All runs failed');
+    }
+
+    const results = this.runAggregationService.aggregate(
+      completedRuns,
+      runCount,
+    );
+
+    subscriber.next({
+      data: { status: 'RUNS_AGGREGATED', runSummary: results.runSummary },
+    });
+
+    // Only the reported run keeps its waterfall; a copy per run would
+    // multiply the size of the stored result
+    return {
+      ...results,
+      runs: results.runs?.map(({ networkWaterfall: _waterfall, ...run }) => run),
+      testId: captureData.testId,
+    };
+  }
+
+  /**
+   * Execute a single page load on a pooled page and collect its results
+   *
+   * @param subscriber - Observable subscriber for streaming updates
+   * @param captureData - Capture configuration
+   * @param abortSignal - Optional abort signal
+   * @param pageTracker - Optional callback to track page reference
+   * @param run - 1-based run index when this load is part of a multi-run capture
+   * @param blockUrls - URL patterns whose requests are aborted
+   * @returns Results of this page load
+   */
+  private async captureRun(
+    subscriber: any,
+    captureData: CreateCaptureData,
+    abortSignal?: AbortSignal,
+    pageTracker?: (page: Page | null) => void,
+    run?: number,
+    blockUrls: string[] = [],
+  ): Promise<TestResults> {
+    const {
+      url,
+      deviceType = 'desktop',
+      testType = 'performance',
+      includeScreenshots = true,
+      networkType,
+      testId,
+    } = captureData;
+    // Query-string captures pass booleans through as strings
+    const repeatView = String(captureData.repeatView) === 'true';
+    const recordHar = String(captureData.har) === 'true';
+    const redactHeaders = String(captureData.redactHeaders) !== 'false';
+    const thirdPartyReport = String(captureData.thirdPartyReport) === 'true';
+    // Matrix tests load the page once per viewport in captureMatrix
+    if (testType === 'matrix') {
+      throw new AppError(
+        'Matrix tests are not captured as single runs',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    // Screenshots and console errors of repeated runs are stored per run
+    const artifactId = run && testId ? `${testId}-run-${run}` : testId;
     let page: Page | null = null;
     let routeHandler: any = null;
 
@@ -111,34 +496,54 @@ export class SingleCaptureService {
       webMetrics: null,
       screenshots: null,
       consoleErrors: null,
+      accessibility: null,
+      ...(run ? { run } : {}),
     };
 
     try {
-      // Send starting status
-      subscriber.next({
-        data: { status: 'STARTING', url, deviceType, testType },
-      });
-
       // Acquire page from pool
       page = await this.browserPool.requirePage();
       if (pageTracker) pageTracker(page); // Track page for cleanup
+
+      // Cancelled while waiting for a page: the finally block releases it
+      if (abortSignal?.aborted) {
+        throw new AppError('Request cancelled', HttpStatus.BAD_REQUEST);
+      }
       subscriber.next({ data: { status: 'PAGE_ACQUIRED' } });
 
       // Configure page for specific device
       await this.deviceConfigService.configurePageForDevice(page, deviceType);
       subscriber.next({ data: { status: 'DEVICE_CONFIGURED', deviceType } });
 
+      // Apply network throttling profile (recorded on results for comparability)
+      results.networkProfile = await this.networkThrottlingService.applyToPage(
+        page,
+        networkType,
+      );
+      subscriber.next({
+        data: {
+          status: 'NETWORK_CONFIGURED',
+          networkType: results.networkProfile.name,
+          profile: results.networkProfile,
+        },
+      });
+
       // Block heavy resources on low-memory servers to speed up loading
       const isLowResource =
         process.env.RENDER || process.env.NODE_ENV === 'production';
+      const isBlocked = this.thirdPartyService.createBlockMatcher(blockUrls);
 
-      if (isLowResource) {
+      if (isLowResource || blockUrls.length > 0) {
         routeHandler = (route: any, request: any) => {
           const resourceType = request.resourceType();
           const resourceUrl = request.url();
 
-          // Block heavy resources that slow down performance testing
-          if (
+          // Requests blocked by a blocking experiment
+          if (isBlocked(resourceUrl)) {
+            route.abort();
+          } else if (!isLowResource) {
+            route.continue();
+          } else if (
             resourceType === 'image' &&
             (resourceUrl.includes('.jpg') ||
               resourceUrl.includes('.png') ||
@@ -157,23 +562,64 @@ export class SingleCaptureService {
         );
       }
 
-      // Navigate with enhanced cancellation support
-      this.logger.log(`Navigating to URL: ${url}`);
+      // The first view must load cold for the repeat view to mean anything
+      if (repeatView) {
+        await this.repeatViewService.prepareFirstView(page, url);
+      }
+
+      // After the cold-cache reset, which would clear seeded cookies
+      await this.credentialsService.applyToPage(page, captureData.auth, url);
 
-      // Create cancellation-aware navigation with shorter timeout for low-memory environments
-      const navigationPromise = page.goto(url, {
-        waitUntil: 'domcontentloaded',
-        timeout: 20000, // Reduced timeout for memory-constrained servers
+      // Record from before navigation so the document request is included
+      await this.networkRecorderService.start(page, {
+        redactHeaders,
+        secretHeaders: this.credentialsService.getSecretHeaderNames(
+          captureData.auth,
+        ),
       });
-      await Promise.race([navigationPromise]);
+      if (thirdPartyReport) {
+        await this.thirdPartyService.startProfiling(page);
+      }
+      // Filmstrip frames are timed from navigation start
+      if (includeScreenshots && testType !== 'journey') {
+        await this.screenshotsService.startFilmstrip(page);
+      }
 
-      subscriber.next({ data: { status: 'NAVIGATION_COMPLETE', url } });
+      // Journeys navigate as their first step
+      if (testType !== 'journey') {
+        // Navigate with enhanced cancellation support
+        this.logger.log(`Navigating to URL: ${url}`);
+
+        // Create cancellation-aware navigation with shorter timeout for low-memory environments
+        const navigationPromise = page.goto(url, {
+          waitUntil: 'domcontentloaded',
+          timeout: 20000, // Reduced timeout for memory-constrained servers
+        });
+        await raceAbort(navigationPromise, abortSignal);
+
+        subscriber.next({ data: { status: 'NAVIGATION_COMPLETE', url } });
+      }
 
       // Now start services based on test type
       const servicePromises: Promise<void>[] = [];
 
-      // For performance tests, use Lighthouse for accurate scoring
-      if (testType === 'performance') {
+      if (testType === 'journey') {
+        // Every step streams its own timing, screenshot and vitals
+        servicePromises.push(
+          this.runService(
+            'JOURNEY',
+            this.journeyService.runJourney(page, captureData.steps ?? [], {
+              testId: artifactId || `test-${Date.now()}`,
+              deviceType,
+              includeScreenshots: String(includeScreenshots) !== 'false',
+              abortSignal,
+            }),
+            subscriber,
+            results,
+          ),
+        );
+      } else if (testType === 'performance') {
+        // For performance tests, use Lighthouse for accurate scoring
         // Start web metrics collection
         servicePromises.push(
           this.runService(
@@ -186,7 +632,14 @@ export class SingleCaptureService {
 
         // Run Lighthouse audit for accurate scores
         servicePromises.push(
-          this.runLighthouseAudit(url, page, subscriber, results),
+          this.runLighthouseAudit(
+            url,
+            page,
+            subscriber,
+            results,
+            abortSignal,
+            captureData.auth,
+          ),
         );
 
         // Run cookie detection in non-intrusive mode during performance testing
@@ -223,8 +676,50 @@ export class SingleCaptureService {
             results,
           ),
         );
+      } else if (testType === 'accessibility') {
+        // Dedicated in-page accessibility audit (WCAG-tagged violations)
+        servicePromises.push(
+          this.runService(
+            'ACCESSIBILITY',
+            this.accessibilityService.runAccessibilityAudit(page, url),
+            subscriber,
+            results,
+          ),
+        );
+
+        // Basic web metrics
+        servicePromises.push(
+          this.runService(
+            'METRICS',
+            this.webMetricsService.captureWebMetrics(page, testType),
+            subscriber,
+            results,
+          ),
+        );
+
+        // Lighthouse accessibility category score for comparison
+        servicePromises.push(
+          this.runLighthouseAudit(
+            url,
+            page,
+            subscriber,
+            results,
+            abortSignal,
+            captureData.auth,
+          ),
+        );
+
+        // Detect (don't dismiss) cookie banners so they're audited as-is
+        servicePromises.push(
+          this.runService(
+            'COOKIES',
+            this.cookiesService.detectCookieConsent(page, url),
+            subscriber,
+            results,
+          ),
+        );
       } else {
-        // For other tests (accessibility, best-practices), standard metrics
+        // For other tests (screenshot, cookie, best-practices), standard metrics
         servicePromises.push(
           this.runService(
             'METRICS',
@@ -236,7 +731,14 @@ export class SingleCaptureService {
 
         // Run Lighthouse for accurate scores
         servicePromises.push(
-          this.runLighthouseAudit(url, page, subscriber, results),
+          this.runLighthouseAudit(
+            url,
+            page,
+            subscriber,
+            results,
+            abortSignal,
+            captureData.auth,
+          ),
         );
 
         // Cookie handling
@@ -256,22 +758,21 @@ export class SingleCaptureService {
           'CONSOLE_ERRORS',
           this.consoleErrorsService.processConsoleErrorsWithProgress(
             page,
-            testId || '',
+            artifactId || '',
           ),
           subscriber,
           results,
         ),
       );
 
-      // Screenshots (safe to run after navigation)
-      if (includeScreenshots) {
+      // Screenshots (safe to run after navigation); journeys take their own
+      if (includeScreenshots && testType !== 'journey') {
         servicePromises.push(
           this.runService(
             'SCREENSHOTS',
             this.screenshotsService.captureScreenshots(page, {
-              testId: testId || `test-${Date.now()}`, // Use testId or generate fallback
+              testId: artifactId || `test-${Date.now()}`, // Use testId or generate fallback
               deviceType,
-              interval: 300,
               maxDuration: 6000,
               maxFrames: 10,
             }),
@@ -282,10 +783,89 @@ export class SingleCaptureService {
       }
 
       // Wait for all services to complete in parallel
-      await Promise.allSettled(servicePromises);
+      await raceAbort(Promise.allSettled(servicePromises), abortSignal);
+
+      // Speed Index from our own filmstrip; Lighthouse's often fails headless
+      const speedIndex = results.screenshots?.filmstrip?.speedIndex;
+      if (
+        typeof speedIndex === 'number' &&
+        results.webMetrics?.performanceMetrics
+      ) {
+        results.webMetrics.performanceMetrics.speedIndex = speedIndex;
+      }
+
+      // The waterfall covers the first view only
+      const networkWaterfall = await this.networkRecorderService.stop(page);
+      const scriptTime = await this.thirdPartyService.stopProfiling(page);
+      if (networkWaterfall) {
+        results.networkWaterfall =
+          this.networkRecorderService.withoutHeaders(networkWaterfall);
+        subscriber.next({
+          data: {
+            status: 'NETWORK_WATERFALL_COMPLETE',
+            summary: networkWaterfall.summary,
+          },
+        });
+
+        if (recordHar) {
+          results.har = await this.saveHar(
+            subscriber,
+            page,
+            networkWaterfall,
+            artifactId || `test-${Date.now()}`,
+          );
+        }
+
+        if (thirdPartyReport) {
+          results.thirdParty = this.thirdPartyService.buildReport(
+            url,
+            networkWaterfall,
+            scriptTime,
+          );
+          subscriber.next({
+            data: {
+              status: 'THIRD_PARTY_COMPLETE',
+              firstParty: results.thirdParty.firstParty,
+              thirdParty: results.thirdParty.thirdParty,
+            },
+          });
+        }
+      }
+
+      // Compared with the URL's visual baseline once the test is saved
+      if (includeScreenshots && testType !== 'journey') {
+        results.fullPageScreenshot = await this.captureFullPage(
+          subscriber,
+          page,
+          artifactId || `test-${Date.now()}`,
+          deviceType,
+        );
+      }
 
-      // Mark test as completed since all services finished
-      results.status = 'completed';
+      // Reload with the cache the first view just warmed; a journey has no
+      // single first view to repeat
+      if (repeatView && testType !== 'journey' && results.webMetrics) {
+        await raceAbort(
+          this.runService(
+            'REPEAT_VIEW',
+            this.repeatViewService.captureRepeatView(
+              page,
+              testType,
+              results.webMetrics,
+            ),
+            subscriber,
+            results,
+          ),
+          abortSignal,
+        );
+      }
+
+      // Mark test as completed since all services finished; a journey
+      // that failed a step (or never finished) is a failed test
+      results.status =
+        testType === 'journey' && !results.journey?.passed
+          ? 'failed'
+          : 'completed';
 
       // Clean up route handler early to prevent hanging during page release
       if (page && routeHandler && !page.isClosed()) {
@@ -315,99 +895,7 @@ export class SingleCaptureService {
         }
       }
 
-      // Store results temporarily for later saving
-      if (testId) {
-        try {
-          this.logger.debug('Storing temp result to cache...');
-
-          // Add timeout protection for cache operations
-          await Promise.race([
-            this.persistenceService.cacheTestResult(testId, captureData, results),
-            new Promise((_, reject) =>
-              setTimeout(() => {
-                reject(new Error('Cache storage timeout after 3 seconds'));
-              }, 3000),
-            ),
-          ]);
-
-          this.logger.debug('Temp result stored successfully');
-        } catch (cacheError: unknown) {
-          const errorMessage =
-            cacheError instanceof Error
-              ? cacheError.message
-              : String(cacheError);
-          this.logger.warn('Cache storage failed (non-fatal):', errorMessage);
-          // Continue processing - cache failures shouldn't break the request
-        }
-      }
-
-      // Send final complete response with testId
-      const completionTime = Date.now();
-      const totalProcessingTime = completionTime - results.timestamp;
-
-      this.logger.log(
-        'Final results before sending:',
-        JSON.stringify({
-          testId: testId || 'none',
-          webMetrics: results.webMetrics ? 'PRESENT' : 'NULL',
-          cookieHandling: results.cookieHandling ? 'PRESENT' : 'NULL',
-          screenshots: results.screenshots ? 'PRESENT' : 'NULL',
-          consoleErrors: results.consoleErrors ? 'PRESENT' : 'NULL',
-          totalProcessingTime: `${totalProcessingTime}ms`,
-          routeHandlerUsed: !!routeHandler,
-          isProduction: process.env.NODE_ENV === 'production',
-        }),
-      );
-
-      try {
-        this.logger.debug('Sending COMPLETE status to subscriber...');
-
-        subscriber.next({
-          data: {
-            status: 'COMPLETE',
-            testId: testId || undefined,
-            testStatus: results.status,
-            results: results,
-            summary: {
-              totalDuration: Date.now() - results.timestamp,
-              servicesRun: [
-                'cookies',
-                ...(testType === 'performance' ? ['webMetrics'] : []),
-                ...(includeScreenshots ? ['screenshots'] : []),
-              ],
-            },
-          },
-        });
-
-        this.logger.debug('COMPLETE status sent, completing subscriber...');
-        subscriber.complete();
-        this.logger.debug('Subscriber completed successfully');
-      } catch (completionError: unknown) {
-        const errorMessage =
-          completionError instanceof Error
-            ? completionError.message
-            : String(completionError);
-        this.logger.error('Error during completion phase:', errorMessage);
-
-        try {
-          subscriber.error(completionError);
-        } catch (errorNotifyError) {
-          this.logger.error(
-            'Could not notify subscriber of completion error:',
-            errorNotifyError,
-          );
-        }
-      }
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      this.logger.error('Error during capture execution:', errorMessage);
-
-      // Mark test as failed
-      results.status = 'failed';
-
-      subscriber.next({ data: { status: 'ERROR', error: errorMessage } });
-      subscriber.complete();
+      return results;
     } finally {
       // Secondary route handler cleanup (if early cleanup failed or was skipped)
       if (page && routeHandler && !page.isClosed()) {
@@ -437,6 +925,14 @@ export class SingleCaptureService {
         }
       }
 
+      // Detach CDP sessions before the pool disposes of the page's context
+      if (page) {
+        await this.networkRecorderService.stop(page);
+        await this.thirdPartyService.stopProfiling(page);
+        await this.networkThrottlingService.resetPage(page);
+        await this.credentialsService.resetPage(page, captureData.auth);
+      }
+
       // Always release the page back to the pool
       if (page && this.browserPool.isPageTracked(page)) {
         try {
@@ -470,6 +966,233 @@ export class SingleCaptureService {
     }
   }
 
+  /**
+   * Render the URL at every viewport of a matrix test in parallel pool pages
+   *
+   * Matrix tests take screenshots only; the test fails if no viewport
+   * rendered.
+   *
+   * @param subscriber - Observable subscriber for streaming updates
+   * @param captureData - Capture configuration with built viewports
+   * @param abortSignal - Optional abort signal
+   */
+  private async captureMatrix(
+    subscriber: any,
+    captureData: CreateCaptureData,
+    abortSignal?: AbortSignal,
+  ): Promise<TestResults> {
+    const { url, deviceType = 'desktop', testId } = captureData;
+    const results: TestResults = {
+      url,
+      deviceType,
+      testType: 'matrix',
+      testId,
+      timestamp: Date.now(),
+      status: 'running',
+      cookieHandling: null,
+      webMetrics: null,
+      screenshots: null,
+      consoleErrors: null,
+    };
+
+    await this.runService(
+      'SCREENSHOT_MATRIX',
+      this.screenshotMatrixService.captureMatrix(
+        url,
+        captureData.viewports ?? [],
+        {
+          testId: testId || `test-${Date.now()}`,
+          auth: captureData.auth,
+          abortSignal,
+        },
+      ),
+      subscriber,
+      results,
+    );
+
+    if (abortSignal?.aborted) {
+      throw new AppError('Request cancelled', HttpStatus.BAD_REQUEST);
+    }
+
+    results.status = results.screenshotMatrix?.entries.some(
+      (entry) => entry.status === 'completed',
+    )
+      ? 'completed'
+      : 'failed';
+    return results;
+  }
+
+  /**
+   * Clamp the requested number of runs to the supported range
+   */
+  private getRunCount(runs?: number | string): number {
+    const count = Math.floor(Number(runs ?? MULTI_RUN_CONFIG.DEFAULT_RUNS));
+    if (!Number.isFinite(count)) return MULTI_RUN_CONFIG.DEFAULT_RUNS;
+
+    return Math.min(
+      Math.max(count, MULTI_RUN_CONFIG.MIN_RUNS),
+      MULTI_RUN_CONFIG.MAX_RUNS,
+    );
+  }
+
+  /**
+   * Normalise blocking patterns; query-string captures pass them comma-separated
+   */
+  private getBlockPatterns(blockUrls?: string[] | string): string[] {
+    const patterns =
+      typeof blockUrls === 'string' ? blockUrls.split(',') : (blockUrls ?? []);
+
+    return patterns
+      .map((pattern) => String(pattern).trim())
+      .filter(Boolean)
+      .slice(0, THIRD_PARTY_CONFIG.MAX_BLOCK_PATTERNS);
+  }
+
+  /**
+   * Repeat the capture with the blocked requests aborted and compare its
+   * metrics with the normal capture; a failed experiment doesn't fail the test
+   *
+   * The blocked capture streams no progress of its own, so its events can't
+   * be mistaken for those of the reported capture.
+   *
+   * @returns The comparison, or null if the blocked capture failed
+   */
+  private async runBlockingExperiment(
+    subscriber: any,
+    captureData: CreateCaptureData,
+    runCount: number,
+    patterns: string[],
+    baseline: TestResults,
+    abortSignal?: AbortSignal,
+    pageTracker?: (page: Page | null) => void,
+  ): Promise<BlockingExperimentResult | null> {
+    subscriber.next({
+      data: { status: 'BLOCKING_EXPERIMENT_START', patterns },
+    });
+
+    const silentSubscriber = { next: () => undefined };
+    // Artifacts of the blocked capture must not replace those of the test
+    const experimentData: CreateCaptureData = {
+      ...captureData,
+      testId: captureData.testId && `${captureData.testId}-blocked`,
+      includeScreenshots: false,
+      repeatView: false,
+      har: false,
+      thirdPartyReport: false,
+    };
+
+    try {
+      const blocked =
+        runCount > 1
+          ? await this.captureRuns(
+              silentSubscriber,
+              experimentData,
+              runCount,
+              abortSignal,
+              pageTracker,
+              patterns,
+            )
+          : await this.captureRun(
+              silentSubscriber,
+              experimentData,
+              abortSignal,
+              pageTracker,
+              undefined,
+              patterns,
+            );
+
+      const isBlocked = this.thirdPartyService.createBlockMatcher(patterns);
+      const experiment: BlockingExperimentResult = {
+        patterns,
+        blockedRequests:
+          blocked.networkWaterfall?.entries.filter(
+            (entry) => entry.failed && isBlocked(entry.url),
+          ).length ?? 0,
+        webMetrics: blocked.webMetrics,
+        deltas: this.thirdPartyService.compareRuns(
+          baseline.webMetrics,
+          blocked.webMetrics,
+        ),
+      };
+
+      subscriber.next({
+        data: { status: 'BLOCKING_EXPERIMENT_COMPLETE', experiment },
+      });
+      return experiment;
+    } catch (error: unknown) {
+      if (abortSignal?.aborted) throw error;
+
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn('Blocking experiment failed (non-fatal):', errorMessage);
+      subscriber.next({
+        data: { status: 'BLOCKING_EXPERIMENT_ERROR', error: errorMessage },
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Store the HAR archive of a page load; a failed upload doesn't fail the capture
+   *
+   * @returns The stored archive, or null if it could not be stored
+   */
+  private async saveHar(
+    subscriber: any,
+    page: Page,
+    networkWaterfall: NetworkWaterfall,
+    artifactId: string,
+  ): Promise<HarArtifact | null> {
+    try {
+      const har = await this.harService.saveHar(
+        page,
+        networkWaterfall,
+        artifactId,
+      );
+      subscriber.next({
+        data: { status: 'HAR_COMPLETE', har: this.harService.summarize(har) },
+      });
+      return har;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn('HAR export failed (non-fatal):', errorMessage);
+      subscriber.next({ data: { status: 'HAR_ERROR', error: errorMessage } });
+      return null;
+    }
+  }
+
+  /**
+   * Take the settled page's full-page screenshot; a failure doesn't fail the capture
+   *
+   * @returns The stored screenshot, or null if it could not be taken
+   */
+  private async captureFullPage(
+    subscriber: any,
+    page: Page,
+    artifactId: string,
+    deviceType: DeviceType,
+  ): Promise<FullPageScreenshot | null> {
+    try {
+      const screenshot = await this.screenshotsService.captureFullPage(page, {
+        testId: artifactId,
+        deviceType,
+      });
+      subscriber.next({
+        data: { status: 'FULL_PAGE_SCREENSHOT_COMPLETE', screenshot },
+      });
+      return screenshot;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn('Full-page screenshot failed (non-fatal):', errorMessage);
+      subscriber.next({
+        data: { status: 'FULL_PAGE_SCREENSHOT_ERROR', error: errorMessage },
+      });
+      return null;
+    }
+  }
+
   /**
    * Run a service generator to completion with proper error handling and progress streaming
    *
@@ -543,6 +1266,7 @@ export class SingleCaptureService {
         deviceType: data.deviceType,
         screenshots: data.screenshots || [], // Include S3 URLs
         message: data.message,
+        filmstrip: data.filmstrip,
       } as ScreenshotResult;
     }
 
@@ -589,6 +1313,30 @@ export class SingleCaptureService {
       }
     }
 
+    // Collect accessibility audit results
+    if (data.status === 'ACCESSIBILITY_COMPLETE' && data.data) {
+      this.logger.log('Collecting ACCESSIBILITY_COMPLETE data');
+      results.accessibility = data.data;
+    }
+
+    // Collect journey timeline
+    if (data.status === 'JOURNEY_COMPLETE' && data.data) {
+      this.logger.log('Collecting JOURNEY_COMPLETE data');
+      results.journey = data.data;
+    }
+
+    // Collect screenshot matrix
+    if (data.status === 'MATRIX_COMPLETE' && data.data) {
+      this.logger.log('Collecting MATRIX_COMPLETE data');
+      results.screenshotMatrix = data.data;
+    }
+
+    // Collect repeat view results
+    if (data.status === 'REPEAT_VIEW_COMPLETE' && data.data) {
+      this.logger.log('Collecting REPEAT_VIEW_COMPLETE data');
+      results.repeatView = data.data;
+    }
+
     // Collect SEO analysis results
     if (data.status === 'SEO_COMPLETE' && data.data) {
       this.logger.log('Collecting SEO_COMPLETE data', data.data);
@@ -606,11 +1354,19 @@ export class SingleCaptureService {
     page: Page,
     subscriber: any,
     results: TestResults,
+    abortSignal?: AbortSignal,
+    auth?: CaptureAuth,
   ): Promise<void> {
     try {
       subscriber.next({ data: { status: 'LIGHTHOUSE_START' } });
       
-      const lighthouseResult = await this.lighthouseService.runAudit(url, page);
+      const lighthouseResult = await this.lighthouseService.runAudit(
+        url,
+        page,
+        results.networkProfile,
+        abortSignal,
+        auth,
+      );
       
       subscriber.next({ 
         data: { 
@@ -0,0 +1,430 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { CDPSession, Page, Protocol } from 'puppeteer';
+
+import {
+  MetricDelta,
+  NetworkWaterfall,
+  ThirdPartyGroup,
+  ThirdPartyReport,
+  ThirdPartyUsage,
+  WebMetricsResult,
+} from '../interfaces/cache.interface';
+import {
+  MULTI_LABEL_SUFFIXES,
+  THIRD_PARTY_CONFIG,
+  THIRD_PARTY_ENTITIES,
+  ThirdPartyCategory,
+  ThirdPartyEntity,
+} from '../config/third-party.config';
+
+interface DeltaMetric {
+  metric: string;
+  label: string;
+  unit: MetricDelta['unit'];
+  read: (webMetrics: Record<string, any>) => number | undefined;
+}
+
+// Metrics compared between the normal run and the blocked run
+const DELTA_METRICS: DeltaMetric[] = [
+  {
+    metric: 'performanceScore',
+    label: 'Performance score',
+    unit: 'score',
+    read: (m) => finite(m.performanceScore),
+  },
+  {
+    metric: 'firstContentfulPaint',
+    label: 'First Contentful Paint',
+    unit: 'ms',
+    read: (m) => positive(m.performanceMetrics?.firstContentfulPaint),
+  },
+  {
+    metric: 'largestContentfulPaint',
+    label: 'Largest Contentful Paint',
+    unit: 'ms',
+    read: (m) => positive(m.performanceMetrics?.largestContentfulPaint),
+  },
+  {
+    metric: 'totalBlockingTime',
+    label: 'Total Blocking Time',
+    unit: 'ms',
+    read: (m) => finite(m.performanceMetrics?.totalBlockingTime),
+  },
+  {
+    metric: 'cumulativeLayoutShift',
+    label: 'Cumulative Layout Shift',
+    unit: '',
+    read: (m) => finite(m.performanceMetrics?.cumulativeLayoutShift),
+  },
+  {
+    metric: 'loadComplete',
+    label: 'Load time',
+    unit: 'ms',
+    read: (m) => positive(m.performanceMetrics?.loadComplete),
+  },
+  {
+    metric: 'totalRequests',
+    label: 'Requests',
+    unit: 'count',
+    read: (m) => finite(m.networkMetrics?.totalRequests),
+  },
+  {
+    metric: 'totalBytes',
+    label: 'Bytes transferred',
+    unit: 'KB',
+    read: (m) => {
+      const bytes = finite(m.networkMetrics?.totalBytes);
+      return bytes === undefined ? undefined : bytes / 1024;
+    },
+  },
+];
+
+// Profile nodes that are not script execution
+const NON_SCRIPT_NODES = new Set([
+  '(root)',
+  '(program)',
+  '(idle)',
+  '(garbage collector)',
+]);
+
+function finite(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function positive(value: unknown): number | undefined {
+  const number = finite(value);
+  return number !== undefined && number > 0 ? number : undefined;
+}
+
+/**
+ * Third-Party Service
+ *
+ * Shows what third parties cost a page:
+ * - Groups the network waterfall by known entity (analytics, ads, tag
+ *   managers, CDNs, ...) and, for unknown hosts, by registrable domain
+ * - Attributes main-thread JavaScript time to scripts with the CDP
+ *   sampling profiler (out-of-process iframes are not profiled)
+ * - Matches URLs against the patterns of a blocking experiment and
+ *   compares the metrics of the normal and the blocked run
+ */
+@Injectable()
+export class ThirdPartyService {
+  private readonly logger = new Logger(ThirdPartyService.name);
+  private readonly profilers = new WeakMap<Page, CDPSession>();
+
+  /**
+   * Start sampling script execution on a page. Best effort: without a
+   * profile the report has no main-thread time.
+   */
+  async startProfiling(page: Page): Promise<void> {
+    await this.stopProfiling(page);
+
+    let session: CDPSession | null = null;
+    try {
+      session = await page.createCDPSession();
+      await session.send('Profiler.enable');
+      await session.send('Profiler.setSamplingInterval', {
+        interval: THIRD_PARTY_CONFIG.PROFILER_SAMPLING_INTERVAL_US,
+      });
+      await session.send('Profiler.start');
+      this.profilers.set(page, session);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to start script profiler: ${errorMessage}`);
+      await session?.detach().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Stop sampling and return the main-thread time of each script URL
+   *
+   * @returns ms of execution per script URL, or null if the page was not
+   * being profiled
+   */
+  async stopProfiling(page: Page): Promise<Map<string, number> | null> {
+    const session = this.profilers.get(page);
+    if (!session) return null;
+    this.profilers.delete(page);
+
+    try {
+      const { profile } = await session.send('Profiler.stop');
+      return this.attributeProfile(profile);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to stop script profiler: ${errorMessage}`);
+      return null;
+    } finally {
+      await session.detach().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Group the requests of a page load by first party, entity and domain
+   *
+   * @param pageUrl - URL that was tested; its site is the first party
+   * @param waterfall - Requests recorded during the load
+   * @param scriptTime - Main-thread time per script URL, from stopProfiling
+   */
+  buildReport(
+    pageUrl: string,
+    waterfall: NetworkWaterfall,
+    scriptTime: Map<string, number> | null,
+  ): ThirdPartyReport {
+    const firstPartyDomain = this.getSite(this.getHost(pageUrl));
+    const usage = (): ThirdPartyUsage => ({
+      requests: 0,
+      transferBytes: 0,
+      mainThreadTime: scriptTime ? 0 : null,
+    });
+    const firstParty = usage();
+    const groups = new Map<string, ThirdPartyGroup>();
+
+    // Requests and bytes come from the waterfall, time from the profile;
+    // a script can run without a recorded request (e.g. from the cache)
+    const records = [
+      ...waterfall.entries.map((entry) => ({
+        url: entry.url,
+        requests: 1,
+        transferBytes: entry.transferSize,
+        time: 0,
+      })),
+      ...[...(scriptTime ?? [])].map(([url, time]) => ({
+        url,
+        requests: 0,
+        transferBytes: 0,
+        time,
+      })),
+    ];
+
+    for (const record of records) {
+      const host = this.getHost(record.url);
+      if (!host) continue;
+
+      const site = this.getSite(host);
+      if (site === firstPartyDomain) {
+        this.addUsage(firstParty, record);
+        continue;
+      }
+
+      const entity = this.findEntity(host);
+      const key = entity ? `entity:${entity.name}` : `site:${site}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          entity: entity?.name ?? null,
+          category: entity?.category ?? 'other',
+          ...usage(),
+          domains: [],
+        });
+      }
+
+      const group = groups.get(key)!;
+      let domain = group.domains.find((item) => item.domain === host);
+      if (!domain) {
+        domain = { domain: host, ...usage() };
+        group.domains.push(domain);
+      }
+      this.addUsage(group, record);
+      this.addUsage(domain, record);
+    }
+
+    const sortedGroups = [...groups.values()]
+      .map((group) => ({
+        ...this.roundUsage(group),
+        domains: group.domains
+          .map((domain) => this.roundUsage(domain))
+          .sort((a, b) => this.compareUsage(a, b)),
+      }))
+      .sort((a, b) => this.compareUsage(a, b));
+
+    const thirdParty = usage();
+    const categories = new Map<ThirdPartyCategory, ThirdPartyUsage>();
+    for (const group of sortedGroups) {
+      this.addUsage(thirdParty, group);
+      if (!categories.has(group.category)) {
+        categories.set(group.category, usage());
+      }
+      this.addUsage(categories.get(group.category)!, group);
+    }
+
+    return {
+      firstParty: { domain: firstPartyDomain, ...this.roundUsage(firstParty) },
+      thirdParty: this.roundUsage(thirdParty),
+      groups: sortedGroups,
+      categories: [...categories.entries()]
+        .map(([category, total]) => ({
+          category,
+          ...this.roundUsage(total),
+        }))
+        .sort((a, b) => this.compareUsage(a, b)),
+    };
+  }
+
+  /**
+   * Build a matcher for blocking patterns: "*" matches any characters and
+   * a pattern matches anywhere in the URL, so a bare host blocks that host
+   */
+  createBlockMatcher(patterns: string[]): (url: string) => boolean {
+    const expressions = patterns.map(
+      (pattern) =>
+        new RegExp(
+          pattern
+            .split('*')
+            .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*'),
+          'i',
+        ),
+    );
+
+    return (url) => expressions.some((expression) => expression.test(url));
+  }
+
+  /**
+   * Compare the web metrics of the normal run with those of the blocked run
+   */
+  compareRuns(
+    baseline: WebMetricsResult | null,
+    blocked: WebMetricsResult | null,
+  ): MetricDelta[] {
+    const baselineMetrics = (baseline ?? {}) as Record<string, any>;
+    const blockedMetrics = (blocked ?? {}) as Record<string, any>;
+
+    return DELTA_METRICS.map(({ metric, label, unit, read }) => {
+      const before = read(baselineMetrics);
+      const after = read(blockedMetrics);
+
+      return {
+        metric,
+        label,
+        unit,
+        baseline: before === undefined ? null : this.round(before),
+        blocked: after === undefined ? null : this.round(after),
+        delta:
+          before === undefined || after === undefined
+            ? null
+            : this.round(after - before),
+      };
+    });
+  }
+
+  /**
+   * Sum the self time of every sample under the script it ran in;
+   * functions without a URL (natives, builtins) count towards their caller
+   */
+  private attributeProfile(
+    profile: Protocol.Profiler.Profile,
+  ): Map<string, number> {
+    const nodes = new Map(profile.nodes.map((node) => [node.id, node]));
+    const parents = new Map<number, number>();
+    for (const node of profile.nodes) {
+      for (const child of node.children ?? []) parents.set(child, node.id);
+    }
+
+    const urlCache = new Map<number, string | null>();
+    const resolveUrl = (id: number): string | null => {
+      if (urlCache.has(id)) return urlCache.get(id)!;
+      const node = nodes.get(id);
+      let url: string | null = null;
+      if (node && !NON_SCRIPT_NODES.has(node.callFrame.functionName)) {
+        const parent = parents.get(id);
+        url =
+          node.callFrame.url ||
+          (parent === undefined ? null : resolveUrl(parent));
+      }
+      urlCache.set(id, url);
+      return url;
+    };
+
+    const timeByUrl = new Map<string, number>();
+    (profile.samples ?? []).forEach((nodeId, index) => {
+      const url = resolveUrl(nodeId);
+      const delta = profile.timeDeltas?.[index] ?? 0;
+      if (!url || delta <= 0) return;
+      timeByUrl.set(url, (timeByUrl.get(url) ?? 0) + delta / 1000);
+    });
+
+    return timeByUrl;
+  }
+
+  private findEntity(host: string): ThirdPartyEntity | undefined {
+    let match: ThirdPartyEntity | undefined;
+    let matchLength = 0;
+
+    for (const entity of THIRD_PARTY_ENTITIES) {
+      for (const domain of entity.domains) {
+        if (
+          (host === domain || host.endsWith(`.${domain}`)) &&
+          domain.length > matchLength
+        ) {
+          match = entity;
+          matchLength = domain.length;
+        }
+      }
+    }
+
+    return match;
+  }
+
+  private getHost(url: string): string {
+    try {
+      const { protocol, hostname } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:' ? hostname : '';
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Registrable domain of a host, e.g. "cdn.shop.example.co.uk" -> "example.co.uk"
+   */
+  private getSite(host: string): string {
+    if (!host.includes('.') || /^[\d.]+$/.test(host) || host.includes(':')) {
+      return host;
+    }
+
+    const labels = host.split('.');
+    const suffixLength = MULTI_LABEL_SUFFIXES.has(labels.slice(-2).join('.'))
+      ? 3
+      : 2;
+    return labels.slice(-suffixLength).join('.');
+  }
+
+  private addUsage(
+    target: ThirdPartyUsage,
+    usage: {
+      requests: number;
+      transferBytes: number;
+      time?: number;
+      mainThreadTime?: number | null;
+    },
+  ): void {
+    target.requests += usage.requests;
+    target.transferBytes += usage.transferBytes;
+    if (target.mainThreadTime !== null) {
+      target.mainThreadTime += usage.time ?? usage.mainThreadTime ?? 0;
+    }
+  }
+
+  private roundUsage<T extends ThirdPartyUsage>(usage: T): T {
+    return {
+      ...usage,
+      mainThreadTime:
+        usage.mainThreadTime === null ? null : this.round(usage.mainThreadTime),
+    };
+  }
+
+  // Heaviest first: bytes, then main-thread time
+  private compareUsage(a: ThirdPartyUsage, b: ThirdPartyUsage): number {
+    return (
+      b.transferBytes - a.transferBytes ||
+      (b.mainThreadTime ?? 0) - (a.mainThreadTime ?? 0)
+    );
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,257 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { extname, join } from 'path';
+import { PNG } from 'pngjs';
+import { Worker } from 'worker_threads';
+import pixelmatch = require('pixelmatch');
+
+import { VisualIgnoreRegion } from '../interfaces/cache.interface';
+import {
+  VisualDiffWorkerJob,
+  VisualDiffWorkerMessage,
+} from '../interfaces/visual-diff-worker.interface';
+import { VISUAL_REGRESSION_CONFIG } from '../config/capture.config';
+import { AppError } from '~/common/app-error.common';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Buffer; // RGBA, 4 bytes per pixel, row by row
+}
+
+export interface VisualDiffOptions {
+  threshold?: number; // 0-1
+  ignoreRegions?: VisualIgnoreRegion[];
+}
+
+export interface VisualDiffOutput {
+  changedPixels: number;
+  totalPixels: number;
+  changedPercentage: number;
+  sizeMismatch: boolean;
+  diffImage: Buffer; // PNG
+}
+
+// Compiled next to this file as .js, or run from source as .ts
+const WORKER_PATH = join(
+  __dirname,
+  '..',
+  'workers',
+  `visual-diff.worker${extname(__filename)}`,
+);
+
+/**
+ * Decode a PNG into RGBA pixels
+ */
+export function decodePng(png: Buffer): DecodedImage {
+  const { width, height, data } = PNG.sync.read(png);
+  return { width, height, data };
+}
+
+/**
+ * Encode RGBA pixels as a PNG
+ */
+export function encodePng(image: DecodedImage): Buffer {
+  const png = new PNG({ width: image.width, height: image.height });
+  image.data.copy(png.data);
+  return PNG.sync.write(png);
+}
+
+function buildIgnoreMask(
+  width: number,
+  height: number,
+  regions: VisualIgnoreRegion[],
+): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(height, Math.ceil(region.y + region.height));
+    for (let y = top; y < bottom; y++) {
+      mask.fill(1, y * width + left, y * width + Math.max(left, right));
+    }
+  }
+  return mask;
+}
+
+// Top-left width x height pixels of an image
+function crop(image: DecodedImage, width: number, height: number): Buffer {
+  if (image.width === width && image.height === height) {
+    return Buffer.from(image.data);
+  }
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    image.data.copy(
+      data,
+      y * width * 4,
+      y * image.width * 4,
+      (y * image.width + width) * 4,
+    );
+  }
+  return data;
+}
+
+/**
+ * Compare a screenshot with its baseline with pixelmatch. Runs in the
+ * visual diff worker: decoding, comparing and encoding a full-page
+ * screenshot blocks for too long to run on the API's event loop.
+ *
+ * Screenshots of different sizes are compared over the larger of the two;
+ * area only one of them covers counts as changed.
+ */
+export function compareScreenshots(
+  baselinePng: Buffer,
+  currentPng: Buffer,
+  options: VisualDiffOptions = {},
+): VisualDiffOutput {
+  const baseline = decodePng(baselinePng);
+  const current = decodePng(currentPng);
+  const threshold = Math.min(
+    Math.max(
+      options.threshold ?? VISUAL_REGRESSION_CONFIG.DEFAULT_THRESHOLD,
+      0,
+    ),
+    1,
+  );
+
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+  const ignored = buildIgnoreMask(width, height, options.ignoreRegions ?? []);
+
+  // pixelmatch compares images of one size: the area both cover
+  const overlapWidth = Math.min(baseline.width, current.width);
+  const overlapHeight = Math.min(baseline.height, current.height);
+  const before = crop(baseline, overlapWidth, overlapHeight);
+  const after = crop(current, overlapWidth, overlapHeight);
+
+  // Ignored pixels are made identical so pixelmatch never counts them
+  for (let y = 0; y < overlapHeight; y++) {
+    for (let x = 0; x < overlapWidth; x++) {
+      if (!ignored[y * width + x]) continue;
+      const i = (y * overlapWidth + x) * 4;
+      before.copy(after, i, i, i + 4);
+    }
+  }
+
+  const overlapDiff = Buffer.alloc(overlapWidth * overlapHeight * 4);
+  let changedPixels = pixelmatch(
+    before,
+    after,
+    overlapDiff,
+    overlapWidth,
+    overlapHeight,
+    { threshold },
+  );
+
+  const diff = Buffer.alloc(width * height * 4);
+  let ignoredPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const out = pixel * 4;
+
+      if (ignored[pixel]) {
+        ignoredPixels++;
+        diff.fill(200, out, out + 3);
+        diff[out + 3] = 255;
+      } else if (x < overlapWidth && y < overlapHeight) {
+        const i = (y * overlapWidth + x) * 4;
+        overlapDiff.copy(diff, out, i, i + 4);
+      } else {
+        changedPixels++;
+        diff.set([255, 0, 0, 255], out);
+      }
+    }
+  }
+
+  const totalPixels = width * height - ignoredPixels;
+  return {
+    changedPixels,
+    totalPixels,
+    changedPercentage: totalPixels
+      ? Math.round((changedPixels / totalPixels) * 10000) / 100
+      : 0,
+    sizeMismatch:
+      baseline.width !== current.width || baseline.height !== current.height,
+    diffImage: encodePng({ width, height, data: diff }),
+  };
+}
+
+/**
+ * Visual Diff Service
+ *
+ * Compares two screenshots pixel by pixel with pixelmatch, in a worker
+ * thread per comparison. Pixels are compared by their YIQ colour
+ * difference, so a threshold of 0 flags any change and 1 flags none;
+ * anti-aliased pixels are not counted. The diff image shows changed pixels
+ * in red (anti-aliasing in yellow) over a faded copy of the baseline, and
+ * ignored regions in grey.
+ */
+@Injectable()
+export class VisualDiffService {
+  /**
+   * Compare a screenshot with its baseline in a worker thread
+   *
+   * @throws AppError if the worker fails or runs out of time
+   */
+  compare(
+    baselinePng: Buffer,
+    currentPng: Buffer,
+    options: VisualDiffOptions = {},
+  ): Promise<VisualDiffOutput> {
+    return new Promise((resolve, reject) => {
+      const job: VisualDiffWorkerJob = { baselinePng, currentPng, options };
+      const worker = new Worker(WORKER_PATH, { workerData: job });
+
+      let settled = false;
+      const finish = (
+        error: Error | null,
+        output: VisualDiffOutput | null = null,
+      ) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        void worker.terminate();
+        if (error) reject(error);
+        else resolve(output!);
+      };
+
+      const timeout = setTimeout(() => {
+        finish(
+          new AppError(
+            `Visual diff worker timed out after ${VISUAL_REGRESSION_CONFIG.WORKER_TIMEOUT_MS}ms`,
+            HttpStatus.REQUEST_TIMEOUT,
+          ),
+        );
+      }, VISUAL_REGRESSION_CONFIG.WORKER_TIMEOUT_MS);
+
+      worker.on('message', (message: VisualDiffWorkerMessage) => {
+        if (message.type === 'result') {
+          // Buffers arrive as plain Uint8Arrays
+          const { diffImage } = message.output;
+          finish(null, {
+            ...message.output,
+            diffImage: Buffer.from(
+              diffImage.buffer,
+              diffImage.byteOffset,
+              diffImage.byteLength,
+            ),
+          });
+        } else {
+          finish(
+            new AppError(message.message, HttpStatus.INTERNAL_SERVER_ERROR),
+          );
+        }
+      });
+      worker.on('error', (error) => finish(error));
+      worker.on('exit', (code) => {
+        finish(
+          new AppError(
+            `Visual diff worker exited (code ${code}) without a result`,
+            HttpStatus.INTERNAL_SERVER_ERROR,
+          ),
+        );
+      });
+    });
+  }
+}
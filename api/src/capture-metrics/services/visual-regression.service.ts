@@ -0,0 +1,277 @@
+import {
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import {
+  VisualBaseline,
+  VisualBaselineDocument,
+} from '../schemas/visual-baseline.schema';
+import { TestResult, TestResultDocument } from '../schemas/test-result.schema';
+import { VisualDiffResult } from '../interfaces/cache.interface';
+import { VISUAL_REGRESSION_CONFIG } from '../config/capture.config';
+import { S3StorageService } from './s3-storage.service';
+import { VisualDiffService } from './visual-diff.service';
+import { SetVisualBaselineDto } from '~/dto/dashboard.dto';
+import { AppError } from '~/common/app-error.common';
+import { DomainEventsService } from '~/common/events/domain-events.service';
+import {
+  DOMAIN_EVENTS,
+  TestCompletedEvent,
+} from '~/common/events/domain-events';
+
+/**
+ * Visual Regression Service
+ *
+ * Keeps one visual baseline per user, URL and device: the full-page
+ * screenshot of a test the user marked as the expected state of the page.
+ * Every later test of the same URL and device with a full-page screenshot
+ * is compared with it once saved; the result, with a stored diff image, is
+ * written to the test's results.visualDiff, and a change above the
+ * baseline's alert percentage emits VISUAL_CHANGE_DETECTED.
+ */
+@Injectable()
+export class VisualRegressionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(VisualRegressionService.name);
+  private unsubscribeTestCompleted?: () => void;
+
+  constructor(
+    @InjectModel(VisualBaseline.name)
+    private readonly baselineModel: Model<VisualBaselineDocument>,
+    @InjectModel(TestResult.name)
+    private readonly testResultModel: Model<TestResultDocument>,
+    private readonly s3Storage: S3StorageService,
+    private readonly visualDiff: VisualDiffService,
+    private readonly domainEvents: DomainEventsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.unsubscribeTestCompleted = this.domainEvents.on(
+      DOMAIN_EVENTS.TEST_COMPLETED,
+      async (event) => {
+        await this.compareWithBaseline(event);
+      },
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribeTestCompleted?.();
+  }
+
+  /**
+   * Make a test's full-page screenshot the baseline of its URL and device,
+   * replacing any previous one
+   */
+  async setBaseline(
+    userId: string,
+    testId: string,
+    options: SetVisualBaselineDto,
+  ): Promise<VisualBaseline> {
+    if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(testId)) {
+      throw new AppError('Invalid ID format', HttpStatus.BAD_REQUEST);
+    }
+
+    const test = await this.testResultModel
+      .findOne({
+        _id: new Types.ObjectId(testId),
+        userId: new Types.ObjectId(userId),
+      })
+      .select('url testConfig.deviceType results.fullPageScreenshot')
+      .lean()
+      .exec();
+
+    if (!test) {
+      throw new AppError('Test not found', HttpStatus.NOT_FOUND);
+    }
+
+    const screenshot = test.results?.fullPageScreenshot;
+    if (!screenshot?.url) {
+      throw new AppError(
+        'This test has no full-page screenshot; run it with screenshots enabled',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const deviceType = test.testConfig?.deviceType ?? 'desktop';
+    const baseline = await this.baselineModel
+      .findOneAndUpdate(
+        { userId: new Types.ObjectId(userId), url: test.url, deviceType },
+        {
+          $set: {
+            testResultId: new Types.ObjectId(testId),
+            screenshotUrl: screenshot.url,
+            width: screenshot.width,
+            height: screenshot.height,
+            threshold:
+              options.threshold ?? VISUAL_REGRESSION_CONFIG.DEFAULT_THRESHOLD,
+            alertPercentage:
+              options.alertPercentage ??
+              VISUAL_REGRESSION_CONFIG.DEFAULT_ALERT_PERCENTAGE,
+            ignoreRegions: (options.ignoreRegions ?? []).map(
+              ({ x, y, width, height }) => ({ x, y, width, height }),
+            ),
+          },
+        },
+        { upsert: true, new: true, runValidators: true },
+      )
+      .lean()
+      .exec();
+
+    this.logger.log(
+      `Visual baseline for ${test.url} (${deviceType}) set from test ${testId}`,
+    );
+    return baseline;
+  }
+
+  /**
+   * All baselines of a user, most recently set first
+   */
+  async getBaselines(userId: string): Promise<VisualBaseline[]> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid ID format', HttpStatus.BAD_REQUEST);
+    }
+
+    return this.baselineModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .sort({ updatedAt: -1 })
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Remove a baseline; later tests of its URL and device are no longer compared
+   */
+  async deleteBaseline(
+    userId: string,
+    baselineId: string,
+  ): Promise<{ message: string }> {
+    if (
+      !Types.ObjectId.isValid(userId) ||
+      !Types.ObjectId.isValid(baselineId)
+    ) {
+      throw new AppError('Invalid ID format', HttpStatus.BAD_REQUEST);
+    }
+
+    const deleted = await this.baselineModel
+      .findOneAndDelete({
+        _id: new Types.ObjectId(baselineId),
+        userId: new Types.ObjectId(userId),
+      })
+      .exec();
+
+    if (!deleted) {
+      throw new AppError('Baseline not found', HttpStatus.NOT_FOUND);
+    }
+
+    return { message: 'Baseline deleted successfully' };
+  }
+
+  /**
+   * Compare a saved test's full-page screenshot with the baseline of its
+   * URL and device, if there is one
+   *
+   * @returns The stored comparison, or null if the test wasn't compared
+   */
+  async compareWithBaseline(
+    event: TestCompletedEvent,
+  ): Promise<VisualDiffResult | null> {
+    const screenshot = event.results?.fullPageScreenshot;
+    if (!screenshot?.url || !Types.ObjectId.isValid(event.userId)) {
+      return null;
+    }
+
+    const deviceType = event.results.deviceType;
+    const baseline = await this.baselineModel
+      .findOne({
+        userId: new Types.ObjectId(event.userId),
+        url: event.url,
+        deviceType,
+      })
+      .lean()
+      .exec();
+
+    // The baseline's own test has nothing to be compared with
+    if (!baseline || String(baseline.testResultId) === event.testResultId) {
+      return null;
+    }
+
+    try {
+      const [baselinePng, currentPng] = await Promise.all([
+        this.s3Storage.downloadFile(baseline.screenshotUrl),
+        this.s3Storage.downloadFile(screenshot.url),
+      ]);
+
+      const diff = await this.visualDiff.compare(baselinePng, currentPng, {
+        threshold: baseline.threshold,
+        ignoreRegions: baseline.ignoreRegions,
+      });
+
+      const diffImage = await this.s3Storage
+        .uploadScreenshot(diff.diffImage, {
+          testId: `${event.testId ?? event.testResultId}-visual-diff`,
+          deviceType,
+          frameNumber: 1,
+          format: 'png',
+        })
+        .catch((error: Error) => {
+          this.logger.warn(
+            `Failed to store visual diff image: ${error.message}`,
+          );
+          return null;
+        });
+
+      const visualDiff: VisualDiffResult = {
+        baselineId: String(baseline._id),
+        baselineTestId: String(baseline.testResultId),
+        baselineScreenshot: baseline.screenshotUrl,
+        diffImage,
+        changedPixels: diff.changedPixels,
+        totalPixels: diff.totalPixels,
+        changedPercentage: diff.changedPercentage,
+        threshold: baseline.threshold,
+        alertPercentage: baseline.alertPercentage,
+        changed: diff.changedPercentage > baseline.alertPercentage,
+        sizeMismatch: diff.sizeMismatch,
+        comparedAt: new Date(),
+      };
+
+      await this.testResultModel
+        .updateOne(
+          { _id: new Types.ObjectId(event.testResultId) },
+          { $set: { 'results.visualDiff': visualDiff } },
+        )
+        .exec();
+
+      this.logger.log(
+        `Test ${event.testResultId} differs from its visual baseline by ${visualDiff.changedPercentage}%`,
+      );
+
+      if (visualDiff.changed) {
+        this.domainEvents.emit(DOMAIN_EVENTS.VISUAL_CHANGE_DETECTED, {
+          userId: event.userId,
+          testResultId: event.testResultId,
+          url: event.url,
+          deviceType,
+          changedPercentage: visualDiff.changedPercentage,
+          alertPercentage: visualDiff.alertPercentage,
+          diffImage,
+          scheduleName: event.scheduleName,
+        });
+      }
+
+      return visualDiff;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to compare test ${event.testResultId} with its visual baseline: ${errorMessage}`,
+      );
+      return null;
+    }
+  }
+}
@@ -599,7 +599,7 @@ export class WebMetricsService {
         loadComplete: navigation.loadEventEnd - navigation.startTime,
         timeToInteractive: 0, // Approximated
         totalBlockingTime: 0, // Calculated from long tasks
-        speedIndex: 0, // Approximated
+        speedIndex: 0, // Set from the filmstrip by the capture
 
         // Visual Progress
         visuallyComplete: navigation.loadEventEnd - navigation.startTime, // Approximation
@@ -0,0 +1,131 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+
+import {
+  LighthouseWorkerJob,
+  LighthouseWorkerMessage,
+  LighthouseWorkerReport,
+} from '../interfaces/lighthouse-worker.interface';
+import {
+  isSameOrigin,
+  toBrowserCookies,
+} from '../services/credentials.service';
+
+/**
+ * Lighthouse Worker
+ *
+ * Forked by LighthouseService for a single audit. Launches its own Chromium,
+ * audits the URL, sends the report back over IPC and exits, so a hung or
+ * crashing audit never touches the pooled browser. The parent kills the
+ * whole process group if it overruns its time or memory cap.
+ *
+ * An authenticated audit runs on a page prepared like a capture page:
+ * headers are added only to requests for the tested origin, cookies go into
+ * the cookie jar and basic auth answers the origin's challenge. Lighthouse's
+ * own extraHeaders flag would send the headers to every third party.
+ */
+
+const send = (message: LighthouseWorkerMessage) =>
+  new Promise<void>((resolve) => process.send!(message, () => resolve()));
+
+async function openAuthenticatedPage(
+  browser: Browser,
+  job: LighthouseWorkerJob,
+): Promise<Page> {
+  const page = await browser.newPage();
+  const { headers, cookies, basicAuth } = job.auth ?? {};
+
+  if (headers && Object.keys(headers).length > 0) {
+    const { origin } = new URL(job.url);
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      if (request.isInterceptResolutionHandled()) return;
+      void request
+        .continue(
+          isSameOrigin(request.url(), origin)
+            ? { headers: { ...request.headers(), ...headers } }
+            : undefined,
+        )
+        .catch(() => undefined);
+    });
+  }
+  if (basicAuth) {
+    await page.authenticate(basicAuth);
+  }
+  if (cookies?.length) {
+    await page
+      .browserContext()
+      .setCookie(...toBrowserCookies(cookies, job.url));
+  }
+
+  return page;
+}
+
+async function runAudit(
+  job: LighthouseWorkerJob,
+): Promise<LighthouseWorkerReport | null> {
+  // Dynamic import for lighthouse (ESM module)
+  const lighthouse: any = await import('lighthouse');
+  const lighthouseModule = lighthouse.default || lighthouse;
+
+  const browser = await puppeteer.launch({
+    headless: true,
+    executablePath:
+      process.env.PUPPETEER_EXECUTABLE_PATH || '/usr/bin/chromium',
+    timeout: 30000,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+    ],
+  });
+
+  try {
+    const port = parseInt(new URL(browser.wsEndpoint()).port);
+    const page = job.auth
+      ? await openAuthenticatedPage(browser, job)
+      : undefined;
+    const result = await lighthouseModule(
+      job.url,
+      { ...job.flags, port },
+      undefined,
+      page,
+    );
+    if (!result?.lhr) return null;
+
+    const { categories, audits } = result.lhr;
+    const report: LighthouseWorkerReport = { categories: {}, audits: {} };
+    for (const [id, category] of Object.entries<any>(categories)) {
+      report.categories[id] = { score: category.score };
+    }
+    for (const [id, audit] of Object.entries<any>(audits)) {
+      report.audits[id] = {
+        title: audit.title,
+        description: audit.description,
+        score: audit.score,
+        displayValue: audit.displayValue,
+        numericValue: audit.numericValue,
+        scoreDisplayMode: audit.scoreDisplayMode,
+      };
+    }
+    return report;
+  } finally {
+    await browser.close().catch(() => undefined);
+  }
+}
+
+// The parent going away means nobody is waiting for the result
+process.on('disconnect', () => process.exit(1));
+
+process.once('message', (job: LighthouseWorkerJob) => {
+  runAudit(job)
+    .then(
+      (report) => send({ type: 'result', report }),
+      (error: unknown) =>
+        send({
+          type: 'error',
+          message: error instanceof Error ? error.message : String(error),
+        }),
+    )
+    .finally(() => process.exit(0));
+});
@@ -0,0 +1,36 @@
+import { parentPort, workerData } from 'worker_threads';
+
+import {
+  VisualDiffWorkerJob,
+  VisualDiffWorkerMessage,
+} from '../interfaces/visual-diff-worker.interface';
+import { compareScreenshots } from '../services/visual-diff.service';
+
+/**
+ * Visual Diff Worker
+ *
+ * Started by VisualDiffService for a single comparison. Decodes both
+ * screenshots, compares them and encodes the diff image off the API's event
+ * loop, posts the result back and exits.
+ */
+
+const job = workerData as VisualDiffWorkerJob;
+let message: VisualDiffWorkerMessage;
+
+try {
+  message = {
+    type: 'result',
+    output: compareScreenshots(
+      Buffer.from(job.baselinePng),
+      Buffer.from(job.currentPng),
+      job.options,
+    ),
+  };
+} catch (error: unknown) {
+  message = {
+    type: 'error',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+parentPort!.postMessage(message);
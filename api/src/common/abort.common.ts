@@ -0,0 +1,31 @@
+import { HttpStatus } from '@nestjs/common';
+
+import { AppError } from './app-error.common';
+
+/**
+ * Settle with the given promise, or reject as soon as the signal aborts so
+ * callers stop waiting on work that has been cancelled
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  abortSignal?: AbortSignal,
+): Promise<T> {
+  if (!abortSignal) return promise;
+  if (abortSignal.aborted) {
+    // The original promise still settles later; keep it from going unhandled
+    promise.catch(() => undefined);
+    return Promise.reject(
+      new AppError('Request cancelled', HttpStatus.BAD_REQUEST),
+    );
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () =>
+      reject(new AppError('Request cancelled', HttpStatus.BAD_REQUEST));
+
+    abortSignal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => abortSignal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,21 @@
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Format values as a single CSV row (RFC 4180 quoting), including the
+ * trailing newline. Text that a spreadsheet would read as a formula is
+ * prefixed with a quote; numbers are left as they are.
+ */
+export function toCsvRow(values: Array<string | number | undefined>): string {
+  return (
+    values
+      .map((value) => {
+        let text = String(value ?? '');
+        if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+          text = `'${text}`;
+        }
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\n'
+  );
+}
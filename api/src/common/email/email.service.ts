@@ -9,6 +9,46 @@ export interface SendEmailOptions {
   subject: string;
   template: string;
   context: Record<string, any>;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+export interface WeeklyReportEmailData {
+  periodStart: string;
+  periodEnd: string;
+  totalRuns: number;
+  completedRuns: number;
+  failedRuns: number;
+  averageScore?: number;
+  urls: Array<{
+    url: string;
+    runs: number;
+    failedRuns: number;
+    averageScore?: number;
+  }>;
+  regressions: Array<{
+    url: string;
+    previousScore: number;
+    currentScore: number;
+    change: number;
+  }>;
+  improvements: Array<{
+    url: string;
+    previousScore: number;
+    currentScore: number;
+    change: number;
+  }>;
+  failedSchedules: Array<{
+    name: string;
+    url: string;
+    failedRuns: number;
+    lastError?: string;
+  }>;
 }
 
 @Injectable()
@@ -92,7 +132,7 @@ export class EmailService {
    */
   async sendEmail(options: SendEmailOptions): Promise<void> {
     try {
-      const { to, subject, template, context } = options;
+      const { to, subject, template, context, attachments } = options;
       const emailFrom = this.configService.get<string>('EMAIL_FROM');
 
       // Compile template
@@ -104,6 +144,7 @@ export class EmailService {
         to,
         subject,
         html,
+        attachments,
       };
 
       const info = await this.transporter.sendMail(mailOptions);
@@ -535,4 +576,418 @@ export class EmailService {
       `Score drop notification sent to ${email} for ${data.url} (${data.previousScore} -> ${data.currentScore})`,
     );
   }
+
+  /**
+   * Send test completion notification email
+   */
+  async sendTestCompletionNotification(
+    email: string,
+    data: {
+      url: string;
+      testType: string;
+      status: 'completed' | 'failed';
+      score?: number;
+      testId: string;
+      scheduleName?: string;
+    },
+  ): Promise<void> {
+    const frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') ||
+      'http://localhost:3000';
+    const testUrl = `${frontendUrl}/dashboard/tests/${data.testId}`;
+    const succeeded = data.status === 'completed';
+
+    const template = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              line-height: 1.6;
+              color: #333;
+            }
+            .container {
+              max-width: 600px;
+              margin: 0 auto;
+              padding: 20px;
+            }
+            .header {
+              background-color: {{#if succeeded}}#38a169{{else}}#e53e3e{{/if}};
+              color: white;
+              padding: 20px;
+              text-align: center;
+              border-radius: 5px 5px 0 0;
+            }
+            .content {
+              background-color: #f7fafc;
+              padding: 30px;
+              border-radius: 0 0 5px 5px;
+            }
+            .details {
+              background-color: white;
+              border-left: 4px solid #4299e1;
+              padding: 15px;
+              margin: 20px 0;
+            }
+            .button {
+              display: inline-block;
+              padding: 12px 30px;
+              background-color: #4299e1;
+              color: white;
+              text-decoration: none;
+              border-radius: 5px;
+              margin: 20px 0;
+            }
+            .footer {
+              text-align: center;
+              margin-top: 20px;
+              font-size: 12px;
+              color: #718096;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>{{#if succeeded}}Test Completed{{else}}Test Failed{{/if}}</h1>
+            </div>
+            <div class="content">
+              <p>Hello,</p>
+              <p>Your {{testType}} test{{#if scheduleName}} ({{scheduleName}}){{/if}} has {{#if succeeded}}finished{{else}}failed{{/if}}.</p>
+
+              <div class="details">
+                <strong>URL:</strong> {{url}}<br>
+                <strong>Test Type:</strong> {{testType}}
+                {{#if hasScore}}<br><strong>Score:</strong> {{score}}{{/if}}
+              </div>
+
+              <p style="text-align: center;">
+                <a href="{{{testUrl}}}" class="button">View Test Results</a>
+              </p>
+
+              <p>Best regards,<br>Bug Spy JS Team</p>
+            </div>
+            <div class="footer">
+              <p>You're receiving this because you have test completion notifications enabled.</p>
+              <p>Manage your notification preferences in your account settings.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject: `${succeeded ? 'Test Completed' : 'Test Failed'}: ${data.url} - ${data.testType}`,
+      template,
+      context: {
+        ...data,
+        succeeded,
+        hasScore: data.score !== undefined,
+        testUrl,
+      },
+    });
+
+    this.logger.log(
+      `Test completion notification sent to ${email} for ${data.url} (${data.status})`,
+    );
+  }
+
+  /**
+   * Send visual change alert email
+   */
+  async sendVisualChangeNotification(
+    email: string,
+    data: {
+      url: string;
+      deviceType: string;
+      changedPercentage: number;
+      alertPercentage: number;
+      diffImage: string | null;
+      testId: string;
+      scheduleName?: string;
+    },
+  ): Promise<void> {
+    const frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') ||
+      'http://localhost:3000';
+    const testUrl = `${frontendUrl}/dashboard/tests/${data.testId}`;
+
+    const template = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              line-height: 1.6;
+              color: #333;
+            }
+            .container {
+              max-width: 600px;
+              margin: 0 auto;
+              padding: 20px;
+            }
+            .header {
+              background-color: #dd6b20;
+              color: white;
+              padding: 20px;
+              text-align: center;
+              border-radius: 5px 5px 0 0;
+            }
+            .content {
+              background-color: #f7fafc;
+              padding: 30px;
+              border-radius: 0 0 5px 5px;
+            }
+            .warning {
+              background-color: #fffaf0;
+              border-left: 4px solid #f6ad55;
+              padding: 15px;
+              margin: 20px 0;
+            }
+            .button {
+              display: inline-block;
+              padding: 12px 30px;
+              background-color: #4299e1;
+              color: white;
+              text-decoration: none;
+              border-radius: 5px;
+              margin: 20px 0;
+            }
+            .footer {
+              text-align: center;
+              margin-top: 20px;
+              font-size: 12px;
+              color: #718096;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Visual Change Alert</h1>
+            </div>
+            <div class="content">
+              <p>Hello,</p>
+              <p>A test{{#if scheduleName}} ({{scheduleName}}){{/if}} no longer matches the visual baseline you set for this page.</p>
+
+              <div class="warning">
+                <strong>URL:</strong> {{url}}<br>
+                <strong>Device:</strong> {{deviceType}}<br>
+                <strong>Changed pixels:</strong> {{changedPercentage}}% (alert above {{alertPercentage}}%)
+              </div>
+
+              {{#if diffImage}}
+              <p style="text-align: center;">
+                <img src="{{{diffImage}}}" alt="Changed pixels in red" style="max-width: 100%; border: 1px solid #e2e8f0;">
+              </p>
+              {{/if}}
+
+              <p style="text-align: center;">
+                <a href="{{{testUrl}}}" class="button">View Test Results</a>
+              </p>
+
+              <p>If the change is intended, set this test as the new baseline from its results page.</p>
+
+              <p>Best regards,<br>Bug Spy JS Team</p>
+            </div>
+            <div class="footer">
+              <p>You're receiving this because you have visual change notifications enabled.</p>
+              <p>Manage your notification preferences in your account settings.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject: `Visual Change Alert: ${data.url} - ${data.changedPercentage}% of the page changed`,
+      template,
+      context: { ...data, testUrl },
+    });
+
+    this.logger.log(
+      `Visual change notification sent to ${email} for ${data.url} (${data.changedPercentage}%)`,
+    );
+  }
+
+  /**
+   * Send the weekly test summary with the full report attached as CSV
+   */
+  async sendWeeklyReport(
+    email: string,
+    data: WeeklyReportEmailData,
+    csv: string,
+  ): Promise<void> {
+    const frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') ||
+      'http://localhost:3000';
+    const dashboardUrl = `${frontendUrl}/dashboard`;
+
+    const template = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              line-height: 1.6;
+              color: #333;
+            }
+            .container {
+              max-width: 600px;
+              margin: 0 auto;
+              padding: 20px;
+            }
+            .header {
+              background-color: #4a5568;
+              color: white;
+              padding: 20px;
+              text-align: center;
+              border-radius: 5px 5px 0 0;
+            }
+            .content {
+              background-color: #f7fafc;
+              padding: 30px;
+              border-radius: 0 0 5px 5px;
+            }
+            h2 {
+              font-size: 16px;
+              margin-top: 24px;
+            }
+            table {
+              width: 100%;
+              border-collapse: collapse;
+              background: white;
+              font-size: 13px;
+            }
+            th, td {
+              text-align: left;
+              padding: 8px;
+              border-bottom: 1px solid #e2e8f0;
+            }
+            .negative {
+              color: #e53e3e;
+            }
+            .positive {
+              color: #38a169;
+            }
+            .button {
+              display: inline-block;
+              padding: 12px 30px;
+              background-color: #4299e1;
+              color: white;
+              text-decoration: none;
+              border-radius: 5px;
+              margin: 20px 0;
+            }
+            .footer {
+              text-align: center;
+              margin-top: 20px;
+              font-size: 12px;
+              color: #718096;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Your Weekly Report</h1>
+              <div>{{periodStart}} &ndash; {{periodEnd}}</div>
+            </div>
+            <div class="content">
+              <p>Hello,</p>
+              <p>Here is a summary of your tests over the past week.</p>
+
+              <table style="margin: 20px 0;">
+                <tr>
+                  <td style="text-align: center;"><div style="font-size: 28px; font-weight: bold;">{{totalRuns}}</div>Runs</td>
+                  <td style="text-align: center;"><div style="font-size: 28px; font-weight: bold;">{{failedRuns}}</div>Failed</td>
+                  <td style="text-align: center;"><div style="font-size: 28px; font-weight: bold;">{{#if hasAverageScore}}{{averageScore}}{{else}}&ndash;{{/if}}</div>Average score</td>
+                </tr>
+              </table>
+
+              {{#if urls.length}}
+              <h2>Average Scores by URL</h2>
+              <table>
+                <tr><th>URL</th><th>Runs</th><th>Failed</th><th>Average</th></tr>
+                {{#each urls}}
+                <tr><td>{{url}}</td><td>{{runs}}</td><td>{{failedRuns}}</td><td>{{averageScore}}</td></tr>
+                {{/each}}
+              </table>
+              {{/if}}
+
+              {{#if regressions.length}}
+              <h2>Biggest Regressions</h2>
+              <table>
+                <tr><th>URL</th><th>Last week</th><th>This week</th><th>Change</th></tr>
+                {{#each regressions}}
+                <tr><td>{{url}}</td><td>{{previousScore}}</td><td>{{currentScore}}</td><td class="negative">{{change}}</td></tr>
+                {{/each}}
+              </table>
+              {{/if}}
+
+              {{#if improvements.length}}
+              <h2>Biggest Improvements</h2>
+              <table>
+                <tr><th>URL</th><th>Last week</th><th>This week</th><th>Change</th></tr>
+                {{#each improvements}}
+                <tr><td>{{url}}</td><td>{{previousScore}}</td><td>{{currentScore}}</td><td class="positive">+{{change}}</td></tr>
+                {{/each}}
+              </table>
+              {{/if}}
+
+              {{#if failedSchedules.length}}
+              <h2>Failed Schedules</h2>
+              <table>
+                <tr><th>Schedule</th><th>URL</th><th>Failures</th><th>Last error</th></tr>
+                {{#each failedSchedules}}
+                <tr><td>{{name}}</td><td>{{url}}</td><td>{{failedRuns}}</td><td>{{lastError}}</td></tr>
+                {{/each}}
+              </table>
+              {{/if}}
+
+              <p>The full report is attached as a CSV file.</p>
+
+              <p style="text-align: center;">
+                <a href="{{{dashboardUrl}}}" class="button">Open Dashboard</a>
+              </p>
+
+              <p>Best regards,<br>Bug Spy JS Team</p>
+            </div>
+            <div class="footer">
+              <p>You're receiving this because you have weekly reports enabled.</p>
+              <p>Manage your notification preferences in your account settings.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject: `Your weekly Bug Spy report: ${data.periodStart} - ${data.periodEnd}`,
+      template,
+      context: {
+        ...data,
+        hasAverageScore: data.averageScore !== undefined,
+        dashboardUrl,
+      },
+      attachments: [
+        {
+          filename: `weekly-report-${data.periodEnd}.csv`,
+          content: csv,
+          contentType: 'text/csv',
+        },
+      ],
+    });
+
+    this.logger.log(`Weekly report sent to ${email}`);
+  }
 }
@@ -0,0 +1,61 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { EventEmitter } from 'events';
+
+import { DomainEventName, DomainEventPayloads } from './domain-events';
+
+type DomainEventHandler<K extends DomainEventName> = (
+  payload: DomainEventPayloads[K],
+) => void | Promise<void>;
+
+/**
+ * In-process bus for internal domain events.
+ *
+ * Emitting never blocks or fails the emitter: handlers run after the
+ * current call completes and their errors are logged, not rethrown.
+ */
+@Injectable()
+export class DomainEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(DomainEventsService.name);
+  private readonly emitter = new EventEmitter();
+
+  /**
+   * Publish an event to all subscribers
+   */
+  emit<K extends DomainEventName>(
+    event: K,
+    payload: DomainEventPayloads[K],
+  ): void {
+    this.emitter.emit(event, payload);
+  }
+
+  /**
+   * Subscribe to an event
+   *
+   * @returns Function that removes the subscription
+   */
+  on<K extends DomainEventName>(
+    event: K,
+    handler: DomainEventHandler<K>,
+  ): () => void {
+    const listener = (payload: DomainEventPayloads[K]) => {
+      setImmediate(() => {
+        Promise.resolve()
+          .then(() => handler(payload))
+          .catch((error: unknown) => {
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            this.logger.error(`Handler for "${event}" failed: ${errorMessage}`);
+          });
+      });
+    };
+
+    this.emitter.on(event, listener);
+    return () => {
+      this.emitter.off(event, listener);
+    };
+  }
+
+  onModuleDestroy(): void {
+    this.emitter.removeAllListeners();
+  }
+}
@@ -0,0 +1,46 @@
+import { TestResults } from '~/capture-metrics/interfaces/cache.interface';
+
+/**
+ * Internal domain event names
+ */
+export const DOMAIN_EVENTS = {
+  TEST_COMPLETED: 'test.completed',
+  VISUAL_CHANGE_DETECTED: 'visual.change-detected',
+} as const;
+
+/**
+ * Emitted after a test result has been saved to the database
+ */
+export interface TestCompletedEvent {
+  userId: string;
+  testResultId: string; // Saved TestResult document ID
+  url: string;
+  testType: string;
+  status: 'completed' | 'failed';
+  results: TestResults;
+  testId?: string;
+  batchId?: string;
+  scheduleName?: string;
+}
+
+/**
+ * Emitted when a test's full-page screenshot differs from its visual
+ * baseline by more than the baseline's alert percentage
+ */
+export interface VisualChangeDetectedEvent {
+  userId: string;
+  testResultId: string;
+  url: string;
+  deviceType: string;
+  changedPercentage: number;
+  alertPercentage: number;
+  diffImage: string | null;
+  scheduleName?: string;
+}
+
+export interface DomainEventPayloads {
+  [DOMAIN_EVENTS.TEST_COMPLETED]: TestCompletedEvent;
+  [DOMAIN_EVENTS.VISUAL_CHANGE_DETECTED]: VisualChangeDetectedEvent;
+}
+
+export type DomainEventName = keyof DomainEventPayloads;
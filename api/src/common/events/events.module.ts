@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+
+import { DomainEventsService } from './domain-events.service';
+
+/**
+ * Events Module (Global)
+ *
+ * Provides the in-process domain event bus so any module can publish
+ * or subscribe without importing the others.
+ */
+@Global()
+@Module({
+  providers: [DomainEventsService],
+  exports: [DomainEventsService],
+})
+export class EventsModule {}
@@ -0,0 +1,65 @@
+import { readdir, readFile } from 'fs/promises';
+
+/**
+ * Memory of a process and all its descendants in MB, read from /proc; null
+ * where that isn't available (other platforms, exited process).
+ *
+ * Each process counts its proportional set size (PSS): pages shared by
+ * several processes of the tree, like Chromium's zygote-forked renderers,
+ * are split between them instead of being counted once per process as
+ * summing RSS would. Kernels without smaps_rollup fall back to RSS.
+ */
+export async function readProcessTreeMemoryMb(
+  pid: number | undefined,
+): Promise<number | null> {
+  if (!pid) return null;
+
+  try {
+    const pids = (await readdir('/proc')).filter((name) => /^\d+$/.test(name));
+    const parents = new Map<number, number>();
+    await Promise.all(
+      pids.map(async (name) => {
+        const stat = await readFile(`/proc/${name}/stat`, 'utf8').catch(
+          () => null,
+        );
+        if (!stat) return;
+        // Fields after the parenthesised command name: state, ppid, ...
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        parents.set(Number(name), Number(fields[1]));
+      }),
+    );
+    if (!parents.has(pid)) return null;
+
+    const tree = new Set([pid]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const [child, parent] of parents) {
+        if (tree.has(parent) && !tree.has(child)) {
+          tree.add(child);
+          grew = true;
+        }
+      }
+    }
+
+    let totalKb = 0;
+    for (const id of tree) {
+      totalKb += await readProcessMemoryKb(id);
+    }
+    return Math.round(totalKb / 1024);
+  } catch {
+    return null;
+  }
+}
+
+async function readProcessMemoryKb(pid: number): Promise<number> {
+  const rollup = await readFile(`/proc/${pid}/smaps_rollup`, 'utf8').catch(
+    () => '',
+  );
+  const pss = rollup.match(/^Pss:\s+(\d+)\s+kB/m);
+  if (pss) return Number(pss[1]);
+
+  const status = await readFile(`/proc/${pid}/status`, 'utf8').catch(() => '');
+  const rss = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+  return rss ? Number(rss[1]) : 0;
+}
@@ -0,0 +1,4 @@
+/**
+ * Injection token for the shared ioredis client
+ */
+export const REDIS_CLIENT = 'REDIS_CLIENT';
@@ -0,0 +1,46 @@
+import {
+  Global,
+  Inject,
+  Logger,
+  Module,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+
+import { REDIS_CLIENT } from './redis.constants';
+
+/**
+ * Redis Module (Global)
+ *
+ * Provides a shared ioredis client on the same REDIS_URL as the cache.
+ * Services that need blocking commands or pub/sub should duplicate()
+ * it rather than block the shared connection.
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: REDIS_CLIENT,
+      useFactory: (config: ConfigService) => {
+        const logger = new Logger('RedisClient');
+        const client = new Redis(config.get<string>('REDIS_URL')!, {
+          maxRetriesPerRequest: null,
+        });
+        client.on('error', (error) => {
+          logger.error(`Redis connection error: ${error.message}`);
+        });
+        return client;
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [REDIS_CLIENT],
+})
+export class RedisModule implements OnApplicationShutdown {
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.redis.quit().catch(() => this.redis.disconnect());
+  }
+}
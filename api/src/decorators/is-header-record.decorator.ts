@@ -0,0 +1,50 @@
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidationArguments,
+} from 'class-validator';
+
+import { CREDENTIALS_CONFIG } from '~/capture-metrics/config/capture.config';
+
+// RFC 9110 token characters
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Validates a map of extra HTTP request headers: valid names, string
+ * values without line breaks, and no headers the browser manages itself
+ */
+export function IsHeaderRecord(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isHeaderRecord',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown, _: ValidationArguments) {
+          if (value === undefined || value === null) return true; // Optional field
+          if (typeof value !== 'object' || Array.isArray(value)) return false;
+
+          const entries = Object.entries(value);
+          return (
+            entries.length <= CREDENTIALS_CONFIG.MAX_HEADERS &&
+            entries.every(
+              ([name, headerValue]) =>
+                HEADER_NAME.test(name) &&
+                !(
+                  CREDENTIALS_CONFIG.FORBIDDEN_HEADERS as readonly string[]
+                ).includes(name.toLowerCase()) &&
+                typeof headerValue === 'string' &&
+                headerValue.length <=
+                  CREDENTIALS_CONFIG.MAX_HEADER_VALUE_LENGTH &&
+                !/[\r\n]/.test(headerValue),
+            )
+          );
+        },
+        defaultMessage(_: ValidationArguments) {
+          return `headers must map up to ${CREDENTIALS_CONFIG.MAX_HEADERS} valid header names to string values (${CREDENTIALS_CONFIG.FORBIDDEN_HEADERS.join(', ')} are not allowed)`;
+        },
+      },
+    });
+  };
+}
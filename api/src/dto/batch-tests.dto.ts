@@ -0,0 +1,131 @@
+import {
+  IsString,
+  IsOptional,
+  IsIn,
+  IsNumber,
+  IsBoolean,
+  IsArray,
+  IsUrl,
+  Min,
+  Max,
+  Length,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+
+import { IsValidDevice } from '~/decorators/is-valid-device.decorator';
+import { CaptureAuth } from './create-capture-data';
+
+/**
+ * Split a comma-separated query/body value into trimmed, non-empty items
+ */
+const splitCommaSeparated = ({ value }: { value: unknown }) =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0)
+    : value;
+
+/**
+ * DTO for creating a persisted batch test.
+ * URLs and labels are comma-separated, matching the batch SSE query.
+ */
+export class CreateBatchTestDto {
+  @Transform(splitCommaSeparated)
+  @IsArray()
+  @ArrayMinSize(2, {
+    message: 'At least 2 URLs are required for batch testing',
+  })
+  @ArrayMaxSize(50, { message: 'Maximum 50 URLs allowed per batch' })
+  @IsUrl(
+    {
+      protocols: ['http', 'https'],
+      require_protocol: true,
+      allow_underscores: false,
+      host_blacklist: [
+        'localhost',
+        '127.0.0.1',
+        '0.0.0.0',
+        '::1',
+        '169.254.169.254',
+      ],
+    },
+    { each: true, message: 'Each URL must be a valid http(s) URL' },
+  )
+  readonly urls: string[];
+
+  @IsOptional()
+  @Transform(splitCommaSeparated)
+  @IsArray()
+  @IsString({ each: true })
+  readonly labels?: string[];
+
+  @IsOptional()
+  @IsString()
+  @IsIn(['performance', 'screenshot', 'cookie', 'seo', 'accessibility'], {
+    message:
+      'testType must be one of: performance, screenshot, cookie, seo, accessibility',
+  })
+  readonly testType?:
+    | 'performance'
+    | 'screenshot'
+    | 'cookie'
+    | 'seo'
+    | 'accessibility' = 'performance';
+
+  @IsOptional()
+  @IsString()
+  @IsValidDevice()
+  readonly deviceType?: string = 'desktop';
+
+  @IsOptional()
+  @IsString()
+  @IsIn(['3g', '4g', '5g', 'wifi', 'none'], {
+    message: 'networkType must be one of: 3g, 4g, 5g, wifi, none',
+  })
+  readonly networkType?: string = 'wifi';
+
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  readonly sequential?: boolean = false;
+
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  readonly includeScreenshots?: boolean = true;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 200, { message: 'batchName must be between 1 and 200 characters' })
+  readonly batchName?: string;
+
+  // Sent with every URL; stored encrypted until the batch has run
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CaptureAuth)
+  readonly auth?: CaptureAuth;
+}
+
+/**
+ * DTO for listing batch tests with pagination
+ */
+export class GetBatchTestsQueryDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  @Transform(({ value }) => parseInt(value, 10))
+  readonly page?: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  @Transform(({ value }) => parseInt(value, 10))
+  readonly limit?: number = 10;
+}
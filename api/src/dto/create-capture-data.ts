@@ -11,10 +11,230 @@ import {
   ArrayMinSize,
   ArrayMaxSize,
   ValidateNested,
+  IsInt,
+  Min,
+  Max,
+  IsNumber,
+  MaxLength,
+  ValidateIf,
 } from 'class-validator';
-import { Transform, Type } from 'class-transformer';
+import { plainToInstance, Transform, Type } from 'class-transformer';
 
 import { IsValidDevice } from '~/decorators/is-valid-device.decorator';
+import { IsHeaderRecord } from '~/decorators/is-header-record.decorator';
+
+/**
+ * Limits a capture must stay within; a capture that exceeds any of them
+ * is marked failed. Timings are in milliseconds, sizes in kilobytes.
+ */
+export class PerformanceBudget {
+  @IsOptional()
+  @IsNumber({}, { message: 'maxLcp must be a number of milliseconds' })
+  @Min(0)
+  readonly maxLcp?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'maxFcp must be a number of milliseconds' })
+  @Min(0)
+  readonly maxFcp?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'maxTbt must be a number of milliseconds' })
+  @Min(0)
+  readonly maxTbt?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'maxCls must be a number' })
+  @Min(0)
+  readonly maxCls?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'maxScriptKb must be a number of kilobytes' })
+  @Min(0)
+  readonly maxScriptKb?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'maxTotalKb must be a number of kilobytes' })
+  @Min(0)
+  readonly maxTotalKb?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'maxRequests must be a whole number' })
+  @Min(0)
+  readonly maxRequests?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'minPerformanceScore must be a number' })
+  @Min(0, { message: 'minPerformanceScore must be between 0 and 100' })
+  @Max(100, { message: 'minPerformanceScore must be between 0 and 100' })
+  readonly minPerformanceScore?: number;
+}
+
+/**
+ * Cookie set in the browser before navigation
+ */
+export class CaptureCookie {
+  @IsString()
+  @Length(1, 256, { message: 'Cookie name must be between 1 and 256 characters' })
+  @Matches(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, {
+    message: 'Cookie name contains invalid characters',
+  })
+  readonly name: string;
+
+  @IsString()
+  @MaxLength(4096, { message: 'Cookie value must be at most 4096 characters' })
+  readonly value: string;
+
+  // Defaults to the host of the tested URL
+  @IsOptional()
+  @IsString()
+  @Length(1, 253)
+  readonly domain?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^\//, { message: 'Cookie path must start with /' })
+  readonly path?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  readonly secure?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  readonly httpOnly?: boolean;
+}
+
+export class BasicAuthCredentials {
+  @IsString()
+  @Length(1, 256, { message: 'username must be between 1 and 256 characters' })
+  readonly username: string;
+
+  @IsString()
+  @MaxLength(1024, { message: 'password must be at most 1024 characters' })
+  readonly password: string;
+}
+
+/**
+ * Credentials for testing pages behind a login. Extra headers are only sent
+ * to the origin of the tested URL, never to third parties.
+ */
+export class CaptureAuth {
+  @IsOptional()
+  @IsHeaderRecord()
+  readonly headers?: Record<string, string>;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50, { message: 'Maximum 50 cookies allowed' })
+  @ValidateNested({ each: true })
+  @Type(() => CaptureCookie)
+  readonly cookies?: CaptureCookie[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BasicAuthCredentials)
+  readonly basicAuth?: BasicAuthCredentials;
+}
+
+export type JourneyStepAction =
+  | 'navigate'
+  | 'click'
+  | 'type'
+  | 'waitForSelector'
+  | 'assertText';
+
+/**
+ * One step of a scripted journey test. navigate needs a url; click, type
+ * and waitForSelector need a selector; type and assertText need text.
+ * assertText looks in the whole page unless a selector is given.
+ */
+export class JourneyStep {
+  @IsString()
+  @IsIn(['navigate', 'click', 'type', 'waitForSelector', 'assertText'], {
+    message:
+      'action must be one of: navigate, click, type, waitForSelector, assertText',
+  })
+  readonly action: JourneyStepAction;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 100, { message: 'Step name must be between 1 and 100 characters' })
+  readonly name?: string;
+
+  @ValidateIf((step: JourneyStep) => step.action === 'navigate')
+  @IsUrl({
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    allow_underscores: false,
+    host_blacklist: [
+      'localhost',
+      '127.0.0.1',
+      '0.0.0.0',
+      '::1',
+      '169.254.169.254',
+    ],
+  })
+  @Length(1, 2000, { message: 'URL must be between 1 and 2000 characters' })
+  @Matches(/^https?:\/\/(?!.*\.(local|internal|test|dev|staging)(?:\/|$))/i, {
+    message: 'Internal/development domains are not allowed',
+  })
+  readonly url?: string;
+
+  @ValidateIf(
+    (step: JourneyStep) =>
+      ['click', 'type', 'waitForSelector'].includes(step.action) ||
+      step.selector !== undefined,
+  )
+  @IsString()
+  @Length(1, 500, { message: 'selector must be between 1 and 500 characters' })
+  readonly selector?: string;
+
+  @ValidateIf(
+    (step: JourneyStep) =>
+      ['type', 'assertText'].includes(step.action) || step.text !== undefined,
+  )
+  @IsString()
+  @Length(1, 1000, { message: 'text must be between 1 and 1000 characters' })
+  readonly text?: string;
+
+  @IsOptional()
+  @IsInt({ message: 'timeout must be a whole number of milliseconds' })
+  @Min(100, { message: 'timeout must be between 100 and 60000 milliseconds' })
+  @Max(60000, { message: 'timeout must be between 100 and 60000 milliseconds' })
+  readonly timeout?: number;
+}
+
+/**
+ * One viewport of a screenshot matrix: a known device (optionally resized)
+ * or a custom width, with an optional height
+ */
+export class MatrixViewport {
+  @ValidateIf((viewport: MatrixViewport) => viewport.device !== undefined)
+  @IsString()
+  @IsValidDevice()
+  readonly device?: DeviceType;
+
+  @ValidateIf(
+    (viewport: MatrixViewport) =>
+      viewport.device === undefined || viewport.width !== undefined,
+  )
+  @IsInt({ message: 'width must be a whole number of pixels' })
+  @Min(240, { message: 'width must be between 240 and 3840 pixels' })
+  @Max(3840, { message: 'width must be between 240 and 3840 pixels' })
+  readonly width?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'height must be a whole number of pixels' })
+  @Min(240, { message: 'height must be between 240 and 2160 pixels' })
+  @Max(2160, { message: 'height must be between 240 and 2160 pixels' })
+  readonly height?: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 50, { message: 'label must be between 1 and 50 characters' })
+  readonly label?: string;
+}
 
 export class CreateCaptureData {
   @IsUrl({
@@ -44,10 +264,48 @@ export class CreateCaptureData {
 
   @IsOptional()
   @IsString()
-  @IsIn(['performance', 'screenshot', 'cookie', 'seo', 'accessibility'], {
-    message: 'testType must be one of: performance, screenshot, cookie, seo, accessibility',
+  @IsIn(['performance', 'screenshot', 'cookie', 'seo', 'accessibility', 'journey', 'matrix'], {
+    message: 'testType must be one of: performance, screenshot, cookie, seo, accessibility, journey, matrix',
+  })
+  readonly testType?: 'performance' | 'screenshot' | 'cookie' | 'seo' | 'accessibility' | 'journey' | 'matrix';
+
+  // Journey tests: steps run in order in one page after opening url;
+  // query strings pass them as a JSON array
+  @ValidateIf(
+    (o: CreateCaptureData) => o.testType === 'journey' || o.steps !== undefined,
+  )
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return plainToInstance(JourneyStep, JSON.parse(value) as unknown[]);
+    } catch {
+      return value;
+    }
   })
-  readonly testType?: 'performance' | 'screenshot' | 'cookie' | 'seo' | 'accessibility';
+  @IsArray({ message: 'steps must be a JSON array of journey steps' })
+  @ArrayMinSize(1, { message: 'A journey needs at least 1 step' })
+  @ArrayMaxSize(20, { message: 'Maximum 20 journey steps allowed' })
+  @ValidateNested({ each: true })
+  @Type(() => JourneyStep)
+  readonly steps?: JourneyStep[];
+
+  // Matrix tests: viewports to render url at, 360-1920 wide by default;
+  // query strings pass them as a JSON array
+  @ValidateIf((o: CreateCaptureData) => o.viewports !== undefined)
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return plainToInstance(MatrixViewport, JSON.parse(value) as unknown[]);
+    } catch {
+      return value;
+    }
+  })
+  @IsArray({ message: 'viewports must be a JSON array of viewports' })
+  @ArrayMinSize(1, { message: 'A matrix needs at least 1 viewport' })
+  @ArrayMaxSize(10, { message: 'Maximum 10 matrix viewports allowed' })
+  @ValidateNested({ each: true })
+  @Type(() => MatrixViewport)
+  readonly viewports?: MatrixViewport[];
 
   @IsOptional()
   @IsString()
@@ -61,6 +319,67 @@ export class CreateCaptureData {
   @Transform(({ value }) => value === 'true' || value === true)
   readonly includeScreenshots?: boolean = true;
 
+  // Independent page loads to run; the median run is reported
+  @IsOptional()
+  @Transform(({ value }) => Number(value))
+  @IsInt({ message: 'runs must be a whole number' })
+  @Min(1, { message: 'runs must be between 1 and 9' })
+  @Max(9, { message: 'runs must be between 1 and 9' })
+  readonly runs?: number;
+
+  // Reload each run with a warm cache and store the repeat view alongside
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  readonly repeatView?: boolean = false;
+
+  // Record a HAR 1.2 archive of the first view and store it with the screenshots
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  readonly har?: boolean = false;
+
+  // Cookie and authorization headers are only kept when explicitly asked for
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => !(value === 'false' || value === false))
+  readonly redactHeaders?: boolean = true;
+
+  // Group requests and main-thread time by first party and third parties
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  readonly thirdPartyReport?: boolean = false;
+
+  // Re-run with requests matching these URL patterns ("*" wildcards) blocked
+  // and report the metric deltas; query strings pass them comma-separated
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((pattern) => pattern.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray()
+  @ArrayMaxSize(20, { message: 'Maximum 20 blockUrls patterns allowed' })
+  @IsString({ each: true })
+  @Length(1, 200, { each: true })
+  readonly blockUrls?: string[];
+
+  // Assertions evaluated against the collected metrics after capture
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PerformanceBudget)
+  readonly budget?: PerformanceBudget;
+
+  // Request body only; never part of the SSE query string
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CaptureAuth)
+  readonly auth?: CaptureAuth;
+
   @IsOptional()
   @IsString()
   @Length(1, 100, { message: 'testId must be between 1 and 100 characters' })
@@ -191,13 +510,4 @@ export class BatchCaptureQuery {
   @IsString()
   @Length(1, 200, { message: 'batchName must be between 1 and 200 characters' })
   readonly batchName?: string;
-
-  @IsOptional()
-  @IsString()
-  @Length(1, 100, { message: 'batchId must be between 1 and 100 characters' })
-  @Matches(/^[a-zA-Z0-9_-]+$/, {
-    message:
-      'batchId can only contain alphanumeric characters, hyphens, and underscores',
-  })
-  readonly batchId?: string;
 }
@@ -4,6 +4,7 @@ import {
   IsOptional,
   IsIn,
   IsNumber,
+  IsInt,
   Min,
   Max,
   IsDateString,
@@ -15,6 +16,9 @@ import {
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 
+import { CaptureAuth, PerformanceBudget } from './create-capture-data';
+import { VISUAL_REGRESSION_CONFIG } from '~/capture-metrics/config/capture.config';
+
 /**
  * DTO for querying tests with pagination and filters
  */
@@ -119,6 +123,23 @@ export class CreateScheduleDto {
   @IsBoolean()
   readonly includeScreenshots?: boolean = true;
 
+  @IsOptional()
+  @IsInt({ message: 'runs must be a whole number' })
+  @Min(1, { message: 'runs must be between 1 and 9' })
+  @Max(9, { message: 'runs must be between 1 and 9' })
+  readonly runs?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PerformanceBudget)
+  readonly budget?: PerformanceBudget;
+
+  // Stored encrypted; responses only list the credential names
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CaptureAuth)
+  readonly auth?: CaptureAuth;
+
   @IsOptional()
   @IsString()
   readonly description?: string;
@@ -152,10 +173,10 @@ export class UpdateScheduleDto {
 
   @IsOptional()
   @IsString()
-  @IsIn(['performance', 'screenshot', 'cookie'], {
-    message: 'testType must be one of: performance, screenshot, cookie',
+  @IsIn(['performance', 'screenshot', 'cookie', 'seo', 'accessibility'], {
+    message: 'testType must be one of: performance, screenshot, cookie, seo, accessibility',
   })
-  readonly testType?: 'performance' | 'screenshot' | 'cookie';
+  readonly testType?: 'performance' | 'screenshot' | 'cookie' | 'seo' | 'accessibility';
 
   @IsOptional()
   @IsString()
@@ -172,6 +193,23 @@ export class UpdateScheduleDto {
   @IsBoolean()
   readonly includeScreenshots?: boolean;
 
+  @IsOptional()
+  @IsInt({ message: 'runs must be a whole number' })
+  @Min(1, { message: 'runs must be between 1 and 9' })
+  @Max(9, { message: 'runs must be between 1 and 9' })
+  readonly runs?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PerformanceBudget)
+  readonly budget?: PerformanceBudget;
+
+  // Replaces the stored credentials; null removes them
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CaptureAuth)
+  readonly auth?: CaptureAuth | null;
+
   @IsOptional()
   @IsString()
   readonly description?: string;
@@ -368,12 +406,78 @@ export class PerformanceAnalyticsQueryDto {
 
   @IsOptional()
   @IsString()
-  @IsIn(['performance', 'seo', 'screenshot', 'cookie', 'all'], {
-    message: 'testType must be one of: performance, seo, screenshot, cookie, all',
+  @IsIn(['performance', 'seo', 'screenshot', 'cookie', 'accessibility', 'all'], {
+    message: 'testType must be one of: performance, seo, screenshot, cookie, accessibility, all',
   })
   readonly testType?: string = 'all';
 
   @IsOptional()
   @IsString()
   readonly url?: string; // Filter by specific URL
+
+  @IsOptional()
+  @IsDateString()
+  readonly startDate?: string; // Overrides the period start when provided
+
+  @IsOptional()
+  @IsDateString()
+  readonly endDate?: string;
+}
+
+/**
+ * DTO for exporting performance analytics as a file
+ */
+export class AnalyticsExportQueryDto extends PerformanceAnalyticsQueryDto {
+  @IsNotEmpty()
+  @IsString()
+  @IsIn(['csv', 'pdf'], {
+    message: 'format must be one of: csv, pdf',
+  })
+  readonly format: 'csv' | 'pdf';
+}
+
+/**
+ * Area of the page left out of visual comparisons, in CSS pixels
+ */
+export class VisualIgnoreRegionDto {
+  @IsInt({ message: 'x must be a whole number' })
+  @Min(0)
+  readonly x: number;
+
+  @IsInt({ message: 'y must be a whole number' })
+  @Min(0)
+  readonly y: number;
+
+  @IsInt({ message: 'width must be a whole number' })
+  @Min(1)
+  readonly width: number;
+
+  @IsInt({ message: 'height must be a whole number' })
+  @Min(1)
+  readonly height: number;
+}
+
+/**
+ * DTO for making a test's full-page screenshot the visual baseline of its
+ * URL and device
+ */
+export class SetVisualBaselineDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'threshold must be between 0 and 1' })
+  @Max(1, { message: 'threshold must be between 0 and 1' })
+  readonly threshold?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'alertPercentage must be between 0 and 100' })
+  @Max(100, { message: 'alertPercentage must be between 0 and 100' })
+  readonly alertPercentage?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(VISUAL_REGRESSION_CONFIG.MAX_IGNORE_REGIONS)
+  @ValidateNested({ each: true })
+  @Type(() => VisualIgnoreRegionDto)
+  readonly ignoreRegions?: VisualIgnoreRegionDto[];
 }
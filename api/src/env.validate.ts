@@ -83,6 +83,35 @@ class EnvironmentVariables {
   @IsOptional()
   @IsString()
   FRONTEND_URL?: string;
+
+  // Key for capture credentials stored in schedules, batches and jobs
+  @IsString()
+  @MinLength(32)
+  CREDENTIALS_ENCRYPTION_KEY: string;
+
+  // Scheduler (optional, enabled unless set to 'false')
+  @IsOptional()
+  @IsString()
+  SCHEDULER_ENABLED?: string;
+
+  // Weekly report emails (optional, enabled unless set to 'false')
+  @IsOptional()
+  @IsString()
+  WEEKLY_REPORTS_ENABLED?: string;
+
+  // Background capture workers (optional, enabled unless set to 'false')
+  @IsOptional()
+  @IsString()
+  CAPTURE_WORKERS_ENABLED?: string;
+
+  // Browser recycling (optional, 0 disables; defaults in BROWSER_POOL_CONFIG)
+  @IsOptional()
+  @IsNumber()
+  BROWSER_RECYCLE_AFTER_PAGES?: number;
+
+  @IsOptional()
+  @IsNumber()
+  BROWSER_RECYCLE_MEMORY_MB?: number;
 }
 
 export function validate(config: Record<string, unknown>) {
@@ -1,12 +1,29 @@
-import { CallHandler, ExecutionContext, NestInterceptor } from '@nestjs/common';
+import {
+  CallHandler,
+  ExecutionContext,
+  NestInterceptor,
+  StreamableFile,
+} from '@nestjs/common';
+import { SSE_METADATA } from '@nestjs/common/constants';
 import { map } from 'rxjs/operators';
 
 import type { Observable } from 'rxjs';
 
 export class ResponseInterceptor implements NestInterceptor {
-  intercept(_: ExecutionContext, next: CallHandler): Observable<any> {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const isSse = Reflect.getMetadata(SSE_METADATA, context.getHandler());
+
     return next.handle().pipe(
       map((data) => {
+        // File downloads are sent as-is
+        if (data instanceof StreamableFile) return data;
+
+        // SSE event IDs must stay top-level to be written as the id: field
+        if (isSse && data?.id !== undefined) {
+          const { id, ...event } = data;
+          return { id, status: 'success', data: { ...event } };
+        }
+
         return {
           status: 'success',
           data: { ...(data as Record<string, any>) },
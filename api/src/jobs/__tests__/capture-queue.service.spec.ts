@@ -0,0 +1,504 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HttpStatus, MessageEvent } from '@nestjs/common';
+import { Observable, of } from 'rxjs';
+import { CaptureQueueService } from '../capture-queue.service';
+import { REDIS_CLIENT } from '~/common/redis/redis.constants';
+import { CaptureOrchestratorService } from '~/capture-metrics/services/capture-orchestrator.service';
+import { PersistenceService } from '~/capture-metrics/services/persistence.service';
+import { CredentialsService } from '~/capture-metrics/services/credentials.service';
+import { PuppeteerHelpersService } from '~/capture-metrics/services/puppeteer-helpers.service';
+import { CaptureEventLogService } from '../capture-event-log.service';
+import { JOBS_CONFIG } from '../jobs.config';
+
+describe('CaptureQueueService', () => {
+  let service: CaptureQueueService;
+  let redis: any;
+  let transaction: any;
+  let captureOrchestrator: {
+    startCapture: jest.Mock;
+    toClientEvent: jest.Mock;
+  };
+  let persistenceService: { saveTestResult: jest.Mock };
+  let eventLog: { append: jest.Mock; replay: jest.Mock };
+  let subscriberConnection: any;
+  let credentialsService: CredentialsService;
+
+  const storedJob = (overrides: Record<string, string> = {}) => ({
+    id: 'job-1',
+    userId: 'user-1',
+    testId: 'test-1',
+    status: 'queued',
+    captureData: JSON.stringify({
+      url: 'https://example.com',
+      testType: 'performance',
+      testId: 'test-1',
+    }),
+    attempts: '0',
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  });
+
+  const publishedStatuses = () =>
+    redis.publish.mock.calls.map(
+      ([, message]) => JSON.parse(message).data.status,
+    );
+
+  beforeEach(async () => {
+    transaction = {
+      hset: jest.fn().mockReturnThis(),
+      expire: jest.fn().mockReturnThis(),
+      lpush: jest.fn().mockReturnThis(),
+      rpush: jest.fn().mockReturnThis(),
+      lrem: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue([]),
+    };
+    redis = {
+      multi: jest.fn().mockReturnValue(transaction),
+      hset: jest.fn().mockResolvedValue(1),
+      hget: jest.fn().mockResolvedValue(null),
+      hgetall: jest.fn().mockResolvedValue(storedJob()),
+      lrange: jest.fn().mockResolvedValue([]),
+      lrem: jest.fn().mockResolvedValue(1),
+      publish: jest.fn().mockResolvedValue(0),
+      duplicate: jest.fn(),
+    };
+    subscriberConnection = {
+      on: jest.fn(),
+      subscribe: jest.fn().mockResolvedValue(1),
+      unsubscribe: jest.fn().mockResolvedValue(0),
+    };
+    redis.duplicate.mockReturnValue(subscriberConnection);
+    let nextEventId = 0;
+    eventLog = {
+      append: jest
+        .fn()
+        .mockImplementation(() => Promise.resolve(++nextEventId)),
+      replay: jest.fn().mockResolvedValue([]),
+    };
+    captureOrchestrator = {
+      startCapture: jest.fn(),
+      toClientEvent: jest.fn((event) => event),
+    };
+    persistenceService = {
+      saveTestResult: jest.fn().mockResolvedValue('result-1'),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CaptureQueueService,
+        { provide: REDIS_CLIENT, useValue: redis },
+        { provide: CaptureOrchestratorService, useValue: captureOrchestrator },
+        { provide: PersistenceService, useValue: persistenceService },
+        { provide: CaptureEventLogService, useValue: eventLog },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((name: string) =>
+              name === 'CREDENTIALS_ENCRYPTION_KEY'
+                ? 'k'.repeat(32)
+                : undefined,
+            ),
+          },
+        },
+        CredentialsService,
+        { provide: PuppeteerHelpersService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<CaptureQueueService>(CaptureQueueService);
+    credentialsService = module.get<CredentialsService>(CredentialsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('should store the job and push it onto the pending list', async () => {
+      const result = await service.enqueue('user-1', {
+        url: 'https://example.com',
+      });
+
+      expect(result.jobId).toMatch(/^job-\d+-[a-z0-9]+$/);
+      expect(result.status).toBe('queued');
+
+      const [key, hash] = transaction.hset.mock.calls[0];
+      expect(key).toBe(`capture-jobs:job:${result.jobId}`);
+      expect(hash.userId).toBe('user-1');
+      expect(JSON.parse(hash.captureData).testId).toBe(result.testId);
+      expect(transaction.lpush).toHaveBeenCalledWith(
+        'capture-jobs:pending',
+        result.jobId,
+      );
+      expect(eventLog.append).toHaveBeenCalledWith(
+        result.jobId,
+        expect.objectContaining({ status: 'JOB_QUEUED' }),
+      );
+    });
+
+    it('should generate the testId instead of taking it from the request', async () => {
+      const result = await service.enqueue('user-2', {
+        url: 'https://example.com',
+        testId: 'test-of-another-user',
+      });
+
+      expect(result.testId).not.toBe('test-of-another-user');
+      const [, hash] = transaction.hset.mock.calls[0];
+      expect(hash.testId).toBe(result.testId);
+      expect(JSON.parse(hash.captureData).testId).toBe(result.testId);
+    });
+
+    it('should store credentials encrypted, apart from the capture data', async () => {
+      await service.enqueue('user-1', {
+        url: 'https://example.com',
+        auth: { headers: { Authorization: 'Bearer secret-token' } },
+      });
+
+      const [, hash] = transaction.hset.mock.calls[0];
+      expect(JSON.parse(hash.captureData).auth).toBeUndefined();
+      expect(JSON.stringify(hash)).not.toContain('secret-token');
+      expect(credentialsService.decrypt(hash.encryptedAuth)).toEqual({
+        headers: { Authorization: 'Bearer secret-token' },
+      });
+      expect(JSON.parse(hash.authSummary)).toEqual({
+        headers: ['Authorization'],
+        cookies: [],
+        basicAuth: false,
+      });
+    });
+  });
+
+  describe('streamJob', () => {
+    const entry = (id: number, status: string) => ({
+      id,
+      data: { status, jobId: 'job-1' },
+    });
+
+    it('should replay missed events, then continue live without duplicates', async () => {
+      eventLog.replay.mockResolvedValue([
+        entry(3, 'PAGE_ACQUIRED'),
+        entry(4, 'METRICS_START'),
+      ]);
+      const events: MessageEvent[] = [];
+      let completed = false;
+
+      service.streamJob('user-1', 'job-1', 2).subscribe({
+        next: (event) => events.push(event),
+        complete: () => (completed = true),
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(eventLog.replay).toHaveBeenCalledWith('job-1', 2);
+      expect(subscriberConnection.subscribe).toHaveBeenCalledWith(
+        'capture-jobs:events:job-1',
+      );
+
+      const [, onMessage] = subscriberConnection.on.mock.calls[0];
+      onMessage(
+        'capture-jobs:events:job-1',
+        JSON.stringify(entry(4, 'METRICS_START')),
+      );
+      onMessage(
+        'capture-jobs:events:job-1',
+        JSON.stringify(entry(5, 'JOB_COMPLETED')),
+      );
+
+      expect(events.map((event) => event.id)).toEqual(['3', '4', '5']);
+      expect(completed).toBe(true);
+    });
+  });
+
+  describe('getJob', () => {
+    it("should not expose another user's job", async () => {
+      await expect(service.getJob('user-2', 'job-1')).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      });
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should take a queued job off the queue and mark it cancelled', async () => {
+      const result = await service.cancelJob('user-1', 'job-1');
+
+      expect(result.jobId).toBe('job-1');
+      expect(redis.lrem).toHaveBeenCalledWith(
+        'capture-jobs:pending',
+        1,
+        'job-1',
+      );
+      expect(transaction.hset).toHaveBeenCalledWith(
+        'capture-jobs:job:job-1',
+        expect.objectContaining({ status: 'cancelled' }),
+      );
+      expect(publishedStatuses()).toEqual(['JOB_CANCELLED']);
+    });
+
+    it('should ask the worker of a claimed job to cancel it', async () => {
+      redis.hgetall.mockResolvedValue(storedJob({ status: 'running' }));
+      redis.lrem.mockResolvedValue(0);
+
+      await service.cancelJob('user-1', 'job-1');
+
+      expect(redis.hset).toHaveBeenCalledWith(
+        'capture-jobs:job:job-1',
+        expect.objectContaining({ cancelRequestedAt: expect.any(String) }),
+      );
+      expect(redis.publish).toHaveBeenCalledWith(
+        'capture-jobs:events:job-1',
+        expect.any(String),
+      );
+      expect(publishedStatuses()).toEqual(['JOB_CANCEL_REQUESTED']);
+      expect(transaction.hset).not.toHaveBeenCalled();
+    });
+
+    it("should not cancel another user's job or a finished job", async () => {
+      await expect(service.cancelJob('user-2', 'job-1')).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      });
+
+      redis.hgetall.mockResolvedValue(storedJob({ status: 'completed' }));
+      await expect(service.cancelJob('user-1', 'job-1')).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+      expect(redis.lrem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processJob', () => {
+    it('should persist the result and publish the completion', async () => {
+      const results = { status: 'completed', url: 'https://example.com' };
+      captureOrchestrator.startCapture.mockReturnValue(
+        of(
+          { data: { status: 'RUNNING_TESTS' } },
+          { data: { status: 'COMPLETE', results } },
+        ),
+      );
+
+      await service.processJob('job-1');
+
+      expect(persistenceService.saveTestResult).toHaveBeenCalledWith(
+        'user-1',
+        'https://example.com',
+        expect.objectContaining({ testId: 'test-1' }),
+        results,
+        'completed',
+      );
+      expect(transaction.hset).toHaveBeenCalledWith(
+        'capture-jobs:job:job-1',
+        expect.objectContaining({ status: 'completed', resultId: 'result-1' }),
+      );
+      expect(publishedStatuses()).toEqual([
+        'JOB_STARTED',
+        'RUNNING_TESTS',
+        'COMPLETE',
+        'JOB_COMPLETED',
+      ]);
+      expect(redis.lrem).toHaveBeenCalledWith(
+        'capture-jobs:processing',
+        1,
+        'job-1',
+      );
+    });
+
+    it('should publish client events but save the results as stored', async () => {
+      const results = {
+        status: 'completed',
+        har: { key: 'har/test-1/a.har', entries: 3, size: 512, redacted: true },
+      };
+      captureOrchestrator.startCapture.mockReturnValue(
+        of({ data: { status: 'COMPLETE', results } }),
+      );
+      captureOrchestrator.toClientEvent.mockImplementation((event) => ({
+        data: { ...event.data, results: { status: 'completed' } },
+      }));
+
+      await service.processJob('job-1');
+
+      const [, , , saved] = persistenceService.saveTestResult.mock.calls[0];
+      expect(saved).toBe(results);
+      const published = redis.publish.mock.calls
+        .map(([, message]) => JSON.parse(message).data)
+        .find((data) => data.status === 'COMPLETE');
+      expect(published.results).toEqual({ status: 'completed' });
+    });
+
+    it('should mark the job failed when the capture errors', async () => {
+      captureOrchestrator.startCapture.mockReturnValue(
+        of({ data: { status: 'ERROR', error: 'Navigation timeout' } }),
+      );
+
+      await service.processJob('job-1');
+
+      expect(persistenceService.saveTestResult).not.toHaveBeenCalled();
+      expect(transaction.hset).toHaveBeenCalledWith(
+        'capture-jobs:job:job-1',
+        expect.objectContaining({
+          status: 'failed',
+          error: 'Navigation timeout',
+        }),
+      );
+      expect(publishedStatuses()).toContain('JOB_FAILED');
+    });
+
+    it('should abort the capture when a cancel is published for the job', async () => {
+      captureOrchestrator.startCapture.mockImplementation(
+        (_data, signal: AbortSignal) =>
+          new Observable((subscriber) => {
+            signal.addEventListener('abort', () =>
+              subscriber.next({
+                data: { status: 'CANCELLED', message: signal.reason },
+              }),
+            );
+          }),
+      );
+
+      const processing = service.processJob('job-1');
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(subscriberConnection.subscribe).toHaveBeenCalledWith(
+        'capture-jobs:events:job-1',
+      );
+
+      // Published by the instance that received the cancel request
+      const [, onMessage] = subscriberConnection.on.mock.calls[0];
+      onMessage(
+        'capture-jobs:events:job-1',
+        JSON.stringify({ id: 9, data: { status: 'JOB_CANCEL_REQUESTED' } }),
+      );
+      await processing;
+
+      expect(persistenceService.saveTestResult).not.toHaveBeenCalled();
+      expect(transaction.hset).toHaveBeenCalledWith(
+        'capture-jobs:job:job-1',
+        expect.objectContaining({ status: 'cancelled' }),
+      );
+      expect(publishedStatuses()).toContain('JOB_CANCELLED');
+      expect(subscriberConnection.unsubscribe).toHaveBeenCalledWith(
+        'capture-jobs:events:job-1',
+      );
+    });
+
+    it('should not run a job cancelled before its worker was listening', async () => {
+      redis.hget.mockResolvedValue(new Date().toISOString());
+      captureOrchestrator.startCapture.mockImplementation(
+        (_data, signal: AbortSignal) =>
+          of({ data: { status: 'CANCELLED', message: signal.reason } }),
+      );
+
+      await service.processJob('job-1');
+
+      const [, signal] = captureOrchestrator.startCapture.mock.calls[0];
+      expect(signal.aborted).toBe(true);
+      expect(publishedStatuses()).toContain('JOB_CANCELLED');
+    });
+
+    it('should capture with the decrypted credentials and never return them', async () => {
+      const auth = { cookies: [{ name: 'session', value: 'abc123' }] };
+      redis.hgetall.mockResolvedValue(
+        storedJob({ encryptedAuth: credentialsService.encrypt(auth) }),
+      );
+      captureOrchestrator.startCapture.mockReturnValue(
+        of({ data: { status: 'COMPLETE', results: { status: 'completed' } } }),
+      );
+
+      await service.processJob('job-1');
+
+      const [captureData] = captureOrchestrator.startCapture.mock.calls[0];
+      expect(captureData.auth).toEqual(auth);
+      const [, , savedData] = persistenceService.saveTestResult.mock.calls[0];
+      expect(savedData.auth).toBeUndefined();
+      expect(await service.getJob('user-1', 'job-1')).not.toHaveProperty(
+        'encryptedAuth',
+      );
+    });
+  });
+
+  describe('recoverStaleJobs', () => {
+    it('should requeue a job whose worker stopped sending heartbeats', async () => {
+      const staleHeartbeat = new Date(
+        Date.now() - 10 * 60 * 1000,
+      ).toISOString();
+      redis.lrange.mockResolvedValue(['job-1']);
+      redis.hgetall.mockResolvedValue(
+        storedJob({
+          status: 'running',
+          attempts: '1',
+          heartbeatAt: staleHeartbeat,
+        }),
+      );
+
+      await service.recoverStaleJobs();
+
+      expect(redis.lrem).toHaveBeenCalledWith(
+        'capture-jobs:processing',
+        1,
+        'job-1',
+      );
+      expect(transaction.rpush).toHaveBeenCalledWith(
+        'capture-jobs:pending',
+        'job-1',
+      );
+    });
+
+    it('should leave jobs with a recent heartbeat alone', async () => {
+      redis.lrange.mockResolvedValue(['job-1']);
+      redis.hgetall.mockResolvedValue(
+        storedJob({ status: 'running', heartbeatAt: new Date().toISOString() }),
+      );
+
+      await service.recoverStaleJobs();
+
+      expect(redis.lrem).not.toHaveBeenCalled();
+      expect(transaction.rpush).not.toHaveBeenCalled();
+    });
+
+    it('should not requeue a job just claimed by another worker', async () => {
+      jest.useFakeTimers({ now: Date.now() });
+      redis.lrange.mockResolvedValue(['job-1']);
+      // Claimed by BLMOVE long after it was created, not yet marked running
+      redis.hgetall.mockResolvedValue(
+        storedJob({
+          status: 'queued',
+          createdAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+        }),
+      );
+
+      try {
+        await service.recoverStaleJobs();
+        expect(redis.lrem).not.toHaveBeenCalled();
+
+        // Never started: its worker died between the claim and the start
+        jest.advanceTimersByTime(JOBS_CONFIG.STALE_JOB_MS);
+        await service.recoverStaleJobs();
+        expect(transaction.rpush).toHaveBeenCalledWith(
+          'capture-jobs:pending',
+          'job-1',
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should only take finished jobs off the processing list', async () => {
+      redis.lrange.mockResolvedValue(['job-1']);
+      // Its worker died after finishing it but before the LREM
+      redis.hgetall.mockResolvedValue(
+        storedJob({
+          status: 'completed',
+          attempts: '1',
+          heartbeatAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+        }),
+      );
+
+      await service.recoverStaleJobs();
+
+      expect(redis.lrem).toHaveBeenCalledWith(
+        'capture-jobs:processing',
+        0,
+        'job-1',
+      );
+      expect(transaction.rpush).not.toHaveBeenCalled();
+      expect(redis.hset).not.toHaveBeenCalled();
+    });
+  });
+});
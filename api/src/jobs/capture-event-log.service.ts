@@ -0,0 +1,69 @@
+import { Inject, Injectable } from '@nestjs/common';
+import Redis from 'ioredis';
+
+import { REDIS_CLIENT } from '~/common/redis/redis.constants';
+import { JOBS_CONFIG } from './jobs.config';
+
+export interface CaptureEventEntry {
+  id: number;
+  data: Record<string, any> & { status: string };
+}
+
+// Assign the next ID and append in one step so IDs and list order agree
+const APPEND_SCRIPT = `
+local id = redis.call('INCR', KEYS[1])
+redis.call('RPUSH', KEYS[2], '{"id":' .. id .. ',"data":' .. ARGV[1] .. '}')
+redis.call('LTRIM', KEYS[2], -tonumber(ARGV[2]), -1)
+redis.call('EXPIRE', KEYS[1], ARGV[3])
+redis.call('EXPIRE', KEYS[2], ARGV[3])
+return id
+`;
+
+/**
+ * Capture Event Log Service
+ *
+ * Buffers capture events per job in Redis, each with a monotonic ID, so a
+ * client that reconnects with Last-Event-ID can replay what it missed.
+ */
+@Injectable()
+export class CaptureEventLogService {
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  /**
+   * Append an event and return its ID
+   */
+  async append(
+    jobId: string,
+    data: CaptureEventEntry['data'],
+  ): Promise<number> {
+    const id = await this.redis.eval(
+      APPEND_SCRIPT,
+      2,
+      this.sequenceKey(jobId),
+      this.logKey(jobId),
+      JSON.stringify(data),
+      JOBS_CONFIG.EVENT_LOG_MAX_EVENTS,
+      JOBS_CONFIG.JOB_TTL_S,
+    );
+    return Number(id);
+  }
+
+  /**
+   * Events with an ID greater than afterId, oldest first
+   */
+  async replay(jobId: string, afterId = 0): Promise<CaptureEventEntry[]> {
+    const entries = await this.redis.lrange(this.logKey(jobId), 0, -1);
+
+    return entries
+      .map((entry) => JSON.parse(entry) as CaptureEventEntry)
+      .filter((entry) => entry.id > afterId);
+  }
+
+  private sequenceKey(jobId: string): string {
+    return `${JOBS_CONFIG.KEY_PREFIX}:event-seq:${jobId}`;
+  }
+
+  private logKey(jobId: string): string {
+    return `${JOBS_CONFIG.KEY_PREFIX}:event-log:${jobId}`;
+  }
+}
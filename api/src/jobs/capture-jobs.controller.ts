@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  MessageEvent,
+  Param,
+  Post,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+
+import { CreateCaptureData } from '~/dto/create-capture-data';
+import { CurrentUser } from '~/auth/decorators/current-user.decorator';
+import { JwtAuthGuard } from '~/auth/guards/jwt.guard';
+import { AuthenticatedUser } from '~/capture-metrics/interfaces/cache.interface';
+import { CaptureQueueService } from './capture-queue.service';
+
+@Controller('tests')
+@UseGuards(JwtAuthGuard)
+export class CaptureJobsController {
+  private readonly logger = new Logger(CaptureJobsController.name);
+
+  constructor(private readonly captureQueue: CaptureQueueService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createTest(
+    @Body() body: CreateCaptureData,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log(
+      `Queueing capture for user: ${user.email}, url: ${body.url}`,
+    );
+    return this.captureQueue.enqueue(user.id, body);
+  }
+
+  @Get('jobs/:id')
+  @HttpCode(HttpStatus.OK)
+  async getJob(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.captureQueue.getJob(user.id, id);
+  }
+
+  /**
+   * Cancel a queued or running job of the user, whichever instance runs it
+   */
+  @Delete('jobs/:id')
+  @HttpCode(HttpStatus.OK)
+  async cancelJob(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    this.logger.log(
+      `Received cancel request for job ${id} from user: ${user.email}`,
+    );
+    return this.captureQueue.cancelJob(user.id, id);
+  }
+
+  @Sse('jobs/:id/events')
+  @Header('Content-Type', 'text/event-stream')
+  @Header('Connection', 'keep-alive')
+  @Header('Cache-Control', 'no-cache')
+  streamJob(
+    @Param('id') id: string,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Observable<MessageEvent> {
+    // EventSource resends the last ID it saw when it reconnects
+    const resumeAfter = Number(lastEventId);
+    return this.captureQueue.streamJob(
+      user.id,
+      id,
+      Number.isInteger(resumeAfter) && resumeAfter > 0 ? resumeAfter : 0,
+    );
+  }
+}
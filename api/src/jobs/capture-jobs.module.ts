@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+
+import { CaptureJobsController } from './capture-jobs.controller';
+import { CaptureQueueService } from './capture-queue.service';
+import { CaptureEventLogService } from './capture-event-log.service';
+import { CaptureMetricsModule } from '~/capture-metrics/capture-metrics.module';
+import { UtilityModule } from '~/capture-metrics/modules/utility.module';
+
+/**
+ * Capture Jobs Module
+ *
+ * Background capture jobs backed by a Redis queue. Workers run inside
+ * the API process and go through CaptureOrchestratorService like live
+ * captures do. Job events are buffered per testId so streams can be
+ * resumed. RedisModule is @Global() so the client needs no import.
+ */
+@Module({
+  imports: [CaptureMetricsModule, UtilityModule],
+  providers: [CaptureQueueService, CaptureEventLogService],
+  controllers: [CaptureJobsController],
+  exports: [CaptureQueueService],
+})
+export class CaptureJobsModule {}
@@ -0,0 +1,763 @@
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  MessageEvent,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { hostname } from 'os';
+import { Observable, Subscription } from 'rxjs';
+
+import { AppError } from '~/common/app-error.common';
+import { REDIS_CLIENT } from '~/common/redis/redis.constants';
+import { CreateCaptureData } from '~/dto/create-capture-data';
+import { TestResults } from '~/capture-metrics/interfaces/cache.interface';
+import { CaptureOrchestratorService } from '~/capture-metrics/services/capture-orchestrator.service';
+import { PersistenceService } from '~/capture-metrics/services/persistence.service';
+import { CredentialsService } from '~/capture-metrics/services/credentials.service';
+import {
+  CaptureJob,
+  CaptureJobStatus,
+  EnqueueCaptureJobResponse,
+} from './interfaces/capture-job.interface';
+import {
+  CaptureEventEntry,
+  CaptureEventLogService,
+} from './capture-event-log.service';
+import { JOBS_CONFIG } from './jobs.config';
+
+type JobEventData = CaptureEventEntry['data'];
+type JobEventListener = (entry: CaptureEventEntry) => void;
+
+const JOB_STATUS_EVENTS: Record<CaptureJobStatus, string> = {
+  queued: 'JOB_QUEUED',
+  running: 'JOB_STARTED',
+  completed: 'JOB_COMPLETED',
+  failed: 'JOB_FAILED',
+  cancelled: 'JOB_CANCELLED',
+};
+
+const TERMINAL_JOB_STATUSES = new Set<CaptureJobStatus>([
+  'completed',
+  'failed',
+  'cancelled',
+]);
+const TERMINAL_JOB_EVENTS = new Set(
+  [...TERMINAL_JOB_STATUSES].map((status) => JOB_STATUS_EVENTS[status]),
+);
+
+// Published on the job channel to the worker running the job
+const JOB_CANCEL_EVENT = 'JOB_CANCEL_REQUESTED';
+const JOB_CANCEL_REASON = 'Capture cancelled by request';
+
+/**
+ * Capture Queue Service
+ *
+ * Runs captures as background jobs so they survive the client going away:
+ * - Jobs are stored as Redis hashes and queued on a Redis list
+ * - Workers in every API instance move jobs to a processing list with
+ *   BLMOVE, so each job is claimed by exactly one worker
+ * - Running jobs publish their capture events on a per-job channel that
+ *   any number of clients can attach to. Every event is also buffered
+ *   with a monotonic ID so clients can resume with Last-Event-ID
+ * - Jobs whose worker stops sending heartbeats are put back on the queue
+ * - Queued jobs are cancelled by taking them off the queue; running jobs
+ *   are cancelled over their channel by the worker running them, on
+ *   whichever instance that is
+ * - Credentials of authenticated captures are stored encrypted and only
+ *   decrypted by the worker that runs the job
+ */
+@Injectable()
+export class CaptureQueueService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CaptureQueueService.name);
+  private readonly instanceId = `${hostname()}-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+  private readonly workerConnections: Redis[] = [];
+  private readonly workerLoops: Promise<void>[] = [];
+  private readonly activeJobs = new Map<string, AbortController>();
+  // Claimed jobs not yet marked running, by when recovery first saw them
+  private readonly unstartedJobs = new Map<string, number>();
+  private readonly listeners = new Map<string, Set<JobEventListener>>();
+  private subscriber: Redis | null = null;
+  private recoveryTimer: NodeJS.Timeout | null = null;
+  private isShuttingDown = false;
+
+  private readonly pendingKey = `${JOBS_CONFIG.KEY_PREFIX}:pending`;
+  private readonly processingKey = `${JOBS_CONFIG.KEY_PREFIX}:processing`;
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly captureOrchestrator: CaptureOrchestratorService,
+    private readonly persistenceService: PersistenceService,
+    private readonly eventLog: CaptureEventLogService,
+    private readonly configService: ConfigService,
+    private readonly credentialsService: CredentialsService,
+  ) {}
+
+  onModuleInit(): void {
+    if (this.configService.get<string>('CAPTURE_WORKERS_ENABLED') === 'false') {
+      this.logger.log('Capture workers disabled via CAPTURE_WORKERS_ENABLED');
+      return;
+    }
+
+    for (let i = 0; i < JOBS_CONFIG.WORKER_CONCURRENCY; i++) {
+      const connection = this.redis.duplicate();
+      this.workerConnections.push(connection);
+      this.workerLoops.push(this.runWorker(connection));
+    }
+
+    this.recoveryTimer = setInterval(() => {
+      void this.recoverStaleJobs();
+    }, JOBS_CONFIG.RECOVERY_INTERVAL_MS);
+    this.recoveryTimer.unref();
+
+    this.logger.log(
+      `Capture workers started (instance: ${this.instanceId}, concurrency: ${JOBS_CONFIG.WORKER_CONCURRENCY})`,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.isShuttingDown = true;
+
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+
+    // Running jobs are put back on the queue for another instance
+    for (const controller of this.activeJobs.values()) {
+      controller.abort();
+    }
+    await Promise.allSettled(this.workerLoops);
+
+    for (const connection of this.workerConnections) {
+      connection.disconnect();
+    }
+    this.subscriber?.disconnect();
+  }
+
+  /**
+   * Queue a capture and return its job ID immediately
+   */
+  async enqueue(
+    userId: string,
+    captureData: CreateCaptureData,
+  ): Promise<EnqueueCaptureJobResponse> {
+    const jobId = `job-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    // Never taken from the request: the testId names the stored result
+    const testId = `test-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const { auth, ...jobData } = captureData;
+    const job: CaptureJob = {
+      id: jobId,
+      userId,
+      testId,
+      status: 'queued',
+      captureData: { ...jobData, testId },
+      ...(this.credentialsService.hasCredentials(auth)
+        ? {
+            encryptedAuth: this.credentialsService.encrypt(auth),
+            authSummary: this.credentialsService.summarize(auth),
+          }
+        : {}),
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.redis
+        .multi()
+        .hset(this.jobKey(jobId), this.serializeJob(job))
+        .expire(this.jobKey(jobId), JOBS_CONFIG.JOB_TTL_S)
+        .lpush(this.pendingKey, jobId)
+        .exec();
+    } catch (error) {
+      this.logger.error(`Failed to enqueue capture job: ${error.message}`);
+      throw new AppError(
+        'Failed to enqueue capture job',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+
+    await this.publish(job, {
+      status: JOB_STATUS_EVENTS.queued,
+      jobId,
+      testId,
+      timestamp: Date.now(),
+    });
+
+    this.logger.log(`Queued capture job ${jobId} for ${captureData.url}`);
+
+    return {
+      jobId,
+      testId,
+      status: job.status,
+      createdAt: job.createdAt,
+    };
+  }
+
+  /**
+   * Get a job owned by the user
+   */
+  async getJob(
+    userId: string,
+    jobId: string,
+  ): Promise<Omit<CaptureJob, 'userId' | 'heartbeatAt' | 'encryptedAuth'>> {
+    const job = await this.readJob(jobId);
+
+    if (!job || job.userId !== userId) {
+      throw new AppError('Job not found', HttpStatus.NOT_FOUND);
+    }
+
+    const {
+      userId: _owner,
+      heartbeatAt: _heartbeat,
+      encryptedAuth: _credentials,
+      ...view
+    } = job;
+    return view;
+  }
+
+  /**
+   * Cancel a job owned by the user. A queued job is taken off the queue;
+   * a running job is aborted by its worker, which records it as cancelled.
+   */
+  async cancelJob(
+    userId: string,
+    jobId: string,
+  ): Promise<{ message: string; jobId: string }> {
+    const job = await this.readJob(jobId);
+
+    if (!job || job.userId !== userId) {
+      throw new AppError('Job not found', HttpStatus.NOT_FOUND);
+    }
+    if (TERMINAL_JOB_STATUSES.has(job.status)) {
+      throw new AppError(
+        `Job ${jobId} has already finished`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    // Only the instance that removes the job may cancel it before it runs
+    const removed = await this.redis.lrem(this.pendingKey, 1, jobId);
+    if (removed) {
+      await this.finishJob(job, {
+        status: 'cancelled',
+        error: JOB_CANCEL_REASON,
+      });
+    } else {
+      // Claimed by a worker: recorded for a worker that has not started
+      // listening yet, published for one that has
+      await this.redis.hset(this.jobKey(jobId), {
+        cancelRequestedAt: new Date().toISOString(),
+      });
+      await this.publish(job, {
+        status: JOB_CANCEL_EVENT,
+        jobId,
+        testId: job.testId,
+        timestamp: Date.now(),
+      });
+    }
+
+    this.logger.log(`Cancelled capture job ${jobId}`);
+    return { message: 'Capture cancelled successfully', jobId };
+  }
+
+  /**
+   * Attach to a job's event stream. Events after lastEventId are replayed
+   * from the buffer before live events continue; the stream completes once
+   * the job has finished.
+   */
+  streamJob(
+    userId: string,
+    jobId: string,
+    lastEventId = 0,
+  ): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      let lastSentId = lastEventId;
+      let finished = false;
+      let replaying = true;
+      const liveDuringReplay: CaptureEventEntry[] = [];
+
+      const send = (entry: CaptureEventEntry) => {
+        if (finished || entry.id <= lastSentId) return;
+        lastSentId = entry.id;
+        subscriber.next({
+          id: String(entry.id),
+          data: entry.data,
+        });
+        if (TERMINAL_JOB_EVENTS.has(entry.data.status)) {
+          finished = true;
+          subscriber.complete();
+        }
+      };
+
+      const onEvent: JobEventListener = (entry) => {
+        if (replaying) {
+          liveDuringReplay.push(entry);
+        } else {
+          send(entry);
+        }
+      };
+
+      // Listen before replaying so no event falls between the two
+      this.getJob(userId, jobId)
+        .then((job) =>
+          this.addListener(jobId, onEvent).then(() =>
+            this.eventLog.replay(job.id, lastEventId),
+          ),
+        )
+        .then(async (missed) => {
+          missed.forEach(send);
+          replaying = false;
+          liveDuringReplay.forEach(send);
+
+          // Jobs without a buffered history only get their current state
+          if (!finished && lastSentId === 0) {
+            const job = await this.readJob(jobId);
+            if (job) {
+              subscriber.next({
+                data: this.toStatusEvent(job),
+              });
+              if (TERMINAL_JOB_STATUSES.has(job.status)) {
+                finished = true;
+                subscriber.complete();
+              }
+            }
+          }
+        })
+        .catch((error) => {
+          finished = true;
+          subscriber.error(error);
+        });
+
+      return () => {
+        void this.removeListener(jobId, onEvent);
+      };
+    });
+  }
+
+  /**
+   * Move jobs whose worker stopped sending heartbeats back onto the queue.
+   *
+   * A job is still queued between its claim by BLMOVE and the worker
+   * marking it running, so its age says nothing about that worker. Such a
+   * job is only recovered once it has stayed unstarted in the processing
+   * list for a whole stale period, as seen by this instance.
+   */
+  async recoverStaleJobs(): Promise<void> {
+    try {
+      const jobIds = await this.redis.lrange(this.processingKey, 0, -1);
+      const now = Date.now();
+
+      for (const jobId of this.unstartedJobs.keys()) {
+        if (!jobIds.includes(jobId)) this.unstartedJobs.delete(jobId);
+      }
+
+      for (const jobId of jobIds) {
+        if (this.activeJobs.has(jobId)) continue;
+
+        // A finished job only lingers here if its worker died before
+        // taking it off the list; there is nothing left to run
+        const job = await this.readJob(jobId);
+        if (!job || TERMINAL_JOB_STATUSES.has(job.status)) {
+          this.unstartedJobs.delete(jobId);
+          await this.redis.lrem(this.processingKey, 0, jobId);
+          continue;
+        }
+
+        let lastSeen: number;
+        if (job.status === 'running' && job.heartbeatAt) {
+          lastSeen = Date.parse(job.heartbeatAt);
+        } else {
+          lastSeen = this.unstartedJobs.get(jobId) ?? now;
+          this.unstartedJobs.set(jobId, lastSeen);
+        }
+        if (now - lastSeen < JOBS_CONFIG.STALE_JOB_MS) continue;
+        this.unstartedJobs.delete(jobId);
+
+        // Only the instance that removes the job may recover it
+        const removed = await this.redis.lrem(this.processingKey, 1, jobId);
+        if (!removed) continue;
+
+        if (job.attempts >= JOBS_CONFIG.MAX_ATTEMPTS) {
+          this.logger.warn(
+            `Capture job ${jobId} failed after ${job.attempts} attempts`,
+          );
+          await this.finishJob(job, {
+            status: 'failed',
+            error: 'Capture worker stopped responding',
+          });
+        } else {
+          this.logger.warn(`Requeueing stale capture job ${jobId}`);
+          await this.redis
+            .multi()
+            .hset(this.jobKey(jobId), { status: 'queued' })
+            .rpush(this.pendingKey, jobId)
+            .exec();
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to recover stale capture jobs: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Run one claimed job and record its outcome
+   */
+  async processJob(jobId: string): Promise<void> {
+    const job = await this.readJob(jobId);
+    if (!job) {
+      await this.redis.lrem(this.processingKey, 0, jobId);
+      return;
+    }
+
+    const controller = new AbortController();
+    this.activeJobs.set(jobId, controller);
+
+    // Listen before checking for a cancel so none falls in between
+    const onCancel: JobEventListener = (entry) => {
+      if (entry.data.status === JOB_CANCEL_EVENT) {
+        controller.abort(JOB_CANCEL_REASON);
+      }
+    };
+    await this.addListener(jobId, onCancel);
+    if (await this.redis.hget(this.jobKey(jobId), 'cancelRequestedAt')) {
+      controller.abort(JOB_CANCEL_REASON);
+    }
+
+    const startedAt = new Date().toISOString();
+    await this.redis.hset(this.jobKey(jobId), {
+      status: 'running',
+      startedAt,
+      heartbeatAt: startedAt,
+      attempts: String(job.attempts + 1),
+    });
+    await this.publish(job, {
+      status: JOB_STATUS_EVENTS.running,
+      jobId,
+      testId: job.testId,
+      timestamp: Date.now(),
+    });
+
+    const heartbeat = setInterval(() => {
+      void this.redis
+        .hset(this.jobKey(jobId), { heartbeatAt: new Date().toISOString() })
+        .catch(() => undefined);
+    }, JOBS_CONFIG.HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+
+    try {
+      const results = await this.runCapture(job, controller.signal);
+      const status = results.status === 'failed' ? 'failed' : 'completed';
+      const resultId = await this.persistenceService.saveTestResult(
+        job.userId,
+        job.captureData.url,
+        job.captureData,
+        results,
+        status,
+      );
+
+      await this.finishJob(job, { status, resultId });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      if (this.isShuttingDown) {
+        this.logger.log(
+          `Returning capture job ${jobId} to the queue on shutdown`,
+        );
+        await this.redis
+          .multi()
+          .hset(this.jobKey(jobId), { status: 'queued' })
+          .lrem(this.processingKey, 1, jobId)
+          .rpush(this.pendingKey, jobId)
+          .exec();
+        return;
+      }
+
+      if (controller.signal.reason === JOB_CANCEL_REASON) {
+        this.logger.log(`Capture job ${jobId} cancelled`);
+        await this.finishJob(job, {
+          status: 'cancelled',
+          error: JOB_CANCEL_REASON,
+        });
+        return;
+      }
+
+      this.logger.warn(`Capture job ${jobId} failed: ${errorMessage}`);
+      await this.finishJob(job, { status: 'failed', error: errorMessage });
+    } finally {
+      clearInterval(heartbeat);
+      this.activeJobs.delete(jobId);
+      await this.removeListener(jobId, onCancel);
+      await this.redis.lrem(this.processingKey, 1, jobId).catch(() => 0);
+    }
+  }
+
+  /**
+   * Claim jobs one at a time until shutdown
+   */
+  private async runWorker(connection: Redis): Promise<void> {
+    while (!this.isShuttingDown) {
+      try {
+        const jobId = await connection.blmove(
+          this.pendingKey,
+          this.processingKey,
+          'RIGHT',
+          'LEFT',
+          JOBS_CONFIG.BLOCKING_POP_TIMEOUT_S,
+        );
+        if (jobId && !this.isShuttingDown) {
+          await this.processJob(jobId);
+        } else if (jobId) {
+          await this.redis
+            .multi()
+            .lrem(this.processingKey, 1, jobId)
+            .rpush(this.pendingKey, jobId)
+            .exec();
+        }
+      } catch (error) {
+        if (this.isShuttingDown) break;
+        this.logger.error(`Capture worker error: ${error.message}`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+  }
+
+  /**
+   * Run the capture, forwarding every event to the job channel, and
+   * resolve with the final results
+   */
+  private runCapture(
+    job: CaptureJob,
+    abortSignal: AbortSignal,
+  ): Promise<TestResults> {
+    const captureData: CreateCaptureData = job.encryptedAuth
+      ? {
+          ...job.captureData,
+          auth: this.credentialsService.decrypt(job.encryptedAuth),
+        }
+      : job.captureData;
+
+    return new Promise<TestResults>((resolve, reject) => {
+      let subscription: Subscription | undefined;
+      let settled = false;
+
+      const settle = (fn: () => void) => {
+        if (settled) return;
+        settled = true;
+        subscription?.unsubscribe();
+        fn();
+      };
+
+      subscription = this.captureOrchestrator
+        .startCapture(captureData, abortSignal, job.userId)
+        .subscribe({
+          next: (event: MessageEvent) => {
+            if (!event?.data || typeof event.data !== 'object') return;
+            const data = event.data as JobEventData;
+
+            // The job log is replayed to clients; results are saved as is
+            void this.publish(job, {
+              ...this.captureOrchestrator.toClientEvent({ ...event, data })
+                .data,
+              jobId: job.id,
+            });
+
+            if (data.status === 'COMPLETE') {
+              settle(() => resolve(data.results as TestResults));
+            } else if (
+              ['ERROR', 'TIMEOUT', 'CANCELLED'].includes(data.status)
+            ) {
+              settle(() =>
+                reject(
+                  new Error(data.error || data.message || 'Capture failed'),
+                ),
+              );
+            }
+          },
+          error: (error: unknown) =>
+            settle(() =>
+              reject(error instanceof Error ? error : new Error(String(error))),
+            ),
+          complete: () =>
+            settle(() =>
+              reject(new Error('Capture stream ended without a result')),
+            ),
+        });
+
+      // The stream may have settled synchronously before subscribe returned
+      if (settled) subscription.unsubscribe();
+    });
+  }
+
+  /**
+   * Record the final job state and notify attached clients
+   */
+  private async finishJob(
+    job: CaptureJob,
+    outcome: {
+      status: 'completed' | 'failed' | 'cancelled';
+      resultId?: string;
+      error?: string;
+    },
+  ): Promise<void> {
+    const completedAt = new Date().toISOString();
+    const update: Record<string, string> = {
+      status: outcome.status,
+      completedAt,
+    };
+    if (outcome.resultId) update.resultId = outcome.resultId;
+    if (outcome.error) update.error = outcome.error;
+
+    try {
+      await this.redis
+        .multi()
+        .hset(this.jobKey(job.id), update)
+        .expire(this.jobKey(job.id), JOBS_CONFIG.JOB_TTL_S)
+        .exec();
+    } catch (error) {
+      this.logger.error(
+        `Failed to record outcome of capture job ${job.id}: ${error.message}`,
+      );
+    }
+
+    await this.publish(job, {
+      status: JOB_STATUS_EVENTS[outcome.status],
+      jobId: job.id,
+      testId: job.testId,
+      resultId: outcome.resultId,
+      error: outcome.error,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Buffer an event under the job's ID, then publish it to live listeners
+   */
+  private async publish(
+    job: Pick<CaptureJob, 'id'>,
+    data: JobEventData,
+  ): Promise<void> {
+    try {
+      const id = await this.eventLog.append(job.id, data);
+      await this.redis.publish(
+        this.channelKey(job.id),
+        JSON.stringify({ id, data }),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish event for job ${job.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private async addListener(
+    jobId: string,
+    listener: JobEventListener,
+  ): Promise<void> {
+    let jobListeners = this.listeners.get(jobId);
+    if (!jobListeners) {
+      jobListeners = new Set();
+      this.listeners.set(jobId, jobListeners);
+      await this.getSubscriber().subscribe(this.channelKey(jobId));
+    }
+    jobListeners.add(listener);
+  }
+
+  private async removeListener(
+    jobId: string,
+    listener: JobEventListener,
+  ): Promise<void> {
+    const jobListeners = this.listeners.get(jobId);
+    if (!jobListeners) return;
+
+    jobListeners.delete(listener);
+    if (jobListeners.size === 0) {
+      this.listeners.delete(jobId);
+      await this.subscriber
+        ?.unsubscribe(this.channelKey(jobId))
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * One subscriber connection per instance, fanned out to local listeners
+   */
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = this.redis.duplicate();
+      this.subscriber.on('message', (channel: string, message: string) => {
+        const jobId = channel.substring(this.channelKey('').length);
+        const jobListeners = this.listeners.get(jobId);
+        if (!jobListeners) return;
+
+        try {
+          const entry = JSON.parse(message) as CaptureEventEntry;
+          for (const listener of jobListeners) {
+            listener(entry);
+          }
+        } catch (error) {
+          this.logger.warn(`Ignoring malformed event for job ${jobId}`);
+        }
+      });
+    }
+    return this.subscriber;
+  }
+
+  private toStatusEvent(job: CaptureJob): JobEventData {
+    return {
+      status: JOB_STATUS_EVENTS[job.status],
+      jobId: job.id,
+      testId: job.testId,
+      resultId: job.resultId,
+      error: job.error,
+      timestamp: Date.now(),
+    };
+  }
+
+  private async readJob(jobId: string): Promise<CaptureJob | null> {
+    const hash = await this.redis.hgetall(this.jobKey(jobId));
+    if (!hash || !hash.id) return null;
+
+    return {
+      id: hash.id,
+      userId: hash.userId,
+      testId: hash.testId,
+      status: hash.status as CaptureJobStatus,
+      captureData: JSON.parse(hash.captureData),
+      encryptedAuth: hash.encryptedAuth,
+      authSummary: hash.authSummary ? JSON.parse(hash.authSummary) : undefined,
+      attempts: Number(hash.attempts) || 0,
+      createdAt: hash.createdAt,
+      startedAt: hash.startedAt,
+      completedAt: hash.completedAt,
+      heartbeatAt: hash.heartbeatAt,
+      cancelRequestedAt: hash.cancelRequestedAt,
+      resultId: hash.resultId,
+      error: hash.error,
+    };
+  }
+
+  private serializeJob(job: CaptureJob): Record<string, string> {
+    const hash: Record<string, string> = {};
+    for (const [key, value] of Object.entries(job)) {
+      if (value === undefined) continue;
+      hash[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return hash;
+  }
+
+  private jobKey(jobId: string): string {
+    return `${JOBS_CONFIG.KEY_PREFIX}:job:${jobId}`;
+  }
+
+  private channelKey(jobId: string): string {
+    return `${JOBS_CONFIG.KEY_PREFIX}:events:${jobId}`;
+  }
+}
@@ -0,0 +1,37 @@
+import { CreateCaptureData } from '~/dto/create-capture-data';
+import { CaptureAuthSummary } from '~/capture-metrics/interfaces/cache.interface';
+
+export type CaptureJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * A capture job as stored in its Redis hash
+ */
+export interface CaptureJob {
+  id: string;
+  userId: string;
+  testId: string;
+  status: CaptureJobStatus;
+  captureData: CreateCaptureData; // Without auth
+  encryptedAuth?: string; // Credentials, decrypted only by the worker
+  authSummary?: CaptureAuthSummary;
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  heartbeatAt?: string;
+  cancelRequestedAt?: string; // Set for the worker running the job
+  resultId?: string;
+  error?: string;
+}
+
+export interface EnqueueCaptureJobResponse {
+  jobId: string;
+  testId: string;
+  status: CaptureJobStatus;
+  createdAt: string;
+}
@@ -0,0 +1,14 @@
+/**
+ * Capture Job Queue Configuration
+ */
+export const JOBS_CONFIG = {
+  KEY_PREFIX: 'capture-jobs', // Namespace for every queue key in Redis
+  WORKER_CONCURRENCY: 2, // Per instance - shares the browser pool with live traffic
+  BLOCKING_POP_TIMEOUT_S: 5, // Workers re-check for shutdown between waits
+  HEARTBEAT_INTERVAL_MS: 15000, // Running jobs refresh their heartbeat this often
+  STALE_JOB_MS: 120000, // 2 minutes without a heartbeat - the worker died
+  RECOVERY_INTERVAL_MS: 60000, // Look for stale jobs every minute
+  MAX_ATTEMPTS: 3, // Give up on a job after this many stale recoveries
+  JOB_TTL_S: 86400, // Job records are kept for a day
+  EVENT_LOG_MAX_EVENTS: 500, // Oldest events are dropped from a test's replay buffer
+} as const;
@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { NotificationService } from '../notification.service';
+import { EmailService } from '~/common/email/email.service';
+import { TestResult } from '~/capture-metrics/schemas/test-result.schema';
+import { User } from '~/users/schema/user.schema';
+import { DomainEventsService } from '~/common/events/domain-events.service';
+import {
+  DOMAIN_EVENTS,
+  TestCompletedEvent,
+} from '~/common/events/domain-events';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let emailService: {
+    sendScoreDropNotification: jest.Mock;
+    sendTestCompletionNotification: jest.Mock;
+    sendVisualChangeNotification: jest.Mock;
+  };
+  let testResultModel: { findOne: jest.Mock };
+  let userModel: { findById: jest.Mock };
+  let domainEvents: { on: jest.Mock };
+
+  const mockUserId = new Types.ObjectId().toString();
+  const mockResultId = new Types.ObjectId().toString();
+
+  const queryResult = (value: unknown) => {
+    const query: any = {
+      sort: jest.fn().mockReturnThis(),
+      skip: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(value),
+    };
+    return query;
+  };
+
+  const mockUser = (preferences: Record<string, unknown>) => ({
+    email: 'user@example.com',
+    notificationPreferences: {
+      scoreDropAlerts: true,
+      scoreDropThreshold: 10,
+      weeklyReports: true,
+      testCompletionAlerts: false,
+      ...preferences,
+    },
+  });
+
+  const event = (score: number): TestCompletedEvent => ({
+    userId: mockUserId,
+    testResultId: mockResultId,
+    url: 'https://example.com',
+    testType: 'performance',
+    status: 'completed',
+    results: {
+      url: 'https://example.com',
+      deviceType: 'desktop',
+      testType: 'performance',
+      timestamp: Date.now(),
+      status: 'completed',
+      cookieHandling: null,
+      webMetrics: { performanceScore: score },
+      screenshots: null,
+      consoleErrors: null,
+    },
+  });
+
+  beforeEach(async () => {
+    emailService = {
+      sendScoreDropNotification: jest.fn().mockResolvedValue(undefined),
+      sendTestCompletionNotification: jest.fn().mockResolvedValue(undefined),
+      sendVisualChangeNotification: jest.fn().mockResolvedValue(undefined),
+    };
+    testResultModel = {
+      findOne: jest.fn().mockReturnValue(
+        queryResult({ performanceScore: 90, results: {} }),
+      ),
+    };
+    userModel = { findById: jest.fn() };
+    domainEvents = { on: jest.fn().mockReturnValue(jest.fn()) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationService,
+        { provide: EmailService, useValue: emailService },
+        { provide: getModelToken(TestResult.name), useValue: testResultModel },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: DomainEventsService, useValue: domainEvents },
+      ],
+    }).compile();
+
+    service = module.get<NotificationService>(NotificationService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should subscribe to test.completed on init', () => {
+    service.onModuleInit();
+
+    expect(domainEvents.on).toHaveBeenCalledWith(
+      DOMAIN_EVENTS.TEST_COMPLETED,
+      expect.any(Function),
+    );
+  });
+
+  describe('handleTestCompleted', () => {
+    it("should use the user's score drop threshold", async () => {
+      userModel.findById.mockReturnValue(queryResult(mockUser({})));
+
+      // 90 -> 84 is below the user's threshold of 10
+      await service.handleTestCompleted(event(84));
+      expect(emailService.sendScoreDropNotification).not.toHaveBeenCalled();
+
+      // 90 -> 78 meets it
+      await service.handleTestCompleted(event(78));
+      expect(emailService.sendScoreDropNotification).toHaveBeenCalledWith(
+        'user@example.com',
+        expect.objectContaining({
+          previousScore: 90,
+          currentScore: 78,
+          scoreDrop: 12,
+          testId: mockResultId,
+        }),
+      );
+    });
+
+    it('should skip score drop checks when alerts are disabled', async () => {
+      userModel.findById.mockReturnValue(
+        queryResult(mockUser({ scoreDropAlerts: false })),
+      );
+
+      await service.handleTestCompleted(event(40));
+
+      expect(testResultModel.findOne).not.toHaveBeenCalled();
+      expect(emailService.sendScoreDropNotification).not.toHaveBeenCalled();
+    });
+
+    it('should send a completion email only when enabled', async () => {
+      userModel.findById.mockReturnValue(queryResult(mockUser({})));
+      await service.handleTestCompleted(event(90));
+      expect(emailService.sendTestCompletionNotification).not.toHaveBeenCalled();
+
+      userModel.findById.mockReturnValue(
+        queryResult(mockUser({ testCompletionAlerts: true })),
+      );
+      await service.handleTestCompleted(event(90));
+      expect(emailService.sendTestCompletionNotification).toHaveBeenCalledWith(
+        'user@example.com',
+        expect.objectContaining({
+          url: 'https://example.com',
+          status: 'completed',
+          score: 90,
+          testId: mockResultId,
+        }),
+      );
+    });
+  });
+
+  describe('handleVisualChange', () => {
+    const visualChange = {
+      userId: mockUserId,
+      testResultId: mockResultId,
+      url: 'https://example.com',
+      deviceType: 'desktop',
+      changedPercentage: 4.2,
+      alertPercentage: 1,
+      diffImage: 'https://s3.example/diff.png',
+    };
+
+    it('should send a visual change email unless disabled', async () => {
+      // Users created before the preference existed get alerts
+      userModel.findById.mockReturnValue(queryResult(mockUser({})));
+      await service.handleVisualChange(visualChange);
+      expect(emailService.sendVisualChangeNotification).toHaveBeenCalledWith(
+        'user@example.com',
+        expect.objectContaining({
+          changedPercentage: 4.2,
+          diffImage: 'https://s3.example/diff.png',
+          testId: mockResultId,
+        }),
+      );
+
+      emailService.sendVisualChangeNotification.mockClear();
+      userModel.findById.mockReturnValue(
+        queryResult(mockUser({ visualChangeAlerts: false })),
+      );
+      await service.handleVisualChange(visualChange);
+      expect(emailService.sendVisualChangeNotification).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { WeeklyReportService } from '../weekly-report.service';
+import { EmailService } from '~/common/email/email.service';
+import { TestResult } from '~/capture-metrics/schemas/test-result.schema';
+import { TestSchedule } from '~/capture-metrics/schemas/test-schedule.schema';
+import { User } from '~/users/schema/user.schema';
+
+describe('WeeklyReportService', () => {
+  let service: WeeklyReportService;
+  let emailService: { sendWeeklyReport: jest.Mock };
+  let userModel: { findOneAndUpdate: jest.Mock };
+  let testResultModel: { find: jest.Mock };
+  let testScheduleModel: { find: jest.Mock };
+
+  const mockUserId = new Types.ObjectId().toString();
+  const periodEnd = new Date('2024-01-15T09:00:00Z');
+  const thisWeek = new Date('2024-01-12T09:00:00Z');
+  const lastWeek = new Date('2024-01-05T09:00:00Z');
+
+  const queryResult = (value: unknown) => {
+    const query: any = {
+      select: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(value),
+    };
+    return query;
+  };
+
+  const mockTests = [
+    {
+      url: 'https://a.com',
+      status: 'completed',
+      createdAt: lastWeek,
+      performanceScore: 90,
+    },
+    {
+      url: 'https://a.com',
+      status: 'completed',
+      createdAt: thisWeek,
+      performanceScore: 70,
+    },
+    { url: 'https://a.com', status: 'failed', createdAt: thisWeek },
+    {
+      url: 'https://b.com',
+      status: 'completed',
+      createdAt: lastWeek,
+      results: { webMetrics: { performanceScore: 60 } },
+    },
+    {
+      url: 'https://b.com',
+      status: 'completed',
+      createdAt: thisWeek,
+      results: { webMetrics: { performanceScore: 80 } },
+    },
+  ];
+
+  const mockSchedules = [
+    {
+      name: 'Nightly',
+      url: 'https://a.com',
+      executionLogs: [
+        { timestamp: lastWeek, status: 'failed', message: 'Old failure' },
+        { timestamp: thisWeek, status: 'success' },
+        {
+          timestamp: thisWeek,
+          status: 'failed',
+          message: 'Navigation timeout',
+        },
+      ],
+    },
+  ];
+
+  beforeEach(async () => {
+    emailService = { sendWeeklyReport: jest.fn().mockResolvedValue(undefined) };
+    userModel = { findOneAndUpdate: jest.fn() };
+    testResultModel = {
+      find: jest.fn().mockReturnValue(queryResult(mockTests)),
+    };
+    testScheduleModel = {
+      find: jest.fn().mockReturnValue(queryResult(mockSchedules)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WeeklyReportService,
+        { provide: EmailService, useValue: emailService },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: getModelToken(TestResult.name), useValue: testResultModel },
+        {
+          provide: getModelToken(TestSchedule.name),
+          useValue: testScheduleModel,
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<WeeklyReportService>(WeeklyReportService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildReport', () => {
+    it('should summarize runs and compare scores with the previous week', async () => {
+      const report = await service.buildReport(mockUserId, periodEnd);
+
+      expect(report).toMatchObject({
+        periodStart: '2024-01-08',
+        periodEnd: '2024-01-15',
+        totalRuns: 3,
+        completedRuns: 2,
+        failedRuns: 1,
+        averageScore: 75,
+      });
+      expect(report.urls[0]).toEqual({
+        url: 'https://a.com',
+        runs: 2,
+        failedRuns: 1,
+        averageScore: 70,
+        previousScore: 90,
+        change: -20,
+      });
+      expect(report.regressions).toEqual([
+        {
+          url: 'https://a.com',
+          previousScore: 90,
+          currentScore: 70,
+          change: -20,
+        },
+      ]);
+      expect(report.improvements).toEqual([
+        {
+          url: 'https://b.com',
+          previousScore: 60,
+          currentScore: 80,
+          change: 20,
+        },
+      ]);
+    });
+
+    it('should only count schedule failures within the period', async () => {
+      const report = await service.buildReport(mockUserId, periodEnd);
+
+      expect(report.failedSchedules).toEqual([
+        {
+          name: 'Nightly',
+          url: 'https://a.com',
+          failedRuns: 1,
+          lastError: 'Navigation timeout',
+        },
+      ]);
+    });
+  });
+
+  describe('sendDueReports', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({
+        now: periodEnd,
+        doNotFake: ['nextTick', 'setImmediate'],
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should email each claimed user with a CSV attachment', async () => {
+      userModel.findOneAndUpdate
+        .mockReturnValueOnce(
+          queryResult({ _id: mockUserId, email: 'user@example.com' }),
+        )
+        .mockReturnValueOnce(queryResult(null));
+
+      await service.sendDueReports();
+
+      const [filter, update] = userModel.findOneAndUpdate.mock.calls[0];
+      expect(filter['notificationPreferences.weeklyReports']).toBe(true);
+      expect(update.$set.lastWeeklyReportAt).toBeInstanceOf(Date);
+
+      const [email, report, csv] = emailService.sendWeeklyReport.mock.calls[0];
+      expect(email).toBe('user@example.com');
+      expect(report.totalRuns).toBe(3);
+      expect(csv.split('\n')).toContain('https://a.com,2,1,70,90,-20');
+      expect(csv.split('\n')).toContain(
+        'Nightly,https://a.com,1,Navigation timeout',
+      );
+    });
+
+    it('should skip users without activity in the period', async () => {
+      testResultModel.find.mockReturnValue(queryResult([]));
+      testScheduleModel.find.mockReturnValue(queryResult([]));
+      userModel.findOneAndUpdate
+        .mockReturnValueOnce(
+          queryResult({ _id: mockUserId, email: 'user@example.com' }),
+        )
+        .mockReturnValueOnce(queryResult(null));
+
+      await service.sendDueReports();
+
+      expect(emailService.sendWeeklyReport).not.toHaveBeenCalled();
+    });
+  });
+});
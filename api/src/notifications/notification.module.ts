@@ -2,11 +2,16 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 
 import { NotificationService } from './notification.service';
+import { WeeklyReportService } from './weekly-report.service';
 import { EmailModule } from '~/common/email/email.module';
 import {
   TestResult,
   TestResultSchema,
 } from '~/capture-metrics/schemas/test-result.schema';
+import {
+  TestSchedule,
+  TestScheduleSchema,
+} from '~/capture-metrics/schemas/test-schedule.schema';
 import { User, UserSchema } from '~/users/schema/user.schema';
 
 @Module({
@@ -15,9 +20,10 @@ import { User, UserSchema } from '~/users/schema/user.schema';
     MongooseModule.forFeature([
       { name: TestResult.name, schema: TestResultSchema },
       { name: User.name, schema: UserSchema },
+      { name: TestSchedule.name, schema: TestScheduleSchema },
     ]),
   ],
-  providers: [NotificationService],
+  providers: [NotificationService, WeeklyReportService],
   exports: [NotificationService],
 })
 export class NotificationModule {}
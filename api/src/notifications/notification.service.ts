@@ -1,10 +1,22 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 
 import { EmailService } from '~/common/email/email.service';
 import { TestResult } from '~/capture-metrics/schemas/test-result.schema';
 import { User } from '~/users/schema/user.schema';
+import { TestResults } from '~/capture-metrics/interfaces/cache.interface';
+import { DomainEventsService } from '~/common/events/domain-events.service';
+import {
+  DOMAIN_EVENTS,
+  TestCompletedEvent,
+  VisualChangeDetectedEvent,
+} from '~/common/events/domain-events';
 
 export interface ScoreDropCheckResult {
   hasScoreDrop: boolean;
@@ -14,8 +26,10 @@ export interface ScoreDropCheckResult {
 }
 
 @Injectable()
-export class NotificationService {
+export class NotificationService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(NotificationService.name);
+  private unsubscribeTestCompleted?: () => void;
+  private unsubscribeVisualChange?: () => void;
   
   // Minimum score drop threshold to trigger notification (default: 5 points)
   private readonly SCORE_DROP_THRESHOLD = 5;
@@ -26,8 +40,117 @@ export class NotificationService {
     private readonly testResultModel: Model<TestResult>,
     @InjectModel(User.name)
     private readonly userModel: Model<User>,
+    private readonly domainEvents: DomainEventsService,
   ) {}
 
+  onModuleInit(): void {
+    this.unsubscribeTestCompleted = this.domainEvents.on(
+      DOMAIN_EVENTS.TEST_COMPLETED,
+      (event) => this.handleTestCompleted(event),
+    );
+    this.unsubscribeVisualChange = this.domainEvents.on(
+      DOMAIN_EVENTS.VISUAL_CHANGE_DETECTED,
+      (event) => this.handleVisualChange(event),
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribeTestCompleted?.();
+    this.unsubscribeVisualChange?.();
+  }
+
+  /**
+   * React to a saved test result according to the user's
+   * notification preferences
+   */
+  async handleTestCompleted(event: TestCompletedEvent): Promise<void> {
+    try {
+      const user = await this.userModel
+        .findById(new Types.ObjectId(event.userId))
+        .select('email notificationPreferences')
+        .lean()
+        .exec();
+
+      if (!user) {
+        this.logger.warn(`User ${event.userId} not found for notification`);
+        return;
+      }
+
+      const preferences = user.notificationPreferences;
+      const score = this.getScoreForTestType(event.testType, event.results);
+
+      if (preferences?.testCompletionAlerts) {
+        await this.emailService.sendTestCompletionNotification(user.email, {
+          url: event.url,
+          testType: event.testType,
+          status: event.status,
+          score,
+          testId: event.testResultId,
+          scheduleName: event.scheduleName,
+        });
+      }
+
+      if (
+        event.status === 'completed' &&
+        score !== undefined &&
+        preferences?.scoreDropAlerts !== false
+      ) {
+        await this.processCompletedTest(
+          event.userId,
+          event.testResultId,
+          event.url,
+          event.testType,
+          score,
+          event.scheduleName,
+          preferences?.scoreDropThreshold,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to process completed test ${event.testResultId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Alert the user that a test no longer matches its visual baseline
+   */
+  async handleVisualChange(event: VisualChangeDetectedEvent): Promise<void> {
+    try {
+      const user = await this.userModel
+        .findById(new Types.ObjectId(event.userId))
+        .select('email notificationPreferences')
+        .lean()
+        .exec();
+
+      if (!user) {
+        this.logger.warn(`User ${event.userId} not found for notification`);
+        return;
+      }
+
+      if (user.notificationPreferences?.visualChangeAlerts === false) {
+        this.logger.debug(
+          `Visual change notifications disabled for user ${event.userId}`,
+        );
+        return;
+      }
+
+      await this.emailService.sendVisualChangeNotification(user.email, {
+        url: event.url,
+        deviceType: event.deviceType,
+        changedPercentage: event.changedPercentage,
+        alertPercentage: event.alertPercentage,
+        diffImage: event.diffImage,
+        testId: event.testResultId,
+        scheduleName: event.scheduleName,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send visual change notification: ${error.message}`,
+      );
+    }
+  }
+
   /**
    * Check if there's a significant score drop compared to previous test
    */
@@ -36,6 +159,7 @@ export class NotificationService {
     url: string,
     testType: string,
     currentScore: number,
+    threshold: number = this.SCORE_DROP_THRESHOLD,
   ): Promise<ScoreDropCheckResult> {
     try {
       // Find the previous test for the same URL and test type
@@ -64,15 +188,17 @@ export class NotificationService {
         previousScore = previousTest.performanceScore || 
           previousTest.results?.webMetrics?.performanceScore || 0;
       } else if (testType === 'seo') {
-        previousScore = previousTest.results?.webMetrics?.seoScore || 
-          previousTest.results?.seoAnalysis?.score || 0;
+        previousScore = previousTest.results?.webMetrics?.seoScore || 0;
+      } else if (testType === 'accessibility') {
+        previousScore = previousTest.results?.accessibility?.score ||
+          previousTest.results?.webMetrics?.accessibilityScore || 0;
       } else {
         previousScore = previousTest.performanceScore || 0;
       }
 
       const scoreDrop = previousScore - currentScore;
 
-      if (scoreDrop >= this.SCORE_DROP_THRESHOLD) {
+      if (scoreDrop >= threshold) {
         this.logger.log(
           `Score drop detected for ${url} (${testType}): ${previousScore} -> ${currentScore} (-${scoreDrop})`,
         );
@@ -131,7 +257,7 @@ export class NotificationService {
 
       await this.emailService.sendScoreDropNotification(user.email, {
         url,
-        testType: testType === 'seo' ? 'SEO' : 'Performance',
+        testType: this.formatTestType(testType),
         previousScore,
         currentScore,
         scoreDrop,
@@ -159,12 +285,14 @@ export class NotificationService {
     testType: string,
     score: number,
     scheduleName?: string,
+    threshold?: number,
   ): Promise<void> {
     const dropCheck = await this.checkForScoreDrop(
       userId,
       url,
       testType,
       score,
+      threshold,
     );
 
     if (dropCheck.hasScoreDrop) {
@@ -179,4 +307,31 @@ export class NotificationService {
       );
     }
   }
+
+  /**
+   * Pick the score that represents a test of the given type
+   */
+  private getScoreForTestType(
+    testType: string,
+    results: TestResults,
+  ): number | undefined {
+    const webMetrics = results?.webMetrics;
+    let score: unknown;
+
+    if (testType === 'seo') {
+      score = webMetrics?.seoScore;
+    } else if (testType === 'accessibility') {
+      score = results?.accessibility?.score ?? webMetrics?.accessibilityScore;
+    } else {
+      score = webMetrics?.performanceScore;
+    }
+
+    return typeof score === 'number' ? score : undefined;
+  }
+
+  private formatTestType(testType: string): string {
+    if (testType === 'seo') return 'SEO';
+    if (testType === 'accessibility') return 'Accessibility';
+    return 'Performance';
+  }
 }
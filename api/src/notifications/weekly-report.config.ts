@@ -0,0 +1,9 @@
+/**
+ * Weekly Report Configuration
+ */
+export const WEEKLY_REPORT_CONFIG = {
+  CHECK_INTERVAL_MS: 3600000, // Look for users due a report every hour
+  REPORT_PERIOD_MS: 7 * 24 * 60 * 60 * 1000, // Each report covers the past 7 days
+  MAX_REPORTS_PER_CHECK: 100, // Remaining users are picked up on the next check
+  MAX_HIGHLIGHTS: 5, // Regressions and improvements listed per report
+} as const;
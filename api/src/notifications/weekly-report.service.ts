@@ -0,0 +1,371 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import {
+  EmailService,
+  WeeklyReportEmailData,
+} from '~/common/email/email.service';
+import { toCsvRow } from '~/common/csv.common';
+import { TestResult } from '~/capture-metrics/schemas/test-result.schema';
+import { TestSchedule } from '~/capture-metrics/schemas/test-schedule.schema';
+import { User } from '~/users/schema/user.schema';
+import { WEEKLY_REPORT_CONFIG } from './weekly-report.config';
+
+export interface WeeklyReport extends WeeklyReportEmailData {
+  urls: Array<{
+    url: string;
+    runs: number;
+    failedRuns: number;
+    averageScore?: number;
+    previousScore?: number;
+    change?: number;
+  }>;
+}
+
+interface UrlActivity {
+  runs: number;
+  failedRuns: number;
+  scores: number[];
+  previousScores: number[];
+}
+
+/**
+ * Weekly Report Service
+ *
+ * Emails a summary of the past 7 days to every user who opted in to
+ * weekly reports:
+ * - Claims each user atomically so that multiple API instances never
+ *   send the same report twice
+ * - Compares per-URL average scores with the week before to find the
+ *   biggest regressions and improvements
+ * - Lists schedules that failed during the week
+ * - Attaches the full report as CSV
+ */
+@Injectable()
+export class WeeklyReportService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WeeklyReportService.name);
+  private checkTimer: NodeJS.Timeout | null = null;
+  private isChecking = false;
+
+  constructor(
+    @InjectModel(User.name)
+    private readonly userModel: Model<User>,
+    @InjectModel(TestResult.name)
+    private readonly testResultModel: Model<TestResult>,
+    @InjectModel(TestSchedule.name)
+    private readonly testScheduleModel: Model<TestSchedule>,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    if (this.configService.get<string>('WEEKLY_REPORTS_ENABLED') === 'false') {
+      this.logger.log('Weekly reports disabled via WEEKLY_REPORTS_ENABLED');
+      return;
+    }
+
+    this.checkTimer = setInterval(() => {
+      void this.sendDueReports();
+    }, WEEKLY_REPORT_CONFIG.CHECK_INTERVAL_MS);
+    this.checkTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  /**
+   * Send reports to users whose last report is at least a week old
+   */
+  async sendDueReports(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      for (let i = 0; i < WEEKLY_REPORT_CONFIG.MAX_REPORTS_PER_CHECK; i++) {
+        const now = new Date();
+        const user = await this.claimNextDueUser(now);
+        if (!user) break;
+
+        await this.sendReport(user._id.toString(), user.email, now);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to check for due weekly reports: ${error.message}`,
+      );
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Atomically mark the next opted-in user as reported for this week
+   */
+  async claimNextDueUser(now: Date) {
+    const dueBefore = new Date(
+      now.getTime() - WEEKLY_REPORT_CONFIG.REPORT_PERIOD_MS,
+    );
+
+    return this.userModel
+      .findOneAndUpdate(
+        {
+          'notificationPreferences.weeklyReports': true,
+          $or: [
+            { lastWeeklyReportAt: { $exists: false } },
+            { lastWeeklyReportAt: null },
+            { lastWeeklyReportAt: { $lte: dueBefore } },
+          ],
+        },
+        { $set: { lastWeeklyReportAt: now } },
+        { new: true },
+      )
+      .select('email')
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Build and email one user's report. Users without any activity in the
+   * period are skipped.
+   */
+  async sendReport(
+    userId: string,
+    email: string,
+    periodEnd: Date,
+  ): Promise<void> {
+    try {
+      const report = await this.buildReport(userId, periodEnd);
+
+      if (report.totalRuns === 0 && report.failedSchedules.length === 0) {
+        this.logger.debug(
+          `No activity for user ${userId}, skipping weekly report`,
+        );
+        return;
+      }
+
+      await this.emailService.sendWeeklyReport(
+        email,
+        report,
+        this.buildCsv(report),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send weekly report to user ${userId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Summarize a user's tests for the 7 days ending at periodEnd
+   */
+  async buildReport(userId: string, periodEnd: Date): Promise<WeeklyReport> {
+    const userObjectId = new Types.ObjectId(userId);
+    const periodStart = new Date(
+      periodEnd.getTime() - WEEKLY_REPORT_CONFIG.REPORT_PERIOD_MS,
+    );
+    const previousStart = new Date(
+      periodStart.getTime() - WEEKLY_REPORT_CONFIG.REPORT_PERIOD_MS,
+    );
+
+    // The previous week is only used as a baseline for score changes
+    const [tests, schedules] = await Promise.all([
+      this.testResultModel
+        .find({
+          userId: userObjectId,
+          createdAt: { $gte: previousStart, $lte: periodEnd },
+          isArchived: { $ne: true },
+        })
+        .select('url status createdAt performanceScore results.webMetrics')
+        .lean()
+        .exec(),
+      this.testScheduleModel
+        .find({
+          userId: userObjectId,
+          executionLogs: {
+            $elemMatch: {
+              status: 'failed',
+              timestamp: { $gte: periodStart, $lte: periodEnd },
+            },
+          },
+        })
+        .select('name url executionLogs')
+        .lean()
+        .exec(),
+    ]);
+
+    const activity = new Map<string, UrlActivity>();
+    let completedRuns = 0;
+
+    for (const test of tests) {
+      if (!activity.has(test.url)) {
+        activity.set(test.url, {
+          runs: 0,
+          failedRuns: 0,
+          scores: [],
+          previousScores: [],
+        });
+      }
+      const entry = activity.get(test.url)!;
+      const isCurrent = new Date(test.createdAt) >= periodStart;
+      const score =
+        test.status === 'completed' ? this.getScore(test) : undefined;
+
+      if (isCurrent) {
+        entry.runs++;
+        if (test.status === 'failed') entry.failedRuns++;
+        if (test.status === 'completed') completedRuns++;
+        if (score !== undefined) entry.scores.push(score);
+      } else if (score !== undefined) {
+        entry.previousScores.push(score);
+      }
+    }
+
+    const urls = Array.from(activity.entries())
+      .filter(([, entry]) => entry.runs > 0)
+      .map(([url, entry]) => {
+        const averageScore = this.average(entry.scores);
+        const previousScore = this.average(entry.previousScores);
+        const change =
+          averageScore !== undefined && previousScore !== undefined
+            ? averageScore - previousScore
+            : undefined;
+
+        return {
+          url,
+          runs: entry.runs,
+          failedRuns: entry.failedRuns,
+          averageScore,
+          previousScore,
+          change,
+        };
+      })
+      .sort((a, b) => b.runs - a.runs);
+
+    const changes = urls
+      .filter((entry) => entry.change !== undefined && entry.change !== 0)
+      .map((entry) => ({
+        url: entry.url,
+        previousScore: entry.previousScore!,
+        currentScore: entry.averageScore!,
+        change: entry.change!,
+      }));
+
+    const failedSchedules = schedules.map((schedule) => {
+      const failures = (schedule.executionLogs ?? []).filter(
+        (log) =>
+          log.status === 'failed' &&
+          new Date(log.timestamp) >= periodStart &&
+          new Date(log.timestamp) <= periodEnd,
+      );
+
+      return {
+        name: schedule.name,
+        url: schedule.url,
+        failedRuns: failures.length,
+        lastError: failures[failures.length - 1]?.message,
+      };
+    });
+
+    return {
+      periodStart: this.formatDate(periodStart),
+      periodEnd: this.formatDate(periodEnd),
+      totalRuns: urls.reduce((sum, entry) => sum + entry.runs, 0),
+      completedRuns,
+      failedRuns: urls.reduce((sum, entry) => sum + entry.failedRuns, 0),
+      averageScore: this.average(
+        Array.from(activity.values()).flatMap((entry) => entry.scores),
+      ),
+      urls,
+      regressions: changes
+        .filter((entry) => entry.change < 0)
+        .sort((a, b) => a.change - b.change)
+        .slice(0, WEEKLY_REPORT_CONFIG.MAX_HIGHLIGHTS),
+      improvements: changes
+        .filter((entry) => entry.change > 0)
+        .sort((a, b) => b.change - a.change)
+        .slice(0, WEEKLY_REPORT_CONFIG.MAX_HIGHLIGHTS),
+      failedSchedules,
+    };
+  }
+
+  /**
+   * Render the full report as CSV. Each section has its own header row
+   * and sections are separated by a blank line.
+   */
+  buildCsv(report: WeeklyReport): string {
+    const rows: string[] = [
+      toCsvRow(['Summary']),
+      toCsvRow(['Metric', 'Value']),
+      toCsvRow(['Period start', report.periodStart]),
+      toCsvRow(['Period end', report.periodEnd]),
+      toCsvRow(['Total runs', report.totalRuns]),
+      toCsvRow(['Completed runs', report.completedRuns]),
+      toCsvRow(['Failed runs', report.failedRuns]),
+      toCsvRow(['Average score', report.averageScore]),
+      '\n',
+      toCsvRow(['URL Scores']),
+      toCsvRow([
+        'URL',
+        'Runs',
+        'Failed Runs',
+        'Average Score',
+        'Previous Average',
+        'Change',
+      ]),
+      ...report.urls.map((entry) =>
+        toCsvRow([
+          entry.url,
+          entry.runs,
+          entry.failedRuns,
+          entry.averageScore,
+          entry.previousScore,
+          entry.change,
+        ]),
+      ),
+      '\n',
+      toCsvRow(['Failed Schedules']),
+      toCsvRow(['Schedule', 'URL', 'Failures', 'Last Error']),
+      ...report.failedSchedules.map((schedule) =>
+        toCsvRow([
+          schedule.name,
+          schedule.url,
+          schedule.failedRuns,
+          schedule.lastError,
+        ]),
+      ),
+    ];
+
+    return rows.join('');
+  }
+
+  private getScore(test: {
+    performanceScore?: number;
+    results?: { webMetrics?: Record<string, any> };
+  }): number | undefined {
+    const score =
+      test.performanceScore ??
+      test.results?.webMetrics?.performanceScore ??
+      test.results?.webMetrics?.seoScore;
+
+    return typeof score === 'number' ? score : undefined;
+  }
+
+  private average(values: number[]): number | undefined {
+    if (values.length === 0) return undefined;
+    return Math.round(values.reduce((a, b) => a + b, 0) / values.length);
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,320 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { NEVER, of, throwError } from 'rxjs';
+import { ScheduleExecutorService } from '../schedule-executor.service';
+import { TestSchedule } from '~/capture-metrics/schemas/test-schedule.schema';
+import { CaptureOrchestratorService } from '~/capture-metrics/services/capture-orchestrator.service';
+import { PersistenceService } from '~/capture-metrics/services/persistence.service';
+import { CredentialsService } from '~/capture-metrics/services/credentials.service';
+import { ScheduleService } from '~/users/schedule.service';
+import { SCHEDULER_CONFIG } from '../scheduler.config';
+
+describe('ScheduleExecutorService', () => {
+  let service: ScheduleExecutorService;
+  let testScheduleModel: any;
+  let captureOrchestrator: { startCapture: jest.Mock };
+  let persistenceService: { saveTestResult: jest.Mock };
+  let scheduleService: { calculateNextRun: jest.Mock };
+  let credentialsService: { decrypt: jest.Mock };
+
+  const mockUserId = new Types.ObjectId();
+  const mockScheduleId = new Types.ObjectId();
+  const nextRun = new Date('2030-01-01T00:00:00Z');
+
+  const mockSchedule = {
+    _id: mockScheduleId,
+    userId: mockUserId,
+    name: 'Daily Homepage Check',
+    url: 'https://example.com',
+    frequency: 'daily',
+    testType: 'performance',
+    deviceType: 'desktop',
+    includeScreenshots: false,
+    isActive: true,
+  };
+
+  const mockResults = {
+    url: 'https://example.com',
+    deviceType: 'desktop',
+    testType: 'performance',
+    timestamp: Date.now(),
+    status: 'completed',
+    cookieHandling: null,
+    webMetrics: null,
+    screenshots: null,
+    consoleErrors: null,
+  };
+
+  beforeEach(async () => {
+    testScheduleModel = {
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    captureOrchestrator = { startCapture: jest.fn() };
+    persistenceService = {
+      saveTestResult: jest.fn().mockResolvedValue('result-id'),
+    };
+    scheduleService = { calculateNextRun: jest.fn().mockReturnValue(nextRun) };
+    credentialsService = { decrypt: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduleExecutorService,
+        {
+          provide: getModelToken(TestSchedule.name),
+          useValue: testScheduleModel,
+        },
+        { provide: CaptureOrchestratorService, useValue: captureOrchestrator },
+        { provide: PersistenceService, useValue: persistenceService },
+        { provide: ScheduleService, useValue: scheduleService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: CredentialsService, useValue: credentialsService },
+      ],
+    }).compile();
+
+    service = module.get<ScheduleExecutorService>(ScheduleExecutorService);
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  describe('claimNextDueSchedule', () => {
+    it('should atomically lease the oldest due, unlocked schedule', async () => {
+      testScheduleModel.findOneAndUpdate.mockResolvedValue(mockSchedule);
+
+      const result = await service.claimNextDueSchedule();
+
+      expect(result).toBe(mockSchedule);
+      const [filter, update, options] =
+        testScheduleModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.isActive).toBe(true);
+      expect(filter.nextRun.$lte).toBeInstanceOf(Date);
+      expect(filter.$or).toEqual(
+        expect.arrayContaining([{ lockedUntil: null }]),
+      );
+      expect(update.$set.lockedBy).toEqual(expect.any(String));
+      expect(update.$set.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+      expect(options).toEqual({ sort: { nextRun: 1 }, new: true });
+    });
+  });
+
+  describe('executeSchedule', () => {
+    it('should persist results and record a successful run', async () => {
+      captureOrchestrator.startCapture.mockReturnValue(
+        of(
+          { data: { status: 'STARTING' } },
+          { data: { status: 'COMPLETE', results: mockResults } },
+        ),
+      );
+
+      await service.executeSchedule(mockSchedule as any);
+
+      // Registered as the schedule owner's run, so they can cancel it
+      expect(captureOrchestrator.startCapture).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://example.com' }),
+        expect.any(AbortSignal),
+        mockUserId.toString(),
+      );
+      expect(persistenceService.saveTestResult).toHaveBeenCalledWith(
+        mockUserId.toString(),
+        'https://example.com',
+        expect.objectContaining({
+          url: 'https://example.com',
+          testType: 'performance',
+          testId: expect.stringContaining(mockScheduleId.toString()),
+        }),
+        mockResults,
+        'completed',
+        { scheduleName: 'Daily Homepage Check' },
+      );
+
+      const [filter, update] = testScheduleModel.updateOne.mock.calls[0];
+      expect(filter._id).toBe(mockScheduleId);
+      expect(filter.lockedBy).toEqual(expect.any(String));
+      expect(update.$set).toEqual(
+        expect.objectContaining({
+          lastRunStatus: 'success',
+          lastRunTestId: 'result-id',
+          nextRun,
+        }),
+      );
+      expect(update.$unset).toEqual({ lockedBy: '', lockedUntil: '' });
+      expect(update.$inc).toEqual({
+        totalRuns: 1,
+        successfulRuns: 1,
+        failedRuns: 0,
+      });
+      expect(update.$push.executionLogs.$slice).toBe(
+        -SCHEDULER_CONFIG.MAX_EXECUTION_LOGS,
+      );
+      expect(scheduleService.calculateNextRun).toHaveBeenCalledWith('daily');
+    });
+
+    it('should pass multi-run settings through and extend the lease', async () => {
+      captureOrchestrator.startCapture.mockReturnValue(
+        of({ data: { status: 'COMPLETE', results: mockResults } }),
+      );
+
+      await service.executeSchedule({ ...mockSchedule, runs: 3 } as any);
+
+      const [captureData] = captureOrchestrator.startCapture.mock.calls[0];
+      expect(captureData.runs).toBe(3);
+
+      const [filter, update] = testScheduleModel.updateOne.mock.calls[0];
+      expect(filter.lockedBy).toEqual(expect.any(String));
+      expect(update.$set.lockedUntil.getTime()).toBeGreaterThanOrEqual(
+        Date.now() +
+          SCHEDULER_CONFIG.LOCK_TTL_MS +
+          SCHEDULER_CONFIG.RUN_TIMEOUT_MS * 2 -
+          1000,
+      );
+    });
+
+    it('should capture with the decrypted credentials without persisting them', async () => {
+      const auth = { headers: { 'X-Api-Key': 'secret-key' } };
+      credentialsService.decrypt.mockReturnValue(auth);
+      captureOrchestrator.startCapture.mockReturnValue(
+        of({ data: { status: 'COMPLETE', results: mockResults } }),
+      );
+
+      await service.executeSchedule({
+        ...mockSchedule,
+        encryptedAuth: 'v1:iv:tag:ciphertext',
+      } as any);
+
+      expect(credentialsService.decrypt).toHaveBeenCalledWith(
+        'v1:iv:tag:ciphertext',
+      );
+      const [captureData] = captureOrchestrator.startCapture.mock.calls[0];
+      expect(captureData.auth).toBe(auth);
+      const [, , savedData] = persistenceService.saveTestResult.mock.calls[0];
+      expect(savedData.auth).toBeUndefined();
+    });
+
+    it('should record a failed run when the capture emits an error', async () => {
+      captureOrchestrator.startCapture.mockReturnValue(
+        of({ data: { status: 'ERROR', error: 'Navigation timeout' } }),
+      );
+
+      await service.executeSchedule(mockSchedule as any);
+
+      expect(persistenceService.saveTestResult).not.toHaveBeenCalled();
+      const [, update] = testScheduleModel.updateOne.mock.calls[0];
+      expect(update.$set.lastRunStatus).toBe('failed');
+      expect(update.$inc).toEqual({
+        totalRuns: 1,
+        successfulRuns: 0,
+        failedRuns: 1,
+      });
+      expect(update.$push.executionLogs.$each[0]).toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          message: 'Navigation timeout',
+        }),
+      );
+    });
+
+    it('should record a failed run when the capture is cancelled', async () => {
+      captureOrchestrator.startCapture.mockReturnValue(
+        of({
+          data: {
+            status: 'CANCELLED',
+            message: 'Capture cancelled by request',
+          },
+        }),
+      );
+
+      await service.executeSchedule(mockSchedule as any);
+
+      const [, update] = testScheduleModel.updateOne.mock.calls[0];
+      expect(update.$set.lastRunStatus).toBe('failed');
+      expect(update.$push.executionLogs.$each[0].message).toBe(
+        'Capture cancelled by request',
+      );
+    });
+
+    it('should record a failed run when the capture stream throws', async () => {
+      captureOrchestrator.startCapture.mockReturnValue(
+        throwError(() => new Error('Browser crashed')),
+      );
+
+      await service.executeSchedule(mockSchedule as any);
+
+      const [, update] = testScheduleModel.updateOne.mock.calls[0];
+      expect(update.$set.lastRunStatus).toBe('failed');
+      expect(update.$push.executionLogs.$each[0].message).toBe(
+        'Browser crashed',
+      );
+    });
+  });
+
+  describe('aborted runs', () => {
+    it('should abort the capture when the run times out', async () => {
+      jest.useFakeTimers();
+      captureOrchestrator.startCapture.mockReturnValue(NEVER);
+
+      try {
+        const run = service.executeSchedule(mockSchedule as any);
+        await jest.advanceTimersByTimeAsync(SCHEDULER_CONFIG.RUN_TIMEOUT_MS);
+        await run;
+      } finally {
+        jest.useRealTimers();
+      }
+
+      const [, signal] = captureOrchestrator.startCapture.mock.calls[0];
+      expect(signal.aborted).toBe(true);
+      const [, update] = testScheduleModel.updateOne.mock.calls[0];
+      expect(update.$set.lastRunStatus).toBe('failed');
+    });
+
+    it('should release the lease without recording a run on shutdown', async () => {
+      testScheduleModel.findOneAndUpdate
+        .mockResolvedValueOnce(mockSchedule)
+        .mockResolvedValue(null);
+      captureOrchestrator.startCapture.mockReturnValue(NEVER);
+
+      await service.poll();
+      await service.onModuleDestroy();
+
+      const [, signal] = captureOrchestrator.startCapture.mock.calls[0];
+      expect(signal.aborted).toBe(true);
+      expect(testScheduleModel.updateOne).toHaveBeenCalledTimes(1);
+      const [filter, update] = testScheduleModel.updateOne.mock.calls[0];
+      expect(filter).toEqual({
+        _id: mockScheduleId,
+        lockedBy: expect.any(String),
+      });
+      expect(update).toEqual({ $unset: { lockedBy: '', lockedUntil: '' } });
+      expect(scheduleService.calculateNextRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('poll', () => {
+    it('should do nothing when no schedules are due', async () => {
+      testScheduleModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await service.poll();
+
+      expect(testScheduleModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+      expect(captureOrchestrator.startCapture).not.toHaveBeenCalled();
+    });
+
+    it('should not claim more schedules than the concurrency limit', async () => {
+      testScheduleModel.findOneAndUpdate.mockImplementation(() =>
+        Promise.resolve({ ...mockSchedule, _id: new Types.ObjectId() }),
+      );
+      // Never-completing capture keeps runs in flight
+      captureOrchestrator.startCapture.mockReturnValue(NEVER);
+
+      await service.poll();
+
+      expect(testScheduleModel.findOneAndUpdate).toHaveBeenCalledTimes(
+        SCHEDULER_CONFIG.MAX_CONCURRENT_RUNS,
+      );
+    });
+  });
+});
@@ -0,0 +1,438 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { hostname } from 'os';
+import { Subscription } from 'rxjs';
+
+import {
+  TestSchedule,
+  TestScheduleDocument,
+} from '~/capture-metrics/schemas/test-schedule.schema';
+import { TestResults } from '~/capture-metrics/interfaces/cache.interface';
+import { CaptureOrchestratorService } from '~/capture-metrics/services/capture-orchestrator.service';
+import { PersistenceService } from '~/capture-metrics/services/persistence.service';
+import { CredentialsService } from '~/capture-metrics/services/credentials.service';
+import { ScheduleService } from '~/users/schedule.service';
+import { CreateCaptureData } from '~/dto/create-capture-data';
+import { SCHEDULER_CONFIG } from './scheduler.config';
+
+interface ActiveRun {
+  controller: AbortController;
+  promise: Promise<void>;
+}
+
+interface RunOutcome {
+  status: 'success' | 'failed';
+  testId: string;
+  resultId?: string;
+  message?: string;
+  duration: number;
+}
+
+/**
+ * Schedule Executor Service
+ *
+ * Polls for due test schedules and runs them headlessly:
+ * - Claims each schedule with an atomic lease so that multiple API
+ *   instances never run the same schedule twice
+ * - Runs the capture through CaptureOrchestratorService without an SSE
+ *   client, with the schedule's decrypted credentials. The run is owned
+ *   by the schedule's user, who can cancel it by its testId
+ * - Persists the TestResult and updates run counters and execution logs
+ * - Releases the lease and advances nextRun when done
+ * - On shutdown, aborts in-flight runs and releases their leases without
+ *   recording a run, so another instance runs them again
+ */
+@Injectable()
+export class ScheduleExecutorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ScheduleExecutorService.name);
+  private readonly instanceId = `${hostname()}-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+  private readonly activeRuns = new Map<string, ActiveRun>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private isShuttingDown = false;
+
+  constructor(
+    @InjectModel(TestSchedule.name)
+    private readonly testScheduleModel: Model<TestSchedule>,
+    private readonly captureOrchestrator: CaptureOrchestratorService,
+    private readonly persistenceService: PersistenceService,
+    private readonly scheduleService: ScheduleService,
+    private readonly configService: ConfigService,
+    private readonly credentialsService: CredentialsService,
+  ) {}
+
+  onModuleInit(): void {
+    if (this.configService.get<string>('SCHEDULER_ENABLED') === 'false') {
+      this.logger.log('Schedule executor disabled via SCHEDULER_ENABLED');
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, SCHEDULER_CONFIG.POLL_INTERVAL_MS);
+    this.pollTimer.unref();
+
+    this.logger.log(
+      `Schedule executor started (instance: ${this.instanceId}, interval: ${SCHEDULER_CONFIG.POLL_INTERVAL_MS}ms)`,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.isShuttingDown = true;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (this.activeRuns.size === 0) return;
+
+    this.logger.log(
+      `Aborting ${this.activeRuns.size} in-flight scheduled run(s)`,
+    );
+    const pending = Array.from(this.activeRuns.values()).map((run) => {
+      run.controller.abort();
+      return run.promise;
+    });
+
+    let graceTimer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(pending),
+      new Promise<void>((resolve) => {
+        graceTimer = setTimeout(resolve, SCHEDULER_CONFIG.SHUTDOWN_GRACE_MS);
+        graceTimer.unref();
+      }),
+    ]);
+    if (graceTimer) clearTimeout(graceTimer);
+  }
+
+  /**
+   * Claim and start due schedules up to the concurrency limit
+   */
+  async poll(): Promise<void> {
+    if (this.isPolling || this.isShuttingDown) return;
+    this.isPolling = true;
+
+    try {
+      while (
+        !this.isShuttingDown &&
+        this.activeRuns.size < SCHEDULER_CONFIG.MAX_CONCURRENT_RUNS
+      ) {
+        const schedule = await this.claimNextDueSchedule();
+        if (!schedule) break;
+
+        const scheduleId = schedule._id.toString();
+        const controller = new AbortController();
+        const promise = this.executeSchedule(schedule, controller.signal)
+          .catch((error: unknown) => {
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            this.logger.error(
+              `Scheduled run ${scheduleId} failed unexpectedly: ${errorMessage}`,
+            );
+          })
+          .finally(() => {
+            this.activeRuns.delete(scheduleId);
+          });
+
+        this.activeRuns.set(scheduleId, { controller, promise });
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to poll due schedules: ${errorMessage}`);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Atomically lease the oldest due schedule for this instance.
+   * A schedule whose lease has expired (crashed instance) can be reclaimed.
+   */
+  async claimNextDueSchedule(): Promise<TestScheduleDocument | null> {
+    const now = new Date();
+
+    return this.testScheduleModel.findOneAndUpdate(
+      {
+        isActive: true,
+        nextRun: { $lte: now },
+        $or: [
+          { lockedUntil: { $exists: false } },
+          { lockedUntil: null },
+          { lockedUntil: { $lte: now } },
+        ],
+      },
+      {
+        $set: {
+          lockedBy: this.instanceId,
+          lockedUntil: new Date(now.getTime() + SCHEDULER_CONFIG.LOCK_TTL_MS),
+        },
+      },
+      { sort: { nextRun: 1 }, new: true },
+    );
+  }
+
+  /**
+   * Run a claimed schedule, persist its result and record the outcome
+   */
+  async executeSchedule(
+    schedule: TestScheduleDocument,
+    abortSignal?: AbortSignal,
+  ): Promise<void> {
+    const scheduleId = schedule._id.toString();
+    const startedAt = Date.now();
+    const testId = `schedule-${scheduleId}-${startedAt}`;
+    const runs = schedule.runs ?? 1;
+    const captureData = {
+      url: schedule.url,
+      deviceType: schedule.deviceType,
+      testType: schedule.testType,
+      includeScreenshots: schedule.includeScreenshots,
+      runs,
+      budget: schedule.budget,
+      testId,
+    } as CreateCaptureData;
+
+    this.logger.log(
+      `Running schedule "${schedule.name}" (${scheduleId}) for ${schedule.url}`,
+    );
+
+    let outcome: RunOutcome;
+    try {
+      // Each additional run needs its own share of time and lease
+      const timeoutMs = SCHEDULER_CONFIG.RUN_TIMEOUT_MS * runs;
+      if (runs > 1) {
+        await this.extendLease(
+          schedule,
+          SCHEDULER_CONFIG.LOCK_TTL_MS +
+            timeoutMs -
+            SCHEDULER_CONFIG.RUN_TIMEOUT_MS,
+        );
+      }
+
+      // A schedule whose credentials can't be decrypted fails this run
+      const auth = schedule.encryptedAuth
+        ? this.credentialsService.decrypt(schedule.encryptedAuth)
+        : undefined;
+      const results = await this.runCapture(
+        { ...captureData, auth },
+        String(schedule.userId),
+        timeoutMs,
+        abortSignal,
+      );
+      const status = results.status === 'failed' ? 'failed' : 'completed';
+      const resultId = await this.persistenceService.saveTestResult(
+        String(schedule.userId),
+        schedule.url,
+        captureData,
+        results,
+        status,
+        { scheduleName: schedule.name },
+      );
+
+      outcome = {
+        status: status === 'completed' ? 'success' : 'failed',
+        testId,
+        resultId,
+        duration: Date.now() - startedAt,
+      };
+    } catch (error: unknown) {
+      if (this.isShuttingDown) {
+        this.logger.log(
+          `Releasing schedule ${scheduleId} on shutdown without recording a run`,
+        );
+        await this.releaseLease(schedule);
+        return;
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Scheduled capture for ${scheduleId} failed: ${errorMessage}`,
+      );
+      outcome = {
+        status: 'failed',
+        testId,
+        message: errorMessage,
+        duration: Date.now() - startedAt,
+      };
+    }
+
+    await this.completeRun(schedule, outcome);
+  }
+
+  /**
+   * Subscribe to the capture stream and resolve with the final results.
+   * The capture runs under its own AbortController, aborted on timeout or
+   * when the caller aborts, so that it stops instead of running on unobserved.
+   */
+  private runCapture(
+    captureData: CreateCaptureData,
+    ownerId: string,
+    timeoutMs: number,
+    abortSignal?: AbortSignal,
+  ): Promise<TestResults> {
+    return new Promise<TestResults>((resolve, reject) => {
+      const controller = new AbortController();
+      let subscription: Subscription | undefined;
+      let settled = false;
+
+      const settle = (fn: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        abortSignal?.removeEventListener('abort', onAbort);
+        subscription?.unsubscribe();
+        fn();
+      };
+
+      const abortRun = (error: Error) =>
+        settle(() => {
+          controller.abort(error);
+          reject(error);
+        });
+
+      const onAbort = () => abortRun(new Error('Scheduled run aborted'));
+
+      const timer = setTimeout(() => {
+        abortRun(new Error(`Scheduled run timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      timer.unref();
+
+      if (abortSignal?.aborted) {
+        onAbort();
+        return;
+      }
+      abortSignal?.addEventListener('abort', onAbort);
+
+      subscription = this.captureOrchestrator
+        .startCapture(captureData, controller.signal, ownerId)
+        .subscribe({
+          next: (event: any) => {
+            const data = event?.data;
+            if (data?.status === 'COMPLETE') {
+              settle(() => resolve(data.results as TestResults));
+            } else if (
+              ['ERROR', 'TIMEOUT', 'CANCELLED'].includes(data?.status)
+            ) {
+              settle(() =>
+                reject(
+                  new Error(data.error || data.message || 'Capture failed'),
+                ),
+              );
+            }
+          },
+          error: (error: unknown) =>
+            settle(() =>
+              reject(error instanceof Error ? error : new Error(String(error))),
+            ),
+          complete: () =>
+            settle(() =>
+              reject(new Error('Capture stream ended without a result')),
+            ),
+        });
+
+      // The stream may have settled synchronously before subscribe returned
+      if (settled) subscription.unsubscribe();
+    });
+  }
+
+  /**
+   * Push out the lease of a long multi-run capture so another instance
+   * does not reclaim the schedule mid-run
+   */
+  private async extendLease(
+    schedule: TestScheduleDocument,
+    leaseMs: number,
+  ): Promise<void> {
+    await this.testScheduleModel.updateOne(
+      { _id: schedule._id, lockedBy: this.instanceId },
+      { $set: { lockedUntil: new Date(Date.now() + leaseMs) } },
+    );
+  }
+
+  /**
+   * Give up the lease of a run that was never completed, leaving nextRun
+   * due so that the schedule is claimed again
+   */
+  private async releaseLease(schedule: TestScheduleDocument): Promise<void> {
+    try {
+      await this.testScheduleModel.updateOne(
+        { _id: schedule._id, lockedBy: this.instanceId },
+        { $unset: { lockedBy: '', lockedUntil: '' } },
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to release schedule ${schedule._id.toString()}: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Record run outcome, advance nextRun and release the lease.
+   * Filtered on lockedBy so a run whose lease was taken over cannot clobber it.
+   */
+  private async completeRun(
+    schedule: TestScheduleDocument,
+    outcome: RunOutcome,
+  ): Promise<void> {
+    const now = new Date();
+    const isSuccess = outcome.status === 'success';
+
+    try {
+      const result = await this.testScheduleModel.updateOne(
+        { _id: schedule._id, lockedBy: this.instanceId },
+        {
+          $set: {
+            lastRun: now,
+            lastRunStatus: outcome.status,
+            lastRunTestId: outcome.resultId ?? outcome.testId,
+            nextRun: this.scheduleService.calculateNextRun(schedule.frequency),
+          },
+          $unset: { lockedBy: '', lockedUntil: '' },
+          $inc: {
+            totalRuns: 1,
+            successfulRuns: isSuccess ? 1 : 0,
+            failedRuns: isSuccess ? 0 : 1,
+          },
+          $push: {
+            executionLogs: {
+              $each: [
+                {
+                  timestamp: now,
+                  status: outcome.status,
+                  message: outcome.message,
+                  testId: outcome.resultId ?? outcome.testId,
+                  duration: outcome.duration,
+                },
+              ],
+              $slice: -SCHEDULER_CONFIG.MAX_EXECUTION_LOGS,
+            },
+          },
+        },
+      );
+
+      if (result.modifiedCount === 0) {
+        this.logger.warn(
+          `Lease on schedule ${schedule._id.toString()} was lost before the run completed`,
+        );
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to record run for schedule ${schedule._id.toString()}: ${errorMessage}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Scheduler Configuration
+ */
+export const SCHEDULER_CONFIG = {
+  POLL_INTERVAL_MS: 30000, // Check for due schedules every 30 seconds
+  MAX_CONCURRENT_RUNS: 2, // Per instance - shares the browser pool with live traffic
+  LOCK_TTL_MS: 600000, // 10 minutes - lease expires if an instance dies mid-run
+  RUN_TIMEOUT_MS: 150000, // 2.5 minutes max per scheduled capture
+  MAX_EXECUTION_LOGS: 50, // Keep only the most recent execution log entries
+  SHUTDOWN_GRACE_MS: 10000, // Wait for in-flight runs on shutdown
+} as const;
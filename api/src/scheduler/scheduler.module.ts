@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { ScheduleExecutorService } from './schedule-executor.service';
+import { CaptureMetricsModule } from '~/capture-metrics/capture-metrics.module';
+import { UtilityModule } from '~/capture-metrics/modules/utility.module';
+import { UsersModule } from '~/users/users.module';
+import {
+  TestSchedule,
+  TestScheduleSchema,
+} from '~/capture-metrics/schemas/test-schedule.schema';
+
+@Module({
+  imports: [
+    CaptureMetricsModule,
+    UtilityModule,
+    UsersModule,
+    MongooseModule.forFeature([
+      { name: TestSchedule.name, schema: TestScheduleSchema },
+    ]),
+  ],
+  providers: [ScheduleExecutorService],
+  exports: [ScheduleExecutorService],
+})
+export class SchedulerModule {}
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpStatus } from '@nestjs/common';
+import {
+  AnalyticsExportService,
+  PerformanceAnalytics,
+} from '../analytics-export.service';
+import { BrowserPoolService } from '~/capture-metrics/services/browser-pool.service';
+
+describe('AnalyticsExportService', () => {
+  let service: AnalyticsExportService;
+  let browserPool: { requirePage: jest.Mock; releasePage: jest.Mock };
+  let mockPage: { setContent: jest.Mock; pdf: jest.Mock };
+
+  const analytics = {
+    performanceTrends: [
+      { date: '2024-01-01', averageScore: 82, testCount: 3 },
+      { date: '2024-01-02', averageScore: 90, testCount: 1 },
+    ],
+    errorDistribution: [{ type: 'javascript', count: 4, severity: 'low' }],
+    testTypeBreakdown: [
+      { testType: 'performance', count: 4, averageScore: 84 },
+    ],
+    deviceBreakdown: [{ deviceType: 'iPhone 15, Pro', count: 4, averageScore: 84 }],
+    totalTests: 4,
+    totalIssues: 4,
+    averagePerformanceScore: 84,
+    improvementRate: 0,
+    period: '7d',
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    endDate: new Date('2024-01-08T00:00:00Z'),
+  } as PerformanceAnalytics;
+
+  const readStream = async (stream: NodeJS.ReadableStream) => {
+    let output = '';
+    for await (const chunk of stream) {
+      output += chunk;
+    }
+    return output;
+  };
+
+  beforeEach(async () => {
+    mockPage = {
+      setContent: jest.fn().mockResolvedValue(undefined),
+      pdf: jest.fn().mockResolvedValue(new Uint8Array([37, 80, 68, 70])),
+    };
+    browserPool = {
+      requirePage: jest.fn().mockResolvedValue(mockPage),
+      releasePage: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalyticsExportService,
+        { provide: BrowserPoolService, useValue: browserPool },
+      ],
+    }).compile();
+
+    service = module.get<AnalyticsExportService>(AnalyticsExportService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('exportCsv', () => {
+    it('should stream every analytics section with its own header row', async () => {
+      const csv = await readStream(service.exportCsv(analytics));
+      const lines = csv.split('\n');
+
+      expect(lines).toContain('Start date,2024-01-01');
+      expect(lines).toContain('Date,Average Score,Test Count');
+      expect(lines).toContain('2024-01-01,82,3');
+      expect(lines).toContain('performance,4,84');
+      expect(lines).toContain('javascript,4,low');
+    });
+
+    it('should quote values containing commas', async () => {
+      const csv = await readStream(service.exportCsv(analytics));
+
+      expect(csv).toContain('"iPhone 15, Pro",4,84');
+    });
+
+    it('should keep spreadsheets from running values as formulas', async () => {
+      const csv = await readStream(
+        service.exportCsv({
+          ...analytics,
+          errorDistribution: [
+            {
+              type: '=HYPERLINK("http://evil.test")',
+              count: 1,
+              severity: '@low',
+            },
+          ],
+        }),
+      );
+
+      expect(csv).toContain(`"'=HYPERLINK(""http://evil.test"")",1,'@low`);
+    });
+  });
+
+  describe('exportPdf', () => {
+    it('should render the report on a pooled page and release it', async () => {
+      const pdf = await service.exportPdf(analytics);
+
+      expect(pdf.toString()).toBe('%PDF');
+      const [html] = mockPage.setContent.mock.calls[0];
+      expect(html).toContain('Performance Analytics Report');
+      expect(html).toContain('2024-01-01');
+      expect(browserPool.releasePage).toHaveBeenCalledWith(mockPage);
+    });
+
+    it('should release the page and throw when rendering fails', async () => {
+      mockPage.pdf.mockRejectedValue(new Error('Target closed'));
+
+      await expect(service.exportPdf(analytics)).rejects.toMatchObject({
+        status: HttpStatus.INTERNAL_SERVER_ERROR,
+      });
+      expect(browserPool.releasePage).toHaveBeenCalledWith(mockPage);
+    });
+  });
+});
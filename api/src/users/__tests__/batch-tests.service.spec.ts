@@ -0,0 +1,269 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { EMPTY } from 'rxjs';
+import { BatchTestsService } from '../batch-tests.service';
+import { TestResult } from '~/capture-metrics/schemas/test-result.schema';
+import { BatchRun } from '~/capture-metrics/schemas/batch-run.schema';
+import { CaptureOrchestratorService } from '~/capture-metrics/services/capture-orchestrator.service';
+import { CredentialsService } from '~/capture-metrics/services/credentials.service';
+import { PuppeteerHelpersService } from '~/capture-metrics/services/puppeteer-helpers.service';
+import { AppError } from '~/common/app-error.common';
+
+describe('BatchTestsService', () => {
+  let service: BatchTestsService;
+  let batchRunModel: any;
+  let testResultModel: any;
+  let captureOrchestrator: { startBatchCapture: jest.Mock };
+
+  const mockUserId = new Types.ObjectId().toString();
+  const mockBatchRunId = new Types.ObjectId();
+
+  const mockBatchRun = {
+    _id: mockBatchRunId,
+    userId: new Types.ObjectId(mockUserId),
+    batchId: 'batch-123-abc',
+    batchName: 'Landing pages',
+    testType: 'performance',
+    deviceType: 'desktop',
+    networkType: 'wifi',
+    includeScreenshots: true,
+    sequential: false,
+    status: 'COMPLETE',
+    retryCount: 0,
+    results: [
+      {
+        url: 'https://example.com',
+        label: 'Home',
+        status: 'COMPLETE',
+        testId: 'batch-123-abc-1',
+        resultId: new Types.ObjectId(),
+      },
+      {
+        url: 'https://example.com/pricing',
+        label: 'Pricing',
+        status: 'FAILED',
+        testId: 'batch-123-abc-2',
+        error: 'Navigation timeout',
+      },
+    ],
+    createdAt: new Date(),
+  };
+
+  const execResult = (value: unknown) => ({
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    batchRunModel = {
+      create: jest.fn(),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      findOneAndDelete: jest.fn(),
+      countDocuments: jest.fn(),
+    };
+    testResultModel = { deleteMany: jest.fn() };
+    captureOrchestrator = { startBatchCapture: jest.fn().mockReturnValue(EMPTY) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BatchTestsService,
+        { provide: getModelToken(BatchRun.name), useValue: batchRunModel },
+        { provide: getModelToken(TestResult.name), useValue: testResultModel },
+        { provide: CaptureOrchestratorService, useValue: captureOrchestrator },
+        CredentialsService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('k'.repeat(32)) },
+        },
+        { provide: PuppeteerHelpersService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<BatchTestsService>(BatchTestsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createBatchTest', () => {
+    it('should create a pending batch with one pending result per URL', async () => {
+      batchRunModel.create.mockImplementation((doc) =>
+        Promise.resolve({
+          ...doc,
+          toObject: () => ({ ...doc, _id: mockBatchRunId }),
+        }),
+      );
+
+      const result = await service.createBatchTest(mockUserId, {
+        urls: ['https://example.com', 'https://example.com/pricing'],
+        labels: ['Home'],
+      });
+
+      const [doc] = batchRunModel.create.mock.calls[0];
+      expect(doc.status).toBe('PENDING');
+      expect(doc.batchId).toMatch(/^batch-\d+-[a-z0-9]+$/);
+      expect(doc.results).toEqual([
+        { url: 'https://example.com', label: 'Home', status: 'PENDING' },
+        {
+          url: 'https://example.com/pricing',
+          label: 'URL 2',
+          status: 'PENDING',
+        },
+      ]);
+      expect(result.urls).toEqual([
+        'https://example.com',
+        'https://example.com/pricing',
+      ]);
+    });
+
+    it('should start the batch in the background as its owner', async () => {
+      batchRunModel.create.mockImplementation((doc) =>
+        Promise.resolve({
+          ...doc,
+          toObject: () => ({ ...doc, _id: mockBatchRunId }),
+        }),
+      );
+
+      const result = await service.createBatchTest(mockUserId, {
+        urls: ['https://example.com', 'https://example.com/pricing'],
+      });
+
+      const [batchData, abortSignal, ownerId] =
+        captureOrchestrator.startBatchCapture.mock.calls[0];
+      expect(batchData).toMatchObject({
+        batchId: result.batchId,
+        urls: [
+          { url: 'https://example.com', label: 'URL 1' },
+          { url: 'https://example.com/pricing', label: 'URL 2' },
+        ],
+      });
+      expect(abortSignal).toBeUndefined();
+      expect(ownerId).toBe(mockUserId);
+    });
+
+    it('should store credentials encrypted and return only their names', async () => {
+      batchRunModel.create.mockImplementation((doc) =>
+        Promise.resolve({
+          ...doc,
+          toObject: () => ({ ...doc, _id: mockBatchRunId }),
+        }),
+      );
+
+      const result = await service.createBatchTest(mockUserId, {
+        urls: ['https://example.com', 'https://example.com/account'],
+        auth: { cookies: [{ name: 'session', value: 'abc123' }] },
+      });
+
+      const [doc] = batchRunModel.create.mock.calls[0];
+      expect(doc.auth).toBeUndefined();
+      expect(doc.encryptedAuth).toMatch(/^v1:/);
+      expect(result.auth).toEqual({
+        headers: [],
+        cookies: ['session'],
+        basicAuth: false,
+      });
+      expect(JSON.stringify(result)).not.toContain('abc123');
+    });
+  });
+
+  describe('getBatchTestById', () => {
+    it('should throw NOT_FOUND when the batch belongs to another user', async () => {
+      batchRunModel.findOne.mockReturnValue({
+        select: jest.fn().mockReturnValue(execResult(null)),
+      });
+
+      await expect(
+        service.getBatchTestById(mockUserId, mockBatchRunId.toString()),
+      ).rejects.toMatchObject({ status: HttpStatus.NOT_FOUND });
+    });
+
+    it('should reject invalid IDs', async () => {
+      await expect(
+        service.getBatchTestById(mockUserId, 'not-an-id'),
+      ).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('deleteBatchTest', () => {
+    it('should delete the batch and its test results', async () => {
+      batchRunModel.findOneAndDelete.mockResolvedValue(mockBatchRun);
+      testResultModel.deleteMany.mockResolvedValue({ deletedCount: 1 });
+
+      const result = await service.deleteBatchTest(
+        mockUserId,
+        mockBatchRunId.toString(),
+      );
+
+      expect(result).toEqual({ message: 'Batch test deleted successfully' });
+      expect(testResultModel.deleteMany).toHaveBeenCalledWith({
+        userId: new Types.ObjectId(mockUserId),
+        batchId: 'batch-123-abc',
+      });
+    });
+  });
+
+  describe('retryBatchTest', () => {
+    it('should reset and re-run only the failed URLs', async () => {
+      const retried = {
+        ...mockBatchRun,
+        status: 'PENDING',
+        retryCount: 1,
+        results: [
+          mockBatchRun.results[0],
+          { ...mockBatchRun.results[1], status: 'PENDING', error: undefined },
+        ],
+      };
+      batchRunModel.findOne.mockReturnValue(execResult(mockBatchRun));
+      batchRunModel.findOneAndUpdate.mockReturnValue(execResult(retried));
+
+      const result = await service.retryBatchTest(
+        mockUserId,
+        mockBatchRunId.toString(),
+      );
+
+      const [filter, update, options] =
+        batchRunModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.status).toBe('COMPLETE');
+      expect(update.$set['results.$[failed].status']).toBe('PENDING');
+      expect(update.$inc).toEqual({ retryCount: 1 });
+      expect(options.arrayFilters).toEqual([{ 'failed.status': 'FAILED' }]);
+
+      const [batchData] = captureOrchestrator.startBatchCapture.mock.calls[0];
+      expect(batchData.batchId).toBe('batch-123-abc');
+      expect(batchData.urls).toEqual([
+        { url: 'https://example.com/pricing', label: 'Pricing' },
+      ]);
+      expect(result.status).toBe('PENDING');
+    });
+
+    it('should reject a retry while the batch is running', async () => {
+      batchRunModel.findOne.mockReturnValue(
+        execResult({ ...mockBatchRun, status: 'RUNNING' }),
+      );
+
+      await expect(
+        service.retryBatchTest(mockUserId, mockBatchRunId.toString()),
+      ).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+      expect(captureOrchestrator.startBatchCapture).not.toHaveBeenCalled();
+    });
+
+    it('should reject a retry when no URLs failed', async () => {
+      batchRunModel.findOne.mockReturnValue(
+        execResult({
+          ...mockBatchRun,
+          results: [mockBatchRun.results[0]],
+        }),
+      );
+
+      await expect(
+        service.retryBatchTest(mockUserId, mockBatchRunId.toString()),
+      ).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST });
+    });
+  });
+});
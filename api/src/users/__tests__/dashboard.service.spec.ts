@@ -5,6 +5,7 @@ import { DashboardService } from '../dashboard.service';
 import { User } from '../schema/user.schema';
 import { TestResult } from '~/capture-metrics/schemas/test-result.schema';
 import { TestSchedule } from '~/capture-metrics/schemas/test-schedule.schema';
+import { S3StorageService } from '~/capture-metrics/services/s3-storage.service';
 import { AppError } from '~/common/app-error.common';
 import { HttpStatus } from '@nestjs/common';
 
@@ -13,6 +14,7 @@ describe('DashboardService', () => {
   let userModel: Model<User>;
   let testResultModel: Model<TestResult>;
   let testScheduleModel: Model<TestSchedule>;
+  let s3Storage: S3StorageService;
 
   const mockUserId = new Types.ObjectId().toString();
   const mockTestId = new Types.ObjectId().toString();
@@ -78,6 +80,12 @@ describe('DashboardService', () => {
             findOne: jest.fn(),
           },
         },
+        {
+          provide: S3StorageService,
+          useValue: {
+            downloadFile: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
@@ -89,6 +97,7 @@ describe('DashboardService', () => {
     testScheduleModel = module.get<Model<TestSchedule>>(
       getModelToken(TestSchedule.name),
     );
+    s3Storage = module.get<S3StorageService>(S3StorageService);
   });
 
   afterEach(() => {
@@ -328,6 +337,38 @@ describe('DashboardService', () => {
       expect(result.url).toBe('https://example.com');
     });
 
+    it('should describe a stored HAR without its storage key', async () => {
+      const mockFindChain = {
+        findOne: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue({
+          ...mockTestResult,
+          results: {
+            ...mockTestResult.results,
+            har: {
+              key: 'har/test-123/a.har',
+              entries: 12,
+              size: 4096,
+              redacted: true,
+            },
+          },
+        }),
+      };
+
+      jest
+        .spyOn(testResultModel, 'findOne')
+        .mockReturnValue(mockFindChain as any);
+
+      const result = await service.getTestById(mockUserId, mockTestId);
+
+      expect(result.results?.har).toEqual({
+        entries: 12,
+        size: 4096,
+        redacted: true,
+      });
+    });
+
     it('should throw error if test not found', async () => {
       const mockFindChain = {
         findOne: jest.fn().mockReturnThis(),
@@ -355,6 +396,43 @@ describe('DashboardService', () => {
     });
   });
 
+  describe('getTestHar', () => {
+    const mockFindChain = (test: any) => ({
+      select: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(test),
+    });
+
+    it('should download the stored archive of the test', async () => {
+      const harKey = 'har/test-123/a.har';
+      jest
+        .spyOn(testResultModel, 'findOne')
+        .mockReturnValue(
+          mockFindChain({ results: { har: { key: harKey } } }) as any,
+        );
+      (s3Storage.downloadFile as jest.Mock).mockResolvedValue(
+        Buffer.from('{"log":{}}'),
+      );
+
+      const result = await service.getTestHar(mockUserId, mockTestId);
+
+      expect(s3Storage.downloadFile).toHaveBeenCalledWith(harKey);
+      expect(result.filename).toBe(`bugspy-${mockTestId}.har`);
+      expect(result.buffer.toString()).toBe('{"log":{}}');
+    });
+
+    it('should throw not found when no HAR was recorded', async () => {
+      jest
+        .spyOn(testResultModel, 'findOne')
+        .mockReturnValue(mockFindChain({ results: {} }) as any);
+
+      await expect(service.getTestHar(mockUserId, mockTestId)).rejects.toThrow(
+        'No HAR was recorded for this test',
+      );
+      expect(s3Storage.downloadFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deleteTest', () => {
     it('should delete a test successfully', async () => {
       jest
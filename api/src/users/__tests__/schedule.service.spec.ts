@@ -5,6 +5,9 @@ import { ScheduleService } from '../schedule.service';
 import { TestSchedule } from '~/capture-metrics/schemas/test-schedule.schema';
 import { AppError } from '~/common/app-error.common';
 import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CredentialsService } from '~/capture-metrics/services/credentials.service';
+import { PuppeteerHelpersService } from '~/capture-metrics/services/puppeteer-helpers.service';
 
 describe('ScheduleService', () => {
   let service: ScheduleService;
@@ -57,6 +60,12 @@ describe('ScheduleService', () => {
           provide: getModelToken(TestSchedule.name),
           useValue: MockModel,
         },
+        CredentialsService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('k'.repeat(32)) },
+        },
+        { provide: PuppeteerHelpersService, useValue: {} },
       ],
     }).compile();
 
@@ -103,6 +112,36 @@ describe('ScheduleService', () => {
       expect(result.frequency).toBe(createDto.frequency);
     });
 
+    it('should store credentials encrypted and return only their names', async () => {
+      (testScheduleModel.countDocuments as jest.Mock).mockResolvedValue(0);
+      (testScheduleModel as any).mockImplementation((data) => ({
+        ...data,
+        save: jest.fn().mockResolvedValue({
+          ...data,
+          _id: new Types.ObjectId(mockScheduleId),
+        }),
+      }));
+
+      const result = await service.createSchedule(mockUserId, {
+        ...createDto,
+        auth: {
+          headers: { 'X-Api-Key': 'secret-key' },
+          basicAuth: { username: 'admin', password: 'hunter2' },
+        },
+      });
+
+      const stored = (testScheduleModel as any).mock.calls[0][0];
+      expect(stored.auth).toBeUndefined();
+      expect(stored.encryptedAuth).toMatch(/^v1:/);
+      expect(stored.encryptedAuth).not.toContain('secret-key');
+      expect(result.auth).toEqual({
+        headers: ['X-Api-Key'],
+        cookies: [],
+        basicAuth: true,
+      });
+      expect(JSON.stringify(result)).not.toMatch(/secret-key|hunter2/);
+    });
+
     it('should throw error when schedule limit reached', async () => {
       jest.spyOn(testScheduleModel, 'countDocuments').mockResolvedValue(10);
 
@@ -292,6 +331,31 @@ describe('ScheduleService', () => {
       );
     });
 
+    it('should remove stored credentials when auth is null', async () => {
+      const mockFindChain = {
+        select: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(mockSchedule),
+      };
+      jest
+        .spyOn(testScheduleModel, 'findOneAndUpdate')
+        .mockReturnValue(mockFindChain as any);
+
+      const result = await service.updateSchedule(mockUserId, mockScheduleId, {
+        auth: null,
+      });
+
+      expect(testScheduleModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.any(Object),
+        {
+          $set: {},
+          $unset: { encryptedAuth: '', authSummary: '' },
+        },
+        expect.any(Object),
+      );
+      expect(result.auth).toBeUndefined();
+    });
+
     it('should throw error if schedule not found', async () => {
       const mockFindChain = {
         findOneAndUpdate: jest.fn().mockReturnThis(),
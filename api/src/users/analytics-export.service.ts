@@ -0,0 +1,249 @@
+import { Injectable, HttpStatus, Logger } from '@nestjs/common';
+import { Readable } from 'stream';
+import { Page } from 'puppeteer';
+import * as handlebars from 'handlebars';
+
+import { AppError } from '~/common/app-error.common';
+import { toCsvRow } from '~/common/csv.common';
+import { BrowserPoolService } from '~/capture-metrics/services/browser-pool.service';
+import { DashboardService } from './dashboard.service';
+
+export type PerformanceAnalytics = Awaited<
+  ReturnType<DashboardService['getPerformanceAnalytics']>
+>;
+
+const REPORT_TEMPLATE = `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          color: #333;
+          margin: 0;
+          font-size: 12px;
+        }
+        .header {
+          background-color: #4a5568;
+          color: white;
+          padding: 20px;
+        }
+        .header h1 {
+          margin: 0 0 4px;
+          font-size: 22px;
+        }
+        .content {
+          padding: 20px;
+        }
+        .stats {
+          display: flex;
+          gap: 12px;
+          margin-bottom: 20px;
+        }
+        .stat {
+          flex: 1;
+          background-color: #f7fafc;
+          border-radius: 5px;
+          padding: 12px;
+        }
+        .stat .value {
+          font-size: 20px;
+          font-weight: bold;
+        }
+        h2 {
+          font-size: 15px;
+          border-bottom: 1px solid #e2e8f0;
+          padding-bottom: 4px;
+          margin-top: 24px;
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+        th, td {
+          text-align: left;
+          padding: 6px 8px;
+          border-bottom: 1px solid #edf2f7;
+        }
+        th {
+          background-color: #f7fafc;
+        }
+        .empty {
+          color: #718096;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>Performance Analytics Report</h1>
+        <div>{{startDate}} &ndash; {{endDate}}</div>
+      </div>
+      <div class="content">
+        <div class="stats">
+          <div class="stat"><div>Total tests</div><div class="value">{{totalTests}}</div></div>
+          <div class="stat"><div>Average score</div><div class="value">{{averagePerformanceScore}}</div></div>
+          <div class="stat"><div>Total issues</div><div class="value">{{totalIssues}}</div></div>
+        </div>
+
+        <h2>Performance Trends</h2>
+        {{#if performanceTrends.length}}
+        <table>
+          <tr><th>Date</th><th>Average score</th><th>Tests</th></tr>
+          {{#each performanceTrends}}
+          <tr><td>{{date}}</td><td>{{averageScore}}</td><td>{{testCount}}</td></tr>
+          {{/each}}
+        </table>
+        {{else}}
+        <p class="empty">No completed tests in this period.</p>
+        {{/if}}
+
+        <h2>Test Type Breakdown</h2>
+        {{#if testTypeBreakdown.length}}
+        <table>
+          <tr><th>Test type</th><th>Tests</th><th>Average score</th></tr>
+          {{#each testTypeBreakdown}}
+          <tr><td>{{testType}}</td><td>{{count}}</td><td>{{averageScore}}</td></tr>
+          {{/each}}
+        </table>
+        {{else}}
+        <p class="empty">No data.</p>
+        {{/if}}
+
+        <h2>Device Breakdown</h2>
+        {{#if deviceBreakdown.length}}
+        <table>
+          <tr><th>Device</th><th>Tests</th><th>Average score</th></tr>
+          {{#each deviceBreakdown}}
+          <tr><td>{{deviceType}}</td><td>{{count}}</td><td>{{averageScore}}</td></tr>
+          {{/each}}
+        </table>
+        {{else}}
+        <p class="empty">No data.</p>
+        {{/if}}
+
+        <h2>Error Distribution</h2>
+        {{#if errorDistribution.length}}
+        <table>
+          <tr><th>Error type</th><th>Count</th><th>Severity</th></tr>
+          {{#each errorDistribution}}
+          <tr><td>{{type}}</td><td>{{count}}</td><td>{{severity}}</td></tr>
+          {{/each}}
+        </table>
+        {{else}}
+        <p class="empty">No errors recorded.</p>
+        {{/if}}
+      </div>
+    </body>
+  </html>
+`;
+
+/**
+ * Renders performance analytics as downloadable reports:
+ * - CSV, streamed section by section
+ * - PDF, rendered from HTML with a pooled browser page
+ */
+@Injectable()
+export class AnalyticsExportService {
+  private readonly logger = new Logger(AnalyticsExportService.name);
+  private readonly renderReport = handlebars.compile(REPORT_TEMPLATE);
+
+  constructor(private readonly browserPool: BrowserPoolService) {}
+
+  /**
+   * Stream analytics as CSV. Each section has its own header row and
+   * sections are separated by a blank line.
+   */
+  exportCsv(analytics: PerformanceAnalytics): Readable {
+    return Readable.from(this.generateCsvLines(analytics));
+  }
+
+  /**
+   * Render analytics as a PDF report
+   */
+  async exportPdf(analytics: PerformanceAnalytics): Promise<Buffer> {
+    let page: Page | undefined;
+
+    try {
+      const html = this.renderReport({
+        ...analytics,
+        startDate: this.formatDate(analytics.startDate),
+        endDate: this.formatDate(analytics.endDate),
+      });
+
+      page = await this.browserPool.requirePage();
+      await page.setContent(html, { waitUntil: 'load' });
+      const pdf = await page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '16px', bottom: '16px', left: '16px', right: '16px' },
+      });
+
+      return Buffer.from(pdf);
+    } catch (error) {
+      this.logger.error(
+        `Failed to render analytics PDF: ${error.message}`,
+        error.stack,
+      );
+      throw new AppError(
+        'Failed to render analytics report',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    } finally {
+      if (page) {
+        await this.browserPool.releasePage(page).catch((releaseError) => {
+          this.logger.error(
+            `Error releasing report page: ${releaseError.message}`,
+          );
+        });
+      }
+    }
+  }
+
+  private *generateCsvLines(
+    analytics: PerformanceAnalytics,
+  ): Generator<string> {
+    yield toCsvRow(['Summary']);
+    yield toCsvRow(['Metric', 'Value']);
+    yield toCsvRow(['Start date', this.formatDate(analytics.startDate)]);
+    yield toCsvRow(['End date', this.formatDate(analytics.endDate)]);
+    yield toCsvRow(['Total tests', analytics.totalTests]);
+    yield toCsvRow([
+      'Average performance score',
+      analytics.averagePerformanceScore,
+    ]);
+    yield toCsvRow(['Total issues', analytics.totalIssues]);
+
+    yield '\n';
+    yield toCsvRow(['Performance Trends']);
+    yield toCsvRow(['Date', 'Average Score', 'Test Count']);
+    for (const trend of analytics.performanceTrends) {
+      yield toCsvRow([trend.date, trend.averageScore, trend.testCount]);
+    }
+
+    yield '\n';
+    yield toCsvRow(['Test Type Breakdown']);
+    yield toCsvRow(['Test Type', 'Count', 'Average Score']);
+    for (const entry of analytics.testTypeBreakdown) {
+      yield toCsvRow([entry.testType, entry.count, entry.averageScore]);
+    }
+
+    yield '\n';
+    yield toCsvRow(['Device Breakdown']);
+    yield toCsvRow(['Device Type', 'Count', 'Average Score']);
+    for (const entry of analytics.deviceBreakdown) {
+      yield toCsvRow([entry.deviceType, entry.count, entry.averageScore]);
+    }
+
+    yield '\n';
+    yield toCsvRow(['Error Distribution']);
+    yield toCsvRow(['Error Type', 'Count', 'Severity']);
+    for (const entry of analytics.errorDistribution) {
+      yield toCsvRow([entry.type, entry.count, entry.severity]);
+    }
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '~/auth/guards/jwt.guard';
+import { CurrentUser } from '~/auth/decorators/current-user.decorator';
+import { BatchTestsService } from './batch-tests.service';
+import {
+  CreateBatchTestDto,
+  GetBatchTestsQueryDto,
+} from '~/dto/batch-tests.dto';
+
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+}
+
+@Controller('user/batch-tests')
+@UseGuards(JwtAuthGuard)
+export class BatchTestsController {
+  private readonly logger = new Logger(BatchTestsController.name);
+
+  constructor(private readonly batchTestsService: BatchTestsService) {}
+
+  /**
+   * POST /user/batch-tests
+   * Create a pending batch; start it via /capture-metrics/batch?batchId=...
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createBatchTest(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateBatchTestDto,
+  ) {
+    this.logger.log(
+      `Creating batch test with ${dto.urls.length} URLs for user: ${user.email}`,
+    );
+    return this.batchTestsService.createBatchTest(user.id, dto);
+  }
+
+  /**
+   * GET /user/batch-tests
+   * Get paginated batch tests
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getBatchTests(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: GetBatchTestsQueryDto,
+  ) {
+    this.logger.log(
+      `Getting batch tests for user: ${user.email}, page: ${query.page}, limit: ${query.limit}`,
+    );
+    return this.batchTestsService.getBatchTests(user.id, query);
+  }
+
+  /**
+   * GET /user/batch-tests/:id
+   * Get a single batch test with per-URL status
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getBatchTestById(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') batchRunId: string,
+  ) {
+    this.logger.log(`Getting batch test ${batchRunId} for user: ${user.email}`);
+    return this.batchTestsService.getBatchTestById(user.id, batchRunId);
+  }
+
+  /**
+   * DELETE /user/batch-tests/:id
+   * Delete a batch test and its test results
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteBatchTest(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') batchRunId: string,
+  ) {
+    this.logger.log(
+      `Deleting batch test ${batchRunId} for user: ${user.email}`,
+    );
+    return this.batchTestsService.deleteBatchTest(user.id, batchRunId);
+  }
+
+  /**
+   * POST /user/batch-tests/:id/retry
+   * Re-run only the failed URLs of a batch test
+   */
+  @Post(':id/retry')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async retryBatchTest(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') batchRunId: string,
+  ) {
+    this.logger.log(
+      `Retrying failed URLs of batch test ${batchRunId} for user: ${user.email}`,
+    );
+    return this.batchTestsService.retryBatchTest(user.id, batchRunId);
+  }
+}
@@ -0,0 +1,369 @@
+import { Injectable, HttpStatus, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import { AppError } from '~/common/app-error.common';
+import { TestResult } from '~/capture-metrics/schemas/test-result.schema';
+import {
+  BatchRun,
+  BatchRunUrlResult,
+} from '~/capture-metrics/schemas/batch-run.schema';
+import { CaptureOrchestratorService } from '~/capture-metrics/services/capture-orchestrator.service';
+import { CredentialsService } from '~/capture-metrics/services/credentials.service';
+import { CreateBatchCaptureData } from '~/dto/create-capture-data';
+import {
+  CreateBatchTestDto,
+  GetBatchTestsQueryDto,
+} from '~/dto/batch-tests.dto';
+
+@Injectable()
+export class BatchTestsService {
+  private readonly logger = new Logger(BatchTestsService.name);
+
+  constructor(
+    @InjectModel(BatchRun.name)
+    private readonly batchRunModel: Model<BatchRun>,
+    @InjectModel(TestResult.name)
+    private readonly testResultModel: Model<TestResult>,
+    private readonly captureOrchestrator: CaptureOrchestratorService,
+    private readonly credentialsService: CredentialsService,
+  ) {}
+
+  /**
+   * Create a batch run and start it in the background.
+   * The client follows its progress through the batch tests API.
+   */
+  async createBatchTest(userId: string, dto: CreateBatchTestDto) {
+    try {
+      if (!Types.ObjectId.isValid(userId)) {
+        throw new AppError('Invalid user ID format', HttpStatus.BAD_REQUEST);
+      }
+
+      const labels = dto.labels || [];
+      const batchRun = await this.batchRunModel.create({
+        userId: new Types.ObjectId(userId),
+        batchId: this.generateBatchId(),
+        batchName: dto.batchName,
+        testType: dto.testType || 'performance',
+        deviceType: dto.deviceType || 'desktop',
+        networkType: dto.networkType || 'wifi',
+        includeScreenshots: dto.includeScreenshots ?? true,
+        sequential: dto.sequential ?? false,
+        ...(this.credentialsService.hasCredentials(dto.auth)
+          ? {
+              encryptedAuth: this.credentialsService.encrypt(dto.auth),
+              authSummary: this.credentialsService.summarize(dto.auth),
+            }
+          : {}),
+        status: 'PENDING',
+        results: dto.urls.map((url, index) => ({
+          url,
+          label: labels[index] || `URL ${index + 1}`,
+          status: 'PENDING',
+        })),
+      });
+
+      this.startBatchRun(batchRun, batchRun.results);
+
+      return this.transformBatchRun(batchRun.toObject());
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to create batch test: ${error.message}`,
+        error.stack,
+      );
+      throw new AppError(
+        'Failed to create batch test',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Get paginated batch tests for a user, newest first
+   */
+  async getBatchTests(userId: string, query: GetBatchTestsQueryDto) {
+    try {
+      if (!Types.ObjectId.isValid(userId)) {
+        throw new AppError('Invalid user ID format', HttpStatus.BAD_REQUEST);
+      }
+
+      const page = query.page || 1;
+      const limit = query.limit || 10;
+      const filter = { userId: new Types.ObjectId(userId) };
+
+      const [batchRuns, total] = await Promise.all([
+        this.batchRunModel
+          .find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .select('-__v')
+          .lean()
+          .exec(),
+        this.batchRunModel.countDocuments(filter),
+      ]);
+
+      return {
+        batches: batchRuns.map((batchRun) => this.transformBatchRun(batchRun)),
+        total,
+        page,
+        limit,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to retrieve batch tests: ${error.message}`,
+        error.stack,
+      );
+      throw new AppError(
+        'Failed to retrieve batch tests',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Get a single batch test by ID
+   */
+  async getBatchTestById(userId: string, batchRunId: string) {
+    try {
+      if (
+        !Types.ObjectId.isValid(userId) ||
+        !Types.ObjectId.isValid(batchRunId)
+      ) {
+        throw new AppError('Invalid ID format', HttpStatus.BAD_REQUEST);
+      }
+
+      const batchRun = await this.batchRunModel
+        .findOne({
+          _id: new Types.ObjectId(batchRunId),
+          userId: new Types.ObjectId(userId),
+        })
+        .select('-__v')
+        .lean()
+        .exec();
+
+      if (!batchRun) {
+        throw new AppError('Batch test not found', HttpStatus.NOT_FOUND);
+      }
+
+      return this.transformBatchRun(batchRun);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to retrieve batch test: ${error.message}`,
+        error.stack,
+      );
+      throw new AppError(
+        'Failed to retrieve batch test',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Delete a batch test together with the test results it produced
+   */
+  async deleteBatchTest(
+    userId: string,
+    batchRunId: string,
+  ): Promise<{ message: string }> {
+    try {
+      if (
+        !Types.ObjectId.isValid(userId) ||
+        !Types.ObjectId.isValid(batchRunId)
+      ) {
+        throw new AppError('Invalid ID format', HttpStatus.BAD_REQUEST);
+      }
+
+      const userObjectId = new Types.ObjectId(userId);
+
+      const batchRun = await this.batchRunModel.findOneAndDelete({
+        _id: new Types.ObjectId(batchRunId),
+        userId: userObjectId,
+      });
+
+      if (!batchRun) {
+        throw new AppError('Batch test not found', HttpStatus.NOT_FOUND);
+      }
+
+      await this.testResultModel.deleteMany({
+        userId: userObjectId,
+        batchId: batchRun.batchId,
+      });
+
+      return { message: 'Batch test deleted successfully' };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to delete batch test: ${error.message}`,
+        error.stack,
+      );
+      throw new AppError(
+        'Failed to delete batch test',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Re-run only the failed URLs of a finished batch.
+   * The retry runs in the background; clients poll the batch for progress.
+   */
+  async retryBatchTest(userId: string, batchRunId: string) {
+    try {
+      if (
+        !Types.ObjectId.isValid(userId) ||
+        !Types.ObjectId.isValid(batchRunId)
+      ) {
+        throw new AppError('Invalid ID format', HttpStatus.BAD_REQUEST);
+      }
+
+      const filter = {
+        _id: new Types.ObjectId(batchRunId),
+        userId: new Types.ObjectId(userId),
+      };
+
+      const batchRun = await this.batchRunModel.findOne(filter).lean().exec();
+      if (!batchRun) {
+        throw new AppError('Batch test not found', HttpStatus.NOT_FOUND);
+      }
+      if (batchRun.status === 'PENDING' || batchRun.status === 'RUNNING') {
+        throw new AppError('Batch test is still running', HttpStatus.CONFLICT);
+      }
+
+      const failedResults = batchRun.results.filter(
+        (result) => result.status === 'FAILED',
+      );
+      if (failedResults.length === 0) {
+        throw new AppError(
+          'Batch test has no failed URLs to retry',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      // Reset failed URLs; the status guard stops two concurrent retries
+      const retried = await this.batchRunModel
+        .findOneAndUpdate(
+          { ...filter, status: batchRun.status },
+          {
+            $set: {
+              status: 'PENDING',
+              'results.$[failed].status': 'PENDING',
+            },
+            $unset: {
+              completedAt: '',
+              'results.$[failed].error': '',
+              'results.$[failed].completedAt': '',
+            },
+            $inc: { retryCount: 1 },
+          },
+          {
+            new: true,
+            arrayFilters: [{ 'failed.status': 'FAILED' }],
+          },
+        )
+        .lean()
+        .exec();
+
+      if (!retried) {
+        throw new AppError(
+          'Batch test is already being retried',
+          HttpStatus.CONFLICT,
+        );
+      }
+
+      this.startBatchRun(retried, failedResults);
+
+      return this.transformBatchRun(retried);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to retry batch test: ${error.message}`,
+        error.stack,
+      );
+      throw new AppError(
+        'Failed to retry batch test',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Run a pending batch headlessly for the given URLs.
+   * BatchCaptureService records progress against the batch run.
+   */
+  private startBatchRun(batchRun: BatchRun, results: BatchRunUrlResult[]) {
+    const batchData = {
+      urls: results.map((result) => ({
+        url: result.url,
+        label: result.label,
+      })),
+      testType: batchRun.testType,
+      deviceType: batchRun.deviceType,
+      networkType: batchRun.networkType,
+      includeScreenshots: batchRun.includeScreenshots,
+      sequential: batchRun.sequential,
+      batchId: batchRun.batchId,
+      batchName: batchRun.batchName,
+    } as CreateBatchCaptureData;
+
+    this.captureOrchestrator
+      .startBatchCapture(batchData, undefined, String(batchRun.userId))
+      .subscribe({
+        error: (error: unknown) => {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.logger.error(
+            `Background batch run ${batchRun.batchId} failed: ${errorMessage}`,
+          );
+        },
+      });
+  }
+
+  /**
+   * Map a batch run to the shape the dashboard expects
+   */
+  private transformBatchRun(batchRun: BatchRun) {
+    return {
+      _id: batchRun._id.toString(),
+      userId: String(batchRun.userId),
+      batchId: batchRun.batchId,
+      batchName: batchRun.batchName,
+      urls: batchRun.results.map((result) => result.url),
+      labels: batchRun.results.map((result) => result.label),
+      testType: batchRun.testType,
+      deviceType: batchRun.deviceType,
+      networkType: batchRun.networkType,
+      auth: batchRun.authSummary,
+      status: batchRun.status,
+      retryCount: batchRun.retryCount,
+      results: batchRun.results.map((result) => ({
+        url: result.url,
+        label: result.label,
+        status: result.status,
+        testId: result.testId,
+        resultId: result.resultId?.toString(),
+        error: result.error,
+      })),
+      createdAt: batchRun.createdAt,
+      startedAt: batchRun.startedAt,
+      completedAt: batchRun.completedAt,
+    };
+  }
+
+  private generateBatchId(): string {
+    return `batch-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+  }
+}
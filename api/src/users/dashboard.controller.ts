@@ -12,17 +12,23 @@ import {
   HttpCode,
   HttpStatus,
   Logger,
+  StreamableFile,
 } from '@nestjs/common';
 import { JwtAuthGuard } from '~/auth/guards/jwt.guard';
 import { CurrentUser } from '~/auth/decorators/current-user.decorator';
 import { DashboardService } from './dashboard.service';
 import { ScheduleService } from './schedule.service';
+import { AnalyticsExportService } from './analytics-export.service';
 import {
   GetTestsQueryDto,
   CreateScheduleDto,
   UpdateScheduleDto,
   PerformanceAnalyticsQueryDto,
+  AnalyticsExportQueryDto,
+  SetVisualBaselineDto,
 } from '~/dto/dashboard.dto';
+import { HAR_CONFIG } from '~/capture-metrics/config/capture.config';
+import { VisualRegressionService } from '~/capture-metrics/services/visual-regression.service';
 
 interface AuthenticatedUser {
   id: string;
@@ -37,6 +43,8 @@ export class DashboardController {
   constructor(
     private readonly dashboardService: DashboardService,
     private readonly scheduleService: ScheduleService,
+    private readonly analyticsExportService: AnalyticsExportService,
+    private readonly visualRegressionService: VisualRegressionService,
   ) {}
 
   /**
@@ -80,6 +88,28 @@ export class DashboardController {
     return this.dashboardService.getTestById(user.id, testId);
   }
 
+  /**
+   * GET /dashboard/tests/:id/har
+   * Download the HAR archive recorded for a test
+   */
+  @Get('tests/:id/har')
+  @HttpCode(HttpStatus.OK)
+  async downloadTestHar(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') testId: string,
+  ): Promise<StreamableFile> {
+    this.logger.log(`Downloading HAR of test ${testId} for user: ${user.email}`);
+    const { filename, buffer } = await this.dashboardService.getTestHar(
+      user.id,
+      testId,
+    );
+    return new StreamableFile(buffer, {
+      type: HAR_CONFIG.CONTENT_TYPE,
+      disposition: `attachment; filename="${filename}"`,
+      length: buffer.length,
+    });
+  }
+
   /**
    * DELETE /dashboard/tests/:id
    * Delete a test result
@@ -108,6 +138,50 @@ export class DashboardController {
     return this.dashboardService.archiveTest(user.id, testId);
   }
 
+  /**
+   * POST /dashboard/tests/:id/baseline
+   * Make a test's full-page screenshot the visual baseline of its URL and device
+   */
+  @Post('tests/:id/baseline')
+  @HttpCode(HttpStatus.CREATED)
+  async setVisualBaseline(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') testId: string,
+    @Body() dto: SetVisualBaselineDto,
+  ) {
+    this.logger.log(
+      `Setting visual baseline from test ${testId} for user: ${user.email}`,
+    );
+    return this.visualRegressionService.setBaseline(user.id, testId, dto);
+  }
+
+  /**
+   * GET /dashboard/baselines
+   * Get the user's visual baselines
+   */
+  @Get('baselines')
+  @HttpCode(HttpStatus.OK)
+  async getVisualBaselines(@CurrentUser() user: AuthenticatedUser) {
+    this.logger.log(`Getting visual baselines for user: ${user.email}`);
+    return this.visualRegressionService.getBaselines(user.id);
+  }
+
+  /**
+   * DELETE /dashboard/baselines/:id
+   * Delete a visual baseline
+   */
+  @Delete('baselines/:id')
+  @HttpCode(HttpStatus.OK)
+  async deleteVisualBaseline(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') baselineId: string,
+  ) {
+    this.logger.log(
+      `Deleting visual baseline ${baselineId} for user: ${user.email}`,
+    );
+    return this.visualRegressionService.deleteBaseline(user.id, baselineId);
+  }
+
   /**
    * GET /dashboard/analytics/performance
    * Get performance analytics over time
@@ -124,6 +198,40 @@ export class DashboardController {
     return this.dashboardService.getPerformanceAnalytics(user.id, query);
   }
 
+  /**
+   * GET /dashboard/analytics/export
+   * Download performance analytics as a CSV or PDF report
+   */
+  @Get('analytics/export')
+  @HttpCode(HttpStatus.OK)
+  async exportAnalytics(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: AnalyticsExportQueryDto,
+  ): Promise<StreamableFile> {
+    this.logger.log(
+      `Exporting ${query.format} analytics for user: ${user.email}, period: ${query.period}`,
+    );
+    const analytics = await this.dashboardService.getPerformanceAnalytics(
+      user.id,
+      query,
+    );
+    const filename = `analytics-${new Date().toISOString().split('T')[0]}.${query.format}`;
+
+    if (query.format === 'pdf') {
+      const pdf = await this.analyticsExportService.exportPdf(analytics);
+      return new StreamableFile(pdf, {
+        type: 'application/pdf',
+        disposition: `attachment; filename="${filename}"`,
+        length: pdf.length,
+      });
+    }
+
+    return new StreamableFile(this.analyticsExportService.exportCsv(analytics), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="${filename}"`,
+    });
+  }
+
   // ==================== SCHEDULE ENDPOINTS ====================
 
   /**
@@ -6,6 +6,7 @@ import { AppError } from '~/common/app-error.common';
 import { User } from './schema/user.schema';
 import { TestResult } from '~/capture-metrics/schemas/test-result.schema';
 import { TestSchedule } from '~/capture-metrics/schemas/test-schedule.schema';
+import { S3StorageService } from '~/capture-metrics/services/s3-storage.service';
 import {
   GetTestsQueryDto,
   DashboardStatsResponseDto,
@@ -23,6 +24,7 @@ export class DashboardService {
     private readonly testResultModel: Model<TestResult>,
     @InjectModel(TestSchedule.name)
     private readonly testScheduleModel: Model<TestSchedule>,
+    private readonly s3Storage: S3StorageService,
   ) {}
 
   /**
@@ -525,12 +527,32 @@ export class DashboardService {
                     deviceType: test.results.screenshots.deviceType || 'desktop',
                     urls: test.results.screenshots.screenshots || [], // Array of S3 URLs
                     message: test.results.screenshots.message || '',
+                    filmstrip: test.results.screenshots.filmstrip || null,
                   }
                 : null,
               cookieHandling: test.results.cookieHandling,
+              accessibility: test.results.accessibility,
               errors: test.results.errors || [],
               duration: test.results.duration,
               summary: test.results.summary,
+              runSummary: test.results.runSummary,
+              repeatView: test.results.repeatView,
+              budget: test.results.budget,
+              networkWaterfall: test.results.networkWaterfall,
+              // The archive itself is only served by getTestHar
+              har: test.results.har
+                ? {
+                    entries: test.results.har.entries,
+                    size: test.results.har.size,
+                    redacted: test.results.har.redacted,
+                  }
+                : test.results.har,
+              thirdParty: test.results.thirdParty,
+              blockingExperiment: test.results.blockingExperiment,
+              journey: test.results.journey,
+              fullPageScreenshot: test.results.fullPageScreenshot,
+              visualDiff: test.results.visualDiff,
+              screenshotMatrix: test.results.screenshotMatrix,
             }
           : undefined,
         testConfig: test.testConfig,
@@ -550,6 +572,55 @@ export class DashboardService {
     }
   }
 
+  /**
+   * Download the HAR archive recorded for a test
+   */
+  async getTestHar(
+    userId: string,
+    testId: string,
+  ): Promise<{ filename: string; buffer: Buffer }> {
+    try {
+      // Validate ObjectId formats
+      if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(testId)) {
+        throw new AppError('Invalid ID format', HttpStatus.BAD_REQUEST);
+      }
+
+      const test = await this.testResultModel
+        .findOne({
+          _id: new Types.ObjectId(testId),
+          userId: new Types.ObjectId(userId),
+        })
+        .select('results.har')
+        .lean()
+        .exec();
+
+      if (!test) {
+        throw new AppError('Test not found', HttpStatus.NOT_FOUND);
+      }
+
+      if (!test.results?.har?.key) {
+        throw new AppError(
+          'No HAR was recorded for this test',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      return {
+        filename: `bugspy-${testId}.har`,
+        buffer: await this.s3Storage.downloadFile(test.results.har.key),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Failed to retrieve HAR: ${error.message}`, error.stack);
+      throw new AppError(
+        'Failed to retrieve HAR',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   /**
    * Delete a test result
    */
@@ -653,13 +724,24 @@ export class DashboardService {
         '1y': 365 * 24 * 60 * 60 * 1000,
       };
 
-      const startDate = new Date(now.getTime() - (periodMap[period] || periodMap['30d']));
+      // An explicit date range takes precedence over the period
+      const endDate = query.endDate ? new Date(query.endDate) : now;
+      const startDate = query.startDate
+        ? new Date(query.startDate)
+        : new Date(endDate.getTime() - (periodMap[period] || periodMap['30d']));
+
+      if (startDate > endDate) {
+        throw new AppError(
+          'startDate must be before endDate',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
 
       // Build filter
       const filter: FilterQuery<TestResult> = {
         userId: userObjectId,
         status: 'completed',
-        createdAt: { $gte: startDate },
+        createdAt: { $gte: startDate, $lte: endDate },
         isArchived: { $ne: true },
       };
 
@@ -776,7 +858,7 @@ export class DashboardService {
         improvementRate: 0, // Would need historical data to calculate
         period,
         startDate,
-        endDate: now,
+        endDate,
       };
     } catch (error) {
       if (error instanceof AppError) {
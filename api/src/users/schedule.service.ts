@@ -4,6 +4,7 @@ import { Model, Types } from 'mongoose';
 
 import { AppError } from '~/common/app-error.common';
 import { TestSchedule } from '~/capture-metrics/schemas/test-schedule.schema';
+import { CredentialsService } from '~/capture-metrics/services/credentials.service';
 import {
   CreateScheduleDto,
   UpdateScheduleDto,
@@ -16,12 +17,14 @@ export class ScheduleService {
   constructor(
     @InjectModel(TestSchedule.name)
     private readonly testScheduleModel: Model<TestSchedule>,
+    private readonly credentialsService: CredentialsService,
   ) {}
 
   /**
    * Calculate next run time based on frequency
+   * Also used by the schedule executor after each run
    */
-  private calculateNextRun(frequency: string): Date {
+  calculateNextRun(frequency: string): Date {
     const now = new Date();
     const frequencyMap = {
       hourly: 60 * 60 * 1000,
@@ -67,6 +70,14 @@ export class ScheduleService {
         testType: dto.testType || 'performance',
         deviceType: dto.deviceType || 'desktop',
         includeScreenshots: dto.includeScreenshots !== false,
+        runs: dto.runs ?? 1,
+        budget: dto.budget,
+        ...(this.credentialsService.hasCredentials(dto.auth)
+          ? {
+              encryptedAuth: this.credentialsService.encrypt(dto.auth),
+              authSummary: this.credentialsService.summarize(dto.auth),
+            }
+          : {}),
         description: dto.description,
         tags: dto.tags,
         nextRun,
@@ -84,6 +95,9 @@ export class ScheduleService {
         deviceType: saved.deviceType,
         isActive: saved.isActive,
         includeScreenshots: saved.includeScreenshots,
+        runs: saved.runs ?? 1,
+        budget: saved.budget,
+        auth: saved.authSummary,
         description: saved.description,
         tags: saved.tags,
         nextRun: saved.nextRun,
@@ -136,6 +150,9 @@ export class ScheduleService {
         deviceType: schedule.deviceType,
         isActive: schedule.isActive,
         includeScreenshots: schedule.includeScreenshots,
+        runs: schedule.runs ?? 1,
+        budget: schedule.budget,
+        auth: schedule.authSummary,
         description: schedule.description,
         tags: schedule.tags,
         nextRun: schedule.nextRun,
@@ -197,6 +214,9 @@ export class ScheduleService {
         deviceType: schedule.deviceType,
         isActive: schedule.isActive,
         includeScreenshots: schedule.includeScreenshots,
+        runs: schedule.runs ?? 1,
+        budget: schedule.budget,
+        auth: schedule.authSummary,
         description: schedule.description,
         tags: schedule.tags,
         nextRun: schedule.nextRun,
@@ -242,20 +262,31 @@ export class ScheduleService {
       const scheduleObjectId = new Types.ObjectId(scheduleId);
 
       // Build update object
-      const updateData: any = { ...dto };
+      const { auth, ...changes } = dto;
+      const updateData: any = { ...changes };
+      const removeData: Record<string, ''> = {};
 
       // Recalculate next run if frequency changed
       if (dto.frequency) {
         updateData.nextRun = this.calculateNextRun(dto.frequency);
       }
 
+      // Credentials are replaced as a whole, or removed with null
+      if (this.credentialsService.hasCredentials(auth)) {
+        updateData.encryptedAuth = this.credentialsService.encrypt(auth);
+        updateData.authSummary = this.credentialsService.summarize(auth);
+      } else if (auth !== undefined) {
+        removeData.encryptedAuth = '';
+        removeData.authSummary = '';
+      }
+
       const updated = await this.testScheduleModel
         .findOneAndUpdate(
           {
             _id: scheduleObjectId,
             userId: userObjectId,
           },
-          { $set: updateData },
+          { $set: updateData, $unset: removeData },
           { new: true },
         )
         .select('-__v')
@@ -275,6 +306,9 @@ export class ScheduleService {
         deviceType: updated.deviceType,
         isActive: updated.isActive,
         includeScreenshots: updated.includeScreenshots,
+        runs: updated.runs ?? 1,
+        budget: updated.budget,
+        auth: updated.authSummary,
         description: updated.description,
         tags: updated.tags,
         nextRun: updated.nextRun,
@@ -73,6 +73,7 @@ export class User {
       scoreDropThreshold: 5,
       weeklyReports: false,
       testCompletionAlerts: false,
+      visualChangeAlerts: true,
     },
   })
   notificationPreferences: {
@@ -80,8 +81,14 @@ export class User {
     scoreDropThreshold: number;
     weeklyReports: boolean;
     testCompletionAlerts: boolean;
+    visualChangeAlerts?: boolean; // Unset on users created before it; treated as on
   };
 
+  // When the last weekly report was claimed for this user
+  @Exclude({ toPlainOnly: true })
+  @Prop({ required: false, type: Date })
+  lastWeeklyReportAt?: Date;
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -92,6 +99,7 @@ export const UserSchema = SchemaFactory.createForClass(User);
 // Note: email already has a unique index from @Prop decorator
 UserSchema.index({ subscription: 1 }); // Index for subscription queries
 UserSchema.index({ createdAt: -1 }); // Index for date-based queries
+UserSchema.index({ 'notificationPreferences.weeklyReports': 1, lastWeeklyReportAt: 1 }); // Weekly report claim query
 // Unique provider+providerId combination (only for OAuth users where providerId exists)
 UserSchema.index(
   { provider: 1, providerId: 1 },
@@ -25,6 +25,7 @@ interface UpdateNotificationPreferencesDto {
   scoreDropThreshold?: number;
   weeklyReports?: boolean;
   testCompletionAlerts?: boolean;
+  visualChangeAlerts?: boolean;
 }
 
 @Controller('user')
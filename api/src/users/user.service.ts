@@ -356,6 +356,7 @@ export class UserService {
         scoreDropThreshold: 5,
         weeklyReports: false,
         testCompletionAlerts: false,
+        visualChangeAlerts: true,
       };
     } catch (error) {
       if (error instanceof AppError) {
@@ -376,6 +377,7 @@ export class UserService {
       scoreDropThreshold?: number;
       weeklyReports?: boolean;
       testCompletionAlerts?: boolean;
+      visualChangeAlerts?: boolean;
     },
   ) {
     try {
@@ -398,6 +400,9 @@ export class UserService {
       if (typeof preferences.testCompletionAlerts === 'boolean') {
         updateObj['notificationPreferences.testCompletionAlerts'] = preferences.testCompletionAlerts;
       }
+      if (typeof preferences.visualChangeAlerts === 'boolean') {
+        updateObj['notificationPreferences.visualChangeAlerts'] = preferences.visualChangeAlerts;
+      }
 
       const updated = await this.userModel
         .findByIdAndUpdate(
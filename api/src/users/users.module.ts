@@ -4,12 +4,18 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { AuthModule } from '~/auth/auth.module';
 import { UserController } from './user.controller';
 import { DashboardController } from './dashboard.controller';
+import { BatchTestsController } from './batch-tests.controller';
 import { UserService } from './user.service';
 import { DashboardService } from './dashboard.service';
 import { ScheduleService } from './schedule.service';
+import { BatchTestsService } from './batch-tests.service';
+import { AnalyticsExportService } from './analytics-export.service';
 import { User, UserSchema } from './schema/user.schema';
 import { TestResult, TestResultSchema } from '~/capture-metrics/schemas/test-result.schema';
 import { TestSchedule, TestScheduleSchema } from '~/capture-metrics/schemas/test-schedule.schema';
+import { BatchRun, BatchRunSchema } from '~/capture-metrics/schemas/batch-run.schema';
+import { CaptureMetricsModule } from '~/capture-metrics/capture-metrics.module';
+import { UtilityModule } from '~/capture-metrics/modules/utility.module';
 
 @Module({
   imports: [
@@ -17,11 +23,20 @@ import { TestSchedule, TestScheduleSchema } from '~/capture-metrics/schemas/test
       { name: User.name, schema: UserSchema },
       { name: TestResult.name, schema: TestResultSchema },
       { name: TestSchedule.name, schema: TestScheduleSchema },
+      { name: BatchRun.name, schema: BatchRunSchema },
     ]),
     forwardRef(() => AuthModule),
+    CaptureMetricsModule,
+    UtilityModule,
+  ],
+  controllers: [UserController, DashboardController, BatchTestsController],
+  providers: [
+    UserService,
+    DashboardService,
+    ScheduleService,
+    BatchTestsService,
+    AnalyticsExportService,
   ],
-  controllers: [UserController, DashboardController],
-  providers: [UserService, DashboardService, ScheduleService],
   exports: [UserService, DashboardService, ScheduleService],
 })
 export class UsersModule {}
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import {
   Plus,
   Eye,
@@ -20,6 +22,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
 import { useBatchTests, useDeleteBatchTest, useRetryBatchTest } from '@/hooks/useBatchTests';
+import { useToast } from '@/hooks/useToast';
 import { batchAPI, type CreateBatchTestRequest } from '@/lib/api/batch';
 import { useForm, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -60,9 +63,10 @@ const BatchTestsPage = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
-  // Backend endpoints /user/batch-tests/* are not yet implemented
-  // Gracefully handle the missing endpoints
+  const queryClient = useQueryClient();
+  const toast = useToast();
   const { data: batchData, isLoading, error } = useBatchTests(currentPage, 10);
   const deleteBatch = useDeleteBatchTest();
   const retryBatch = useRetryBatchTest();
@@ -85,30 +89,37 @@ const BatchTestsPage = () => {
 
   const onSubmit: SubmitHandler<BatchFormData> = async (data) => {
     setIsRunning(true);
-
-    const eventSource = batchAPI.startBatchTest(data as CreateBatchTestRequest);
-
-    eventSource.onmessage = (event) => {
-      try {
-        const parsed = JSON.parse(event.data);
-        console.log('Batch test progress:', parsed);
-
-        if (parsed.status === 'COMPLETE' || parsed.status === 'FAILED') {
-          eventSource.close();
-          setIsRunning(false);
-          setIsModalOpen(false);
-          form.reset();
-        }
-      } catch (error) {
-        console.error('Failed to parse batch test event:', error);
-      }
-    };
-
-    eventSource.onerror = () => {
-      eventSource.close();
+    setSubmitError(null);
+
+    // The form takes one entry per line; the API expects comma-separated lists
+    const toCommaList = (value?: string) =>
+      value
+        ?.split(/[\n,]/)
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .join(',');
+    const request = {
+      ...data,
+      urls: toCommaList(data.urls),
+      labels: toCommaList(data.labels) || undefined,
+    } as CreateBatchTestRequest;
+
+    // The server runs the saved batch; the list follows its progress
+    try {
+      await batchAPI.createBatchTest(request);
+    } catch (error) {
+      const message =
+        (isAxiosError(error) && error.response?.data?.message) || 'Failed to start batch test. Please try again.';
+      setSubmitError(message);
+      toast.error(message);
+      return;
+    } finally {
       setIsRunning(false);
-      console.error('Batch test connection error');
-    };
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['batch-tests'] });
+    setIsModalOpen(false);
+    form.reset();
   };
 
   const handleDelete = (id: string) => {
@@ -325,7 +336,13 @@ const BatchTestsPage = () => {
       )}
 
       {/* Create Batch Test Modal */}
-      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+      <Dialog
+        open={isModalOpen}
+        onOpenChange={(open) => {
+          setIsModalOpen(open);
+          setSubmitError(null);
+        }}
+      >
         <DialogContent className="bg-white p-6 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="text-xl font-bold text-gray-900">Create Batch Test</DialogTitle>
@@ -437,12 +454,19 @@ const BatchTestsPage = () => {
               </p>
             </div>
 
+            {submitError && (
+              <p role="alert" className="text-red-600 text-sm">
+                {submitError}
+              </p>
+            )}
+
             <div className="flex justify-end space-x-3 mt-6">
               <Button
                 type="button"
                 variant="outline"
                 onClick={() => {
                   setIsModalOpen(false);
+                  setSubmitError(null);
                   form.reset();
                 }}
                 disabled={isRunning}
@@ -453,7 +477,7 @@ const BatchTestsPage = () => {
                 {isRunning ? (
                   <>
                     <Clock size={16} className="mr-2 animate-spin" />
-                    Running...
+                    Starting...
                   </>
                 ) : (
                   'Start Batch Test'
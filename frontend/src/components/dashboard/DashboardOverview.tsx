@@ -121,6 +121,31 @@ const DashboardOverview = () => {
   const handleStartTest = async (params: TestParams) => {
     setIsRunningTest(true);
 
+    // Signed-in users queue the test as a job: it keeps running if this page
+    // is closed, and a dropped stream resumes from the last event it received
+    if (user) {
+      try {
+        const job = await testsAPI.createTestJob(params);
+        let completed = false;
+
+        await testsAPI.streamTestJob(job.jobId, (data) => {
+          if (data.status === 'JOB_COMPLETED') {
+            console.log('✅ Test completed:', data.resultId);
+            completed = true;
+          } else if (data.status === 'JOB_FAILED') {
+            console.error('❌ Test failed:', data.error);
+          }
+        });
+
+        if (completed) navigate('/dashboard/tests');
+      } catch (error) {
+        console.error('❌ Failed to run test:', error);
+      } finally {
+        setIsRunningTest(false);
+      }
+      return;
+    }
+
     try {
       // Start the test using SSE
       const eventSource = testsAPI.startSingleTest(params);
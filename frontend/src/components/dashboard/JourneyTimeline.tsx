@@ -0,0 +1,105 @@
+import { CheckCircle, MinusCircle, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { JourneyResult, JourneyStepResult, JourneyVitals } from '@/types';
+
+const STATUS_ICONS: Record<JourneyStepResult['status'], typeof CheckCircle> = {
+  passed: CheckCircle,
+  failed: XCircle,
+  skipped: MinusCircle,
+};
+
+const STATUS_STYLES: Record<JourneyStepResult['status'], string> = {
+  passed: 'text-green-600',
+  failed: 'text-red-600',
+  skipped: 'text-gray-400',
+};
+
+const formatMs = (ms: number | null) => (ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${ms} ms`);
+
+const VitalsRow = ({ vitals }: { vitals: JourneyVitals }) => (
+  <dl className="grid grid-cols-3 md:grid-cols-6 gap-2 text-xs">
+    {[
+      ['TTFB', formatMs(vitals.ttfb)],
+      ['FCP', formatMs(vitals.fcp)],
+      ['LCP', formatMs(vitals.lcp)],
+      ['CLS', vitals.cls.toFixed(3)],
+      ['TBT', formatMs(vitals.tbt)],
+      ['INP', formatMs(vitals.inp)],
+    ].map(([label, value]) => (
+      <div key={label} className="bg-gray-50 rounded px-2 py-1">
+        <dt className="text-gray-500">{label}</dt>
+        <dd className="font-medium text-gray-900">{value}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
+export const JourneyTimeline = ({ journey }: { journey: JourneyResult }) => {
+  // Bars are scaled to the slowest step
+  const longest = Math.max(...journey.steps.map((step) => step.duration), 1);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Journey</h3>
+        <span className="text-sm text-gray-500">Total {formatMs(journey.duration)}</span>
+      </div>
+      <p className={cn('text-sm', journey.passed ? 'text-green-700' : 'text-red-700')}>
+        {journey.passed
+          ? `All ${journey.steps.length} steps passed.`
+          : `Step ${journey.failedStep} failed; the steps after it were skipped and this test is marked failed.`}
+      </p>
+
+      <ol className="space-y-3">
+        {journey.steps.map((step) => {
+          const Icon = STATUS_ICONS[step.status];
+          return (
+            <li key={step.index} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col md:flex-row gap-4">
+                {step.screenshot && (
+                  <a href={step.screenshot} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                    <img
+                      src={step.screenshot}
+                      alt={`After step ${step.index}`}
+                      className="w-full md:w-40 rounded border border-gray-200"
+                      loading="lazy"
+                    />
+                  </a>
+                )}
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Icon size={16} className={STATUS_STYLES[step.status]} />
+                    <span className="font-medium text-gray-900">
+                      {step.index}. {step.name}
+                    </span>
+                    {step.navigated && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        Page load
+                      </span>
+                    )}
+                    <span className="ml-auto text-sm text-gray-600 whitespace-nowrap">
+                      {step.status === 'skipped' ? 'Skipped' : formatMs(step.duration)}
+                    </span>
+                  </div>
+                  {step.status !== 'skipped' && (
+                    <div className="h-1.5 bg-gray-100 rounded">
+                      <div
+                        className={cn('h-1.5 rounded', step.status === 'failed' ? 'bg-red-400' : 'bg-blue-400')}
+                        style={{ width: `${(step.duration / longest) * 100}%` }}
+                      />
+                    </div>
+                  )}
+                  {step.error && <p className="text-sm text-red-600 break-words">{step.error}</p>}
+                  {step.url && <p className="text-xs text-gray-500 break-all">{step.url}</p>}
+                  {step.vitals && <VitalsRow vitals={step.vitals} />}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default JourneyTimeline;
@@ -0,0 +1,202 @@
+import { Fragment, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { NetworkWaterfall as Waterfall, NetworkWaterfallEntry } from '@/types';
+import { WATERFALL_PHASES, getWaterfallSegments } from '@/utils/networkWaterfall.util';
+
+const TYPE_FILTERS = ['All', 'Document', 'Script', 'Stylesheet', 'Image', 'Font', 'XHR', 'Fetch', 'Other'];
+const KNOWN_TYPES = TYPE_FILTERS.slice(1, -1);
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`);
+
+const shortUrl = (url: string) => {
+  try {
+    const { hostname, pathname, search } = new URL(url);
+    return { host: hostname, path: `${pathname}${search}` || '/' };
+  } catch {
+    return { host: '', path: url };
+  }
+};
+
+const EntryDetails = ({ entry }: { entry: NetworkWaterfallEntry }) => (
+  <div className="p-4 bg-gray-50 text-sm">
+    <div className="space-y-1">
+      <p className="break-all text-gray-900">{entry.url}</p>
+      <p className="text-gray-600">
+        {entry.method} · {entry.protocol || 'unknown protocol'}
+        {entry.remoteAddress && ` · ${entry.remoteAddress}`}
+      </p>
+      <p className="text-gray-600">
+        Initiator: {entry.initiator.type}
+        {entry.initiator.url && ` (${entry.initiator.url}${entry.initiator.lineNumber !== undefined ? `:${entry.initiator.lineNumber + 1}` : ''})`}
+      </p>
+      {entry.errorText && <p className="text-red-600">{entry.errorText}</p>}
+      <ul className="pt-2 space-y-0.5">
+        {WATERFALL_PHASES.map(({ key, label, color }) => (
+          <li key={key} className="flex items-center gap-2">
+            <span className={cn('inline-block w-3 h-3 rounded-sm', color)} />
+            <span className="w-28 text-gray-600">{label}</span>
+            <span className="text-gray-900">{entry.timings[key] >= 0 ? formatMs(entry.timings[key]) : '—'}</span>
+          </li>
+        ))}
+        {entry.timings.ssl >= 0 && (
+          <li className="pl-5 text-gray-500">of which TLS: {formatMs(entry.timings.ssl)}</li>
+        )}
+      </ul>
+    </div>
+  </div>
+);
+
+export const NetworkWaterfall = ({ waterfall }: { waterfall: Waterfall }) => {
+  const [typeFilter, setTypeFilter] = useState('All');
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const entries = useMemo(
+    () =>
+      waterfall.entries.filter((entry) => {
+        if (typeFilter === 'All') return true;
+        if (typeFilter === 'Other') return !KNOWN_TYPES.includes(entry.resourceType);
+        return entry.resourceType === typeFilter;
+      }),
+    [waterfall.entries, typeFilter],
+  );
+  const total = waterfall.summary.duration;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-500">Requests</h4>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{waterfall.summary.requests}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-500">Transferred</h4>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{formatBytes(waterfall.summary.transferBytes)}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-500">Failed</h4>
+          <p
+            className={cn(
+              'text-2xl font-bold mt-1',
+              waterfall.summary.failedRequests > 0 ? 'text-red-600' : 'text-gray-900',
+            )}
+          >
+            {waterfall.summary.failedRequests}
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-500">Finished</h4>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{formatMs(total)}</p>
+        </div>
+      </div>
+
+      {waterfall.summary.truncated && (
+        <p className="text-sm text-yellow-700">
+          This page made more requests than are recorded; only the first {waterfall.summary.requests} are shown.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {TYPE_FILTERS.map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => setTypeFilter(type)}
+            className={cn(
+              'px-3 py-1 rounded-full text-xs font-medium',
+              typeFilter === type ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200',
+            )}
+          >
+            {type}
+          </button>
+        ))}
+        <div className="flex flex-wrap items-center gap-3 ml-auto text-xs text-gray-600">
+          {WATERFALL_PHASES.map(({ key, label, color }) => (
+            <span key={key} className="flex items-center gap-1">
+              <span className={cn('inline-block w-3 h-3 rounded-sm', color)} />
+              {label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200 bg-gray-50">
+              <th className="py-2 px-3 font-medium">Request</th>
+              <th className="py-2 px-3 font-medium">Status</th>
+              <th className="py-2 px-3 font-medium">Type</th>
+              <th className="py-2 px-3 font-medium">Priority</th>
+              <th className="py-2 px-3 font-medium text-right">Size</th>
+              <th className="py-2 px-3 font-medium text-right">Time</th>
+              <th className="py-2 px-3 font-medium w-1/3">Waterfall</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => {
+              const { host, path } = shortUrl(entry.url);
+              const isExpanded = expanded === index;
+              return (
+                <Fragment key={`${entry.url}-${entry.startTime}-${index}`}>
+                  <tr
+                    className={cn(
+                      'border-b border-gray-100 cursor-pointer hover:bg-gray-50',
+                      entry.failed && 'text-red-700',
+                    )}
+                    onClick={() => setExpanded(isExpanded ? null : index)}
+                  >
+                    <td className="py-1.5 px-3 max-w-xs">
+                      <div className="flex items-center gap-1">
+                        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        <div className="truncate" title={entry.url}>
+                          <span className="font-medium">{path}</span>
+                          <span className="text-gray-500 ml-1">{host}</span>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="py-1.5 px-3">{entry.failed ? 'Failed' : (entry.status ?? '—')}</td>
+                    <td className="py-1.5 px-3">{entry.resourceType}</td>
+                    <td className="py-1.5 px-3">{entry.priority ?? '—'}</td>
+                    <td className="py-1.5 px-3 text-right whitespace-nowrap">
+                      {entry.fromServiceWorker
+                        ? 'service worker'
+                        : entry.fromCache
+                          ? 'cache'
+                          : formatBytes(entry.transferSize)}
+                    </td>
+                    <td className="py-1.5 px-3 text-right whitespace-nowrap">{formatMs(entry.duration)}</td>
+                    <td className="py-1.5 px-3">
+                      <div className="relative h-3">
+                        {getWaterfallSegments(entry, total).map((segment) => (
+                          <span
+                            key={segment.label}
+                            title={segment.label}
+                            className={cn('absolute top-0 h-3', segment.color)}
+                            style={{ left: `${segment.left}%`, width: `${Math.max(segment.width, 0.3)}%` }}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="border-b border-gray-100">
+                      <td colSpan={7}>
+                        <EntryDetails entry={entry} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkWaterfall;
@@ -29,6 +29,9 @@ import {
   useToggleSchedule,
 } from '@/hooks/useSchedules';
 import type { Schedule } from '@/lib/api/schedules';
+import type { PerformanceBudget } from '@/types';
+
+const budgetLimit = z.number().min(0, 'Limits cannot be negative').optional();
 
 const scheduleSchema = z.object({
   name: z.string().min(1, 'Schedule name is required'),
@@ -36,8 +39,34 @@ const scheduleSchema = z.object({
   frequency: z.enum(['hourly', 'daily', 'weekly', 'monthly']),
   testType: z.enum(['performance', 'accessibility', 'seo', 'best-practices']),
   deviceType: z.enum(['desktop', 'mobile', 'tablet']),
+  runs: z.number().int().min(1).max(9),
+  budget: z.object({
+    maxLcp: budgetLimit,
+    maxScriptKb: budgetLimit,
+    maxRequests: budgetLimit,
+    minPerformanceScore: budgetLimit.refine((value) => value === undefined || value <= 100, {
+      message: 'Score must be between 0 and 100',
+    }),
+  }),
 });
 
+// Empty inputs mean "no limit"
+const toLimit = (value: string) => (value === '' ? undefined : Number(value));
+
+const BUDGET_FIELDS: Array<{ name: 'maxLcp' | 'maxScriptKb' | 'maxRequests' | 'minPerformanceScore'; label: string; placeholder: string }> = [
+  { name: 'maxLcp', label: 'Max LCP (ms)', placeholder: '2500' },
+  { name: 'maxScriptKb', label: 'Max JavaScript (KB)', placeholder: '300' },
+  { name: 'maxRequests', label: 'Max requests', placeholder: '80' },
+  { name: 'minPerformanceScore', label: 'Min performance score', placeholder: '90' },
+];
+
+const emptyBudget = {
+  maxLcp: undefined,
+  maxScriptKb: undefined,
+  maxRequests: undefined,
+  minPerformanceScore: undefined,
+};
+
 type ScheduleFormData = z.infer<typeof scheduleSchema>;
 
 const ScheduledPageEnhanced = () => {
@@ -60,6 +89,8 @@ const ScheduledPageEnhanced = () => {
       frequency: 'daily',
       testType: 'performance',
       deviceType: 'desktop',
+      runs: 1,
+      budget: emptyBudget,
     },
   });
 
@@ -71,6 +102,8 @@ const ScheduledPageEnhanced = () => {
         frequency: editingSchedule.frequency,
         testType: editingSchedule.testType,
         deviceType: editingSchedule.deviceType,
+        runs: editingSchedule.runs ?? 1,
+        budget: { ...emptyBudget, ...editingSchedule.budget },
       });
     } else {
       form.reset({
@@ -79,11 +112,18 @@ const ScheduledPageEnhanced = () => {
         frequency: 'daily',
         testType: 'performance',
         deviceType: 'desktop',
+        runs: 1,
+        budget: emptyBudget,
       });
     }
   }, [editingSchedule, form]);
 
-  const onSubmit: SubmitHandler<ScheduleFormData> = async (data) => {
+  const onSubmit: SubmitHandler<ScheduleFormData> = async (formData) => {
+    // Keep limits set through the API that this form doesn't show
+    const budget: PerformanceBudget = { ...editingSchedule?.budget, ...formData.budget };
+    const hasLimits = Object.values(budget).some((value) => value !== undefined);
+    const data = { ...formData, budget: hasLimits ? budget : null };
+
     try {
       if (editingSchedule) {
         await updateSchedule.mutateAsync({
@@ -222,6 +262,8 @@ const ScheduledPageEnhanced = () => {
                             <span className="text-sm text-gray-500 capitalize">
                               <DeviceIcon size={14} className="inline mr-1" />
                               {schedule.testType} • {schedule.deviceType}
+                              {schedule.runs && schedule.runs > 1 && ` • ${schedule.runs} runs`}
+                              {schedule.budget && ' • budget'}
                             </span>
                           </div>
                           <div className="flex items-center space-x-6 mt-2">
@@ -393,6 +435,53 @@ const ScheduledPageEnhanced = () => {
               </Select>
             </Field>
 
+            <Field>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Runs per test</label>
+              <Select
+                onValueChange={(value) => form.setValue('runs', Number(value))}
+                value={String(form.watch('runs'))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1 run</SelectItem>
+                  <SelectItem value="3">3 runs (median reported)</SelectItem>
+                  <SelectItem value="5">5 runs (median reported)</SelectItem>
+                  <SelectItem value="9">9 runs (median reported)</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+
+            <Field>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Performance budget</label>
+              <p className="text-sm text-gray-500 mb-2">
+                Runs that exceed any limit are marked failed. Leave a field empty for no limit.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                {BUDGET_FIELDS.map(({ name, label, placeholder }) => (
+                  <div key={name}>
+                    <label htmlFor={`budget-${name}`} className="block text-xs text-gray-600 mb-1">
+                      {label}
+                    </label>
+                    <Input
+                      {...form.register(`budget.${name}`, { setValueAs: toLimit })}
+                      type="number"
+                      min={0}
+                      id={`budget-${name}`}
+                      placeholder={placeholder}
+                      className={cn(form.formState.errors.budget?.[name] && 'border-red-300')}
+                    />
+                    {form.formState.errors.budget?.[name] && (
+                      <p className="text-red-600 text-sm mt-1">
+                        {form.formState.errors.budget[name]?.message}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </Field>
+
             <div className="flex justify-end space-x-3 mt-6">
               <Button
                 type="button"
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Monitor, Smartphone, Tablet, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { MatrixViewportInfo, ScreenshotMatrixResult } from '@/types';
+
+type View = 'aboveTheFold' | 'fullPage';
+
+const ViewportIcon = ({ viewport }: { viewport: MatrixViewportInfo }) => {
+  const Icon = !viewport.isMobile ? Monitor : viewport.width < 768 ? Smartphone : Tablet;
+  return <Icon size={14} className="text-gray-500 shrink-0" />;
+};
+
+const formatMs = (ms: number | null) => (ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${ms} ms`);
+
+export const ScreenshotMatrixGrid = ({ matrix }: { matrix: ScreenshotMatrixResult }) => {
+  const [view, setView] = useState<View>('aboveTheFold');
+  const rendered = matrix.entries.filter((entry) => entry.status === 'completed').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Screenshot matrix</h3>
+          <p className="text-sm text-gray-600">
+            {rendered} of {matrix.entries.length} viewports rendered in {formatMs(matrix.duration)}
+          </p>
+        </div>
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          {(['aboveTheFold', 'fullPage'] as View[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={cn(
+                'px-3 py-1.5',
+                view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              {option === 'aboveTheFold' ? 'Above the fold' : 'Full page'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4 items-start">
+        {matrix.entries.map((entry, index) => {
+          const src = view === 'fullPage' ? entry.fullPage?.url : entry.aboveTheFold;
+          return (
+            <figure key={index} className="border border-gray-200 rounded-lg overflow-hidden bg-white">
+              <figcaption className="flex items-center gap-2 px-3 py-2 border-b border-gray-100 text-sm">
+                <ViewportIcon viewport={entry.viewport} />
+                <span className="font-medium text-gray-900 truncate">{entry.viewport.label}</span>
+                <span className="ml-auto text-xs text-gray-500 whitespace-nowrap">
+                  {entry.viewport.width}×{entry.viewport.height}
+                </span>
+              </figcaption>
+              {entry.status === 'failed' ? (
+                <div className="flex items-start gap-2 p-3 text-sm text-red-600">
+                  <XCircle size={16} className="shrink-0 mt-0.5" />
+                  <span className="break-words">{entry.error || 'The page could not be rendered'}</span>
+                </div>
+              ) : src ? (
+                <a href={src} target="_blank" rel="noopener noreferrer" className="block bg-gray-50">
+                  <img
+                    src={src}
+                    alt={`${entry.viewport.label} ${view === 'fullPage' ? 'full page' : 'above the fold'}`}
+                    className={cn('w-full object-top', view === 'fullPage' ? 'max-h-[600px] object-cover' : 'h-auto')}
+                    loading="lazy"
+                  />
+                </a>
+              ) : (
+                <p className="p-3 text-sm text-gray-500">No screenshot stored</p>
+              )}
+              {entry.status === 'completed' && (
+                <p className="px-3 py-1.5 text-xs text-gray-500 border-t border-gray-100">
+                  Loaded in {formatMs(entry.loadTime)}
+                  {view === 'fullPage' && entry.fullPage?.truncated && ` · top ${entry.fullPage.height}px only`}
+                </p>
+              )}
+            </figure>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScreenshotMatrixGrid;
@@ -34,6 +34,7 @@ const notificationSchema = z.object({
   scoreDropThreshold: z.number().min(1).max(50),
   weeklyReports: z.boolean(),
   testCompletionAlerts: z.boolean(),
+  visualChangeAlerts: z.boolean(),
 });
 
 const preferencesSchema = z.object({
@@ -79,6 +80,7 @@ const SettingsPage = () => {
       scoreDropThreshold: 5,
       weeklyReports: false,
       testCompletionAlerts: false,
+      visualChangeAlerts: true,
     },
   });
 
@@ -94,6 +96,7 @@ const SettingsPage = () => {
             scoreDropThreshold: prefs.scoreDropThreshold ?? 5,
             weeklyReports: prefs.weeklyReports ?? false,
             testCompletionAlerts: prefs.testCompletionAlerts ?? false,
+            visualChangeAlerts: prefs.visualChangeAlerts ?? true,
           });
         }
       } catch (error) {
@@ -153,6 +156,7 @@ const SettingsPage = () => {
         scoreDropThreshold: data.scoreDropThreshold,
         weeklyReports: data.weeklyReports,
         testCompletionAlerts: data.testCompletionAlerts,
+        visualChangeAlerts: data.visualChangeAlerts,
       });
       setSuccessMessage('Notification preferences updated!');
     } catch (error) {
@@ -398,6 +402,19 @@ const SettingsPage = () => {
                         data-testid="test-completion-toggle"
                       />
                     </div>
+
+                    <div className="flex items-center justify-between p-4 hover:bg-gray-50 rounded-lg">
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-900">Visual Change Alerts</h3>
+                        <p className="text-sm text-gray-500">Get notified when a page no longer matches its visual baseline</p>
+                      </div>
+                      <input
+                        {...notificationsForm.register('visualChangeAlerts')}
+                        type="checkbox"
+                        className="rounded border-gray-300 text-blue-600 h-5 w-5"
+                        data-testid="visual-change-toggle"
+                      />
+                    </div>
                   </div>
 
                   <div className="flex justify-end pt-4 border-t">
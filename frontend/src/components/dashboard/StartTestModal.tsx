@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import type { JourneyStep, MatrixViewport } from '@/types';
 
 interface StartTestModalProps {
   isOpen: boolean;
@@ -11,17 +12,69 @@ interface StartTestModalProps {
 
 export interface TestParams {
   url: string;
-  testType: 'performance' | 'accessibility' | 'seo' | 'best-practices';
+  testType: 'performance' | 'accessibility' | 'seo' | 'best-practices' | 'journey' | 'matrix';
   deviceType: 'desktop' | 'mobile' | 'tablet';
   includeScreenshots: boolean;
+  runs: number;
+  repeatView: boolean;
+  har: boolean;
+  thirdPartyReport: boolean;
+  blockUrls: string[];
+  steps?: JourneyStep[];
+  viewports?: MatrixViewport[];
 }
 
+const EXAMPLE_STEPS = `[
+  { "action": "click", "selector": "#search-toggle" },
+  { "action": "type", "selector": "input[name=q]", "text": "shoes" },
+  { "action": "click", "selector": "button[type=submit]" },
+  { "action": "assertText", "text": "results" }
+]`;
+
+// Steps of a journey test, or an error message if they aren't a JSON array of steps
+const parseSteps = (value: string): JourneyStep[] | string => {
+  try {
+    const steps = JSON.parse(value);
+    if (!Array.isArray(steps) || steps.length === 0) return 'Enter a JSON array with at least one step';
+    if (steps.length > 20) return 'A journey can have at most 20 steps';
+    return steps as JourneyStep[];
+  } catch {
+    return 'Steps must be valid JSON';
+  }
+};
+
+const DEFAULT_WIDTHS = '360, 768, 1024, 1440, 1920';
+
+// Viewports of a matrix test ("1440" or "1440x900" each), or an error message
+const parseViewports = (value: string): MatrixViewport[] | string => {
+  const viewports: MatrixViewport[] = [];
+  for (const item of value.split(',').map((v) => v.trim()).filter(Boolean)) {
+    const match = item.match(/^(\d+)(?:\s*[x×]\s*(\d+))?$/i);
+    if (!match) return `"${item}" is not a width or WIDTHxHEIGHT`;
+    const width = Number(match[1]);
+    const height = match[2] ? Number(match[2]) : undefined;
+    if (width < 240 || width > 3840) return 'Widths must be between 240 and 3840 pixels';
+    if (height !== undefined && (height < 240 || height > 2160)) return 'Heights must be between 240 and 2160 pixels';
+    viewports.push(height ? { width, height } : { width });
+  }
+  if (viewports.length === 0) return 'Enter at least one width';
+  if (viewports.length > 10) return 'A matrix can have at most 10 viewports';
+  return viewports;
+};
+
 export const StartTestModal = ({ isOpen, onClose, onSubmit }: StartTestModalProps) => {
   const [url, setUrl] = useState('');
   const [testType, setTestType] = useState<TestParams['testType']>('performance');
   const [deviceType, setDeviceType] = useState<TestParams['deviceType']>('desktop');
   const [includeScreenshots, setIncludeScreenshots] = useState(true);
-  const [errors, setErrors] = useState<{ url?: string }>({});
+  const [runs, setRuns] = useState(1);
+  const [repeatView, setRepeatView] = useState(false);
+  const [har, setHar] = useState(false);
+  const [thirdPartyReport, setThirdPartyReport] = useState(false);
+  const [blockUrls, setBlockUrls] = useState('');
+  const [steps, setSteps] = useState(EXAMPLE_STEPS);
+  const [widths, setWidths] = useState(DEFAULT_WIDTHS);
+  const [errors, setErrors] = useState<{ url?: string; steps?: string; viewports?: string }>({});
 
   const validateUrl = (url: string): boolean => {
     try {
@@ -46,6 +99,18 @@ export const StartTestModal = ({ isOpen, onClose, onSubmit }: StartTestModalProp
       return;
     }
 
+    const journeySteps = testType === 'journey' ? parseSteps(steps) : undefined;
+    if (typeof journeySteps === 'string') {
+      setErrors({ steps: journeySteps });
+      return;
+    }
+
+    const viewports = testType === 'matrix' ? parseViewports(widths) : undefined;
+    if (typeof viewports === 'string') {
+      setErrors({ viewports });
+      return;
+    }
+
     setErrors({});
 
     // Submit the test
@@ -54,6 +119,16 @@ export const StartTestModal = ({ isOpen, onClose, onSubmit }: StartTestModalProp
       testType,
       deviceType,
       includeScreenshots,
+      runs,
+      repeatView,
+      har,
+      thirdPartyReport,
+      blockUrls: blockUrls
+        .split(/[\n,]/)
+        .map((pattern) => pattern.trim())
+        .filter(Boolean),
+      steps: journeySteps,
+      viewports,
     });
 
     // Reset form
@@ -61,6 +136,13 @@ export const StartTestModal = ({ isOpen, onClose, onSubmit }: StartTestModalProp
     setTestType('performance');
     setDeviceType('desktop');
     setIncludeScreenshots(true);
+    setRuns(1);
+    setRepeatView(false);
+    setHar(false);
+    setThirdPartyReport(false);
+    setBlockUrls('');
+    setSteps(EXAMPLE_STEPS);
+    setWidths(DEFAULT_WIDTHS);
     onClose();
   };
 
@@ -126,15 +208,73 @@ export const StartTestModal = ({ isOpen, onClose, onSubmit }: StartTestModalProp
                 <option value="accessibility">Accessibility</option>
                 <option value="seo">SEO</option>
                 <option value="best-practices">Best Practices</option>
+                <option value="journey">User Journey</option>
+                <option value="matrix">Screenshot Matrix</option>
               </select>
               <p className="mt-1 text-sm text-gray-500">
                 {testType === 'performance' && 'Measure page load speed, Core Web Vitals, and performance metrics'}
                 {testType === 'accessibility' && 'Check for accessibility issues and WCAG compliance'}
                 {testType === 'seo' && 'Analyze SEO best practices and meta tags'}
                 {testType === 'best-practices' && 'Evaluate overall code quality and best practices'}
+                {testType === 'journey' && 'Run scripted steps in one page and time each of them'}
+                {testType === 'matrix' && 'Screenshot the page at several widths side by side'}
               </p>
             </div>
 
+            {/* Journey Steps */}
+            {testType === 'journey' && (
+              <div>
+                <label htmlFor="steps" className="block text-sm font-medium text-gray-700 mb-2">
+                  Journey Steps
+                </label>
+                <textarea
+                  id="steps"
+                  rows={8}
+                  value={steps}
+                  onChange={(e) => {
+                    setSteps(e.target.value);
+                    setErrors({});
+                  }}
+                  className={`w-full px-3 py-2 border rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.steps ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.steps && (
+                  <p className="mt-1 text-sm text-red-600">{errors.steps}</p>
+                )}
+                <p className="mt-1 text-sm text-gray-500">
+                  Actions: navigate (url), click (selector), type (selector, text), waitForSelector (selector) and
+                  assertText (text, optional selector). The website URL is opened first
+                </p>
+              </div>
+            )}
+
+            {/* Matrix Viewports */}
+            {testType === 'matrix' && (
+              <div>
+                <label htmlFor="widths" className="block text-sm font-medium text-gray-700 mb-2">
+                  Viewport Widths
+                </label>
+                <Input
+                  id="widths"
+                  type="text"
+                  value={widths}
+                  onChange={(e) => {
+                    setWidths(e.target.value);
+                    setErrors({});
+                  }}
+                  className={errors.viewports ? 'border-red-500' : ''}
+                />
+                {errors.viewports && (
+                  <p className="mt-1 text-sm text-red-600">{errors.viewports}</p>
+                )}
+                <p className="mt-1 text-sm text-gray-500">
+                  Comma-separated widths, optionally with a height (1440x900). Widths up to 767px are rendered as
+                  phones and up to 1023px as tablets
+                </p>
+              </div>
+            )}
+
             {/* Device Type */}
             <div>
               <label htmlFor="deviceType" className="block text-sm font-medium text-gray-700 mb-2">
@@ -152,6 +292,28 @@ export const StartTestModal = ({ isOpen, onClose, onSubmit }: StartTestModalProp
               </select>
             </div>
 
+            {/* Number of Runs */}
+            <div>
+              <label htmlFor="runs" className="block text-sm font-medium text-gray-700 mb-2">
+                Number of Runs
+              </label>
+              <select
+                id="runs"
+                value={runs}
+                onChange={(e) => setRuns(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {[1, 3, 5, 7, 9].map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? '1 run' : `${count} runs (median reported)`}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                Repeated runs reduce noise in scores but take longer
+              </p>
+            </div>
+
             {/* Include Screenshots */}
             <div className="flex items-start">
               <div className="flex items-center h-5">
@@ -173,6 +335,86 @@ export const StartTestModal = ({ isOpen, onClose, onSubmit }: StartTestModalProp
               </div>
             </div>
 
+            {/* Repeat View */}
+            <div className="flex items-start">
+              <div className="flex items-center h-5">
+                <input
+                  id="repeatView"
+                  type="checkbox"
+                  checked={repeatView}
+                  onChange={(e) => setRepeatView(e.target.checked)}
+                  className="w-4 h-4 border border-gray-300 rounded text-blue-600 focus:ring-blue-500"
+                />
+              </div>
+              <div className="ml-3">
+                <label htmlFor="repeatView" className="text-sm font-medium text-gray-700">
+                  Measure Repeat View
+                </label>
+                <p className="text-sm text-gray-500">
+                  Load the page with a cold cache, then reload it warm to see how much caching helps
+                </p>
+              </div>
+            </div>
+
+            {/* HAR Export */}
+            <div className="flex items-start">
+              <div className="flex items-center h-5">
+                <input
+                  id="har"
+                  type="checkbox"
+                  checked={har}
+                  onChange={(e) => setHar(e.target.checked)}
+                  className="w-4 h-4 border border-gray-300 rounded text-blue-600 focus:ring-blue-500"
+                />
+              </div>
+              <div className="ml-3">
+                <label htmlFor="har" className="text-sm font-medium text-gray-700">
+                  Record HAR
+                </label>
+                <p className="text-sm text-gray-500">
+                  Save every request as a HAR file you can open in Chrome DevTools (cookies and authorization headers are redacted)
+                </p>
+              </div>
+            </div>
+
+            {/* Third-Party Report */}
+            <div className="flex items-start">
+              <div className="flex items-center h-5">
+                <input
+                  id="thirdPartyReport"
+                  type="checkbox"
+                  checked={thirdPartyReport}
+                  onChange={(e) => setThirdPartyReport(e.target.checked)}
+                  className="w-4 h-4 border border-gray-300 rounded text-blue-600 focus:ring-blue-500"
+                />
+              </div>
+              <div className="ml-3">
+                <label htmlFor="thirdPartyReport" className="text-sm font-medium text-gray-700">
+                  Third-Party Report
+                </label>
+                <p className="text-sm text-gray-500">
+                  Break down requests, bytes and main-thread time by third party (analytics, ads, tag managers, CDNs)
+                </p>
+              </div>
+            </div>
+
+            {/* Blocking Experiment */}
+            <div>
+              <label htmlFor="blockUrls" className="block text-sm font-medium text-gray-700 mb-2">
+                Block URLs (optional)
+              </label>
+              <Input
+                id="blockUrls"
+                type="text"
+                placeholder="googletagmanager.com, *.doubleclick.net"
+                value={blockUrls}
+                onChange={(e) => setBlockUrls(e.target.value)}
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Runs the test again with matching requests blocked and shows how the metrics change. Use * as a wildcard
+              </p>
+            </div>
+
             {/* Actions */}
             <div className="flex items-center justify-end space-x-3 pt-4">
               <Button
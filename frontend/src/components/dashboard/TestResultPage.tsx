@@ -24,12 +24,33 @@ import {
   ZoomIn,
   Search,
   Play,
+  ListChecks,
+  LayoutGrid,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import type { TestResult, ErrorReport } from '@/types';
+import type {
+  TestResult,
+  ErrorReport,
+  AccessibilityIssue,
+  AccessibilityResult,
+  RunSummary,
+  RepeatViewResult,
+  WebMetrics,
+  BudgetResult,
+  BlockingExperimentResult,
+  MetricDelta,
+  Filmstrip,
+} from '@/types';
 import { useTestById } from '@/hooks/useDashboard';
+import { userAPI } from '@/lib/api/user';
 import SeoResultsSection from './SeoResultsSection';
+import NetworkWaterfall from './NetworkWaterfall';
+import ThirdPartyReport from './ThirdPartyReport';
+import JourneyTimeline from './JourneyTimeline';
+import VisualComparison from './VisualComparison';
+import ScreenshotMatrixGrid from './ScreenshotMatrixGrid';
+import VisualProgress from './VisualProgress';
 import { exportSeoReportToPdf, exportPerformanceReportToPdf } from '@/utils/pdfExport';
 import { useToast } from '@/hooks/useToast';
 
@@ -84,6 +105,257 @@ const MetricCard = ({
   );
 };
 
+const RUN_METRIC_LABELS: Record<string, string> = {
+  performanceScore: 'Performance Score',
+  accessibilityScore: 'Accessibility Score',
+  bestPracticesScore: 'Best Practices Score',
+  seoScore: 'SEO Score',
+  'vitalsMetrics.LCP': 'Largest Contentful Paint (ms)',
+  'vitalsMetrics.CLS': 'Cumulative Layout Shift',
+  'performanceMetrics.firstContentfulPaint': 'First Contentful Paint (ms)',
+  'performanceMetrics.loadComplete': 'Load Complete (ms)',
+  'networkMetrics.totalRequests': 'Requests',
+};
+
+const RunVariability = ({ runSummary }: { runSummary: RunSummary }) => {
+  const rows = Object.entries(RUN_METRIC_LABELS).filter(([path]) => runSummary.metrics[path]);
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-1">Run Variability</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        {runSummary.completedRuns} of {runSummary.requestedRuns} runs completed. Results above are
+        from run {runSummary.medianRun}, the median run.
+      </p>
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Metric</th>
+                <th className="py-2 pr-4 font-medium">Median</th>
+                <th className="py-2 pr-4 font-medium">Min</th>
+                <th className="py-2 pr-4 font-medium">Max</th>
+                <th className="py-2 font-medium">Std Dev</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(([path, label]) => {
+                const stats = runSummary.metrics[path];
+                return (
+                  <tr key={path} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 text-gray-900">{label}</td>
+                    <td className="py-2 pr-4 font-medium">{stats.median}</td>
+                    <td className="py-2 pr-4">{stats.min}</td>
+                    <td className="py-2 pr-4">{stats.max}</td>
+                    <td className="py-2">±{stats.stddev}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const REPEAT_VIEW_METRICS: Array<{ path: string; label: string; unit?: 'ms' | 'KB' }> = [
+  { path: 'performanceMetrics.timeToFirstByte', label: 'Time to First Byte', unit: 'ms' },
+  { path: 'performanceMetrics.firstContentfulPaint', label: 'First Contentful Paint', unit: 'ms' },
+  { path: 'performanceMetrics.largestContentfulPaint', label: 'Largest Contentful Paint', unit: 'ms' },
+  { path: 'performanceMetrics.loadComplete', label: 'Load Complete', unit: 'ms' },
+  { path: 'networkMetrics.totalRequests', label: 'Requests' },
+  { path: 'networkMetrics.totalBytes', label: 'Bytes Transferred', unit: 'KB' },
+  { path: 'networkMetrics.caching.cached', label: 'Served from Cache' },
+];
+
+const getMetric = (webMetrics: WebMetrics | null | undefined, path: string) => {
+  const value = path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+      webMetrics,
+    );
+  return typeof value === 'number' ? value : undefined;
+};
+
+const formatViewMetric = (value: number | undefined, unit?: 'ms' | 'KB') => {
+  if (value === undefined) return '—';
+  if (unit === 'KB') return `${(value / 1024).toFixed(1)} KB`;
+  if (unit === 'ms') return `${Math.round(value)} ms`;
+  return String(value);
+};
+
+const RepeatViewComparison = ({
+  firstView,
+  repeatView,
+}: {
+  firstView: WebMetrics | null | undefined;
+  repeatView: RepeatViewResult;
+}) => {
+  const rows = REPEAT_VIEW_METRICS.filter(
+    ({ path }) => getMetric(firstView, path) !== undefined || getMetric(repeatView.webMetrics, path) !== undefined,
+  );
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-1">First View vs. Repeat View</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        The first view loads with a cold cache; the repeat view reloads the page with the HTTP cache
+        and service worker the first view left behind.
+        {repeatView.comparison &&
+          ` Caching saved ${repeatView.comparison.requestsSaved} requests and ${formatViewMetric(
+            repeatView.comparison.bytesSaved,
+            'KB',
+          )}.`}
+      </p>
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Metric</th>
+                <th className="py-2 pr-4 font-medium">First View</th>
+                <th className="py-2 font-medium">Repeat View</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ path, label, unit }) => (
+                <tr key={path} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 text-gray-900">{label}</td>
+                  <td className="py-2 pr-4">{formatViewMetric(getMetric(firstView, path), unit)}</td>
+                  <td className="py-2 font-medium">
+                    {formatViewMetric(getMetric(repeatView.webMetrics, path), unit)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BUDGET_STATUS_STYLES: Record<BudgetResult['assertions'][number]['status'], string> = {
+  pass: 'bg-green-100 text-green-800',
+  fail: 'bg-red-100 text-red-800',
+  unknown: 'bg-gray-100 text-gray-600',
+};
+
+const formatBudgetValue = (value: number | null, unit: string) => {
+  if (value === null) return 'Not measured';
+  return unit === 'ms' || unit === 'KB' ? `${value} ${unit}` : String(value);
+};
+
+const BudgetAssertions = ({ budget }: { budget: BudgetResult }) => (
+  <div>
+    <h3 className="text-lg font-semibold mb-1">Performance Budget</h3>
+    <p className={cn('text-sm mb-4', budget.passed ? 'text-green-700' : 'text-red-700')}>
+      {budget.passed
+        ? 'All budget limits were met.'
+        : `${budget.assertions.filter((assertion) => assertion.status === 'fail').length} budget limit(s) exceeded; this test is marked failed.`}
+    </p>
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-2 pr-4 font-medium">Assertion</th>
+            <th className="py-2 pr-4 font-medium">Limit</th>
+            <th className="py-2 pr-4 font-medium">Actual</th>
+            <th className="py-2 font-medium">Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {budget.assertions.map((assertion) => (
+            <tr key={assertion.metric} className="border-b border-gray-100">
+              <td className="py-2 pr-4 text-gray-900">{assertion.label}</td>
+              <td className="py-2 pr-4">
+                {assertion.metric.startsWith('min') ? '≥ ' : '≤ '}
+                {formatBudgetValue(assertion.limit, assertion.unit)}
+              </td>
+              <td className="py-2 pr-4 font-medium">{formatBudgetValue(assertion.actual, assertion.unit)}</td>
+              <td className="py-2">
+                <span
+                  className={cn(
+                    'inline-flex items-center px-2 py-1 rounded-full text-xs font-medium capitalize',
+                    BUDGET_STATUS_STYLES[assertion.status],
+                  )}
+                >
+                  {assertion.status}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const formatDeltaValue = (value: number | null, unit: MetricDelta['unit']) => {
+  if (value === null) return '—';
+  if (unit === 'KB') return `${value.toFixed(1)} KB`;
+  if (unit === 'ms') return `${Math.round(value)} ms`;
+  return String(value);
+};
+
+// Only the score gets better as it rises
+const isImprovement = ({ metric, delta }: MetricDelta) =>
+  delta !== null && delta !== 0 && (metric === 'performanceScore' ? delta > 0 : delta < 0);
+
+const BlockingExperiment = ({ experiment }: { experiment: BlockingExperimentResult }) => (
+  <div>
+    <h3 className="text-lg font-semibold mb-1">Blocking Experiment</h3>
+    <p className="text-sm text-gray-600 mb-2">
+      The test was repeated with {experiment.blockedRequests} request(s) matching these patterns blocked:
+    </p>
+    <div className="flex flex-wrap gap-2 mb-4">
+      {experiment.patterns.map((pattern) => (
+        <code key={pattern} className="px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-800">
+          {pattern}
+        </code>
+      ))}
+    </div>
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-2 pr-4 font-medium">Metric</th>
+            <th className="py-2 pr-4 font-medium">Normal</th>
+            <th className="py-2 pr-4 font-medium">Blocked</th>
+            <th className="py-2 font-medium">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {experiment.deltas.map((delta) => (
+            <tr key={delta.metric} className="border-b border-gray-100">
+              <td className="py-2 pr-4 text-gray-900">{delta.label}</td>
+              <td className="py-2 pr-4">{formatDeltaValue(delta.baseline, delta.unit)}</td>
+              <td className="py-2 pr-4">{formatDeltaValue(delta.blocked, delta.unit)}</td>
+              <td
+                className={cn(
+                  'py-2 font-medium',
+                  delta.delta === null || delta.delta === 0
+                    ? 'text-gray-600'
+                    : isImprovement(delta)
+                      ? 'text-green-700'
+                      : 'text-red-700',
+                )}
+              >
+                {delta.delta !== null && delta.delta > 0 && '+'}
+                {formatDeltaValue(delta.delta, delta.unit)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
 const ErrorItem = ({ error }: { error: ErrorReport }) => {
   const severityColors = {
     low: 'bg-blue-100 text-blue-800',
@@ -133,6 +405,8 @@ interface Screenshot {
   type: string;
   timestamp: number;
   deviceType: string;
+  offset?: number; // Filmstrip frames: ms after navigation start
+  visualProgress?: number | null;
 }
 
 const ScreenshotFilmstrip = ({ screenshots }: { screenshots: Screenshot[] }) => {
@@ -241,7 +515,9 @@ const ScreenshotFilmstrip = ({ screenshots }: { screenshots: Screenshot[] }) =>
                 <div className="w-full h-full bg-gray-200 flex flex-col items-center justify-center">
                   <Eye size={20} className="text-gray-500" />
                   <p className="text-xs text-gray-600 mt-1 capitalize">
-                    {screenshot.type.split('-')[0]}
+                    {screenshot.offset !== undefined
+                      ? `${(screenshot.offset / 1000).toFixed(1)} s`
+                      : screenshot.type.split('-')[0]}
                   </p>
                 </div>
               </button>
@@ -259,7 +535,15 @@ const ScreenshotFilmstrip = ({ screenshots }: { screenshots: Screenshot[] }) =>
             </h4>
             <p className="text-sm text-gray-600 mt-1">
               Device: {screenshots[selectedIndex].deviceType} •
-              Captured at {new Date(screenshots[selectedIndex].timestamp).toLocaleTimeString()}
+              {screenshots[selectedIndex].offset !== undefined ? (
+                <>
+                  {' '}{(screenshots[selectedIndex].offset! / 1000).toFixed(2)} s after navigation start
+                  {typeof screenshots[selectedIndex].visualProgress === 'number' &&
+                    ` • ${screenshots[selectedIndex].visualProgress}% visually complete`}
+                </>
+              ) : (
+                <> Captured at {new Date(screenshots[selectedIndex].timestamp).toLocaleTimeString()}</>
+              )}
             </p>
           </div>
           <Button variant="outline" size="sm">
@@ -339,6 +623,13 @@ const TestResultPage = () => {
   // 2. webMetrics.metrics (old format stored in database)
   // Get raw metrics data - handle multiple possible data structures
   const rawMetrics = rawTest?.results?.webMetrics || rawTest?.results?.performanceMetrics;
+  // The API returns screenshot metadata (URLs, filmstrip) rather than Screenshot[]
+  const rawScreenshots = rawTest?.results?.screenshots as unknown as
+    | { deviceType?: string; urls?: string[]; filmstrip?: Filmstrip | null }
+    | null
+    | undefined;
+  // Screenshots are dated from the stored test, never from when the page renders
+  const testStartedAt = rawTest?.createdAt ? new Date(rawTest.createdAt).getTime() : 0;
   
   const test = rawTest ? {
     ...rawTest,
@@ -350,9 +641,9 @@ const TestResultPage = () => {
         largestContentfulPaint: (rawMetrics.largestContentfulPaint || rawMetrics.metrics?.largestContentfulPaint || 0) / 1000,
         cumulativeLayoutShift: rawMetrics.cumulativeLayoutShift || rawMetrics.metrics?.cumulativeLayoutShift || 0,
         totalBlockingTime: rawMetrics.totalBlockingTime || rawMetrics.metrics?.totalBlockingTime || 0,
-        speedIndex: (rawMetrics.speedIndex || rawMetrics.metrics?.speedIndex || 0) / 1000,
+        speedIndex: (rawMetrics.speedIndex || rawTest.results.webMetrics?.performanceMetrics?.speedIndex || rawScreenshots?.filmstrip?.speedIndex || rawMetrics.metrics?.speedIndex || 0) / 1000,
         performanceScore: rawMetrics.performanceScore || rawTest.performanceScore || 0,
-        accessibilityScore: rawMetrics.accessibilityScore || 0,
+        accessibilityScore: rawTest.results.accessibility?.score || rawMetrics.accessibilityScore || 0,
         seoScore: rawMetrics.seoScore || rawMetrics.seoAnalysis?.score || 0,
         bestPracticesScore: rawMetrics.bestPracticesScore || 0,
         opportunities: [],
@@ -368,15 +659,37 @@ const TestResultPage = () => {
             : { id: `error-${index}`, type: err.source || 'issue', severity: err.severity || 'medium', message: err.message || err.description, timestamp: Date.now() }
         );
       })(),
+      // Flatten accessibility audit violations into one issue per failing element
+      accessibilityIssues: ((rawTest.results.accessibility as AccessibilityResult | undefined)?.violations || []).flatMap((violation) =>
+        (violation.nodes || []).map((node, index): AccessibilityIssue => ({
+          id: `${violation.id}-${index}`,
+          type: violation.id,
+          severity: violation.impact,
+          element: node.selector,
+          description: violation.description,
+          help: violation.help,
+          helpUrl: violation.helpUrl,
+          html: node.html,
+          wcag: violation.wcag,
+        }))
+      ),
       // Map console errors specifically
       consoleErrors: rawTest.results.consoleErrors || null,
-      // Map screenshots to expected format
-      screenshots: rawTest.results.screenshots?.urls?.map((url: string, index: number) => ({
+      // Map screenshots to expected format; filmstrip frames carry their timing
+      screenshots: rawScreenshots?.filmstrip?.frames.map((frame, index) => ({
+        id: `screenshot-${index}`,
+        url: frame.url,
+        type: 'viewport',
+        timestamp: testStartedAt + frame.timestamp,
+        deviceType: rawScreenshots?.deviceType || rawTest.deviceType || 'desktop',
+        offset: frame.timestamp,
+        visualProgress: frame.visualProgress,
+      })) || rawScreenshots?.urls?.map((url: string, index: number) => ({
         id: `screenshot-${index}`,
         url,
         type: 'viewport',
-        timestamp: Date.now(),
-        deviceType: rawTest.results?.screenshots?.deviceType || rawTest.deviceType || 'desktop',
+        timestamp: testStartedAt,
+        deviceType: rawScreenshots?.deviceType || rawTest.deviceType || 'desktop',
       })) || [],
       // Map network stats
       networkRequests: rawTest.results.webMetrics?.networkStats ? [{
@@ -485,12 +798,14 @@ const TestResultPage = () => {
   const allTabs = [
     { id: 'overview', name: 'Overview', icon: FileText, alwaysShow: true },
     { id: 'performance', name: 'Performance', icon: Clock, alwaysShow: true },
+    { id: 'journey', name: 'Journey', icon: ListChecks, hasContent: !!rawTest?.results?.journey },
+    { id: 'matrix', name: 'Viewports', icon: LayoutGrid, hasContent: !!rawTest?.results?.screenshotMatrix },
     { id: 'seo', name: 'SEO', icon: Search, hasContent: test.testType === 'seo' || !!test.results?.webMetrics?.seoAnalysis },
     { id: 'errors', name: 'Issues', icon: AlertTriangle, count: issues.length, hasContent: issues.length > 0 },
-    { id: 'screenshots', name: 'Screenshots', icon: Eye, hasContent: test.results?.screenshots && Object.keys(test.results.screenshots).length > 0 },
-    { id: 'network', name: 'Network', icon: Network, hasContent: !!test.results?.webMetrics?.networkStats },
+    { id: 'screenshots', name: 'Screenshots', icon: Eye, hasContent: (test.results?.screenshots && Object.keys(test.results.screenshots).length > 0) || !!rawTest?.results?.fullPageScreenshot },
+    { id: 'network', name: 'Network', icon: Network, hasContent: !!(rawTest?.results?.networkWaterfall || rawTest?.results?.thirdParty || test.results?.webMetrics?.networkStats) },
     { id: 'console', name: 'Console', icon: Terminal, hasContent: (test.results?.consoleErrors?.length || 0) > 0 },
-    { id: 'accessibility', name: 'Accessibility', icon: UserCheck, hasContent: !!test.results?.webMetrics?.accessibilityScore },
+    { id: 'accessibility', name: 'Accessibility', icon: UserCheck, hasContent: !!test.results?.webMetrics?.accessibilityScore || !!test.results?.accessibility },
   ];
   
   // Filter to only show tabs that have content (or are set to always show)
@@ -509,6 +824,23 @@ const TestResultPage = () => {
     navigate(`/?url=${encodeURIComponent(test.url)}&testType=${test.testType}&deviceType=${test.deviceType || 'desktop'}&autorun=true`);
   };
 
+  const handleDownloadHar = async () => {
+    if (!id) return;
+    try {
+      const blob = await userAPI.downloadTestHar(id);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `bugspy-${id}.har`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch {
+      toast.error('Failed to download HAR');
+    }
+  };
+
   const handleShare = async () => {
     try {
       await navigator.clipboard.writeText(window.location.href);
@@ -571,6 +903,17 @@ const TestResultPage = () => {
               <Share2 size={16} className="mr-2" />
               Share
             </Button>
+            {rawTest?.results?.har && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownloadHar}
+                data-testid="download-har-btn"
+              >
+                <Download size={16} className="mr-2" />
+                Download HAR
+              </Button>
+            )}
             <Button 
               variant="outline" 
               size="sm"
@@ -606,6 +949,11 @@ const TestResultPage = () => {
             </div>
           </div>
           <h2 className="text-xl font-semibold text-center mt-4">Performance Score</h2>
+          {rawTest?.results?.runSummary && (
+            <p className="text-sm text-gray-500 text-center mt-1">
+              Median of {rawTest.results.runSummary.completedRuns} runs
+            </p>
+          )}
           <p className="text-gray-600 text-center mt-2">
             {test.results.performanceMetrics.performanceScore >= 90 ? 'Excellent performance!' :
              test.results.performanceMetrics.performanceScore >= 50 ? 'Room for improvement' :
@@ -677,6 +1025,23 @@ const TestResultPage = () => {
                 </div>
               )}
 
+              {rawTest?.results?.budget && <BudgetAssertions budget={rawTest.results.budget} />}
+
+              {rawTest?.results?.runSummary && (
+                <RunVariability runSummary={rawTest.results.runSummary} />
+              )}
+
+              {rawTest?.results?.repeatView && (
+                <RepeatViewComparison
+                  firstView={rawTest.results.webMetrics}
+                  repeatView={rawTest.results.repeatView}
+                />
+              )}
+
+              {rawTest?.results?.blockingExperiment && (
+                <BlockingExperiment experiment={rawTest.results.blockingExperiment} />
+              )}
+
               {/* Summary */}
               <div>
                 <h3 className="text-lg font-semibold mb-4">Summary</h3>
@@ -812,7 +1177,21 @@ const TestResultPage = () => {
           {activeTab === 'screenshots' && (
             <div>
               <h3 className="text-lg font-semibold mb-4">Screenshots</h3>
+              {rawScreenshots?.filmstrip && (
+                <div className="mb-6">
+                  <VisualProgress filmstrip={rawScreenshots.filmstrip} />
+                </div>
+              )}
               <ScreenshotFilmstrip screenshots={test.results?.screenshots || []} />
+              {id && rawTest?.results?.fullPageScreenshot && (
+                <div className="mt-8">
+                  <VisualComparison
+                    testId={id}
+                    screenshot={rawTest.results.fullPageScreenshot}
+                    visualDiff={rawTest.results.visualDiff}
+                  />
+                </div>
+              )}
             </div>
           )}
 
@@ -860,7 +1239,9 @@ const TestResultPage = () => {
           {activeTab === 'network' && (
             <div className="space-y-6">
               <h3 className="text-lg font-semibold mb-4">Network Analysis</h3>
-              {test.results?.networkStats ? (
+              {rawTest?.results?.networkWaterfall ? (
+                <NetworkWaterfall waterfall={rawTest.results.networkWaterfall} />
+              ) : test.results?.networkStats ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                   <div className="bg-gray-50 p-4 rounded-lg">
                     <h4 className="text-sm font-medium text-gray-500">Total Requests</h4>
@@ -894,9 +1275,18 @@ const TestResultPage = () => {
                   <p className="text-gray-500">Network analysis data is not available for this test.</p>
                 </div>
               )}
+              {rawTest?.results?.thirdParty && <ThirdPartyReport report={rawTest.results.thirdParty} />}
             </div>
           )}
 
+          {activeTab === 'journey' && rawTest?.results?.journey && (
+            <JourneyTimeline journey={rawTest.results.journey} />
+          )}
+
+          {activeTab === 'matrix' && rawTest?.results?.screenshotMatrix && (
+            <ScreenshotMatrixGrid matrix={rawTest.results.screenshotMatrix} />
+          )}
+
           {activeTab === 'console' && (
             <div className="space-y-6">
               <h3 className="text-lg font-semibold mb-4">Console Messages</h3>
@@ -983,6 +1373,50 @@ const TestResultPage = () => {
                     </div>
                   </div>
                   
+                  {/* WCAG Violations from the accessibility audit */}
+                  {test.results.accessibility && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                        WCAG Violations ({test.results.accessibilityIssues.length})
+                      </h4>
+                      {test.results.accessibilityIssues.length > 0 ? (
+                        <div className="space-y-2">
+                          {test.results.accessibilityIssues.slice(0, 50).map((issue: AccessibilityIssue) => (
+                            <div key={issue.id} className="border border-gray-200 rounded p-3 text-sm">
+                              <div className="flex items-center justify-between mb-1">
+                                <p className="font-medium text-gray-900">{issue.help}</p>
+                                <span className={cn(
+                                  'px-2 py-0.5 rounded-full text-xs font-medium capitalize',
+                                  issue.severity === 'critical' ? 'bg-red-100 text-red-700' :
+                                  issue.severity === 'serious' ? 'bg-orange-100 text-orange-700' :
+                                  issue.severity === 'moderate' ? 'bg-yellow-100 text-yellow-700' :
+                                  'bg-gray-100 text-gray-700'
+                                )}>
+                                  {issue.severity}
+                                </span>
+                              </div>
+                              <p className="text-gray-600">{issue.description}</p>
+                              <p className="text-gray-500 font-mono text-xs mt-2 break-all">{issue.element}</p>
+                              {issue.html && (
+                                <pre className="bg-gray-50 text-gray-700 text-xs mt-1 p-2 rounded overflow-x-auto">{issue.html}</pre>
+                              )}
+                              <div className="flex items-center gap-3 mt-2 text-xs">
+                                {issue.wcag && issue.wcag.length > 0 && (
+                                  <span className="text-gray-500">WCAG {issue.wcag.join(', ')}</span>
+                                )}
+                                <a href={issue.helpUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                                  Learn more
+                                </a>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-500">No WCAG violations were detected.</p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Best Practices Score if available */}
                   {test.results.performanceMetrics.bestPracticesScore > 0 && (
                     <div className="bg-gray-50 p-4 rounded-lg">
@@ -995,7 +1429,7 @@ const TestResultPage = () => {
                 <div className="text-center py-8">
                   <UserCheck size={48} className="mx-auto text-gray-400 mb-4" />
                   <h4 className="text-lg font-medium text-gray-900 mb-2">No Accessibility Data</h4>
-                  <p className="text-gray-500">Run a performance test to get accessibility analysis.</p>
+                  <p className="text-gray-500">Run a performance or accessibility test to get accessibility analysis.</p>
                 </div>
               )}
             </div>
@@ -0,0 +1,149 @@
+import { Fragment, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ThirdPartyCategory, ThirdPartyReport as Report, ThirdPartyUsage } from '@/types';
+
+const CATEGORY_LABELS: Record<ThirdPartyCategory, string> = {
+  analytics: 'Analytics',
+  ads: 'Advertising',
+  'tag-manager': 'Tag manager',
+  cdn: 'CDN',
+  social: 'Social',
+  'customer-success': 'Customer success',
+  video: 'Video',
+  other: 'Other',
+};
+
+const CATEGORY_STYLES: Record<ThirdPartyCategory, string> = {
+  analytics: 'bg-purple-100 text-purple-800',
+  ads: 'bg-red-100 text-red-800',
+  'tag-manager': 'bg-orange-100 text-orange-800',
+  cdn: 'bg-teal-100 text-teal-800',
+  social: 'bg-blue-100 text-blue-800',
+  'customer-success': 'bg-green-100 text-green-800',
+  video: 'bg-pink-100 text-pink-800',
+  other: 'bg-gray-100 text-gray-700',
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const formatTime = (ms: number | null) => (ms === null ? '—' : `${Math.round(ms)} ms`);
+
+// Share of all bytes of the page, first and third party together
+const share = (usage: ThirdPartyUsage, total: number) =>
+  total > 0 ? `${Math.round((usage.transferBytes / total) * 100)}%` : '—';
+
+export const ThirdPartyReport = ({ report }: { report: Report }) => {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const totalBytes = report.firstParty.transferBytes + report.thirdParty.transferBytes;
+  const profiled = report.thirdParty.mainThreadTime !== null;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold">Third Parties</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-500">Third-party requests</h4>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{report.thirdParty.requests}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-500">Third-party bytes</h4>
+          <p className="text-2xl font-bold text-gray-900 mt-1">
+            {formatBytes(report.thirdParty.transferBytes)}
+            <span className="text-sm font-normal text-gray-500 ml-1">{share(report.thirdParty, totalBytes)}</span>
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-500">Third-party script time</h4>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{formatTime(report.thirdParty.mainThreadTime)}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-500">First party ({report.firstParty.domain})</h4>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{formatBytes(report.firstParty.transferBytes)}</p>
+        </div>
+      </div>
+
+      {report.categories.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {report.categories.map(({ category, requests, transferBytes }) => (
+            <span
+              key={category}
+              className={cn('inline-flex items-center px-2 py-1 rounded-full text-xs font-medium', CATEGORY_STYLES[category])}
+            >
+              {CATEGORY_LABELS[category]}: {requests} requests · {formatBytes(transferBytes)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {!profiled && (
+        <p className="text-sm text-gray-500">Script execution was not profiled, so main-thread time is unavailable.</p>
+      )}
+
+      {report.groups.length === 0 ? (
+        <p className="text-sm text-gray-600">This page loaded nothing from third parties.</p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200 bg-gray-50">
+                <th className="py-2 px-3 font-medium">Third party</th>
+                <th className="py-2 px-3 font-medium">Category</th>
+                <th className="py-2 px-3 font-medium text-right">Requests</th>
+                <th className="py-2 px-3 font-medium text-right">Transferred</th>
+                <th className="py-2 px-3 font-medium text-right">Main-thread time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.groups.map((group, index) => {
+                const isExpanded = expanded === index;
+                return (
+                  <Fragment key={group.entity ?? group.domains[0]?.domain ?? index}>
+                    <tr
+                      className="border-b border-gray-100 cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpanded(isExpanded ? null : index)}
+                    >
+                      <td className="py-1.5 px-3">
+                        <div className="flex items-center gap-1">
+                          {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                          <span className="font-medium text-gray-900">{group.entity ?? group.domains[0]?.domain}</span>
+                        </div>
+                      </td>
+                      <td className="py-1.5 px-3">
+                        <span
+                          className={cn(
+                            'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium',
+                            CATEGORY_STYLES[group.category],
+                          )}
+                        >
+                          {CATEGORY_LABELS[group.category]}
+                        </span>
+                      </td>
+                      <td className="py-1.5 px-3 text-right">{group.requests}</td>
+                      <td className="py-1.5 px-3 text-right whitespace-nowrap">{formatBytes(group.transferBytes)}</td>
+                      <td className="py-1.5 px-3 text-right whitespace-nowrap">{formatTime(group.mainThreadTime)}</td>
+                    </tr>
+                    {isExpanded &&
+                      group.domains.map((domain) => (
+                        <tr key={domain.domain} className="border-b border-gray-100 bg-gray-50 text-gray-600">
+                          <td className="py-1 px-3 pl-9 break-all" colSpan={2}>
+                            {domain.domain}
+                          </td>
+                          <td className="py-1 px-3 text-right">{domain.requests}</td>
+                          <td className="py-1 px-3 text-right whitespace-nowrap">{formatBytes(domain.transferBytes)}</td>
+                          <td className="py-1 px-3 text-right whitespace-nowrap">{formatTime(domain.mainThreadTime)}</td>
+                        </tr>
+                      ))}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThirdPartyReport;
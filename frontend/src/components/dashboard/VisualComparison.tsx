@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { CheckCircle, ImageIcon, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useSetVisualBaseline } from '@/hooks/useDashboard';
+import type { FullPageScreenshot, VisualDiffResult, VisualIgnoreRegion } from '@/types';
+
+// One "x,y,width,height" region per line
+const parseRegions = (value: string): VisualIgnoreRegion[] | null => {
+  const regions: VisualIgnoreRegion[] = [];
+  for (const line of value.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const parts = line.split(',').map((part) => Number(part.trim()));
+    if (parts.length !== 4 || parts.some((n) => !Number.isInteger(n) || n < 0)) return null;
+    const [x, y, width, height] = parts;
+    if (!width || !height) return null;
+    regions.push({ x, y, width, height });
+  }
+  return regions;
+};
+
+const Shot = ({ label, src }: { label: string; src: string }) => (
+  <figure className="space-y-1">
+    <figcaption className="text-xs font-medium text-gray-500 uppercase">{label}</figcaption>
+    <a href={src} target="_blank" rel="noopener noreferrer">
+      <img src={src} alt={label} className="w-full max-h-96 object-cover object-top rounded border border-gray-200" loading="lazy" />
+    </a>
+  </figure>
+);
+
+interface VisualComparisonProps {
+  testId: string;
+  screenshot?: FullPageScreenshot | null;
+  visualDiff?: VisualDiffResult;
+}
+
+export const VisualComparison = ({ testId, screenshot, visualDiff }: VisualComparisonProps) => {
+  const setBaseline = useSetVisualBaseline();
+  const [threshold, setThreshold] = useState(String(visualDiff?.threshold ?? 0.1));
+  const [alertPercentage, setAlertPercentage] = useState(String(visualDiff?.alertPercentage ?? 1));
+  const [regions, setRegions] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!screenshot) return null;
+
+  const handleSetBaseline = () => {
+    const ignoreRegions = parseRegions(regions);
+    const thresholdValue = Number(threshold);
+    const alertValue = Number(alertPercentage);
+
+    if (!ignoreRegions) {
+      setError('Ignore regions must be one "x,y,width,height" per line, in whole pixels');
+      return;
+    }
+    if (Number.isNaN(thresholdValue) || thresholdValue < 0 || thresholdValue > 1) {
+      setError('Threshold must be between 0 and 1');
+      return;
+    }
+    if (Number.isNaN(alertValue) || alertValue < 0 || alertValue > 100) {
+      setError('Alert percentage must be between 0 and 100');
+      return;
+    }
+
+    setError(null);
+    setBaseline.mutate({ testId, data: { threshold: thresholdValue, alertPercentage: alertValue, ignoreRegions } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Visual comparison</h3>
+        {visualDiff && (
+          <span
+            className={cn(
+              'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium',
+              visualDiff.changed ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+            )}
+          >
+            {visualDiff.changed ? <AlertTriangle size={12} className="mr-1" /> : <CheckCircle size={12} className="mr-1" />}
+            {visualDiff.changedPercentage}% changed
+          </span>
+        )}
+      </div>
+
+      {visualDiff ? (
+        <>
+          <p className="text-sm text-gray-600">
+            {visualDiff.changedPixels.toLocaleString()} of {visualDiff.totalPixels.toLocaleString()} compared pixels differ
+            from the baseline (alert above {visualDiff.alertPercentage}%).
+            {visualDiff.sizeMismatch && ' The page changed size; area only one screenshot covers counts as changed.'}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Shot label="Baseline" src={visualDiff.baselineScreenshot} />
+            <Shot label="This test" src={screenshot.url} />
+            {visualDiff.diffImage && <Shot label="Changed pixels" src={visualDiff.diffImage} />}
+          </div>
+        </>
+      ) : (
+        <div className="flex gap-4 items-start">
+          <div className="w-48 shrink-0">
+            <Shot label="Full page" src={screenshot.url} />
+          </div>
+          <p className="text-sm text-gray-600 flex items-center">
+            <ImageIcon size={16} className="mr-2 shrink-0" />
+            This test wasn't compared with a baseline. Set it as the baseline to compare later tests of this page and
+            device with it.
+          </p>
+        </div>
+      )}
+      {screenshot.truncated && (
+        <p className="text-xs text-gray-500">Only the top {screenshot.height}px of the page were captured.</p>
+      )}
+
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="text-sm">
+            <span className="block text-gray-700 mb-1">Colour threshold (0–1)</span>
+            <input
+              type="number"
+              step="0.01"
+              min={0}
+              max={1}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-700 mb-1">Alert when more than (% of pixels)</span>
+            <input
+              type="number"
+              step="0.1"
+              min={0}
+              max={100}
+              value={alertPercentage}
+              onChange={(e) => setAlertPercentage(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+        </div>
+        <label className="text-sm block">
+          <span className="block text-gray-700 mb-1">Ignore regions (x,y,width,height per line)</span>
+          <textarea
+            rows={3}
+            value={regions}
+            onChange={(e) => setRegions(e.target.value)}
+            placeholder="0,0,1920,80"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+          />
+        </label>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button size="sm" onClick={handleSetBaseline} disabled={setBaseline.isPending} data-testid="set-baseline-btn">
+          {setBaseline.isPending ? 'Saving...' : 'Set as baseline'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default VisualComparison;
@@ -0,0 +1,75 @@
+import type { Filmstrip, VisualMilestones } from '@/types';
+
+const MILESTONES: { key: keyof VisualMilestones; label: string }[] = [
+  { key: 'firstVisualChange', label: 'First visual change' },
+  { key: 'visuallyComplete85', label: 'Visually complete 85%' },
+  { key: 'visuallyComplete95', label: 'Visually complete 95%' },
+  { key: 'visuallyComplete99', label: 'Visually complete 99%' },
+  { key: 'lastVisualChange', label: 'Last visual change' },
+];
+
+const formatMs = (ms: number | null) => (ms === null ? '—' : `${(ms / 1000).toFixed(2)} s`);
+
+export const VisualProgress = ({ filmstrip }: { filmstrip: Filmstrip }) => {
+  const points = filmstrip.visualProgress;
+  const end = Math.max(filmstrip.duration, points.at(-1)?.timestamp ?? 0, 1);
+
+  // Progress holds until the next frame, so the curve is drawn as steps
+  const path = points
+    .map((point, index) => {
+      const x = (point.timestamp / end) * 100;
+      const y = 100 - point.progress;
+      const previousY = index > 0 ? 100 - points[index - 1].progress : y;
+      return index === 0 ? `M ${x} ${y}` : `L ${x} ${previousY} L ${x} ${y}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <div className="bg-blue-50 rounded-lg p-3">
+          <p className="text-xs text-blue-700">Speed Index</p>
+          <p className="text-lg font-semibold text-gray-900">{formatMs(filmstrip.speedIndex)}</p>
+        </div>
+        {MILESTONES.map(({ key, label }) => (
+          <div key={key} className="bg-gray-50 rounded-lg p-3">
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className="text-lg font-semibold text-gray-900">{formatMs(filmstrip.milestones[key])}</p>
+          </div>
+        ))}
+      </div>
+
+      {points.length > 1 && (
+        <div>
+          <p className="text-sm text-gray-600 mb-2">Visual completeness over time</p>
+          <svg
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            className="w-full h-32 bg-gray-50 rounded-lg"
+            role="img"
+            aria-label="Visual progress over time"
+          >
+            <path
+              d={`${path} L 100 ${100 - (points.at(-1)?.progress ?? 0)}`}
+              fill="none"
+              stroke="#2563eb"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>0 s</span>
+            <span>{formatMs(end)}</span>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {filmstrip.distinctFrames} distinct frames from {filmstrip.framesReceived} screencast frames
+        {filmstrip.truncated && ' (later frames not recorded)'}
+      </p>
+    </div>
+  );
+};
+
+export default VisualProgress;
@@ -144,14 +144,11 @@ describe('BatchTestsPage', () => {
 
   it('should submit batch test form', async () => {
     const user = userEvent.setup();
-    const mockEventSource = {
-      onmessage: null,
-      onerror: null,
-      close: vi.fn(),
-    };
-
-    vi.mocked(batchAPI.startBatchTest).mockReturnValue(mockEventSource as any);
 
+    vi.mocked(batchAPI.createBatchTest).mockResolvedValue({
+      ...mockBatchData.batches[0],
+      batchId: 'batch-new',
+    });
     vi.mocked(useBatchTests).mockReturnValue({
       data: mockBatchData,
       isLoading: false,
@@ -175,8 +172,37 @@ describe('BatchTestsPage', () => {
     await user.click(submitButton);
 
     await waitFor(() => {
-      expect(batchAPI.startBatchTest).toHaveBeenCalled();
+      expect(batchAPI.createBatchTest).toHaveBeenCalledWith(
+        expect.objectContaining({ urls: 'https://test1.com,https://test2.com' }),
+      );
+      expect(screen.queryByText('Create Batch Test')).toBeNull();
+    });
+    // The saved batch runs on the server, not through an anonymous stream
+    expect(batchAPI.startBatchTest).not.toHaveBeenCalled();
+  });
+
+  it('should show the error and keep the form open when the batch cannot be created', async () => {
+    const user = userEvent.setup();
+
+    vi.mocked(batchAPI.createBatchTest).mockRejectedValue(new Error('Network Error'));
+    vi.mocked(useBatchTests).mockReturnValue({
+      data: mockBatchData,
+      isLoading: false,
+      isError: false,
+      error: null,
+    } as unknown as ReturnType<typeof useBatchTests>);
+
+    render(<BatchTestsPage />);
+
+    await user.click(screen.getByRole('button', { name: /new batch test/i }));
+    await user.type(screen.getByPlaceholderText(/https:\/\/example1.com/i), 'https://test1.com');
+    await user.click(screen.getByRole('button', { name: /start batch test/i }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert').textContent).toBe('Failed to start batch test. Please try again.');
     });
+    expect(screen.getByText('Create Batch Test')).not.toBeNull();
+    expect(screen.getByRole('button', { name: /start batch test/i })).not.toHaveProperty('disabled', true);
   });
 
   it('should delete a batch test with confirmation', async () => {
@@ -312,7 +338,7 @@ describe('BatchTestsPage', () => {
     await user.click(cancelButton);
 
     await waitFor(() => {
-      expect(screen.queryByText('Create Batch Test')).not.toBeInTheDocument();
+      expect(screen.queryByText('Create Batch Test')).toBeNull();
     });
   });
 
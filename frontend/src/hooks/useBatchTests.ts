@@ -10,7 +10,12 @@ export const useBatchTests = (page = 1, limit = 10) => {
     queryFn: () => batchAPI.getBatchTests(page, limit),
     staleTime: 30 * 1000, // 30 seconds
     enabled: !!accessToken,
-    retry: false, // endpoint not yet implemented — don't retry on 404
+    retry: false,
+    // Batches run on the server; follow their progress while any is active
+    refetchInterval: (query) =>
+      query.state.data?.batches.some((batch) => batch.status === 'RUNNING' || batch.status === 'PENDING')
+        ? 5000
+        : false,
   });
 };
 
@@ -1,6 +1,13 @@
-import { useQuery } from '@tanstack/react-query';
-import { userAPI } from '@/lib/api/user';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import { userAPI, type SetVisualBaselineRequest } from '@/lib/api/user';
 import { useAuthStore } from '@/store';
+import { useToast } from '@/hooks/useToast';
+import type { VisualBaseline } from '@/types';
+
+interface ErrorResponse {
+  message: string;
+}
 
 export const useProfile = () => {
   const accessToken = useAuthStore((state) => state.accessToken);
@@ -42,3 +49,19 @@ export const useTestById = (testId: string) => {
     enabled: !!accessToken && !!testId,
   });
 };
+
+export const useSetVisualBaseline = () => {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation<VisualBaseline, AxiosError<ErrorResponse>, { testId: string; data?: SetVisualBaselineRequest }>({
+    mutationFn: ({ testId, data }) => userAPI.setVisualBaseline(testId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['visual-baselines'] });
+      toast.success('Baseline set; later tests of this page will be compared with it');
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.message || 'Failed to set baseline');
+    },
+  });
+};
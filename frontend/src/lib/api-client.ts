@@ -96,49 +96,14 @@ class APIClient {
           !isLogoutEndpoint &&
           originalRequest
         ) {
-          if (this.isRefreshing) {
-            // If already refreshing, queue this request
-            return new Promise((resolve) => {
-              this.addRefreshSubscriber((token: string) => {
-                if (originalRequest.headers) {
-                  originalRequest.headers.Authorization = `Bearer ${token}`;
-                }
-                resolve(this.client(originalRequest));
-              });
-            });
-          }
-
           originalRequest._retry = true;
-          this.isRefreshing = true;
-
-          try {
-            // Call refresh endpoint with credentials (httpOnly cookie will be sent automatically)
-            const response = await this.client.post('/auth/refresh');
-            const { accessToken } = response.data;
-
-            console.log('✅ Token refresh successful');
-            this.setAccessToken(accessToken);
-            this.isRefreshing = false;
-
-            // Notify all queued requests
-            this.onRefreshed(accessToken);
-
-            // Retry original request with new token
-            if (originalRequest.headers) {
-              originalRequest.headers.Authorization = `Bearer ${accessToken}`;
-            }
-            return this.client(originalRequest);
-          } catch (refreshError) {
-            // Refresh failed, user needs to login again
-            console.error('❌ Token refresh failed:', refreshError);
-            this.isRefreshing = false;
-            this.refreshSubscribers = [];
-
-            // Logout user and clear all auth data
-            await this.handleAuthFailure();
-
-            return Promise.reject(refreshError);
+
+          // Retry original request with new token
+          const accessToken = await this.refreshAccessToken();
+          if (originalRequest.headers) {
+            originalRequest.headers.Authorization = `Bearer ${accessToken}`;
           }
+          return this.client(originalRequest);
         }
 
         return Promise.reject(error);
@@ -146,6 +111,44 @@ class APIClient {
     );
   }
 
+  /**
+   * Get a new access token with the refresh token cookie. Callers arriving
+   * while a refresh is in flight wait for its token; if the refresh fails
+   * the user is logged out.
+   */
+  async refreshAccessToken(): Promise<string> {
+    if (this.isRefreshing) {
+      // If already refreshing, queue this request
+      return new Promise((resolve) => this.addRefreshSubscriber(resolve));
+    }
+
+    this.isRefreshing = true;
+
+    try {
+      // Call refresh endpoint with credentials (httpOnly cookie will be sent automatically)
+      const response = await this.client.post('/auth/refresh');
+      const { accessToken } = response.data;
+
+      console.log('✅ Token refresh successful');
+      this.setAccessToken(accessToken);
+      this.isRefreshing = false;
+
+      // Notify all queued requests
+      this.onRefreshed(accessToken);
+      return accessToken;
+    } catch (refreshError) {
+      // Refresh failed, user needs to login again
+      console.error('❌ Token refresh failed:', refreshError);
+      this.isRefreshing = false;
+      this.refreshSubscribers = [];
+
+      // Logout user and clear all auth data
+      await this.handleAuthFailure();
+
+      throw refreshError;
+    }
+  }
+
   setAccessToken(token: string) {
     console.log('🔑 setAccessToken called with token:', token ? token.substring(0, 20) + '...' : 'null');
     // Store token in auth store (which persists to localStorage)
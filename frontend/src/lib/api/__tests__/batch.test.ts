@@ -169,6 +169,24 @@ describe('batchAPI', () => {
     });
   });
 
+  describe('createBatchTest', () => {
+    it('should create a batch test and unwrap the response envelope', async () => {
+      const params: CreateBatchTestRequest = {
+        urls: 'https://example1.com,https://example2.com',
+        labels: 'Site 1,Site 2',
+        batchName: 'Test Batch',
+      };
+      vi.mocked(api.post).mockResolvedValue({
+        data: { status: 'success', data: mockBatchTest },
+      });
+
+      const result = await batchAPI.createBatchTest(params);
+
+      expect(api.post).toHaveBeenCalledWith('/user/batch-tests', params);
+      expect(result).toEqual(mockBatchTest);
+    });
+  });
+
   describe('deleteBatchTest', () => {
     it('should delete a batch test', async () => {
       const mockResponse = { data: { message: 'Batch test deleted successfully' } };
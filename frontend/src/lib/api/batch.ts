@@ -20,6 +20,7 @@ export interface BatchTestResult {
   label?: string;
   status: 'PENDING' | 'RUNNING' | 'COMPLETE' | 'FAILED';
   testId?: string;
+  resultId?: string;
   error?: string;
 }
 
@@ -45,22 +46,31 @@ export const batchAPI = {
    * Get all batch tests for the current user
    */
   async getBatchTests(page = 1, limit = 10): Promise<BatchTestsResponse> {
-    const response = await api.get<BatchTestsResponse>('/user/batch-tests', {
+    const response = await api.get('/user/batch-tests', {
       params: { page, limit },
     });
-    return response.data;
+    return response.data.data || response.data;
   },
 
   /**
    * Get a specific batch test by ID
    */
   async getBatchTest(id: string): Promise<BatchTest> {
-    const response = await api.get<BatchTest>(`/user/batch-tests/${id}`);
-    return response.data;
+    const response = await api.get(`/user/batch-tests/${id}`);
+    return response.data.data || response.data;
   },
 
   /**
-   * Start a batch test
+   * Create a batch test that is saved to the user's history and starts
+   * running on the server
+   */
+  async createBatchTest(params: CreateBatchTestRequest): Promise<BatchTest> {
+    const response = await api.post('/user/batch-tests', params);
+    return response.data.data || response.data;
+  },
+
+  /**
+   * Start a batch test that is not saved to the user's history
    */
   startBatchTest(params: CreateBatchTestRequest): EventSource {
     const queryParams = new URLSearchParams();
@@ -84,15 +94,15 @@ export const batchAPI = {
    * Delete a batch test
    */
   async deleteBatchTest(id: string): Promise<{ message: string }> {
-    const response = await api.delete<{ message: string }>(`/user/batch-tests/${id}`);
-    return response.data;
+    const response = await api.delete(`/user/batch-tests/${id}`);
+    return response.data.data || response.data;
   },
 
   /**
    * Retry failed URLs in a batch test
    */
   async retryBatchTest(id: string): Promise<BatchTest> {
-    const response = await api.post<BatchTest>(`/user/batch-tests/${id}/retry`);
-    return response.data;
+    const response = await api.post(`/user/batch-tests/${id}/retry`);
+    return response.data.data || response.data;
   },
 };
@@ -1,4 +1,5 @@
 import { api } from '../api-client';
+import type { PerformanceBudget } from '@/types';
 
 export interface Schedule {
   _id: string;
@@ -8,6 +9,8 @@ export interface Schedule {
   frequency: 'hourly' | 'daily' | 'weekly' | 'monthly';
   testType: 'performance' | 'accessibility' | 'seo' | 'best-practices';
   deviceType: 'desktop' | 'mobile' | 'tablet';
+  runs?: number;
+  budget?: PerformanceBudget | null;
   isActive: boolean;
   nextRun?: string;
   lastRun?: string;
@@ -21,6 +24,8 @@ export interface CreateScheduleRequest {
   frequency: 'hourly' | 'daily' | 'weekly' | 'monthly';
   testType: 'performance' | 'accessibility' | 'seo' | 'best-practices';
   deviceType: 'desktop' | 'mobile' | 'tablet';
+  runs?: number;
+  budget?: PerformanceBudget | null; // null removes an existing budget
 }
 
 export interface UpdateScheduleRequest extends Partial<CreateScheduleRequest> {
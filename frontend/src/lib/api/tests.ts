@@ -1,10 +1,21 @@
-import { api } from '../api-client';
+import { api, apiClient } from '../api-client';
+import { useAuthStore } from '@/store';
+import { streamWithResume } from '@/utils/handleSSE.util';
+import type { JourneyStep, MatrixViewport, PerformanceBudget } from '@/types';
 
 export interface SingleTestRequest {
   url: string;
-  testType?: 'performance' | 'accessibility' | 'seo' | 'best-practices';
+  testType?: 'performance' | 'accessibility' | 'seo' | 'best-practices' | 'journey' | 'matrix';
   deviceType?: 'desktop' | 'mobile' | 'tablet';
   includeScreenshots?: boolean;
+  runs?: number; // 1-9 independent page loads; the median run is reported
+  repeatView?: boolean; // Reload with a warm cache after the cold first view
+  har?: boolean; // Store a HAR archive, downloadable from the test result
+  thirdPartyReport?: boolean; // Break down requests and script time by third party
+  blockUrls?: string[]; // Re-run with matching requests blocked ("*" wildcards) and compare
+  steps?: JourneyStep[]; // Journey tests: run in order after opening url
+  viewports?: MatrixViewport[]; // Matrix tests: 360-1920 wide if omitted
+  budget?: PerformanceBudget; // Sent with queued jobs only; not part of the SSE query string
 }
 
 export interface BatchTestRequest {
@@ -46,6 +57,45 @@ export interface TestStreamEvent {
   data: any;
 }
 
+export type TestJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// An event of a queued test: JOB_QUEUED, JOB_STARTED, the capture's own
+// progress events, then JOB_COMPLETED, JOB_FAILED or JOB_CANCELLED
+export interface TestJobEvent {
+  status: string;
+  jobId: string;
+  testId?: string;
+  resultId?: string; // JOB_COMPLETED
+  error?: string; // JOB_FAILED, JOB_CANCELLED
+  timestamp?: number;
+}
+
+export interface CreateTestJobResponse {
+  jobId: string;
+  testId: string;
+  status: TestJobStatus;
+  createdAt: string;
+}
+
+export interface TestJob {
+  id: string;
+  testId: string;
+  status: TestJobStatus;
+  captureData: SingleTestRequest & { testId: string };
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  resultId?: string;
+  error?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isTestJobEvent = (value: unknown): value is TestJobEvent =>
+  isRecord(value) && typeof value.status === 'string' && typeof value.jobId === 'string';
+
 export const testsAPI = {
   /**
    * Start a single website test using Server-Sent Events (SSE)
@@ -59,6 +109,13 @@ export const testsAPI = {
     if (params.includeScreenshots !== undefined) {
       queryParams.append('includeScreenshots', String(params.includeScreenshots));
     }
+    if (params.runs && params.runs > 1) queryParams.append('runs', String(params.runs));
+    if (params.repeatView) queryParams.append('repeatView', 'true');
+    if (params.har) queryParams.append('har', 'true');
+    if (params.thirdPartyReport) queryParams.append('thirdPartyReport', 'true');
+    if (params.blockUrls?.length) queryParams.append('blockUrls', params.blockUrls.join(','));
+    if (params.steps?.length) queryParams.append('steps', JSON.stringify(params.steps));
+    if (params.viewports?.length) queryParams.append('viewports', JSON.stringify(params.viewports));
 
     const url = `${api.defaults.baseURL}/capture-metrics/single?${queryParams.toString()}`;
     return new EventSource(url);
@@ -87,6 +144,47 @@ export const testsAPI = {
     return new EventSource(url);
   },
 
+  /**
+   * Queue a test that keeps running if the page is closed (requires authentication)
+   */
+  async createTestJob(params: SingleTestRequest): Promise<CreateTestJobResponse> {
+    const response = await api.post('/tests', params);
+    return response.data.data || response.data;
+  },
+
+  /**
+   * Get the status of a queued test (requires authentication)
+   */
+  async getTestJob(jobId: string): Promise<TestJob> {
+    const response = await api.get(`/tests/jobs/${jobId}`);
+    return response.data.data || response.data;
+  },
+
+  /**
+   * Follow a queued test's events. Dropped connections are resumed from
+   * the last received event. Resolves when the job has finished.
+   */
+  streamTestJob(
+    jobId: string,
+    onEvent: (data: TestJobEvent) => void,
+    options: { lastEventId?: string; signal?: AbortSignal } = {},
+  ): Promise<void> {
+    return streamWithResume(`${api.defaults.baseURL}/tests/jobs/${jobId}/events`, {
+      ...options,
+      // Read per connection: a reconnect sends the token of the last refresh
+      headers: (): Record<string, string> => {
+        const accessToken = useAuthStore.getState().accessToken;
+        return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+      },
+      refreshAuth: () => apiClient.refreshAccessToken(),
+      // Events arrive in the response envelope: { data: { status, ... } }
+      onEvent: (parsed) => {
+        const event = isRecord(parsed) && isRecord(parsed.data) ? parsed.data : parsed;
+        if (isTestJobEvent(event)) onEvent(event);
+      },
+    });
+  },
+
   /**
    * Save a test result (requires authentication)
    */
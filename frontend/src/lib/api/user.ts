@@ -1,5 +1,5 @@
 import { api } from '../api-client';
-import type { TestResult, DashboardStats as DashboardStatsType } from '@/types';
+import type { TestResult, DashboardStats as DashboardStatsType, VisualBaseline, VisualIgnoreRegion } from '@/types';
 
 export interface UserProfile {
   _id: string;
@@ -60,6 +60,12 @@ export interface PaginatedTestsResponse {
   totalPages: number;
 }
 
+export interface SetVisualBaselineRequest {
+  threshold?: number;
+  alertPercentage?: number;
+  ignoreRegions?: VisualIgnoreRegion[];
+}
+
 export const userAPI = {
   async getProfile(): Promise<UserProfile> {
     const response = await api.get<UserProfile>('/user/profile');
@@ -98,4 +104,28 @@ export const userAPI = {
     const response = await api.get<{ status: string; data: TestResult }>(`/dashboard/tests/${testId}`);
     return response.data.data;
   },
+
+  async downloadTestHar(testId: string): Promise<Blob> {
+    const response = await api.get(`/dashboard/tests/${testId}/har`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  async setVisualBaseline(testId: string, data: SetVisualBaselineRequest = {}): Promise<VisualBaseline> {
+    const response = await api.post<{ status: string; data: VisualBaseline }>(
+      `/dashboard/tests/${testId}/baseline`,
+      data
+    );
+    return response.data.data;
+  },
+
+  async getVisualBaselines(): Promise<VisualBaseline[]> {
+    const response = await api.get<{ status: string; data: VisualBaseline[] }>('/dashboard/baselines');
+    return response.data.data;
+  },
+
+  async deleteVisualBaseline(baselineId: string): Promise<void> {
+    await api.delete(`/dashboard/baselines/${baselineId}`);
+  },
 };
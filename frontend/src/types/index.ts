@@ -36,6 +36,191 @@ export interface TestResultData {
   networkRequests: NetworkRequest[];
   consoleMessages: ConsoleMessage[];
   accessibilityIssues: AccessibilityIssue[];
+  accessibility?: AccessibilityResult;
+  runSummary?: RunSummary;
+  webMetrics?: Record<string, any>; // Raw API metrics; the first view when repeatView is set
+  repeatView?: RepeatViewResult;
+  budget?: BudgetResult;
+  networkWaterfall?: NetworkWaterfall;
+  har?: HarArtifact | null;
+  thirdParty?: ThirdPartyReport;
+  blockingExperiment?: BlockingExperimentResult | null;
+  journey?: JourneyResult;
+  fullPageScreenshot?: FullPageScreenshot | null;
+  visualDiff?: VisualDiffResult;
+  screenshotMatrix?: ScreenshotMatrixResult;
+}
+
+// Spread of one metric across the runs of a multi-run test
+export interface MetricStats {
+  median: number;
+  min: number;
+  max: number;
+  stddev: number;
+}
+
+export interface RunSummary {
+  requestedRuns: number;
+  completedRuns: number;
+  medianRun: number; // 1-based index of the run shown as the result
+  metrics: Record<string, MetricStats>; // Keyed by metric path, e.g. 'vitalsMetrics.LCP'
+}
+
+// Limits a test must stay within; timings in ms, sizes in KB
+export interface PerformanceBudget {
+  maxLcp?: number;
+  maxFcp?: number;
+  maxTbt?: number;
+  maxCls?: number;
+  maxScriptKb?: number;
+  maxTotalKb?: number;
+  maxRequests?: number;
+  minPerformanceScore?: number;
+}
+
+export interface BudgetAssertion {
+  metric: keyof PerformanceBudget;
+  label: string;
+  limit: number;
+  actual: number | null; // null when the test did not report the metric
+  unit: 'ms' | 'KB' | 'count' | 'score' | '';
+  status: 'pass' | 'fail' | 'unknown';
+}
+
+export interface BudgetResult {
+  passed: boolean;
+  assertions: BudgetAssertion[];
+}
+
+// Phase durations in ms; -1 when the phase did not happen
+export interface NetworkTimingPhases {
+  blocked: number;
+  dns: number;
+  connect: number; // Includes ssl
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+// One request recorded through the CDP Network domain; its headers are only in the HAR
+export interface NetworkWaterfallEntry {
+  url: string;
+  method: string;
+  resourceType: string;
+  mimeType: string | null;
+  status: number | null;
+  statusText: string | null;
+  protocol: string | null;
+  priority: string | null;
+  initiator: { type: string; url?: string; lineNumber?: number };
+  remoteAddress: string | null;
+  fromCache: boolean;
+  fromServiceWorker: boolean;
+  failed: boolean;
+  errorText: string | null;
+  transferSize: number;
+  resourceSize: number;
+  startTime: number; // ms since the first request
+  duration: number;
+  timings: NetworkTimingPhases;
+}
+
+export interface NetworkWaterfall {
+  startedAt: string | null;
+  redacted: boolean; // Cookie and authorization headers replaced with '[redacted]'
+  entries: NetworkWaterfallEntry[];
+  summary: {
+    requests: number;
+    failedRequests: number;
+    transferBytes: number;
+    duration: number;
+    truncated: boolean;
+  };
+}
+
+// HAR archive stored for a test, downloadable only from /dashboard/tests/:id/har
+export interface HarArtifact {
+  entries: number;
+  size: number;
+  redacted: boolean;
+}
+
+export type ThirdPartyCategory =
+  | 'analytics'
+  | 'ads'
+  | 'tag-manager'
+  | 'cdn'
+  | 'social'
+  | 'customer-success'
+  | 'video'
+  | 'other';
+
+// mainThreadTime is null when script execution was not profiled
+export interface ThirdPartyUsage {
+  requests: number;
+  transferBytes: number;
+  mainThreadTime: number | null; // ms
+}
+
+export interface ThirdPartyDomainUsage extends ThirdPartyUsage {
+  domain: string;
+}
+
+// A known entity (e.g. Google Analytics) or, when entity is null, one unknown site
+export interface ThirdPartyGroup extends ThirdPartyUsage {
+  entity: string | null;
+  category: ThirdPartyCategory;
+  domains: ThirdPartyDomainUsage[];
+}
+
+export interface ThirdPartyReport {
+  firstParty: ThirdPartyUsage & { domain: string };
+  thirdParty: ThirdPartyUsage;
+  groups: ThirdPartyGroup[]; // Heaviest first
+  categories: (ThirdPartyUsage & { category: ThirdPartyCategory })[];
+}
+
+export interface MetricDelta {
+  metric: string;
+  label: string;
+  unit: 'ms' | 'KB' | 'count' | 'score' | '';
+  baseline: number | null;
+  blocked: number | null;
+  delta: number | null; // blocked - baseline
+}
+
+// The test repeated with requests matching the patterns blocked
+export interface BlockingExperimentResult {
+  patterns: string[];
+  blockedRequests: number;
+  webMetrics: WebMetrics | null; // Of the blocked run
+  deltas: MetricDelta[];
+}
+
+// Metrics measured in the page; results stored in older formats only carry the scores
+export interface WebMetrics {
+  performanceMetrics?: Partial<Record<string, number>>;
+  networkMetrics?: {
+    totalRequests: number;
+    totalBytes: number;
+    caching?: { cached: number; notCached: number };
+  };
+  performanceScore?: number;
+  seoScore?: number;
+}
+
+// Warm-cache reload of a test; the main result is the cold first view
+export interface RepeatViewResult {
+  webMetrics: WebMetrics | null;
+  comparison: RepeatViewComparison | null;
+}
+
+export interface RepeatViewComparison {
+  requestsSaved: number;
+  bytesSaved: number;
+  cachedRequests: number;
+  loadTimeSaved: number; // ms
 }
 
 export interface PerformanceMetrics {
@@ -66,6 +251,8 @@ export interface Screenshot {
   type: 'full-page' | 'viewport' | 'element';
   timestamp: number;
   deviceType: string;
+  offset?: number; // Filmstrip frames: ms after navigation start
+  visualProgress?: number | null;
 }
 
 export interface NetworkRequest {
@@ -95,6 +282,35 @@ export interface AccessibilityIssue {
   description: string;
   help: string;
   helpUrl: string;
+  html?: string;
+  wcag?: string[];
+}
+
+export interface AccessibilityViolation {
+  id: string;
+  impact: AccessibilityIssue['severity'];
+  description: string;
+  help: string;
+  helpUrl: string;
+  tags: string[];
+  wcag: string[];
+  nodes: { selector: string; html: string }[];
+}
+
+export interface AccessibilityResult {
+  score: number;
+  standard: string;
+  violations: AccessibilityViolation[];
+  passes: string[];
+  inapplicable: string[];
+  summary: {
+    critical: number;
+    serious: number;
+    moderate: number;
+    minor: number;
+    totalViolations: number;
+    totalNodes: number;
+  };
 }
 
 export interface Opportunity {
@@ -128,6 +344,169 @@ export interface DashboardStats {
   };
 }
 
+export type JourneyStepAction = 'navigate' | 'click' | 'type' | 'waitForSelector' | 'assertText';
+
+// One step of a scripted journey test
+export interface JourneyStep {
+  action: JourneyStepAction;
+  name?: string;
+  url?: string; // navigate
+  selector?: string; // click, type, waitForSelector; assertText defaults to the whole page
+  text?: string; // type, assertText
+  timeout?: number; // ms
+}
+
+// Web vitals of the document a step ended on, accumulated since its navigation
+export interface JourneyVitals {
+  url: string;
+  ttfb: number | null;
+  fcp: number | null;
+  lcp: number | null;
+  cls: number;
+  tbt: number;
+  inp: number | null;
+}
+
+export interface JourneyStepResult {
+  index: number; // 1-based
+  name: string;
+  action: JourneyStepAction;
+  status: 'passed' | 'failed' | 'skipped';
+  startTime: number; // ms since the journey started
+  duration: number;
+  navigated: boolean;
+  url: string | null;
+  screenshot: string | null;
+  vitals: JourneyVitals | null;
+  error?: string;
+}
+
+export interface JourneyResult {
+  passed: boolean;
+  duration: number;
+  failedStep: number | null;
+  steps: JourneyStepResult[];
+}
+
+// Final full-page screenshot of a test, in CSS pixels
+export interface FullPageScreenshot {
+  url: string;
+  width: number;
+  height: number;
+  truncated: boolean; // Page was taller than the screenshot
+}
+
+// One viewport of a screenshot matrix test: a known device or a custom width
+export interface MatrixViewport {
+  device?: string;
+  width?: number;
+  height?: number;
+  label?: string;
+}
+
+export interface MatrixViewportInfo {
+  label: string;
+  device: string | null;
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+}
+
+export interface ScreenshotMatrixEntry {
+  viewport: MatrixViewportInfo;
+  status: 'completed' | 'failed';
+  fullPage: FullPageScreenshot | null;
+  aboveTheFold: string | null;
+  loadTime: number | null; // ms until the load event
+  error?: string;
+}
+
+// Screenshots of one URL at every viewport of a matrix test, in request order
+export interface ScreenshotMatrixResult {
+  entries: ScreenshotMatrixEntry[];
+  duration: number;
+}
+
+// One uploaded frame of a page load's screencast filmstrip
+export interface FilmstripFrame {
+  url: string;
+  timestamp: number; // ms after navigation start
+  visualProgress: number | null; // 0-100
+}
+
+export interface VisualProgressPoint {
+  timestamp: number; // ms after navigation start
+  progress: number; // 0-100
+}
+
+// Visual milestones in ms after navigation start; null if never reached
+export interface VisualMilestones {
+  firstVisualChange: number | null;
+  visuallyComplete85: number | null;
+  visuallyComplete95: number | null;
+  visuallyComplete99: number | null;
+  lastVisualChange: number | null;
+}
+
+export interface Filmstrip {
+  frames: FilmstripFrame[];
+  visualProgress: VisualProgressPoint[]; // Every distinct frame
+  milestones: VisualMilestones;
+  speedIndex: number | null; // ms; area above the visual progress curve
+  duration: number;
+  framesReceived: number;
+  distinctFrames: number;
+  truncated: boolean;
+}
+
+// Area left out of visual comparisons, in CSS pixels
+export interface VisualIgnoreRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Screenshot later tests of the same URL and device are compared with
+export interface VisualBaseline {
+  id: string;
+  url: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet';
+  testResultId: string;
+  screenshotUrl: string;
+  width: number;
+  height: number;
+  threshold: number; // 0-1 per-pixel colour difference
+  alertPercentage: number;
+  ignoreRegions: VisualIgnoreRegion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Pixel comparison of a test's full-page screenshot with its baseline
+export interface VisualDiffResult {
+  baselineId: string;
+  baselineTestId: string;
+  baselineScreenshot: string;
+  diffImage: string | null;
+  changedPixels: number;
+  totalPixels: number;
+  changedPercentage: number;
+  threshold: number;
+  alertPercentage: number;
+  changed: boolean; // changedPercentage exceeds alertPercentage
+  sizeMismatch: boolean;
+  comparedAt: string;
+}
+
+// Credentials sent with a schedule's captures; the API returns names only
+export interface CaptureAuthSummary {
+  headers: string[];
+  cookies: string[];
+  basicAuth: boolean;
+}
+
 export interface TestSchedule {
   id: string;
   name: string;
@@ -142,6 +521,7 @@ export interface TestSchedule {
   updatedAt?: string;
   runTime?: string; // Specific time to run (HH:mm format)
   timezone?: string;
+  auth?: CaptureAuthSummary;
   executionLogs?: {
     timestamp: string;
     status: 'success' | 'failed' | 'running';
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseSSEEvents, streamWithResume } from '../handleSSE.util';
+
+const streamOf = (chunks: string[], failAfter = false) => {
+  const encoder = new TextEncoder();
+  const pending = [...chunks];
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = pending.shift();
+      if (chunk !== undefined) {
+        controller.enqueue(encoder.encode(chunk));
+      } else if (failAfter) {
+        controller.error(new TypeError('network error'));
+      } else {
+        controller.close();
+      }
+    },
+  });
+};
+
+describe('parseSSEEvents', () => {
+  it('should parse complete events and keep the partial remainder', () => {
+    const { events, rest } = parseSSEEvents(
+      'id: 1\ndata: {"status":"STARTING"}\n\nid: 2\ndata: {"sta',
+    );
+
+    expect(events).toEqual([{ id: '1', data: '{"status":"STARTING"}' }]);
+    expect(rest).toBe('id: 2\ndata: {"sta');
+  });
+});
+
+describe('streamWithResume', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should reconnect with Last-Event-ID after the connection drops', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        body: streamOf(['id: 1\ndata: {"data":{"status":"JOB_STARTED"}}\n\n'], true),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        body: streamOf(['id: 2\ndata: {"data":{"status":"JOB_COMPLETED"}}\n\n']),
+      });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const statuses: string[] = [];
+    await streamWithResume('http://api/tests/jobs/job-1/events', {
+      retryDelayMs: 0,
+      onEvent: (parsed) => statuses.push((parsed as { data: { status: string } }).data.status),
+    });
+
+    expect(statuses).toEqual(['JOB_STARTED', 'JOB_COMPLETED']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].headers['Last-Event-ID']).toBe('1');
+  });
+
+  it('should refresh the access token once and resend the request on 401', async () => {
+    let token = 'expired';
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false, status: 401, body: null })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        body: streamOf(['id: 1\ndata: {"data":{"status":"JOB_COMPLETED"}}\n\n']),
+      });
+    vi.stubGlobal('fetch', fetchMock);
+    const refreshAuth = vi.fn(async () => {
+      token = 'fresh';
+    });
+
+    const onEvent = vi.fn();
+    await streamWithResume('http://api/tests/jobs/job-1/events', {
+      headers: () => ({ Authorization: `Bearer ${token}` }),
+      refreshAuth,
+      retryDelayMs: 0,
+      onEvent,
+    });
+
+    expect(refreshAuth).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer expired');
+    expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe('Bearer fresh');
+    expect(onEvent).toHaveBeenCalledWith({ data: { status: 'JOB_COMPLETED' } }, '1');
+  });
+
+  it('should give up when the request is still unauthorized after a refresh', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 401, body: null });
+    vi.stubGlobal('fetch', fetchMock);
+    const refreshAuth = vi.fn().mockResolvedValue(undefined);
+
+    await expect(
+      streamWithResume('http://api/tests/jobs/job-1/events', {
+        refreshAuth,
+        retryDelayMs: 0,
+        onEvent: vi.fn(),
+      }),
+    ).rejects.toThrow('401');
+    expect(refreshAuth).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry client errors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 404, body: null });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(
+      streamWithResume('http://api/tests/jobs/missing/events', {
+        retryDelayMs: 0,
+        onEvent: vi.fn(),
+      }),
+    ).rejects.toThrow('404');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
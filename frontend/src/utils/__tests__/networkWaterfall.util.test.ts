@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getWaterfallSegments } from '../networkWaterfall.util';
+import type { NetworkWaterfallEntry } from '@/types';
+
+const entry = (overrides: Partial<NetworkWaterfallEntry>) =>
+  ({
+    startTime: 100,
+    duration: 300,
+    timings: { blocked: 0, dns: 0, connect: 0, ssl: 0, send: 0, wait: 0, receive: 0 },
+    ...overrides,
+  }) as NetworkWaterfallEntry;
+
+describe('getWaterfallSegments', () => {
+  it('should lay the phases out one after another on the timeline', () => {
+    const segments = getWaterfallSegments(
+      entry({ timings: { blocked: 0, dns: 50, connect: 0, ssl: 0, send: 0, wait: 200, receive: 50 } }),
+      1000,
+    );
+
+    expect(segments).toEqual([
+      { label: 'DNS', color: 'bg-teal-500', left: 10, width: 5 },
+      { label: 'Waiting (TTFB)', color: 'bg-green-500', left: 15, width: 20 },
+      { label: 'Download', color: 'bg-blue-600', left: 35, width: 5 },
+    ]);
+  });
+
+  it('should draw one bar for requests without phase timings', () => {
+    expect(getWaterfallSegments(entry({}), 1000)).toEqual([
+      { label: 'Total', color: 'bg-gray-400', left: 10, width: 30 },
+    ]);
+  });
+});
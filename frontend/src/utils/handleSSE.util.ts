@@ -44,3 +44,116 @@ export interface ResultData {
   summary: Record<string, unknown>;
   timestamp: number;
 }
+
+export interface ParsedSSEEvent {
+  id?: string;
+  data: string;
+}
+
+/**
+ * Split buffered stream text into complete events. Returns the trailing
+ * partial event so it can be prefixed to the next chunk.
+ */
+export function parseSSEEvents(buffer: string): {
+  events: ParsedSSEEvent[];
+  rest: string;
+} {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events: ParsedSSEEvent[] = [];
+
+  for (const block of blocks) {
+    let id: string | undefined;
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('id:')) id = line.slice(3).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+
+    if (data.length > 0) events.push({ id, data: data.join('\n') });
+  }
+
+  return { events, rest };
+}
+
+export interface ResumableStreamOptions {
+  headers?: Record<string, string> | (() => Record<string, string>); // A function is called per connection
+  lastEventId?: string;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  signal?: AbortSignal;
+  refreshAuth?: () => Promise<unknown>; // Called on a 401 before the request is sent again
+  onEvent: (data: unknown, id?: string) => void;
+}
+
+/**
+ * Read a server-sent event stream over fetch, so auth headers can be sent.
+ * When the connection drops, reconnect with Last-Event-ID so the server
+ * replays the events missed in between. A request rejected with 401 is
+ * sent once more after refreshAuth. Resolves when the server ends the
+ * stream.
+ */
+export async function streamWithResume(
+  url: string,
+  options: ResumableStreamOptions,
+): Promise<void> {
+  const { maxRetries = 5, retryDelayMs = 1000, signal, refreshAuth, onEvent } = options;
+  let lastEventId = options.lastEventId;
+  let retries = 0;
+  let refreshed = false;
+
+  while (true) {
+    try {
+      const headers = typeof options.headers === 'function' ? options.headers() : options.headers;
+      const response = await fetch(url, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...headers,
+          ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+        },
+        signal,
+      });
+
+      // The access token expired while the test was running
+      if (response.status === 401 && refreshAuth && !refreshed) {
+        refreshed = true;
+        await refreshAuth();
+        continue;
+      }
+
+      if (!response.ok || !response.body) {
+        const error = new Error(`Stream request failed with status ${response.status}`);
+        // Client errors will not succeed on retry
+        if (response.status >= 400 && response.status < 500) {
+          retries = maxRetries;
+        }
+        throw error;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+
+        buffer += decoder.decode(value, { stream: true });
+        const { events, rest } = parseSSEEvents(buffer);
+        buffer = rest;
+
+        for (const event of events) {
+          if (event.id) lastEventId = event.id;
+          retries = 0;
+          onEvent(JSON.parse(event.data), event.id);
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      if (++retries > maxRetries) throw error;
+
+      await new Promise((resolve) => setTimeout(resolve, retryDelayMs * retries));
+    }
+  }
+}
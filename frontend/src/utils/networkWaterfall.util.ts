@@ -0,0 +1,32 @@
+import type { NetworkTimingPhases, NetworkWaterfallEntry } from '@/types';
+
+// TLS is not a separate bar: the connect phase already includes the handshake
+export const WATERFALL_PHASES: Array<{ key: keyof NetworkTimingPhases; label: string; color: string }> = [
+  { key: 'blocked', label: 'Queued', color: 'bg-gray-300' },
+  { key: 'dns', label: 'DNS', color: 'bg-teal-500' },
+  { key: 'connect', label: 'Connect', color: 'bg-orange-400' },
+  { key: 'send', label: 'Send', color: 'bg-blue-300' },
+  { key: 'wait', label: 'Waiting (TTFB)', color: 'bg-green-500' },
+  { key: 'receive', label: 'Download', color: 'bg-blue-600' },
+];
+
+/**
+ * Position the phases of a request on a timeline spanning `total` ms, as
+ * percentages. Requests without phase timings (cache hits, failures) get a
+ * single bar for their whole duration.
+ */
+export const getWaterfallSegments = (entry: NetworkWaterfallEntry, total: number) => {
+  const scale = (ms: number) => (total > 0 ? (ms / total) * 100 : 0);
+  const phases = WATERFALL_PHASES.filter(({ key }) => entry.timings[key] > 0);
+
+  if (phases.length === 0) {
+    return [{ label: 'Total', color: 'bg-gray-400', left: scale(entry.startTime), width: scale(entry.duration) }];
+  }
+
+  let offset = entry.startTime;
+  return phases.map(({ key, label, color }) => {
+    const segment = { label, color, left: scale(offset), width: scale(entry.timings[key]) };
+    offset += entry.timings[key];
+    return segment;
+  });
+};